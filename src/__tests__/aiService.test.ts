@@ -0,0 +1,176 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { AIService } from '../services/aiService';
+import { AIServiceError } from '../errors';
+import { AIMessageRequest } from '../types';
+
+/**
+ * AI service tests
+ * Runs the OpenAI integration against a local OpenAI-compatible stub server
+ */
+
+describe('AIService OpenAI integration', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requestBodies: any[];
+  let stubResponse: { status: number; body: unknown; delayMs?: number };
+
+  const request: AIMessageRequest = {
+    delayMinutes: 45,
+    route: { origin: 'New York, NY', destination: 'Philadelphia, PA' },
+    trafficCondition: 'heavy',
+  };
+
+  const createService = (timeoutMs = 2000) =>
+    new AIService({
+      apiKey: 'test-key',
+      baseUrl,
+      model: 'gpt-test',
+      temperature: 0.2,
+      maxTokens: 120,
+      timeoutMs,
+    });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requestBodies.push({ url: req.url, ...JSON.parse(body || '{}') });
+        setTimeout(() => {
+          res.writeHead(stubResponse.status, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify(stubResponse.body));
+        }, stubResponse.delayMs ?? 0);
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    requestBodies = [];
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  test('should send the configured model settings and return token usage', async () => {
+    stubResponse = {
+      status: 200,
+      body: {
+        id: 'chatcmpl-1',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-test',
+        choices: [
+          {
+            index: 0,
+            finish_reason: 'stop',
+            message: { role: 'assistant', content: '  Your delivery is running late.  ' },
+          },
+        ],
+        usage: { prompt_tokens: 150, completion_tokens: 30, total_tokens: 180 },
+      },
+    };
+
+    const response = await createService().generateDelayMessage(request);
+
+    expect(requestBodies[0].url).toBe('/v1/chat/completions');
+    expect(requestBodies[0].model).toBe('gpt-test');
+    expect(requestBodies[0].temperature).toBe(0.2);
+    expect(requestBodies[0].max_tokens).toBe(120);
+    expect(requestBodies[0].messages[1].content).toContain('New York, NY to Philadelphia, PA');
+    expect(response).toEqual({
+      message: 'Your delivery is running late.',
+      success: true,
+      usage: { promptTokens: 150, completionTokens: 30, totalTokens: 180 },
+    });
+  });
+
+  test("should write and sign messages on the tenant's behalf", async () => {
+    stubResponse = {
+      status: 200,
+      body: {
+        id: 'chatcmpl-2',
+        object: 'chat.completion',
+        created: 0,
+        model: 'gpt-test',
+        choices: [
+          {
+            index: 0,
+            finish_reason: 'stop',
+            message: { role: 'assistant', content: 'Your delivery is running late.' },
+          },
+        ],
+      },
+    };
+    const tenantRequest = {
+      ...request,
+      sender: { name: 'Acme Logistics', signature: 'Acme Dispatch' },
+    };
+
+    await createService().generateDelayMessage(tenantRequest);
+
+    expect(requestBodies[0].messages[0].content).toContain('Acme Logistics');
+    expect(requestBodies[0].messages[1].content).toContain('Sign the message as "Acme Dispatch"');
+    expect(createService().getFallbackMessage(tenantRequest)).toMatch(/\nAcme Dispatch$/);
+    expect(createService().getFallbackMessage(request)).toMatch(/\nFreight Delivery Team$/);
+  });
+
+  test('should throw a retryable error on 429 rate limits', async () => {
+    stubResponse = {
+      status: 429,
+      body: {
+        error: { message: 'Rate limit reached', type: 'requests', code: 'rate_limit_exceeded' },
+      },
+    };
+
+    const error = await createService()
+      .generateDelayMessage(request)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AIServiceError);
+    expect(error.code).toBe('RATE_LIMITED');
+    expect(error.retryable).toBe(true);
+  });
+
+  test('should throw a retryable error on timeouts', async () => {
+    stubResponse = { status: 200, body: {}, delayMs: 500 };
+
+    const error = await createService(100)
+      .generateDelayMessage(request)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(AIServiceError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.retryable).toBe(true);
+  });
+
+  test('should fall back to a template on non-retryable errors', async () => {
+    stubResponse = {
+      status: 401,
+      body: { error: { message: 'Incorrect API key provided', type: 'invalid_request_error' } },
+    };
+
+    const response = await createService().generateDelayMessage(request);
+
+    expect(response.success).toBe(false);
+    expect(response.error).toContain('Incorrect API key provided');
+    expect(response.message).toContain('New York, NY to Philadelphia, PA');
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,422 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  Client,
+  WorkflowExecutionAlreadyStartedError,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
+import { createApiHandler } from '../api/routes';
+import {
+  validateDelayNotificationInput,
+  validateDeliveryMonitoringInput,
+  validateManualDelayReport,
+} from '../api/validation';
+import { ShipmentWorkflowService } from '../services/shipmentWorkflowService';
+import { DelayNotificationInput } from '../types';
+
+/**
+ * HTTP API tests
+ * Covers request validation, structured errors and the routes against a stubbed Temporal client
+ */
+
+const input: DelayNotificationInput = {
+  route: { origin: 'New York, NY', destination: 'Boston, MA', waypoints: ['Hartford, CT'] },
+  customerEmail: 'customer@example.com',
+  customerPhone: '+15551234567',
+  delayThresholdMinutes: 30,
+  expectedArrivalTime: '2026-10-19T21:00:00.000Z',
+  customerTier: 'gold',
+  deliveryAppointment: { start: '2026-10-19T20:00:00.000Z', end: '2026-10-19T22:00:00.000Z' },
+  quietHours: { start: '22:00', end: '07:00' },
+  recipients: [{ name: 'Receiving dock', customerEmail: 'dock@example.com', channels: ['sms'] }],
+};
+
+describe('Request validation', () => {
+  test('should accept a valid delay notification input', () => {
+    expect(validateDelayNotificationInput(input)).toEqual([]);
+  });
+
+  test('should report every invalid field with its path', () => {
+    const issues = validateDelayNotificationInput({
+      route: { origin: 'New York, NY' },
+      customerEmail: 'not-an-email',
+      customerPhone: '555-1234',
+      delayThresholdMinutes: '30',
+      quietHours: { start: '25:00', end: '07:00' },
+      recipients: [{ customerEmail: 'dock@example.com', channels: ['fax'] }],
+      delayTreshold: 30,
+    });
+
+    expect(issues.map(issue => issue.field)).toEqual([
+      'delayTreshold',
+      'route.destination',
+      'customerEmail',
+      'customerPhone',
+      'delayThresholdMinutes',
+      'quietHours.start',
+      'recipients[0].channels',
+    ]);
+    expect(issues[6].message).toContain('fax');
+  });
+
+  test('should require a complete delivery appointment window', () => {
+    const appointment = (deliveryAppointment: unknown) =>
+      validateDelayNotificationInput({ ...input, deliveryAppointment }).map(issue => issue.field);
+
+    expect(appointment({ start: '2026-10-19T20:00:00.000Z' })).toEqual(['deliveryAppointment.end']);
+    expect(appointment({ start: '2026-10-19T20:00:00.000Z', end: 'tonight' })).toEqual([
+      'deliveryAppointment.end',
+    ]);
+    expect(
+      appointment({ start: '2026-10-19T22:00:00.000Z', end: '2026-10-19T20:00:00.000Z' })
+    ).toEqual(['deliveryAppointment.end']);
+  });
+
+  test('should require a workflow ID safe shipment ID with the shipment references', () => {
+    expect(
+      validateDelayNotificationInput({
+        ...input,
+        shipment: { shipmentId: 'DEMO-1001', proNumber: '0123456789', carrier: 'ODFL' },
+      })
+    ).toEqual([]);
+    expect(
+      validateDelayNotificationInput({
+        ...input,
+        shipment: { shipmentId: 'DEMO 1001/A', bolNumber: '', scac: 'ODFL' },
+      }).map(issue => issue.field)
+    ).toEqual(['shipment.scac', 'shipment.shipmentId', 'shipment.bolNumber']);
+  });
+
+  test('should require the planned arrival and polling interval for monitoring', () => {
+    const { expectedArrivalTime: _expectedArrivalTime, ...withoutArrival } = input;
+
+    expect(validateDeliveryMonitoringInput({ ...input, pollIntervalMinutes: 15 })).toEqual([]);
+    expect(validateDeliveryMonitoringInput(withoutArrival).map(issue => issue.field)).toEqual([
+      'expectedArrivalTime',
+      'pollIntervalMinutes',
+    ]);
+    expect(validateDelayNotificationInput({ ...input, pollIntervalMinutes: 15 })).toEqual([
+      { field: 'pollIntervalMinutes', message: 'is not a known field' },
+    ]);
+  });
+
+  test('should validate manual delay reports', () => {
+    expect(validateManualDelayReport({ delayMinutes: 60, reason: 'Truck breakdown' })).toEqual([]);
+    expect(validateManualDelayReport({ delayMinutes: -5 }).map(issue => issue.field)).toEqual([
+      'delayMinutes',
+      'reason',
+    ]);
+    expect(validateManualDelayReport([])).toEqual([
+      { field: '', message: 'must be a JSON object' },
+    ]);
+  });
+});
+
+describe('Shipment workflow API', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const handle = {
+    describe: jest.fn(),
+    query: jest.fn(),
+    result: jest.fn(),
+    signal: jest.fn(),
+    cancel: jest.fn(),
+  };
+  const client = {
+    workflow: {
+      start: jest.fn(),
+      getHandle: jest.fn(() => handle),
+      list: jest.fn(),
+    },
+  };
+
+  const request = async (method: string, path: string, body?: unknown) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json' },
+      body: typeof body === 'string' ? body : JSON.stringify(body),
+    });
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: (await response.json()) as any,
+    };
+  };
+
+  const describeAs = (status: string) =>
+    handle.describe.mockResolvedValue({
+      type: 'freightDelayMonitoringWorkflow',
+      runId: 'run-1',
+      status: { name: status },
+      startTime: new Date('2026-10-19T12:00:00.000Z'),
+      closeTime: status === 'RUNNING' ? undefined : new Date('2026-10-19T12:05:00.000Z'),
+    });
+
+  beforeAll(done => {
+    const service = new ShipmentWorkflowService(client as unknown as Client, 'test-queue');
+    server = http.createServer(createApiHandler(service));
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  test('should start a delay check on the worker task queue', async () => {
+    client.workflow.start.mockResolvedValue({ firstExecutionRunId: 'run-1' });
+
+    const response = await request('POST', '/shipments/delay-checks', input);
+
+    expect(response.status).toBe(202);
+    expect(response.body).toMatchObject({
+      runId: 'run-1',
+      type: 'freightDelayNotificationWorkflow',
+    });
+    expect(response.body.workflowId).toMatch(/^freight-delay-/);
+    expect(response.headers.get('location')).toBe(`/workflows/${response.body.workflowId}`);
+    expect(client.workflow.start).toHaveBeenCalledWith('freightDelayNotificationWorkflow', {
+      args: [input],
+      taskQueue: 'test-queue',
+      workflowId: response.body.workflowId,
+    });
+  });
+
+  test('should derive the workflow ID from the shipment ID and handle duplicates', async () => {
+    const shipmentInput = { ...input, shipment: { shipmentId: 'DEMO-1001' } };
+    client.workflow.start.mockRejectedValue(
+      new WorkflowExecutionAlreadyStartedError(
+        'Workflow execution already started',
+        'freight-delay-DEMO-1001',
+        'freightDelayNotificationWorkflow'
+      )
+    );
+    handle.describe.mockResolvedValue({ runId: 'run-1', status: { name: 'RUNNING' } });
+
+    const rejected = await request('POST', '/shipments/delay-checks', shipmentInput);
+    expect(rejected.status).toBe(409);
+    expect(rejected.body.error.code).toBe('WORKFLOW_ALREADY_STARTED');
+    expect(client.workflow.start).toHaveBeenCalledWith(
+      'freightDelayNotificationWorkflow',
+      expect.objectContaining({ workflowId: 'freight-delay-DEMO-1001' })
+    );
+
+    const existing = await request(
+      'POST',
+      '/shipments/delay-checks?ifExists=return-existing',
+      shipmentInput
+    );
+    expect(existing.status).toBe(200);
+    expect(existing.body).toEqual({
+      workflowId: 'freight-delay-DEMO-1001',
+      runId: 'run-1',
+      type: 'freightDelayNotificationWorkflow',
+      existing: true,
+      statusUrl: '/workflows/freight-delay-DEMO-1001',
+    });
+
+    const invalid = await request('POST', '/shipments/delay-checks?ifExists=replace', input);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error.details).toEqual([
+      { field: 'ifExists', message: 'must be one of reject, return-existing' },
+    ]);
+  });
+
+  test('should reject invalid bodies with structured errors', async () => {
+    const invalid = await request('POST', '/shipments/monitors', input);
+    expect(invalid.status).toBe(400);
+    expect(invalid.body.error).toMatchObject({
+      code: 'VALIDATION_ERROR',
+      details: [{ field: 'pollIntervalMinutes', message: 'is required and must be a number' }],
+    });
+
+    const notJson = await request('POST', '/shipments/delay-checks', '{"route":');
+    expect(notJson.status).toBe(400);
+    expect(notJson.body.error.code).toBe('INVALID_JSON');
+
+    const unknownRoute = await request('GET', '/shipments');
+    expect(unknownRoute.status).toBe(404);
+    expect(unknownRoute.body.error.code).toBe('NOT_FOUND');
+
+    const wrongMethod = await request('DELETE', '/workflows/freight-delay-1');
+    expect(wrongMethod.status).toBe(405);
+    expect(client.workflow.start).not.toHaveBeenCalled();
+  });
+
+  test('should report the status of a running workflow from its queries', async () => {
+    describeAs('RUNNING');
+    handle.query
+      .mockResolvedValueOnce('Step 1: Checking Traffic')
+      .mockResolvedValueOnce(undefined)
+      .mockResolvedValueOnce([]);
+
+    const response = await request('GET', '/workflows/freight-monitoring-1');
+
+    expect(response.status).toBe(200);
+    expect(response.body).toEqual({
+      workflowId: 'freight-monitoring-1',
+      runId: 'run-1',
+      type: 'freightDelayMonitoringWorkflow',
+      status: 'RUNNING',
+      startTime: '2026-10-19T12:00:00.000Z',
+      currentStep: 'Step 1: Checking Traffic',
+      notifications: [],
+    });
+    expect(handle.result).not.toHaveBeenCalled();
+  });
+
+  test('should report the progress of a running manifest workflow', async () => {
+    handle.describe.mockResolvedValue({
+      type: 'freightManifestWorkflow',
+      runId: 'run-1',
+      status: { name: 'RUNNING' },
+      startTime: new Date('2026-10-19T06:00:00.000Z'),
+    });
+    const summary = {
+      total: 1,
+      pending: 0,
+      running: 1,
+      completed: 0,
+      delayed: 0,
+      notified: 0,
+      failed: 0,
+      shipments: [{ key: 'shipment-1', status: 'running', attempts: 1 }],
+    };
+    handle.query.mockResolvedValueOnce(summary);
+
+    const response = await request('GET', '/workflows/freight-manifest-1');
+
+    expect(response.body).toMatchObject({ status: 'RUNNING', manifest: summary });
+    expect(handle.query).toHaveBeenCalledTimes(1);
+    expect(handle.query).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'getManifestSummary' })
+    );
+  });
+
+  test('should report the result of a completed workflow', async () => {
+    describeAs('COMPLETED');
+    handle.result.mockResolvedValue({
+      delayDetected: false,
+      delayMinutes: 5,
+      notificationSent: false,
+    });
+
+    const response = await request('GET', '/workflows/freight-delay-1');
+
+    expect(response.body).toMatchObject({
+      status: 'COMPLETED',
+      closeTime: '2026-10-19T12:05:00.000Z',
+      result: { delayDetected: false, delayMinutes: 5 },
+    });
+    expect(handle.query).not.toHaveBeenCalled();
+  });
+
+  test('should signal and cancel running workflows only', async () => {
+    describeAs('RUNNING');
+    const report = { delayMinutes: 60, reason: 'Truck breakdown', reportedBy: 'dispatch' };
+
+    const manualDelay = await request(
+      'POST',
+      '/workflows/freight-monitoring-1/manual-delay',
+      report
+    );
+    expect(manualDelay.status).toBe(202);
+    expect(handle.signal).toHaveBeenCalledWith(
+      expect.objectContaining({ name: 'reportManualDelay' }),
+      report
+    );
+
+    const delivered = await request('POST', '/workflows/freight-monitoring-1/delivered');
+    expect(delivered.status).toBe(202);
+    expect(handle.signal).toHaveBeenLastCalledWith(
+      expect.objectContaining({ name: 'markDelivered' })
+    );
+
+    const cancelled = await request('POST', '/workflows/freight-monitoring-1/cancel');
+    expect(cancelled.body).toEqual({
+      workflowId: 'freight-monitoring-1',
+      cancellationRequested: true,
+    });
+    expect(handle.cancel).toHaveBeenCalledTimes(1);
+
+    describeAs('COMPLETED');
+    const closed = await request('POST', '/workflows/freight-monitoring-1/delivered');
+    expect(closed.status).toBe(409);
+    expect(closed.body.error.code).toBe('WORKFLOW_NOT_RUNNING');
+    expect(handle.signal).toHaveBeenCalledTimes(2);
+  });
+
+  test('should list running shipment workflows up to the limit', async () => {
+    const execution = (workflowId: string) => ({
+      workflowId,
+      runId: 'run-1',
+      type: 'freightDelayMonitoringWorkflow',
+      status: { name: 'RUNNING' },
+      startTime: new Date('2026-10-19T12:00:00.000Z'),
+    });
+    client.workflow.list.mockImplementation(async function* () {
+      yield execution('freight-monitoring-2');
+      yield execution('freight-monitoring-1');
+    });
+    const service = new ShipmentWorkflowService(client as unknown as Client, 'test-queue');
+
+    const workflows = await service.list({ limit: 1 });
+
+    expect(workflows).toEqual([
+      {
+        workflowId: 'freight-monitoring-2',
+        runId: 'run-1',
+        type: 'freightDelayMonitoringWorkflow',
+        status: 'RUNNING',
+        startTime: '2026-10-19T12:00:00.000Z',
+      },
+    ]);
+    expect(client.workflow.list).toHaveBeenCalledWith({
+      query:
+        "WorkflowType IN ('freightDelayNotificationWorkflow', 'freightDelayMonitoringWorkflow', 'freightManifestWorkflow') AND ExecutionStatus = 'Running'",
+    });
+  });
+
+  test('should answer unknown workflows with 404', async () => {
+    handle.describe.mockRejectedValue(
+      new WorkflowNotFoundError('workflow not found', 'freight-delay-404', undefined)
+    );
+
+    const response = await request('GET', '/workflows/freight-delay-404');
+
+    expect(response.status).toBe(404);
+    expect(response.body).toEqual({
+      error: { code: 'WORKFLOW_NOT_FOUND', message: 'Workflow freight-delay-404 not found' },
+    });
+  });
+
+  test('should hide the details of unexpected errors', async () => {
+    handle.describe.mockRejectedValue(new Error('14 UNAVAILABLE: connect ECONNREFUSED'));
+
+    const response = await request('GET', '/workflows/freight-delay-1');
+
+    expect(response.status).toBe(500);
+    expect(response.body).toEqual({
+      error: { code: 'INTERNAL_ERROR', message: 'Internal server error' },
+    });
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { AuditLogService } from '../services/auditLogService';
+import { MemoryAuditStore, SqliteAuditStore } from '../services/auditStores';
+import { NotificationAuditStore, NotificationRequest, TrafficData } from '../types';
+
+/**
+ * Notification audit log tests
+ * Covers recording sent notifications and looking them up by shipment and customer
+ */
+
+const trafficData: TrafficData = {
+  estimatedDelayMinutes: 45,
+  normalDurationMinutes: 120,
+  currentDurationMinutes: 165,
+  trafficCondition: 'heavy',
+  legs: [],
+  route: { origin: 'New York, NY', destination: 'Boston, MA' },
+  provider: 'google',
+  source: 'live',
+  confidence: 0.9,
+};
+
+const request: NotificationRequest = {
+  customerEmail: 'Customer@Example.com',
+  customerPhone: '+15551234567',
+  subject: 'Delivery Delay Notice - 45 minutes',
+  message: 'Your delivery is delayed by 45 minutes.',
+  delayMinutes: 45,
+  shipmentId: 'freight-delay-1',
+  trafficData,
+};
+
+describe.each([
+  ['SqliteAuditStore', () => new SqliteAuditStore(':memory:')],
+  ['MemoryAuditStore', () => new MemoryAuditStore()],
+])('AuditLogService with %s', (_name, createStore: () => NotificationAuditStore) => {
+  let auditLogService: AuditLogService;
+
+  beforeEach(() => {
+    auditLogService = new AuditLogService(createStore());
+  });
+
+  test('should record what was sent, to whom and based on which traffic data', async () => {
+    await auditLogService.recordNotification(
+      'email',
+      request,
+      { success: true, messageId: 'sg-1' },
+      request.message
+    );
+    await auditLogService.recordNotification(
+      'sms',
+      request,
+      { success: true, messageId: 'SM1' },
+      'Delayed 45 min'
+    );
+
+    const [sms, email] = await auditLogService.findNotifications({ shipmentId: 'freight-delay-1' });
+
+    expect(email).toMatchObject({
+      shipmentId: 'freight-delay-1',
+      customerEmail: 'Customer@Example.com',
+      recipient: 'Customer@Example.com',
+      channel: 'email',
+      kind: 'delay',
+      subject: 'Delivery Delay Notice - 45 minutes',
+      body: 'Your delivery is delayed by 45 minutes.',
+      messageId: 'sg-1',
+      trafficData,
+    });
+    expect(sms).toMatchObject({
+      recipient: '+15551234567',
+      channel: 'sms',
+      body: 'Delayed 45 min',
+    });
+    expect(Date.parse(sms.sentAt)).not.toBeNaN();
+  });
+
+  test('should look up notifications by customer, most recent first', async () => {
+    await auditLogService.recordNotification('email', request, { success: true }, 'First');
+    await auditLogService.recordNotification(
+      'email',
+      { ...request, customerEmail: 'other@example.com' },
+      { success: true },
+      'Other'
+    );
+    await auditLogService.recordNotification(
+      'email',
+      { ...request, shipmentId: 'freight-delay-2' },
+      { success: true },
+      'Second'
+    );
+
+    const records = await auditLogService.findNotifications({
+      customerEmail: 'customer@example.com',
+    });
+    expect(records.map(record => record.body)).toEqual(['Second', 'First']);
+
+    const latest = await auditLogService.findNotifications({
+      customerEmail: 'customer@example.com',
+      limit: 1,
+    });
+    expect(latest.map(record => record.body)).toEqual(['Second']);
+  });
+
+  test('should record webhook events that could not be delivered', async () => {
+    const webhookRequest = { ...request, webhookUrl: 'https://tms.example.com/events' };
+    await auditLogService.recordDeadLetter(
+      webhookRequest,
+      'evt_1',
+      '{"version":"1"}',
+      'Webhook https://tms.example.com/events responded with 503'
+    );
+
+    const [deadLetter] = await auditLogService.findDeadLetters({ shipmentId: 'freight-delay-1' });
+    expect(deadLetter).toMatchObject({
+      customerEmail: 'Customer@Example.com',
+      url: 'https://tms.example.com/events',
+      eventId: 'evt_1',
+      payload: '{"version":"1"}',
+      error: 'Webhook https://tms.example.com/events responded with 503',
+    });
+    expect(await auditLogService.findNotifications({ shipmentId: 'freight-delay-1' })).toEqual([]);
+  });
+
+  test('should look up notifications and delivery events by message ID', async () => {
+    await auditLogService.recordNotification(
+      'email',
+      request,
+      { success: true, messageId: 'sg-1' },
+      'First'
+    );
+    await auditLogService.recordNotification(
+      'email',
+      request,
+      { success: true, messageId: 'sg-2' },
+      'Second'
+    );
+    await auditLogService.recordDeliveryEvent({
+      shipmentId: 'freight-delay-1',
+      customerEmail: 'Customer@Example.com',
+      email: 'Customer@Example.com',
+      messageId: 'sg-1',
+      event: 'bounce',
+      reason: '550 5.1.1 The email account does not exist',
+      eventId: 'event-1',
+      occurredAt: '2026-10-19T12:00:00.000Z',
+      receivedAt: '2026-10-19T12:00:05.000Z',
+    });
+
+    const [notification] = await auditLogService.findNotifications({ messageId: 'sg-1' });
+    expect(notification.body).toBe('First');
+
+    const [deliveryEvent] = await auditLogService.findDeliveryEvents({
+      customerEmail: 'customer@example.com',
+    });
+    expect(deliveryEvent).toMatchObject({
+      messageId: 'sg-1',
+      event: 'bounce',
+      reason: '550 5.1.1 The email account does not exist',
+      eventId: 'event-1',
+    });
+    expect(await auditLogService.findDeliveryEvents({ messageId: 'sg-2' })).toEqual([]);
+    expect(await auditLogService.findDeadLetters({ messageId: 'sg-1' })).toEqual([]);
+  });
+});
+
+describe('SqliteAuditStore', () => {
+  test('should keep records in the database file and reject changes to them', async () => {
+    const databaseFile = path.join(os.tmpdir(), `notification-audit-${Date.now()}.db`);
+    const store = new SqliteAuditStore(databaseFile);
+    try {
+      await new AuditLogService(store).recordNotification(
+        'email',
+        request,
+        { success: true },
+        'Body'
+      );
+      store.close();
+
+      const reopened = new SqliteAuditStore(databaseFile);
+      const [record] = await reopened.find({ shipmentId: 'freight-delay-1' });
+      expect(record.body).toBe('Body');
+
+      const database = (reopened as any).getDatabase();
+      expect(() => database.prepare('DELETE FROM notification_audit').run()).toThrow(/append-only/);
+      expect(() => database.prepare("UPDATE notification_audit SET body = ''").run()).toThrow(
+        /append-only/
+      );
+      reopened.close();
+    } finally {
+      for (const suffix of ['', '-wal', '-shm']) {
+        fs.rmSync(`${databaseFile}${suffix}`, { force: true });
+      }
+    }
+  });
+  test('should add the workflow ID to audit logs created without it', async () => {
+    const databaseFile = path.join(os.tmpdir(), `notification-audit-${Date.now()}-old.db`);
+    const oldDatabase = new Database(databaseFile);
+    oldDatabase.exec(`CREATE TABLE notification_audit (
+      id INTEGER PRIMARY KEY AUTOINCREMENT, shipment_id TEXT NOT NULL,
+      customer_email TEXT NOT NULL, recipient TEXT NOT NULL, channel TEXT NOT NULL,
+      kind TEXT NOT NULL, subject TEXT NOT NULL, body TEXT NOT NULL, message_id TEXT,
+      traffic_data TEXT, sent_at TEXT NOT NULL
+    )`);
+    oldDatabase.close();
+
+    const store = new SqliteAuditStore(databaseFile);
+    try {
+      await new AuditLogService(store).recordNotification(
+        'email',
+        { ...request, shipmentId: 'DEMO-1001', correlationId: 'freight-delay-DEMO-1001' },
+        { success: true },
+        'Body'
+      );
+
+      const [record] = await store.find({ shipmentId: 'DEMO-1001' });
+      expect(record.workflowId).toBe('freight-delay-DEMO-1001');
+      store.close();
+    } finally {
+      for (const suffix of ['', '-wal', '-shm']) {
+        fs.rmSync(`${databaseFile}${suffix}`, { force: true });
+      }
+    }
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
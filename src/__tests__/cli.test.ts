@@ -0,0 +1,413 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../cli/commands';
+import { parseManifest } from '../cli/manifest';
+import { ShipmentWorkflowError } from '../errors';
+import { ShipmentWorkflowService } from '../services/shipmentWorkflowService';
+
+/**
+ * Operator CLI tests
+ * Covers manifest parsing and the commands against a stubbed shipment workflow service
+ */
+
+describe('Manifest parsing', () => {
+  test('should parse CSV rows with quoted cells into workflow inputs', () => {
+    const csv = [
+      'origin,destination,waypoints,customerEmail,delayThresholdMinutes,locale',
+      '"New York, NY","Boston, MA","Hartford, CT; Providence, RI",ops@acme.com,45,de',
+      '',
+      '"Chicago, IL","Detroit, MI",,"dock@acme.com",abc,',
+    ].join('\r\n');
+
+    expect(parseManifest(csv, 'csv')).toEqual([
+      {
+        label: 'line 2',
+        input: {
+          route: {
+            origin: 'New York, NY',
+            destination: 'Boston, MA',
+            waypoints: ['Hartford, CT', 'Providence, RI'],
+          },
+          customerEmail: 'ops@acme.com',
+          delayThresholdMinutes: 45,
+          locale: 'de',
+        },
+      },
+      {
+        label: 'line 4',
+        input: {
+          route: { origin: 'Chicago, IL', destination: 'Detroit, MI' },
+          customerEmail: 'dock@acme.com',
+          delayThresholdMinutes: 'abc',
+        },
+      },
+    ]);
+  });
+
+  test('should nest the shipment columns of a CSV manifest', () => {
+    const csv = [
+      'shipmentId,proNumber,carrier,origin,destination,customerEmail',
+      'DEMO-1001,0123456789,ODFL,"New York, NY","Boston, MA",ops@acme.com',
+    ].join('\n');
+
+    expect(parseManifest(csv, 'csv')[0].input).toEqual({
+      route: { origin: 'New York, NY', destination: 'Boston, MA' },
+      shipment: { shipmentId: 'DEMO-1001', proNumber: '0123456789', carrier: 'ODFL' },
+      customerEmail: 'ops@acme.com',
+    });
+  });
+
+  test('should reject manifests that cannot be parsed', () => {
+    expect(() => parseManifest('origin,destination\n"New York, NY,Boston', 'csv')).toThrow(
+      'line 2: quoted cell is not closed'
+    );
+    expect(() => parseManifest('origin\nBoston,Hartford', 'csv')).toThrow(
+      'line 2: has 2 cells but the header has 1'
+    );
+    expect(() => parseManifest('{"route": {}}', 'json')).toThrow(
+      'JSON manifest must be an array of shipments'
+    );
+  });
+});
+
+describe('Operator CLI', () => {
+  const service = {
+    startDelayCheck: jest.fn(),
+    startMonitoring: jest.fn(),
+    getStatus: jest.fn(),
+    list: jest.fn(),
+    cancel: jest.fn(),
+    terminate: jest.fn(),
+    startManifest: jest.fn(),
+    retryManifestShipments: jest.fn(),
+  };
+  const connect = jest.fn(async () => service as unknown as ShipmentWorkflowService);
+  let stdout: string[];
+  let stderr: string[];
+  let tempDir: string;
+
+  const run = (...argv: string[]) =>
+    runCli(argv, connect, {
+      log: line => stdout.push(line),
+      error: line => stderr.push(line),
+    });
+
+  const writeManifest = (name: string, content: string) => {
+    const file = path.join(tempDir, name);
+    fs.writeFileSync(file, content);
+    return file;
+  };
+
+  beforeAll(() => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'freight-cli-'));
+  });
+
+  afterAll(() => {
+    fs.rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    stdout = [];
+    stderr = [];
+  });
+
+  test('should start monitoring for a route given as flags', async () => {
+    service.startMonitoring.mockResolvedValue({
+      workflowId: 'freight-monitoring-1',
+      runId: 'run-1',
+      type: 'freightDelayMonitoringWorkflow',
+    });
+
+    const exitCode = await run(
+      'start',
+      '--origin',
+      'New York, NY',
+      '--destination',
+      'Boston, MA',
+      '--waypoint',
+      'Hartford, CT',
+      '--email',
+      'ops@acme.com',
+      '--eta',
+      '2026-10-19T21:00:00.000Z',
+      '--monitor',
+      '--poll',
+      '30',
+      '--json'
+    );
+
+    expect(exitCode).toBe(0);
+    expect(service.startMonitoring).toHaveBeenCalledWith(
+      {
+        route: { origin: 'New York, NY', destination: 'Boston, MA', waypoints: ['Hartford, CT'] },
+        customerEmail: 'ops@acme.com',
+        expectedArrivalTime: '2026-10-19T21:00:00.000Z',
+        pollIntervalMinutes: 30,
+      },
+      'reject'
+    );
+    expect(JSON.parse(stdout.join('\n'))).toEqual({
+      workflowId: 'freight-monitoring-1',
+      runId: 'run-1',
+      type: 'freightDelayMonitoringWorkflow',
+    });
+  });
+
+  test('should report usage and validation errors without starting anything', async () => {
+    expect(await run('status')).toBe(2);
+    expect(stderr[0]).toMatch(/^Error: Expected <workflowId>\nUsage: npm run cli -- status/);
+    expect(await run('list', '--verbose')).toBe(2);
+    expect(await run('restart', 'freight-delay-1')).toBe(2);
+    expect(connect).not.toHaveBeenCalled();
+
+    stdout = [];
+    expect(await run('start', '--origin', 'New York, NY', '--email', 'ops', '--json')).toBe(1);
+    expect(JSON.parse(stdout.join('\n'))).toEqual({
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Shipment is invalid',
+        details: [
+          { field: 'route.destination', message: 'is required and must be a non-empty string' },
+          { field: 'customerEmail', message: 'is required and must be an email address' },
+        ],
+      },
+    });
+    expect(service.startDelayCheck).not.toHaveBeenCalled();
+  });
+
+  test('should start a shipment once and report a running one with --if-exists', async () => {
+    service.startDelayCheck.mockResolvedValue({
+      workflowId: 'freight-delay-DEMO-1001',
+      runId: 'run-1',
+      type: 'freightDelayNotificationWorkflow',
+      existing: true,
+    });
+    const args = ['--origin', 'New York, NY', '--destination', 'Boston, MA', '--email', 'a@b.co'];
+
+    expect(
+      await run(
+        'start',
+        ...args,
+        '--shipment-id',
+        'DEMO-1001',
+        '--customer-ref',
+        'PO-77120',
+        '--if-exists',
+        'return-existing'
+      )
+    ).toBe(0);
+
+    expect(service.startDelayCheck).toHaveBeenCalledWith(
+      expect.objectContaining({
+        shipment: { shipmentId: 'DEMO-1001', customerReference: 'PO-77120' },
+      }),
+      'return-existing'
+    );
+    expect(stdout).toEqual([
+      'Already running: freightDelayNotificationWorkflow freight-delay-DEMO-1001 (run run-1)',
+    ]);
+    expect(await run('start', ...args, '--if-exists', 'replace')).toBe(2);
+  });
+
+  test('should print the status of a workflow', async () => {
+    service.getStatus.mockResolvedValue({
+      workflowId: 'freight-delay-1',
+      runId: 'run-1',
+      type: 'freightDelayNotificationWorkflow',
+      status: 'COMPLETED',
+      startTime: '2026-10-19T12:00:00.000Z',
+      closeTime: '2026-10-19T12:05:00.000Z',
+      result: { delayDetected: true, delayMinutes: 45, notificationSent: true },
+    });
+
+    expect(await run('status', 'freight-delay-1')).toBe(0);
+    expect(stdout).toEqual([
+      'Workflow: freight-delay-1 (freightDelayNotificationWorkflow)',
+      '  Status: COMPLETED',
+      '  Started: 2026-10-19T12:00:00.000Z',
+      '  Closed: 2026-10-19T12:05:00.000Z',
+      '  Delay detected: true (45 minutes)',
+      '  Notification sent: true',
+    ]);
+  });
+
+  test('should list running workflows and map service errors to exit codes', async () => {
+    service.list.mockResolvedValue([]);
+    expect(await run('list', '--limit', '5')).toBe(0);
+    expect(service.list).toHaveBeenCalledWith({ includeClosed: false, limit: 5 });
+    expect(stdout).toEqual(['No running shipment workflows']);
+
+    service.terminate.mockRejectedValue(
+      new ShipmentWorkflowError(
+        'Workflow freight-delay-1 is not running (COMPLETED)',
+        'NOT_RUNNING',
+        'freight-delay-1'
+      )
+    );
+    stdout = [];
+    expect(await run('terminate', 'freight-delay-1', '--reason', 'stuck', '--json')).toBe(1);
+    expect(service.terminate).toHaveBeenCalledWith('freight-delay-1', 'stuck');
+    expect(JSON.parse(stdout.join('\n')).error.code).toBe('NOT_RUNNING');
+  });
+
+  test('should validate a whole manifest before starting any shipment', async () => {
+    const manifest = writeManifest(
+      'shipments.json',
+      JSON.stringify([
+        {
+          route: { origin: 'New York, NY', destination: 'Boston, MA' },
+          customerEmail: 'a@acme.com',
+        },
+        { route: { origin: 'Chicago, IL' }, customerEmail: 'b@acme.com' },
+      ])
+    );
+
+    expect(await run('import', manifest)).toBe(1);
+    expect(stderr).toEqual([
+      'Error: Manifest is invalid; no shipments were started',
+      '  entry 2: route.destination is required and must be a non-empty string',
+    ]);
+    expect(service.startDelayCheck).not.toHaveBeenCalled();
+  });
+
+  test('should reject manifests that repeat a shipment ID', async () => {
+    const manifest = writeManifest(
+      'repeated.csv',
+      [
+        'shipmentId,origin,destination,customerEmail',
+        'DEMO-1001,"New York, NY","Boston, MA",a@acme.com',
+        'DEMO-1001,"Chicago, IL","Detroit, MI",b@acme.com',
+      ].join('\n')
+    );
+
+    expect(await run('import', manifest)).toBe(1);
+    expect(stderr).toEqual([
+      'Error: Manifest is invalid; no shipments were started',
+      '  line 3: shipment.shipmentId repeats DEMO-1001 from line 2',
+    ]);
+  });
+
+  test('should start every shipment of a manifest and report the ones that failed', async () => {
+    const manifest = writeManifest(
+      'shipments.csv',
+      [
+        'origin,destination,customerEmail,expectedArrivalTime',
+        '"New York, NY","Boston, MA",a@acme.com,2026-10-19T21:00:00.000Z',
+        '"Chicago, IL","Detroit, MI",b@acme.com,2026-10-19T22:00:00.000Z',
+      ].join('\n')
+    );
+    service.startMonitoring
+      .mockResolvedValueOnce({ workflowId: 'freight-monitoring-1', runId: 'run-1' })
+      .mockRejectedValueOnce(new Error('14 UNAVAILABLE: connect ECONNREFUSED'));
+
+    expect(await run('import', manifest, '--monitor', '--json')).toBe(1);
+
+    expect(service.startMonitoring).toHaveBeenCalledTimes(2);
+    expect(service.startMonitoring.mock.calls[0][0]).toMatchObject({ pollIntervalMinutes: 15 });
+    expect(JSON.parse(stdout.join('\n'))).toEqual({
+      started: 1,
+      failed: 1,
+      results: [
+        { entry: 'line 2', workflowId: 'freight-monitoring-1', runId: 'run-1' },
+        { entry: 'line 3', error: '14 UNAVAILABLE: connect ECONNREFUSED' },
+      ],
+    });
+  });
+
+  test('should start one manifest workflow for the whole manifest with --parent', async () => {
+    const manifest = writeManifest(
+      'dispatch.csv',
+      [
+        'origin,destination,customerEmail',
+        '"New York, NY","Boston, MA",a@acme.com',
+        '"Chicago, IL","Detroit, MI",b@acme.com',
+      ].join('\n')
+    );
+    service.startManifest.mockResolvedValue({
+      workflowId: 'freight-manifest-1',
+      runId: 'run-1',
+      type: 'freightManifestWorkflow',
+    });
+
+    expect(
+      await run('import', manifest, '--parent', '--concurrency', '5', '--tenant', 'acme')
+    ).toBe(0);
+
+    expect(service.startManifest).toHaveBeenCalledWith({
+      shipments: [
+        {
+          tenantId: 'acme',
+          route: { origin: 'New York, NY', destination: 'Boston, MA' },
+          customerEmail: 'a@acme.com',
+        },
+        {
+          tenantId: 'acme',
+          route: { origin: 'Chicago, IL', destination: 'Detroit, MI' },
+          customerEmail: 'b@acme.com',
+        },
+      ],
+      maxConcurrency: 5,
+    });
+    expect(service.startDelayCheck).not.toHaveBeenCalled();
+    expect(stdout).toEqual(['Started freight-manifest-1 for 2 shipments']);
+
+    expect(await run('import', manifest, '--parent', '--monitor')).toBe(2);
+  });
+
+  test('should print manifest progress and retry failed shipments', async () => {
+    service.getStatus.mockResolvedValue({
+      workflowId: 'freight-manifest-1',
+      runId: 'run-1',
+      type: 'freightManifestWorkflow',
+      status: 'RUNNING',
+      startTime: '2026-10-19T06:00:00.000Z',
+      manifest: {
+        total: 3,
+        pending: 0,
+        running: 1,
+        completed: 1,
+        delayed: 1,
+        notified: 1,
+        failed: 1,
+        shipments: [
+          { key: 'shipment-1', status: 'completed', attempts: 1 },
+          {
+            key: 'shipment-2',
+            status: 'failed',
+            attempts: 1,
+            workflowId: 'freight-manifest-1-shipment-2',
+            error: 'Traffic service unavailable',
+          },
+          { key: 'shipment-3', status: 'running', attempts: 1 },
+        ],
+      },
+    });
+
+    expect(await run('status', 'freight-manifest-1')).toBe(0);
+    expect(stdout.slice(3)).toEqual([
+      '  Shipments: 3 (1 completed, 1 running, 0 pending, 1 failed)',
+      '  Delayed: 1, notified: 1',
+      '  Failed shipment-2 (freight-manifest-1-shipment-2, attempt 1): Traffic service unavailable',
+    ]);
+
+    expect(await run('retry', 'freight-manifest-1', '--shipment', 'shipment-2')).toBe(0);
+    expect(service.retryManifestShipments).toHaveBeenCalledWith('freight-manifest-1', {
+      keys: ['shipment-2'],
+      requestedBy: 'cli',
+    });
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,289 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { loadConfig } from '../config';
+import { ConfigError } from '../errors';
+
+/**
+ * Configuration tests
+ * Covers typed settings, the config file, profiles and the redacted effective config
+ */
+
+/**
+ * Loads a configuration expected to be invalid
+ * @param env - The environment variables
+ * @returns string[] - The reported problems
+ */
+const getProblems = (env: Record<string, string>): string[] => {
+  try {
+    loadConfig(env);
+  } catch (error) {
+    expect(error).toBeInstanceOf(ConfigError);
+    return (error as ConfigError).details.map(issue => issue.message);
+  }
+  throw new Error('Expected the configuration to be invalid');
+};
+
+const prodEnv = {
+  APP_ENV: 'prod',
+  OPENAI_API_KEY: 'sk-live',
+  SENDGRID_API_KEY: 'SG.live',
+  SENDGRID_EVENT_PUBLIC_KEY: 'public-key',
+  WEBHOOK_SIGNING_SECRET: 'whsec-live',
+  TRAFFIC_PROVIDERS: 'google,osrm',
+  GOOGLE_MAPS_API_KEY: 'maps-key',
+  SMS_PROVIDER: 'twilio',
+  TWILIO_ACCOUNT_SID: 'AC123',
+  TWILIO_AUTH_TOKEN: 'twilio-token',
+  TWILIO_FROM_NUMBER: '+15550001111',
+};
+
+describe('Configuration', () => {
+  test('should default to the dev profile with mock providers', () => {
+    const { config } = loadConfig({});
+
+    expect(config.profile).toBe('dev');
+    expect(config.trafficProviderChain).toEqual(['mock']);
+    expect(config.smsProvider).toBe('mock');
+    expect(config.googleMapsApiKey).toBe('');
+    expect(config.webhookSigningSecret).toBe('demo-webhook-secret');
+    expect(config.delayThresholdMinutes).toBe(30);
+  });
+
+  test('should report every invalid setting at once', () => {
+    const problems = getProblems({
+      DELAY_THRESHOLD_MINUTES: '30min',
+      MIN_TRAFFIC_CONFIDENCE: '1.5',
+      API_PORT: '70000',
+      ESCALATION_TIERS_MINUTES: '30,soon',
+      APP_ENV: 'production',
+    });
+
+    expect(problems).toEqual([
+      'APP_ENV must be one of: dev, staging, prod',
+      'MIN_TRAFFIC_CONFIDENCE must be a number between 0 and 1, got "1.5"',
+      'DELAY_THRESHOLD_MINUTES must be a whole number of at least 0, got "30min"',
+      'ESCALATION_TIERS_MINUTES must list delays in whole minutes',
+      'API_PORT must be a whole number between 1 and 65535, got "70000"',
+    ]);
+  });
+
+  test('should require the credentials of configured live providers', () => {
+    const problems = getProblems({ TRAFFIC_PROVIDERS: 'here,osrm', SMS_PROVIDER: 'twilio' });
+
+    expect(problems).toEqual([
+      'HERE_API_KEY is required by the here provider',
+      'TWILIO_ACCOUNT_SID is required by the twilio provider',
+      'TWILIO_AUTH_TOKEN is required by the twilio provider',
+      'TWILIO_FROM_NUMBER is required by the twilio provider',
+    ]);
+  });
+
+  test('should refuse missing credentials and mock providers in prod', () => {
+    const problems = getProblems({
+      APP_ENV: 'prod',
+      AUDIT_STORE: 'memory',
+      NOTIFICATION_STATE_STORE: 'memory',
+    });
+
+    expect(problems).toEqual([
+      'OPENAI_API_KEY is required in the prod profile',
+      'SENDGRID_API_KEY is required in the prod profile',
+      'SENDGRID_EVENT_PUBLIC_KEY is required in the prod profile',
+      'WEBHOOK_SIGNING_SECRET is required in the prod profile',
+      'TRAFFIC_PROVIDERS cannot use the mock provider in the prod profile',
+      'SMS_PROVIDER cannot be mock in the prod profile',
+      'AUDIT_STORE cannot be memory in the prod profile',
+      'NOTIFICATION_STATE_STORE cannot be memory in the prod profile',
+    ]);
+  });
+
+  test('should refuse mock tenant chains and demo webhook settings in prod', () => {
+    const problems = getProblems({
+      ...prodEnv,
+      TRAFFIC_PROVIDER_TENANT_CHAINS: '{"acme": ["mock"]}',
+      WEBHOOK_SIGNING_SECRET: 'demo-webhook-secret',
+      WEBHOOK_ALLOW_PRIVATE_URLS: 'true',
+    });
+
+    expect(problems).toEqual([
+      'TRAFFIC_PROVIDER_TENANT_CHAINS.acme cannot use the mock provider in the prod profile',
+      'WEBHOOK_SIGNING_SECRET cannot be the demo secret in the prod profile',
+      'WEBHOOK_ALLOW_PRIVATE_URLS cannot be true in the prod profile',
+    ]);
+  });
+
+  test('should start in prod with live providers and credentials', () => {
+    const { config } = loadConfig(prodEnv);
+
+    expect(config.profile).toBe('prod');
+    expect(config.trafficProviderChain).toEqual(['google', 'osrm']);
+    expect(config.twilioAuthToken).toBe('twilio-token');
+  });
+
+  test('should read the config file, its profile section and environment overrides', () => {
+    const filePath = path.join(os.tmpdir(), `freight-config-${Date.now()}.json`);
+    try {
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({
+          APP_ENV: 'staging',
+          SENDGRID_API_KEY: 'SG.staging',
+          WEBHOOK_SIGNING_SECRET: 'whsec-staging',
+          TRAFFIC_PROVIDERS: ['osrm'],
+          DELAY_THRESHOLD_MINUTES: 45,
+          TRAFFIC_PROVIDER_TENANT_CHAINS: { acme: ['osrm'] },
+          profiles: { staging: { DELAY_THRESHOLD_MINUTES: 20 }, prod: { API_PORT: 80 } },
+        })
+      );
+
+      const { config, effective } = loadConfig({ CONFIG_FILE: filePath, API_PORT: '8080' });
+
+      expect(config.profile).toBe('staging');
+      expect(config.trafficProviderChain).toEqual(['osrm']);
+      expect(config.trafficProviderTenantChains).toEqual({ acme: ['osrm'] });
+      expect(config.delayThresholdMinutes).toBe(20);
+      expect(config.apiPort).toBe(8080);
+      expect(effective.configFile).toBe(filePath);
+      expect(effective.settings.find(setting => setting.key === 'API_PORT')?.source).toBe('env');
+      expect(effective.settings.find(setting => setting.key === 'APP_ENV')?.source).toBe('file');
+    } finally {
+      fs.rmSync(filePath, { force: true });
+    }
+  });
+
+  test('should reject unknown settings in the config file', () => {
+    const filePath = path.join(os.tmpdir(), `freight-config-${Date.now()}-unknown.json`);
+    try {
+      fs.writeFileSync(
+        filePath,
+        JSON.stringify({ DELAY_TRESHOLD_MINUTES: 45, profiles: { qa: {}, dev: { APIPORT: 1 } } })
+      );
+
+      expect(getProblems({ CONFIG_FILE: filePath })).toEqual([
+        `CONFIG_FILE ${filePath}: qa is not a profile`,
+        `CONFIG_FILE ${filePath}: DELAY_TRESHOLD_MINUTES is not a known setting`,
+        `CONFIG_FILE ${filePath}: profiles.dev.APIPORT is not a known setting`,
+      ]);
+    } finally {
+      fs.rmSync(filePath, { force: true });
+    }
+  });
+
+  test('should report a missing config file', () => {
+    const [problem] = getProblems({ CONFIG_FILE: '/nonexistent/freight.json' });
+
+    expect(problem).toMatch(/^CONFIG_FILE \/nonexistent\/freight\.json cannot be read/);
+  });
+
+  test('should read tenant profiles and merge their provider chains', () => {
+    const { config } = loadConfig({
+      TRAFFIC_PROVIDERS: 'osrm',
+      TENANT_PROFILES: JSON.stringify({
+        acme: {
+          name: 'Acme Logistics',
+          fromEmail: 'alerts@acme.com',
+          delayThresholdMinutes: 45,
+          delaySeverityMinutes: [30, 90, 180],
+          channels: ['email', 'webhook'],
+          trafficProviders: ['here', 'osrm'],
+          credentials: { hereApiKey: 'acme-here-key' },
+        },
+      }),
+    });
+
+    expect(config.tenantProfiles.acme).toMatchObject({
+      name: 'Acme Logistics',
+      fromEmail: 'alerts@acme.com',
+      delayThresholdMinutes: 45,
+      delaySeverityMinutes: [30, 90, 180],
+      channels: ['email', 'webhook'],
+      trafficProviders: ['here', 'osrm'],
+    });
+    expect(config.hereApiKey).toBe('');
+  });
+
+  test('should report invalid tenant profiles and missing tenant credentials', () => {
+    expect(
+      getProblems({
+        TENANT_PROFILES: JSON.stringify({ acme: { name: 'Acme', channels: ['fax'] } }),
+      })
+    ).toEqual(['TENANT_PROFILES.acme.channels must list one or more of: email, sms, webhook']);
+    expect(
+      getProblems({
+        TENANT_PROFILES: JSON.stringify({
+          acme: { name: 'Acme', credentials: { twilioAccountSid: 'AC1' } },
+        }),
+      })
+    ).toEqual([
+      'TENANT_PROFILES.acme.credentials must set all of twilioAccountSid, twilioAuthToken, twilioFromNumber or none',
+    ]);
+    expect(
+      getProblems({
+        TENANT_PROFILES: JSON.stringify({ acme: { name: 'Acme', trafficProviders: ['tomtom'] } }),
+      })
+    ).toEqual(['TOMTOM_API_KEY is required by the tomtom provider']);
+  });
+
+  test('should read and validate notification rules', () => {
+    const rule = { name: 'missed-slot', when: { missesAppointment: true }, notify: true };
+    const { config } = loadConfig({
+      CUSTOMER_NOTIFICATION_RULES: JSON.stringify({ 'Ops@Acme.com': [rule] }),
+      TENANT_PROFILES: JSON.stringify({ acme: { name: 'Acme', notificationRules: [rule] } }),
+    });
+    expect(config.customerNotificationRules).toEqual({ 'ops@acme.com': [rule] });
+    expect(config.tenantProfiles.acme.notificationRules).toEqual([rule]);
+
+    expect(
+      getProblems({
+        CUSTOMER_NOTIFICATION_RULES: JSON.stringify({
+          'ops@acme.com': [
+            { name: 'storms', when: { trafficConditions: ['stormy'] }, notify: true },
+          ],
+        }),
+        TENANT_PROFILES: JSON.stringify({
+          acme: {
+            name: 'Acme',
+            notificationRules: [{ name: 'nights', when: { timeOfDay: { start: '22:00' } } }],
+          },
+        }),
+      })
+    ).toEqual([
+      'TENANT_PROFILES.acme.notificationRules[0].notify must be true or false',
+      'CUSTOMER_NOTIFICATION_RULES.ops@acme.com[0].when.trafficConditions must list one or more of: light, moderate, heavy, severe',
+    ]);
+  });
+
+  test('should redact secrets from the effective config', () => {
+    const { effective } = loadConfig(prodEnv);
+    const setting = (key: string) => effective.settings.find(entry => entry.key === key);
+
+    expect(setting('OPENAI_API_KEY')).toEqual({
+      key: 'OPENAI_API_KEY',
+      value: '[redacted]',
+      source: 'env',
+      secret: true,
+    });
+    expect(setting('TWILIO_AUTH_TOKEN')?.value).toBe('[redacted]');
+    expect(setting('TWILIO_ACCOUNT_SID')?.value).toBe('AC123');
+    expect(setting('TEMPORAL_ADDRESS')).toEqual({
+      key: 'TEMPORAL_ADDRESS',
+      value: 'localhost:7233',
+      source: 'default',
+      secret: false,
+    });
+    expect(JSON.stringify(effective)).not.toContain('sk-live');
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,280 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { generateKeyPairSync, sign } from 'crypto';
+import {
+  DeliveryEventService,
+  SENDGRID_SIGNATURE_HEADER,
+  SENDGRID_TIMESTAMP_HEADER,
+  verifySendGridSignature,
+} from '../services/deliveryEventService';
+import { AuditLogService } from '../services/auditLogService';
+import { MemoryAuditStore } from '../services/auditStores';
+import { SENDGRID_EVENTS_PATH, createDeliveryEventHandler } from '../eventServer';
+import { EmailDeliveryEvent, NotificationRequest, SendGridEvent } from '../types';
+
+/**
+ * Email delivery event tests
+ * Covers correlating SendGrid events to workflows, suppressing bouncing addresses and the
+ * signed event endpoint
+ */
+
+const request: NotificationRequest = {
+  customerEmail: 'customer@example.com',
+  subject: 'Delivery Delay Notice - 45 minutes',
+  message: 'Your delivery is delayed by 45 minutes.',
+  delayMinutes: 45,
+  shipmentId: 'freight-delay-1',
+  correlationId: 'freight-delay-1',
+};
+
+const createEvent = (overrides: Partial<SendGridEvent> = {}): SendGridEvent => ({
+  email: 'customer@example.com',
+  event: 'bounce',
+  type: 'bounce',
+  reason: '550 5.1.1 The email account does not exist',
+  timestamp: 1792411200,
+  sg_message_id: 'sg-1.filterdrecv-5645d9c87f-6r2kk-1-64A4DE49-1.0',
+  sg_event_id: 'event-1',
+  ...overrides,
+});
+
+describe('DeliveryEventService', () => {
+  let auditLogService: AuditLogService;
+  let service: DeliveryEventService;
+  let signals: { workflowId: string; event: EmailDeliveryEvent }[];
+
+  const signal = async (workflowId: string, event: EmailDeliveryEvent) => {
+    signals.push({ workflowId, event });
+  };
+
+  beforeEach(async () => {
+    auditLogService = new AuditLogService(new MemoryAuditStore());
+    service = new DeliveryEventService(auditLogService, { suppressionBounces: 2 });
+    signals = [];
+    await auditLogService.recordNotification(
+      'email',
+      request,
+      { success: true, messageId: 'sg-1' },
+      request.message
+    );
+  });
+
+  test('should signal a bounce to the workflow that sent the email', async () => {
+    const result = await service.handleBatch([createEvent()], signal);
+
+    expect(result).toMatchObject({ received: 1, signaled: 1, unmatched: 0, suppressed: [] });
+    expect(signals).toEqual([
+      {
+        workflowId: 'freight-delay-1',
+        event: {
+          messageId: 'sg-1',
+          email: 'customer@example.com',
+          event: 'bounce',
+          reason: '550 5.1.1 The email account does not exist',
+          occurredAt: new Date(1792411200 * 1000).toISOString(),
+        },
+      },
+    ]);
+
+    const [record] = await auditLogService.findDeliveryEvents({ messageId: 'sg-1' });
+    expect(record).toMatchObject({ shipmentId: 'freight-delay-1', event: 'bounce' });
+  });
+
+  test('should ignore events that do not affect delivery and handle retried events once', async () => {
+    const result = await service.handleBatch(
+      [
+        createEvent({ event: 'open', sg_event_id: 'event-open' }),
+        createEvent({ event: 'delivered' }),
+        createEvent({ event: 'delivered' }),
+      ],
+      signal
+    );
+
+    expect(result).toMatchObject({ received: 3, signaled: 1, ignored: 1, duplicates: 1 });
+    expect(signals.map(({ event }) => event.event)).toEqual(['delivered']);
+  });
+
+  test('should fall back to the correlation ID and report workflows that are not running', async () => {
+    const failingSignal = jest
+      .fn()
+      .mockRejectedValue(new Error('workflow execution already completed'));
+    const result = await service.handleBatch(
+      [
+        createEvent({
+          sg_message_id: 'sg-unknown.filter',
+          sg_event_id: 'event-2',
+          correlationId: 'freight-delay-2',
+        }),
+        createEvent({ sg_message_id: 'sg-unknown.filter', sg_event_id: 'event-3' }),
+      ],
+      failingSignal
+    );
+
+    expect(failingSignal).toHaveBeenCalledTimes(1);
+    expect(failingSignal.mock.calls[0][0]).toBe('freight-delay-2');
+    expect(result).toMatchObject({ signaled: 0, unmatched: 2 });
+  });
+
+  test('should signal the sending workflow of shipments with their own shipment ID', async () => {
+    await auditLogService.recordNotification(
+      'email',
+      { ...request, shipmentId: 'DEMO-1002', correlationId: 'freight-delay-DEMO-1002' },
+      { success: true, messageId: 'sg-2' },
+      request.message
+    );
+
+    await service.handleBatch(
+      [createEvent({ sg_message_id: 'sg-2.filter', sg_event_id: 'event-4' })],
+      signal
+    );
+
+    expect(signals.map(({ workflowId }) => workflowId)).toEqual(['freight-delay-DEMO-1002']);
+    const [record] = await auditLogService.findDeliveryEvents({ messageId: 'sg-2' });
+    expect(record.shipmentId).toBe('DEMO-1002');
+  });
+
+  test('should suppress addresses after repeated hard bounces', async () => {
+    const first = await service.handleBatch([createEvent()], signal);
+    expect(first.suppressed).toEqual([]);
+    expect(await service.getSuppression('customer@example.com')).toBeUndefined();
+
+    // Soft bounces do not count towards suppression
+    await service.handleBatch([createEvent({ type: 'blocked', sg_event_id: 'event-2' })], signal);
+    expect(signals[1].event.event).toBe('blocked');
+    expect(await service.getSuppression('customer@example.com')).toBeUndefined();
+
+    const second = await service.handleBatch([createEvent({ sg_event_id: 'event-3' })], signal);
+    expect(second.suppressed).toEqual(['customer@example.com']);
+    expect(await service.getSuppression('Customer@Example.com')).toMatchObject({
+      email: 'customer@example.com',
+      reason: '2 hard bounces, last: 550 5.1.1 The email account does not exist',
+    });
+  });
+
+  test('should suppress addresses that reported spam right away', async () => {
+    const result = await service.handleBatch([createEvent({ event: 'spamreport' })], signal);
+
+    expect(result.suppressed).toEqual(['customer@example.com']);
+    expect(await service.getSuppression('customer@example.com')).toMatchObject({
+      reason: 'marked as spam',
+    });
+  });
+});
+
+describe('SendGrid event endpoint', () => {
+  const { publicKey, privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const verificationKey = publicKey.export({ format: 'der', type: 'spki' }).toString('base64');
+
+  let server: http.Server;
+  let baseUrl: string;
+  let signals: EmailDeliveryEvent[];
+
+  const signPayload = (payload: string, timestamp: string) =>
+    sign('sha256', Buffer.from(`${timestamp}${payload}`), privateKey).toString('base64');
+
+  beforeAll(done => {
+    const service = new DeliveryEventService(new AuditLogService(new MemoryAuditStore()), {
+      suppressionBounces: 2,
+    });
+    const signal = async (_workflowId: string, event: EmailDeliveryEvent) => {
+      signals.push(event);
+    };
+    server = http.createServer(createDeliveryEventHandler(service, signal, verificationKey));
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    signals = [];
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  test('should accept signed batches and reject unsigned ones', async () => {
+    const payload = JSON.stringify([createEvent({ correlationId: 'freight-delay-1' })]);
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    const signed = await fetch(`${baseUrl}${SENDGRID_EVENTS_PATH}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        [SENDGRID_SIGNATURE_HEADER]: signPayload(payload, timestamp),
+        [SENDGRID_TIMESTAMP_HEADER]: timestamp,
+      },
+      body: payload,
+    });
+    expect(signed.status).toBe(200);
+    expect(await signed.json()).toMatchObject({ received: 1, signaled: 1 });
+    expect(signals.map(event => event.event)).toEqual(['bounce']);
+
+    const unsigned = await fetch(`${baseUrl}${SENDGRID_EVENTS_PATH}`, {
+      method: 'POST',
+      body: payload,
+    });
+    expect(unsigned.status).toBe(401);
+    expect(signals).toHaveLength(1);
+  });
+
+  test('should reject tampered signatures', () => {
+    const payload = JSON.stringify([createEvent()]);
+    const signature = signPayload(payload, '1792411200');
+    const now = 1792411200 * 1000;
+
+    expect(
+      verifySendGridSignature(payload, signature, '1792411200', verificationKey, 300, now)
+    ).toBe(true);
+    expect(
+      verifySendGridSignature(`${payload} `, signature, '1792411200', verificationKey, 300, now)
+    ).toBe(false);
+    expect(
+      verifySendGridSignature(payload, signature, '1792411201', verificationKey, 300, now)
+    ).toBe(false);
+    expect(verifySendGridSignature(payload, 'not-a-signature', '1', 'not-a-key', 300, now)).toBe(
+      false
+    );
+  });
+
+  test('should reject replayed batches signed too long ago', () => {
+    const payload = JSON.stringify([createEvent()]);
+    const signature = signPayload(payload, '1792411200');
+    const signedAt = 1792411200 * 1000;
+
+    expect(
+      verifySendGridSignature(
+        payload,
+        signature,
+        '1792411200',
+        verificationKey,
+        300,
+        signedAt + 300 * 1000
+      )
+    ).toBe(true);
+    expect(
+      verifySendGridSignature(
+        payload,
+        signature,
+        '1792411200',
+        verificationKey,
+        300,
+        signedAt + 301 * 1000
+      )
+    ).toBe(false);
+    expect(verifySendGridSignature(payload, signature, 'yesterday', verificationKey)).toBe(false);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
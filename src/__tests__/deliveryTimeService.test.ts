@@ -0,0 +1,165 @@
+import { DeliveryTimeService } from '../services/deliveryTimeService';
+import { AIService } from '../services/aiService';
+import { NotificationService } from '../services/notificationService';
+import { MessageGuardrailService } from '../services/messageGuardrailService';
+import { AIMessageRequest, DeliveryEta, QuietHours, TrafficData } from '../types';
+
+/**
+ * Delivery time tests
+ * Covers ETAs in the destination's time zone and customer quiet hours
+ */
+
+describe('DeliveryTimeService', () => {
+  const deliveryTimeService = new DeliveryTimeService();
+
+  const trafficData: TrafficData = {
+    estimatedDelayMinutes: 45,
+    normalDurationMinutes: 2400,
+    currentDurationMinutes: 2445,
+    trafficCondition: 'moderate',
+    legs: [],
+    route: { origin: 'Los Angeles, CA', destination: 'New York, NY' },
+    provider: 'google',
+    source: 'live',
+    confidence: 0.9,
+  };
+
+  test('should infer the time zone from the state code', () => {
+    expect(deliveryTimeService.resolveTimeZone('New York, NY')).toBe('America/New_York');
+    expect(deliveryTimeService.resolveTimeZone('Los Angeles, CA')).toBe('America/Los_Angeles');
+    expect(deliveryTimeService.resolveTimeZone('Berlin, Germany')).toBe('UTC');
+    expect(deliveryTimeService.resolveTimeZone('Berlin, Germany', 'Europe/Berlin')).toBe(
+      'Europe/Berlin'
+    );
+    expect(deliveryTimeService.resolveTimeZone('Denver, CO', 'Mars/Olympus')).toBe(
+      'America/Denver'
+    );
+  });
+
+  test('should add the delay to the planned arrival time', () => {
+    expect(deliveryTimeService.calculateEta(trafficData, '2026-10-19T21:00:00Z')).toEqual({
+      arrivalTime: '2026-10-19T21:45:00.000Z',
+      timeZone: 'America/New_York',
+    });
+  });
+
+  test('should use the current travel duration without a planned arrival time', () => {
+    const eta = deliveryTimeService.calculateEta(
+      trafficData,
+      undefined,
+      undefined,
+      new Date('2026-10-18T00:00:00Z')
+    );
+
+    expect(eta.arrivalTime).toBe('2026-10-19T16:45:00.000Z');
+  });
+
+  describe('quiet hours', () => {
+    const quietHours: QuietHours = { start: '22:00', end: '07:00', urgentDelayMinutes: 120 };
+
+    test('should hold notifications until an overnight window ends', () => {
+      // 23:30 in New York (EDT, UTC-4)
+      const now = new Date('2026-10-20T03:30:00Z');
+
+      expect(
+        deliveryTimeService.getQuietHoursHoldMinutes(quietHours, 'America/New_York', 45, now)
+      ).toBe(450);
+    });
+
+    test('should not hold notifications outside the window', () => {
+      // 22:00 in New York is only 19:00 in Los Angeles
+      const now = new Date('2026-10-20T02:00:00Z');
+
+      expect(
+        deliveryTimeService.getQuietHoursHoldMinutes(quietHours, 'America/Los_Angeles', 45, now)
+      ).toBe(0);
+      expect(
+        deliveryTimeService.getQuietHoursHoldMinutes(
+          { ...quietHours, timeZone: 'America/New_York' },
+          'America/Los_Angeles',
+          45,
+          now
+        )
+      ).toBe(540);
+    });
+
+    test('should not hold urgent delays', () => {
+      const now = new Date('2026-10-20T03:30:00Z');
+
+      expect(
+        deliveryTimeService.getQuietHoursHoldMinutes(quietHours, 'America/New_York', 120, now)
+      ).toBe(0);
+    });
+
+    test('should support windows within a day', () => {
+      // 13:15 in UTC
+      const now = new Date('2026-10-20T13:15:00Z');
+
+      expect(
+        deliveryTimeService.getQuietHoursHoldMinutes(
+          { start: '12:00', end: '14:00' },
+          'UTC',
+          45,
+          now
+        )
+      ).toBe(45);
+    });
+  });
+});
+
+describe('Notifications with ETA', () => {
+  const eta: DeliveryEta = {
+    arrivalTime: '2026-10-19T21:45:00.000Z',
+    timeZone: 'America/New_York',
+  };
+
+  const aiRequest: AIMessageRequest = {
+    delayMinutes: 45,
+    route: { origin: 'Los Angeles, CA', destination: 'New York, NY' },
+    trafficCondition: 'moderate',
+    eta,
+  };
+
+  test('should include the ETA in the subject and SMS', () => {
+    const notificationService = new NotificationService();
+    const sms = (notificationService as any).createSMSMessage({
+      customerEmail: 'test@example.com',
+      subject: 'Test Subject',
+      message: 'Test message',
+      delayMinutes: 45,
+      eta,
+    });
+
+    expect(notificationService.createDelaySubject(45, undefined, eta)).toBe(
+      'Freight Delivery Delay Notice - 45 Minutes - New ETA Mon, Oct 19, 5:45 PM EDT'
+    );
+    expect(notificationService.createDelaySubject(45, 'de', eta)).toContain(
+      'Neue Ankunftszeit Mo., 19. Okt., 17:45'
+    );
+    expect(sms).toContain('New estimated arrival: Mon, Oct 19, 5:45 PM EDT.');
+  });
+
+  test('should include the ETA in the message body', async () => {
+    const aiService = new AIService();
+    const mockMessage = (await aiService.generateDelayMessage(aiRequest)).message;
+    const fallback = aiService.getFallbackMessage(aiRequest);
+
+    expect(mockMessage).toContain('The new estimated arrival time is Mon, Oct 19, 5:45 PM EDT.');
+    expect(fallback).toContain(
+      'due to moderate traffic conditions. The new estimated arrival time is Mon, Oct 19, 5:45 PM EDT.'
+    );
+    expect(new MessageGuardrailService().validateMessage(fallback, aiRequest).valid).toBe(true);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
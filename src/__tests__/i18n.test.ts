@@ -0,0 +1,143 @@
+import {
+  formatDateTime,
+  formatMinutes,
+  resolveLocale,
+  resolveLocaleChain,
+  translate,
+} from '../i18n';
+import { AIService } from '../services/aiService';
+import { NotificationService } from '../services/notificationService';
+import { MessageGuardrailService } from '../services/messageGuardrailService';
+import { AIMessageRequest, NotificationRequest } from '../types';
+
+/**
+ * Localization tests
+ * Covers the locale fallback chain and the localized notification texts
+ */
+
+describe('Locale resolution', () => {
+  test('should fall back from a regional locale to its language and English', () => {
+    expect(resolveLocaleChain('de-AT')).toEqual(['de-AT', 'de', 'en']);
+    expect(resolveLocaleChain('pt_BR')).toEqual(['pt-BR', 'pt', 'en']);
+    expect(resolveLocaleChain()).toEqual(['en']);
+  });
+
+  test('should resolve unsupported locales to English', () => {
+    expect(resolveLocale('de-AT')).toBe('de');
+    expect(resolveLocale('it')).toBe('en');
+    expect(resolveLocale(undefined)).toBe('en');
+  });
+
+  test('should translate missing messages from the next locale in the chain', () => {
+    expect(translate('it', 'emailHeading')).toBe('Delivery Delay Notification');
+    expect(translate('fr-CA', 'emailHeading')).toBe(translate('fr', 'emailHeading'));
+  });
+
+  test('should format minutes and times for the locale', () => {
+    expect(formatMinutes('en', 45)).toBe('45 minutes');
+    expect(formatMinutes('de', 45)).toBe('45 Minuten');
+    expect(formatMinutes('es', 45)).toBe('45 minutos');
+    expect(formatMinutes('ro', 45)).toBe('45 de minute');
+    expect(formatDateTime('de', new Date('2026-03-05T14:30:00Z'))).toBe('05.03.2026, 14:30');
+  });
+});
+
+describe('Localized notifications', () => {
+  const aiRequest: AIMessageRequest = {
+    delayMinutes: 45,
+    route: { origin: 'New York, NY', destination: 'Philadelphia, PA' },
+    trafficCondition: 'heavy',
+  };
+
+  const notificationRequest: NotificationRequest = {
+    customerEmail: 'test@example.com',
+    subject: 'Test Subject',
+    message: 'Test message',
+    delayMinutes: 45,
+  };
+
+  test('should keep the English texts by default', () => {
+    const notificationService = new NotificationService();
+
+    expect(notificationService.createDelaySubject(45)).toBe(
+      'Freight Delivery Delay Notice - 45 Minutes'
+    );
+    expect(new AIService().getFallbackMessage(aiRequest)).toContain(
+      'delay of approximately 45 minutes due to heavy traffic conditions'
+    );
+  });
+
+  test.each([
+    ['de', 'Verzögerung Ihrer Frachtlieferung - 45 Minuten', 'um etwa 45 Minuten'],
+    ['fr', 'Avis de retard de livraison - 45 minutes', 'retard d’environ 45 minutes'],
+    ['es', 'Aviso de retraso en la entrega - 45 minutos', 'de aproximadamente 45 minutos'],
+    ['ro', 'Notificare de întârziere a livrării - 45 de minute', 'aproximativ 45 de minute'],
+  ])('should localize the subject and fallback message in %s', (locale, subject, delay) => {
+    const fallback = new AIService().getFallbackMessage({ ...aiRequest, locale });
+
+    expect(new NotificationService().createDelaySubject(45, locale)).toBe(subject);
+    expect(fallback).toContain(delay);
+    expect(fallback).toContain('New York, NY');
+    expect(new MessageGuardrailService().validateMessage(fallback, aiRequest)).toEqual({
+      valid: true,
+      reasons: [],
+    });
+  });
+
+  test('should use the localized fallback for mock messages in other languages', async () => {
+    const aiService = new AIService();
+    const response = await aiService.generateDelayMessage({ ...aiRequest, locale: 'de' });
+
+    expect(response.message).toBe(aiService.getFallbackMessage({ ...aiRequest, locale: 'de' }));
+  });
+
+  test('should localize the SMS message', () => {
+    const notificationService = new NotificationService();
+    const createSMSMessage = (request: NotificationRequest) =>
+      (notificationService as any).createSMSMessage(request);
+
+    expect(createSMSMessage(notificationRequest)).toContain('delayed by 45 minutes');
+    expect(createSMSMessage({ ...notificationRequest, locale: 'es-MX' })).toContain(
+      'se retrasa 45 minutos'
+    );
+  });
+
+  test('should localize the HTML email wrapper', () => {
+    const html = new NotificationService().formatHTMLEmail(
+      'Hallo',
+      'de',
+      new Date('2026-03-05T14:30:00Z')
+    );
+
+    expect(html).toContain('<html lang="de">');
+    expect(html).toContain('Benachrichtigung über Lieferverzögerung');
+    expect(html).toContain('Gesendet am 05.03.2026, 14:30');
+  });
+
+  test('should reject unauthorized promises in other languages', () => {
+    const message =
+      'Ihre Lieferung von New York nach Philadelphia verzögert sich um 45 Minuten. Wir garantieren eine Rückerstattung der Versandkosten.';
+
+    expect(
+      new MessageGuardrailService({ minLength: 10, maxLength: 1200 }).validateMessage(
+        message,
+        aiRequest
+      ).reasons
+    ).toEqual([
+      'Message makes an unauthorized commitment (refund)',
+      'Message makes an unauthorized commitment (guarantee)',
+    ]);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,218 @@
+import { MessageGuardrailService } from '../services/messageGuardrailService';
+import { AIService } from '../services/aiService';
+import { AIMessageRequest } from '../types';
+
+/**
+ * Message guardrail tests
+ * Checks the validation applied to AI-generated messages before they are sent
+ */
+
+describe('MessageGuardrailService', () => {
+  const guardrails = new MessageGuardrailService({ minLength: 80, maxLength: 1200 });
+
+  const request: AIMessageRequest = {
+    delayMinutes: 45,
+    route: { origin: 'New York, NY', destination: 'Philadelphia, PA' },
+    trafficCondition: 'heavy',
+  };
+
+  const validMessage = `Dear Customer,
+
+Your freight delivery from New York to Philadelphia is delayed by approximately 45 minutes due to heavy traffic conditions. We apologize for the inconvenience.
+
+Best regards,
+Freight Delivery Team`;
+
+  test('should accept a message with the correct delay and route', () => {
+    expect(guardrails.validateMessage(validMessage, request)).toEqual({ valid: true, reasons: [] });
+  });
+
+  test('should reject a message with the wrong delay', () => {
+    const result = guardrails.validateMessage(
+      validMessage.replace('45 minutes', '30 minutes'),
+      request
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.reasons).toContain('Message does not state the delay of 45 minutes');
+  });
+
+  test('should reject a message that contradicts the delay', () => {
+    const result = guardrails.validateMessage(
+      `${validMessage}\nIt may take up to 90 minutes longer.`,
+      request
+    );
+
+    expect(result.valid).toBe(false);
+    expect(result.reasons[0]).toContain('different delay (90 minutes)');
+  });
+
+  test('should read delays of 1000 minutes or more with grouping separators', () => {
+    const longDelay: AIMessageRequest = { ...request, delayMinutes: 1250 };
+    const aiService = new AIService({
+      apiKey: '',
+      baseUrl: 'http://localhost',
+      model: 'gpt-test',
+      temperature: 0,
+      maxTokens: 200,
+      timeoutMs: 1000,
+    });
+
+    expect(
+      guardrails.validateMessage(validMessage.replace('45 minutes', '1,250 minutes'), longDelay)
+    ).toEqual({ valid: true, reasons: [] });
+    for (const locale of ['en', 'de']) {
+      const localized = { ...longDelay, locale };
+      expect(
+        guardrails.validateMessage(aiService.getFallbackMessage(localized), localized)
+      ).toEqual({ valid: true, reasons: [] });
+    }
+    expect(
+      guardrails.validateMessage(validMessage.replace('45 minutes', '1.520 Minuten'), longDelay)
+        .reasons
+    ).toEqual(['Message does not state the delay of 1250 minutes']);
+  });
+
+  test('should reject a message missing the destination', () => {
+    const result = guardrails.validateMessage(
+      validMessage.replace('Philadelphia', 'your city'),
+      request
+    );
+
+    expect(result.reasons).toEqual(['Message does not mention the destination (Philadelphia, PA)']);
+  });
+
+  test('should reject messages outside the length limits', () => {
+    expect(
+      guardrails.validateMessage('Delayed 45 minutes, New York to Philadelphia.', request)
+        .reasons[0]
+    ).toContain('too short');
+    expect(
+      guardrails.validateMessage(validMessage.padEnd(1300, ' Sorry.'), request).reasons[0]
+    ).toContain('too long');
+  });
+
+  test('should reject unauthorized promises', () => {
+    const result = guardrails.validateMessage(
+      `${validMessage}\nWe will refund your shipping fee and guarantee it will arrive by 5 PM.`,
+      request
+    );
+
+    expect(result.reasons).toEqual([
+      'Message makes an unauthorized commitment (refund)',
+      'Message makes an unauthorized commitment (guarantee)',
+      'Message makes an unauthorized commitment (guaranteed delivery time)',
+    ]);
+  });
+
+  test('should accept declined commitments and ordinary labels', () => {
+    const message = `${validMessage.replace(
+      'We apologize',
+      'Shipment details: New York to Philadelphia. We cannot promise an exact arrival time and ' +
+        "can't guarantee the traffic will clear soon, but we will keep you updated. We apologize"
+    )}`;
+
+    expect(guardrails.validateMessage(message, request)).toEqual({ valid: true, reasons: [] });
+    expect(
+      guardrails.validateMessage(`${validMessage}\nWe promise it will be there by noon.`, request)
+        .reasons
+    ).toEqual(['Message makes an unauthorized commitment (promise)']);
+    expect(
+      guardrails.validateMessage(`${validMessage}\n\nDetails:\n- Be empathetic`, request).reasons
+    ).toEqual(['Message contains leftover prompt text ("Details:")']);
+  });
+
+  test.each([
+    [
+      'de',
+      'Als Entschädigung erhalten Sie einen Gutschein. Wir versprechen, dass die Sendung garantiert bis 14 Uhr ankommt. Sie wird bis 14 Uhr zugestellt.',
+      'Wir können die genaue Ankunftszeit nicht garantieren und nicht versprechen.',
+    ],
+    [
+      'fr',
+      'Nous vous offrons un bon de réduction et vous promettons une garantie : elle sera livrée avant 14h.',
+      'Nous ne pouvons pas garantir ni promettre une heure exacte ; elle devrait être livrée avant 14h.',
+    ],
+    [
+      'es',
+      'Le ofrecemos un descuento y le prometemos una entrega garantizada: llegará antes de las 14:00.',
+      'No podemos garantizar ni prometer una hora exacta de llegada.',
+    ],
+    [
+      'ro',
+      'Vă oferim un cupon și vă promitem o livrare garantată: va ajunge până la ora 14.',
+      'Nu putem garanta și nu putem promite o oră exactă de sosire.',
+    ],
+  ])('should reject unauthorized promises in %s', (locale, promises, declined) => {
+    const aiService = new AIService({
+      apiKey: '',
+      baseUrl: 'http://localhost',
+      model: 'gpt-test',
+      temperature: 0,
+      maxTokens: 200,
+      timeoutMs: 1000,
+    });
+    const localized = { ...request, locale };
+    const message = aiService.getFallbackMessage(localized);
+
+    expect(guardrails.validateMessage(message, localized)).toEqual({ valid: true, reasons: [] });
+    expect(guardrails.validateMessage(`${message}\n${promises}`, localized).reasons).toEqual(
+      expect.arrayContaining([
+        'Message makes an unauthorized commitment (discount)',
+        'Message makes an unauthorized commitment (guarantee)',
+        'Message makes an unauthorized commitment (promise)',
+        'Message makes an unauthorized commitment (guaranteed delivery time)',
+      ])
+    );
+    expect(guardrails.validateMessage(`${message}\n${declined}`, localized)).toEqual({
+      valid: true,
+      reasons: [],
+    });
+  });
+
+  test('should reject leftover prompt text and placeholders', () => {
+    const result = guardrails.validateMessage(
+      `${validMessage.replace('Dear Customer', 'Dear [Customer Name]')}\n\nRequirements:\n- Be empathetic`,
+      request
+    );
+
+    expect(result.reasons).toEqual([
+      'Message contains leftover prompt text ("Requirements:")',
+      'Message contains leftover prompt text ("[Customer Name]")',
+    ]);
+  });
+
+  test('should accept the fallback and mock messages', async () => {
+    const aiService = new AIService({
+      apiKey: '',
+      baseUrl: 'http://localhost',
+      model: 'gpt-test',
+      temperature: 0,
+      maxTokens: 200,
+      timeoutMs: 1000,
+    });
+
+    expect(guardrails.validateMessage(aiService.getFallbackMessage(request), request).valid).toBe(
+      true
+    );
+    for (let i = 0; i < 10; i++) {
+      const response = await aiService.generateDelayMessage(request);
+      expect(guardrails.validateMessage(response.message, request)).toEqual({
+        valid: true,
+        reasons: [],
+      });
+    }
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
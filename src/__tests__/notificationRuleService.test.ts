@@ -0,0 +1,184 @@
+import { NotificationRuleService } from '../services/notificationRuleService';
+import { NotificationRuleContext, TrafficData } from '../types';
+
+/**
+ * Notification rule tests
+ * Covers matching rule conditions, rule precedence and the delay threshold fallback
+ */
+
+describe('NotificationRuleService', () => {
+  const trafficData: TrafficData = {
+    estimatedDelayMinutes: 25,
+    normalDurationMinutes: 200,
+    currentDurationMinutes: 225,
+    trafficCondition: 'heavy',
+    legs: [],
+    route: { origin: 'Philadelphia, PA', destination: 'New York, NY' },
+    provider: 'google',
+    source: 'live',
+    confidence: 0.9,
+  };
+
+  const context: NotificationRuleContext = {
+    thresholdMinutes: 30,
+    customerEmail: 'ops@acme.com',
+    tenantId: 'acme',
+    customerTier: 'Gold',
+    expectedArrivalTime: '2026-10-19T14:00:00Z',
+    deliveryAppointment: { start: '2026-10-19T13:30:00Z', end: '2026-10-19T14:15:00Z' },
+  };
+
+  // 10:00 in New York
+  const now = new Date('2026-10-19T14:00:00Z');
+
+  test('should fall back to the delay threshold without rules', () => {
+    const service = new NotificationRuleService({ customerRules: {}, tenantRules: {} });
+
+    expect(service.evaluate(trafficData, context, now)).toEqual({
+      notify: false,
+      rule: 'delay-threshold',
+      source: 'threshold',
+      explanation: 'Delay of 25 minutes is below threshold of 30 minutes',
+      delayCleared: true,
+    });
+    expect(
+      service.evaluate({ ...trafficData, estimatedDelayMinutes: 45 }, context, now).notify
+    ).toBe(true);
+  });
+
+  test('should notify a delay below the threshold that misses the appointment', () => {
+    const service = new NotificationRuleService({
+      customerRules: {},
+      tenantRules: {
+        acme: [
+          {
+            name: 'gold-missed-appointment',
+            when: { missesAppointment: true, customerTiers: ['gold'], minDelayPercent: 10 },
+            notify: true,
+          },
+        ],
+      },
+    });
+
+    expect(service.evaluate(trafficData, context, now)).toEqual({
+      notify: true,
+      rule: 'gold-missed-appointment',
+      source: 'tenant',
+      explanation:
+        'Rule "gold-missed-appointment" of tenant acme notifies the delay: delay is 13% of the normal 200 minute duration, estimated arrival at 2026-10-19T14:25:00.000Z misses the appointment ending 2026-10-19T14:15:00Z, customer tier is Gold',
+      delayCleared: false,
+    });
+
+    // The rule does not apply to shipments that make their appointment or have none
+    const onTime = { ...trafficData, estimatedDelayMinutes: 10 };
+    expect(service.evaluate(onTime, context, now).rule).toBe('delay-threshold');
+    const { deliveryAppointment: _appointment, ...withoutAppointment } = context;
+    expect(service.evaluate(trafficData, withoutAppointment, now).rule).toBe('delay-threshold');
+  });
+
+  test("should evaluate the customer's rules before the tenant's", () => {
+    const service = new NotificationRuleService({
+      customerRules: {
+        'ops@acme.com': [
+          {
+            name: 'overnight',
+            when: { timeOfDay: { start: '22:00', end: '06:00' } },
+            notify: false,
+          },
+          {
+            name: 'heavy-traffic',
+            when: { trafficConditions: ['heavy', 'severe'] },
+            notify: false,
+          },
+        ],
+      },
+      tenantRules: { acme: [{ name: 'everything', when: {}, notify: true }] },
+    });
+
+    expect(
+      service.evaluate(trafficData, { ...context, customerEmail: 'OPS@acme.com' }, now)
+    ).toEqual({
+      notify: false,
+      rule: 'heavy-traffic',
+      source: 'customer',
+      explanation:
+        'Rule "heavy-traffic" of customer OPS@acme.com suppresses the delay: traffic is heavy',
+      delayCleared: true,
+    });
+
+    // 23:00 in New York falls in the overnight window
+    const night = new Date('2026-10-20T03:00:00Z');
+    expect(service.evaluate(trafficData, context, night).rule).toBe('overnight');
+
+    const light = { ...trafficData, trafficCondition: 'light' as const };
+    expect(service.evaluate(light, context, now)).toMatchObject({
+      notify: true,
+      rule: 'everything',
+      source: 'tenant',
+    });
+    expect(service.evaluate(light, { ...context, tenantId: 'globex' }, now).source).toBe(
+      'threshold'
+    );
+  });
+
+  test('should not match delay percentages without a normal duration', () => {
+    const service = new NotificationRuleService({
+      customerRules: {},
+      tenantRules: { acme: [{ name: 'half', when: { minDelayPercent: 50 }, notify: true }] },
+    });
+
+    expect(service.evaluate({ ...trafficData, normalDurationMinutes: 0 }, context, now).rule).toBe(
+      'delay-threshold'
+    );
+    expect(
+      service.evaluate({ ...trafficData, estimatedDelayMinutes: 100 }, context, now).rule
+    ).toBe('half');
+  });
+
+  test('should only report a delay as cleared below every notifying rule', () => {
+    const service = new NotificationRuleService({
+      customerRules: {},
+      tenantRules: {
+        acme: [
+          {
+            name: 'overnight',
+            when: { timeOfDay: { start: '22:00', end: '06:00' }, minDelayMinutes: 20 },
+            notify: true,
+          },
+          { name: 'long-haul', when: { minDelayPercent: 5 }, notify: true },
+          { name: 'quiet', when: { minDelayMinutes: 1 }, notify: false },
+        ],
+      },
+    });
+
+    // 10:00 in New York: the overnight rule does not match, but the delay has not cleared it
+    expect(service.evaluate({ ...trafficData, estimatedDelayMinutes: 20 }, context, now)).toEqual(
+      expect.objectContaining({ notify: true, rule: 'long-haul', delayCleared: false })
+    );
+    expect(service.evaluate({ ...trafficData, estimatedDelayMinutes: 9 }, context, now)).toEqual(
+      expect.objectContaining({ notify: false, rule: 'quiet', delayCleared: true })
+    );
+    expect(
+      service.evaluate(
+        { ...trafficData, estimatedDelayMinutes: 9, normalDurationMinutes: 100 },
+        context,
+        now
+      ).delayCleared
+    ).toBe(false);
+    expect(
+      service.evaluate({ ...trafficData, estimatedDelayMinutes: 45 }, context, now).delayCleared
+    ).toBe(false);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,227 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { NotificationService } from '../services/notificationService';
+import { NotificationServiceError } from '../errors';
+import { NotificationRequest } from '../types';
+
+/**
+ * Notification service tests
+ * Runs the SendGrid integration against a local SendGrid-compatible stub server
+ */
+
+describe('NotificationService SendGrid integration', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: { url?: string; headers: http.IncomingHttpHeaders; body: any }[];
+  let stubResponse: { status: number; body?: unknown; delayMs?: number };
+
+  const request: NotificationRequest = {
+    customerEmail: 'customer@example.com',
+    subject: 'Freight Delivery Delay Notice - 45 Minutes',
+    message: 'Your delivery is running late.\nWe apologize.',
+    delayMinutes: 45,
+    locale: 'de',
+    correlationId: 'freight-delay-123',
+  };
+
+  const createService = (
+    options: { templateId?: string; timeoutMs?: number; fromName?: string; replyTo?: string } = {}
+  ) =>
+    new NotificationService({
+      apiKey: 'SG.test-key',
+      baseUrl,
+      fromEmail: 'noreply@example.com',
+      fromName: options.fromName,
+      replyTo: options.replyTo,
+      templateId: options.templateId,
+      categories: ['freight', 'delay-notification'],
+      timeoutMs: options.timeoutMs ?? 2000,
+    });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ url: req.url, headers: req.headers, body: JSON.parse(body || '{}') });
+        setTimeout(() => {
+          res.writeHead(stubResponse.status, {
+            'Content-Type': 'application/json',
+            'X-Message-Id': 'sg-message-1',
+          });
+          res.end(stubResponse.body ? JSON.stringify(stubResponse.body) : '');
+        }, stubResponse.delayMs ?? 0);
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  test('should send a multipart text and HTML email with correlation headers', async () => {
+    stubResponse = { status: 202 };
+
+    const response = await createService().sendDelayNotification(request);
+
+    expect(response).toEqual({ success: true, messageId: 'sg-message-1' });
+    expect(requests[0].url).toBe('/v3/mail/send');
+    expect(requests[0].headers.authorization).toBe('Bearer SG.test-key');
+
+    const mail = requests[0].body;
+    expect(mail.personalizations[0].to[0].email).toBe('customer@example.com');
+    expect(mail.from.email).toBe('noreply@example.com');
+    expect(mail.subject).toBe(request.subject);
+    expect(mail.categories).toEqual(['freight', 'delay-notification']);
+    expect(mail.headers).toEqual({ 'X-Correlation-ID': 'freight-delay-123' });
+    expect(mail.custom_args).toEqual({ correlationId: 'freight-delay-123' });
+    expect(mail.content[0]).toEqual({ type: 'text/plain', value: request.message });
+    expect(mail.content[1].type).toBe('text/html');
+    expect(mail.content[1].value).toContain('<html lang="de">');
+    expect(mail.content[1].value).toContain('Your delivery is running late.<br>We apologize.');
+  });
+
+  test('should escape the message in the HTML email', async () => {
+    stubResponse = { status: 202 };
+    const service = createService();
+    const message = service.addShipmentReferences("We're sorry for the delay.", 'en', {
+      shipmentId: 'DEMO-1001',
+      customerReference: '<a href="https://evil.example">PO-1</a> & co',
+    });
+
+    await service.sendDelayNotification({ ...request, locale: 'en', message });
+
+    const html = requests[0].body.content[1].value;
+    expect(html).not.toContain('<a href');
+    expect(html).toContain(
+      'We&#39;re sorry for the delay.<br><br>Shipment references: Your reference: ' +
+        '&lt;a href=&quot;https://evil.example&quot;&gt;PO-1&lt;/a&gt; &amp; co'
+    );
+    expect(requests[0].body.content[0].value).toBe(message);
+  });
+
+  test('should send through a dynamic template when one is configured', async () => {
+    stubResponse = { status: 202 };
+
+    await createService({ templateId: 'd-template-1' }).sendDelayNotification(request);
+
+    const mail = requests[0].body;
+    expect(mail.template_id).toBe('d-template-1');
+    expect(mail.content).toBeUndefined();
+    expect(mail.personalizations[0].dynamic_template_data).toMatchObject({
+      subject: request.subject,
+      heading: 'Benachrichtigung über Lieferverzögerung',
+      message: request.message,
+      locale: 'de',
+      delay: '45 Minuten',
+    });
+  });
+
+  test("should send and sign messages as the tenant's sender", async () => {
+    stubResponse = { status: 202 };
+    const service = createService({ fromName: 'Acme Logistics', replyTo: 'dispatch@acme.com' });
+    const sender = { name: 'Acme Logistics', signature: 'Acme Dispatch' };
+
+    await service.sendDelayNotification(request);
+
+    const mail = requests[0].body;
+    expect(mail.from).toEqual({ email: 'noreply@example.com', name: 'Acme Logistics' });
+    expect(mail.reply_to).toEqual({ email: 'dispatch@acme.com' });
+    expect(service.createSMSMessage({ ...request, locale: 'en', sender })).toMatch(
+      / - Acme Logistics$/
+    );
+    expect(service.createSMSMessage({ ...request, locale: 'en' })).toMatch(/ - Freight Team$/);
+
+    const followUp = service.createBackOnScheduleRequest(
+      'customer@example.com',
+      { origin: 'New York, NY', destination: 'Boston, MA' },
+      5,
+      'en',
+      undefined,
+      undefined,
+      sender
+    );
+    expect(followUp.message).toMatch(/\nAcme Dispatch$/);
+    expect(followUp.sender).toEqual(sender);
+  });
+
+  test('should report an invalid recipient as a permanent failure', async () => {
+    stubResponse = {
+      status: 400,
+      body: {
+        errors: [
+          {
+            message: 'Does not contain a valid address.',
+            field: 'personalizations.0.to.0.email',
+          },
+        ],
+      },
+    };
+
+    const response = await createService().sendDelayNotification(request);
+
+    expect(response.success).toBe(false);
+    expect(response.errorCode).toBe('INVALID_RECIPIENT');
+    expect(response.error).toContain('Does not contain a valid address.');
+  });
+
+  test('should report authentication errors as permanent failures', async () => {
+    stubResponse = {
+      status: 401,
+      body: { errors: [{ message: 'The provided authorization grant is invalid' }] },
+    };
+
+    const response = await createService().sendDelayNotification(request);
+
+    expect(response.success).toBe(false);
+    expect(response.errorCode).toBe('AUTHENTICATION_ERROR');
+  });
+
+  test.each([
+    [500, 'SERVER_ERROR'],
+    [503, 'SERVER_ERROR'],
+    [429, 'RATE_LIMITED'],
+  ])('should throw a retryable error on %s responses', async (status, code) => {
+    stubResponse = { status, body: { errors: [{ message: 'Try again later' }] } };
+
+    const error = await createService()
+      .sendDelayNotification(request)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(NotificationServiceError);
+    expect(error.code).toBe(code);
+    expect(error.retryable).toBe(true);
+  });
+
+  test('should throw a retryable error on timeouts', async () => {
+    stubResponse = { status: 202, delayMs: 500 };
+
+    const error = await createService({ timeoutMs: 100 })
+      .sendDelayNotification(request)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(NotificationServiceError);
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.retryable).toBe(true);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
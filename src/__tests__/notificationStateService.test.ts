@@ -0,0 +1,210 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { NotificationStateService } from '../services/notificationStateService';
+import { SqliteNotificationStateStore } from '../services/notificationStateStores';
+import { NotificationService } from '../services/notificationService';
+
+/**
+ * Notification state tests
+ * Covers deduplication of repeated delays, escalation tiers and the back on schedule follow-up
+ */
+
+describe('NotificationStateService', () => {
+  const route = { origin: 'New York, NY', destination: 'Boston, MA' };
+  const customer = { customerEmail: 'customer@example.com' };
+  let stateService: NotificationStateService;
+  let shipmentKey: string;
+
+  beforeEach(() => {
+    stateService = new NotificationStateService({
+      repeatChangeMinutes: 15,
+      escalationTierMinutes: [30, 60, 120],
+      store: 'memory',
+    });
+    shipmentKey = stateService.getShipmentKey(route, 'Customer@Example.com');
+  });
+
+  test('should notify a new delay', () => {
+    const decision = stateService.evaluate(shipmentKey, 45, false);
+
+    expect(decision.action).toBe('notify');
+    expect(decision.tierIndex).toBe(0);
+    expect(shipmentKey).toBe(stateService.getShipmentKey(route, 'customer@example.com'));
+  });
+
+  test('should keep loads with a shipment ID apart from other loads on the lane', () => {
+    const firstLoad = stateService.getShipmentKey(route, customer.customerEmail, 'DEMO-1001');
+    stateService.recordNotified(firstLoad, 45, 0, [customer]);
+
+    const secondLoad = stateService.getShipmentKey(route, customer.customerEmail, 'DEMO-1002');
+    expect(stateService.evaluate(secondLoad, 45, false).action).toBe('notify');
+    expect(stateService.evaluate(firstLoad, 45, false).action).toBe('suppress');
+  });
+
+  test('should track the customer at a stop apart from the destination', () => {
+    const destination = stateService.getShipmentKey(route, customer.customerEmail, 'DEMO-1001');
+    const stop = stateService.getShipmentKey(route, customer.customerEmail, 'DEMO-1001', 'Denver');
+    stateService.recordNotified(stop, 45, 0, [customer]);
+
+    expect(stop).not.toBe(destination);
+    expect(stateService.evaluate(stop, 45, false).action).toBe('suppress');
+    expect(stateService.evaluate(destination, 45, false).action).toBe('notify');
+  });
+
+  test('should suppress repeats until the delay changed by the repeat change minutes', () => {
+    stateService.recordNotified(shipmentKey, 35, 0, [customer]);
+
+    expect(stateService.evaluate(shipmentKey, 45, false).action).toBe('suppress');
+    expect(stateService.evaluate(shipmentKey, 50, false).action).toBe('notify');
+    expect(stateService.evaluate(shipmentKey, 50, false, { repeatChangeMinutes: 20 }).action).toBe(
+      'suppress'
+    );
+  });
+
+  test('should escalate when the delay reaches a higher tier', () => {
+    stateService.recordNotified(shipmentKey, 55, 0, [customer]);
+    const accountManager = { name: 'Account manager', customerEmail: 'am@example.com' };
+
+    const decision = stateService.evaluate(shipmentKey, 65, false, {
+      escalationTiers: [
+        { delayMinutes: 30 },
+        { delayMinutes: 60, channels: ['sms'], recipients: [accountManager] },
+        { delayMinutes: 120, channels: ['sms', 'email'] },
+      ],
+    });
+
+    expect(decision.action).toBe('escalate');
+    expect(decision.tierIndex).toBe(1);
+    expect(decision.escalationChannels).toEqual(['sms']);
+    expect(decision.escalationRecipients).toEqual([accountManager]);
+  });
+
+  test('should send a single back on schedule follow-up to everyone notified', () => {
+    const accountManager = { name: 'Account manager', customerEmail: 'am@example.com' };
+    stateService.recordNotified(shipmentKey, 45, 0, [customer]);
+    stateService.recordNotified(shipmentKey, 65, 1, [customer, accountManager]);
+
+    const decision = stateService.evaluate(shipmentKey, 10, true);
+    expect(decision.action).toBe('back_on_schedule');
+    expect(decision.previousDelayMinutes).toBe(65);
+    expect(decision.notifiedRecipients).toEqual([customer, accountManager]);
+
+    stateService.clear(shipmentKey);
+    expect(stateService.evaluate(shipmentKey, 10, true).action).toBe('none');
+  });
+
+  test('should not follow up while the delay is as large as the one notified', () => {
+    // e.g. a 20 minute delay a rule notified below the threshold
+    stateService.recordNotified(shipmentKey, 20, -1, [customer]);
+
+    const decision = stateService.evaluate(shipmentKey, 20, true);
+    expect(decision.action).toBe('none');
+    expect(decision.reason).toBe(
+      'Delay of 20 minutes is not below the 20 minute delay that was notified'
+    );
+    expect(stateService.evaluate(shipmentKey, 5, true).action).toBe('back_on_schedule');
+  });
+
+  test('should share the state between workers using the same SQLite database', () => {
+    const databaseFile = path.join(os.tmpdir(), `notification-state-${Date.now()}.db`);
+    const config = {
+      repeatChangeMinutes: 15,
+      escalationTierMinutes: [30],
+      store: 'sqlite' as const,
+    };
+    const accountManager = { name: 'Account manager', customerEmail: 'am@example.com' };
+    try {
+      const firstWorker = new NotificationStateService(
+        config,
+        new SqliteNotificationStateStore(databaseFile)
+      );
+      const secondWorker = new NotificationStateService(
+        config,
+        new SqliteNotificationStateStore(databaseFile)
+      );
+
+      firstWorker.recordNotified(shipmentKey, 45, 0, [customer]);
+      expect(secondWorker.evaluate(shipmentKey, 50, false).action).toBe('suppress');
+
+      secondWorker.recordNotified(shipmentKey, 65, 0, [accountManager]);
+      expect(firstWorker.evaluate(shipmentKey, 10, true)).toMatchObject({
+        action: 'back_on_schedule',
+        previousDelayMinutes: 65,
+        notifiedRecipients: [customer, accountManager],
+      });
+
+      firstWorker.clear(shipmentKey);
+      expect(secondWorker.evaluate(shipmentKey, 10, true).action).toBe('none');
+    } finally {
+      for (const suffix of ['', '-wal', '-shm']) {
+        fs.rmSync(`${databaseFile}${suffix}`, { force: true });
+      }
+    }
+  });
+});
+
+describe('Back on schedule notifications', () => {
+  test('should create a localized follow-up', () => {
+    const notificationService = new NotificationService();
+    const request = notificationService.createBackOnScheduleRequest(
+      'kunde@example.com',
+      { origin: 'Hamburg', destination: 'Berlin' },
+      0,
+      'de'
+    );
+
+    expect(request.kind).toBe('back_on_schedule');
+    expect(request.subject).toBe('Update zu Ihrer Frachtlieferung - Wieder im Zeitplan');
+    expect(request.message).toContain('von Hamburg nach Berlin ist wieder im Zeitplan.');
+    expect(notificationService.validateRequest(request)).toBe(true);
+    expect((notificationService as any).createSMSMessage(request)).toBe(
+      'Fracht-Update: Ihre Lieferung ist wieder im Zeitplan. - Ihr Fracht-Team'
+    );
+  });
+
+  test('should quote the shipment references in the subject, message and SMS', () => {
+    const notificationService = new NotificationService();
+    const shipment = {
+      shipmentId: 'DEMO-1002',
+      proNumber: '0123456790',
+      carrier: 'ODFL',
+      customerReference: 'PO-77120',
+    };
+    const request = notificationService.createBackOnScheduleRequest(
+      'customer@example.com',
+      { origin: 'Los Angeles, CA', destination: 'New York, NY' },
+      0,
+      'en',
+      undefined,
+      shipment
+    );
+
+    expect(request.shipment).toEqual(shipment);
+    expect(request.subject).toBe('Freight Delivery Update - Back on Schedule - Ref. PO-77120');
+    expect(request.message).toMatch(
+      /\n\nShipment references: Your reference: PO-77120, PRO: 0123456790, Carrier: ODFL, Shipment ID: DEMO-1002$/
+    );
+    expect((notificationService as any).createSMSMessage(request)).toBe(
+      'Ref. PO-77120: Freight Update: Your delivery is back on schedule. - Freight Team'
+    );
+    expect(
+      notificationService.createDelaySubject(45, 'de', undefined, {
+        shipmentId: 'DEMO-1001',
+        proNumber: '0123456789',
+      })
+    ).toMatch(/ - Ref\. 0123456789$/);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -1,6 +1,7 @@
 import { TrafficService } from '../services/trafficService';
 import { AIService } from '../services/aiService';
 import { NotificationService } from '../services/notificationService';
+import { getDelaySeverity } from '../activities';
 
 /**
  * Test Suite for Freight Delay Notification Services
@@ -102,6 +103,49 @@ describe('AIService', () => {
     expect(response.message.length).toBeGreaterThan(0);
     expect(response.success).toBe(true);
   });
+
+  test('should mention a manually reported delay reason', async () => {
+    const request = {
+      delayMinutes: 90,
+      route: {
+        origin: 'New York, NY',
+        destination: 'Philadelphia, PA',
+      },
+      trafficCondition: 'moderate' as const,
+      delayReason: 'a mechanical issue with the truck',
+    };
+
+    const response = await aiService.generateDelayMessage(request);
+
+    expect(response.message).toContain('a mechanical issue with the truck');
+  });
+
+  test('should name the route segment causing the delay', async () => {
+    const leg = (from: string, to: string, delayMinutes: number) => ({
+      from,
+      to,
+      normalDurationMinutes: 240,
+      currentDurationMinutes: 240 + delayMinutes,
+      delayMinutes,
+      trafficCondition: delayMinutes > 0 ? ('heavy' as const) : ('light' as const),
+    });
+    const request = {
+      delayMinutes: 70,
+      route: {
+        origin: 'Los Angeles, CA',
+        destination: 'Denver, CO',
+        waypoints: ['Las Vegas, NV'],
+      },
+      trafficCondition: 'moderate' as const,
+      legs: [leg('Los Angeles, CA', 'Las Vegas, NV', 0), leg('Las Vegas, NV', 'Denver, CO', 70)],
+    };
+
+    const response = await aiService.generateDelayMessage(request);
+
+    expect(response.message).toContain(
+      'heavy traffic conditions on the Las Vegas, NV to Denver, CO segment'
+    );
+  });
 });
 
 describe('NotificationService', () => {
@@ -159,6 +203,7 @@ describe('NotificationService', () => {
   test('should send SMS notification', async () => {
     const request = {
       customerEmail: 'customer@example.com',
+      customerPhone: '+15551234567',
       subject: 'Delivery Delay Notice',
       message: 'Your delivery is delayed by 45 minutes.',
       delayMinutes: 45,
@@ -169,6 +214,36 @@ describe('NotificationService', () => {
     expect(response).toBeDefined();
     expect(response.success).toBe(true);
     expect(response.messageId).toBeDefined();
+    expect(response.deliveryStatus).toBe('delivered');
+  });
+
+  test('should not send SMS without a valid phone number', async () => {
+    const request = {
+      customerEmail: 'customer@example.com',
+      subject: 'Delivery Delay Notice',
+      message: 'Your delivery is delayed by 45 minutes.',
+      delayMinutes: 45,
+    };
+
+    const missing = await notificationService.sendSMSNotification(request);
+    const invalid = await notificationService.sendSMSNotification({
+      ...request,
+      customerPhone: '555-123-4567',
+    });
+
+    expect(missing.success).toBe(false);
+    expect(missing.errorCode).toBe('INVALID_RECIPIENT');
+    expect(invalid.success).toBe(false);
+    expect(invalid.errorCode).toBe('INVALID_RECIPIENT');
+  });
+});
+
+describe('Delay severity', () => {
+  test('should classify delays with the default thresholds', () => {
+    expect(getDelaySeverity(45)).toBe('low');
+    expect(getDelaySeverity(60)).toBe('medium');
+    expect(getDelaySeverity(150)).toBe('high');
+    expect(getDelaySeverity(240)).toBe('critical');
   });
 });
 
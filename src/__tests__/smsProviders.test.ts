@@ -0,0 +1,215 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { NotificationService } from '../services/notificationService';
+import {
+  TwilioSmsProvider,
+  getSmsEncoding,
+  splitIntoSegments,
+  truncateToSegments,
+} from '../services/smsProviders';
+import { NotificationServiceError } from '../errors';
+import { NotificationRequest } from '../types';
+
+/**
+ * SMS tests
+ * Covers GSM-7/UCS-2 segmentation and the Twilio integration against a local stub server
+ */
+
+describe('SMS segmentation', () => {
+  test('should detect the encoding', () => {
+    expect(getSmsEncoding('Delivery delayed by 45 minutes. Sorry!')).toBe('GSM-7');
+    expect(getSmsEncoding('Lieferung verzögert sich um 45 Minuten')).toBe('GSM-7');
+    expect(getSmsEncoding('Livrarea întârzie cu 45 de minute')).toBe('UCS-2');
+    expect(getSmsEncoding('Delayed 🚚')).toBe('UCS-2');
+  });
+
+  test('should split GSM-7 messages at 160 and 153 characters', () => {
+    expect(splitIntoSegments('a'.repeat(160))).toHaveLength(1);
+    expect(splitIntoSegments('a'.repeat(161)).map(segment => segment.length)).toEqual([153, 8]);
+    // Extension characters such as € take two characters
+    expect(splitIntoSegments('€'.repeat(80))).toHaveLength(1);
+    expect(splitIntoSegments('€'.repeat(81))).toHaveLength(2);
+  });
+
+  test('should split UCS-2 messages at 70 and 67 characters', () => {
+    expect(splitIntoSegments('ă'.repeat(70))).toHaveLength(1);
+    expect(splitIntoSegments('ă'.repeat(71)).map(segment => segment.length)).toEqual([67, 4]);
+  });
+
+  test('should shorten messages to the segment budget at a word boundary', () => {
+    const message = 'word '.repeat(100).trim();
+    const shortened = truncateToSegments(message, 1);
+
+    expect(shortened.length).toBeLessThanOrEqual(160);
+    expect(shortened).toMatch(/word\.\.\.$/);
+    expect(truncateToSegments('Short message', 1)).toBe('Short message');
+  });
+
+  test('should keep SMS notifications within the segment budget', () => {
+    const notificationService = new NotificationService(undefined, {
+      provider: 'mock',
+      maxSegments: 1,
+    });
+    const sms: string = (notificationService as any).createSMSMessage({
+      customerEmail: 'test@example.com',
+      subject: 'Test Subject',
+      message: 'Test message',
+      delayMinutes: 45,
+      locale: 'ro',
+      eta: { arrivalTime: '2026-10-19T21:45:00.000Z', timeZone: 'America/New_York' },
+    });
+
+    expect(getSmsEncoding(sms)).toBe('UCS-2');
+    expect(splitIntoSegments(sms)).toHaveLength(1);
+  });
+});
+
+describe('TwilioSmsProvider', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: {
+    method?: string;
+    url?: string;
+    headers: http.IncomingHttpHeaders;
+    body: string;
+  }[];
+  let stubResponses: { status: number; body: unknown }[];
+
+  const request: NotificationRequest = {
+    customerEmail: 'customer@example.com',
+    customerPhone: '+15551234567',
+    subject: 'Delivery Delay Notice',
+    message: 'Your delivery is delayed by 45 minutes.',
+    delayMinutes: 45,
+  };
+
+  const createService = () =>
+    new NotificationService(
+      undefined,
+      { provider: 'twilio', maxSegments: 3 },
+      new TwilioSmsProvider({
+        accountSid: 'AC123',
+        authToken: 'secret',
+        fromNumber: '+15550000000',
+        baseUrl,
+        timeoutMs: 2000,
+        receiptTimeoutMs: 1000,
+        receiptPollIntervalMs: 10,
+      })
+    );
+
+  const message = (status: string, extra: Record<string, unknown> = {}) => ({
+    sid: 'SM123',
+    status,
+    num_segments: '1',
+    error_code: null,
+    error_message: null,
+    ...extra,
+  });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        requests.push({ method: req.method, url: req.url, headers: req.headers, body });
+        const response = stubResponses.shift() || { status: 500, body: {} };
+        res.writeHead(response.status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(response.body));
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  test('should send the message and wait for the delivery receipt', async () => {
+    stubResponses = [
+      { status: 201, body: message('queued') },
+      { status: 200, body: message('sent') },
+      { status: 200, body: message('delivered') },
+    ];
+
+    const response = await createService().sendSMSNotification(request);
+
+    expect(response).toEqual({
+      success: true,
+      messageId: 'SM123',
+      deliveryStatus: 'delivered',
+      segments: 1,
+    });
+    expect(requests[0].method).toBe('POST');
+    expect(requests[0].url).toBe('/2010-04-01/Accounts/AC123/Messages.json');
+    expect(requests[0].headers.authorization).toBe(
+      `Basic ${Buffer.from('AC123:secret').toString('base64')}`
+    );
+    const form = new URLSearchParams(requests[0].body);
+    expect(form.get('To')).toBe('+15551234567');
+    expect(form.get('From')).toBe('+15550000000');
+    expect(form.get('Body')).toContain('delayed by 45 minutes');
+    expect(requests[2].url).toBe('/2010-04-01/Accounts/AC123/Messages/SM123.json');
+  });
+
+  test('should report undelivered messages with the carrier error', async () => {
+    stubResponses = [
+      { status: 201, body: message('queued') },
+      {
+        status: 200,
+        body: message('undelivered', { error_code: 30003, error_message: 'Unreachable handset' }),
+      },
+    ];
+
+    const response = await createService().sendSMSNotification(request);
+
+    expect(response).toMatchObject({
+      success: false,
+      deliveryStatus: 'undelivered',
+      error: 'Unreachable handset',
+      errorCode: '30003',
+    });
+  });
+
+  test('should report rejected numbers as permanent failures', async () => {
+    stubResponses = [
+      { status: 400, body: { code: 21211, message: 'The To number is not a valid phone number.' } },
+    ];
+
+    const response = await createService().sendSMSNotification(request);
+
+    expect(response.success).toBe(false);
+    expect(response.errorCode).toBe('INVALID_RECIPIENT');
+  });
+
+  test('should throw a retryable error on server errors', async () => {
+    stubResponses = [{ status: 503, body: { code: 20503, message: 'Service unavailable' } }];
+
+    const error = await createService()
+      .sendSMSNotification(request)
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(NotificationServiceError);
+    expect(error.code).toBe('SERVER_ERROR');
+    expect(error.retryable).toBe(true);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,625 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { TrafficService } from '../services/trafficService';
+import { HistoricalTrafficStore } from '../services/historicalTrafficStore';
+import {
+  GoogleMapsProvider,
+  HereProvider,
+  OsrmProvider,
+  TomTomProvider,
+} from '../services/trafficProviders';
+import { buildTrafficData } from '../services/trafficProviders/providerUtils';
+import { TrafficApiError } from '../errors';
+import { DeliveryRoute, TrafficData, TrafficProvider, TrafficProviderName } from '../types';
+
+/**
+ * Traffic provider tests
+ * Runs the provider adapters against a local HTTP stub of each provider API
+ */
+
+describe('Traffic providers', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let requests: URL[];
+  // By path prefix; a function answers each request on its own
+  let stubResponses: Record<
+    string,
+    { status: number; body: unknown } | ((url: URL) => { status: number; body: unknown })
+  >;
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push(url);
+      const match = Object.keys(stubResponses).find(prefix => url.pathname.startsWith(prefix));
+      const response = match ? stubResponses[match] : { status: 404, body: {} };
+      const stub = typeof response === 'function' ? response(url) : response;
+      res.writeHead(stub.status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(stub.body));
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    requests = [];
+    stubResponses = {};
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  describe('GoogleMapsProvider', () => {
+    const createProvider = () =>
+      new GoogleMapsProvider({ apiKey: 'test-key', baseUrl, timeoutMs: 2000 });
+
+    /**
+     * Answers each leg request with the leg's durations
+     * @param legs - Durations by the leg's origin
+     */
+    const stubLegs = (legs: Record<string, { duration: number; duration_in_traffic?: number }>) => {
+      stubResponses['/maps/api/directions/json'] = url => {
+        const leg = legs[url.searchParams.get('origin') || ''];
+        return {
+          status: 200,
+          body: {
+            status: 'OK',
+            routes: [
+              {
+                legs: [
+                  {
+                    duration: { value: leg.duration },
+                    ...(leg.duration_in_traffic
+                      ? { duration_in_traffic: { value: leg.duration_in_traffic } }
+                      : {}),
+                  },
+                ],
+              },
+            ],
+          },
+        };
+      };
+    };
+
+    test('should request each leg and sum duration_in_traffic across them', async () => {
+      stubLegs({
+        'Los Angeles, CA': { duration: 3600, duration_in_traffic: 4200 },
+        'Las Vegas, NV': { duration: 1800, duration_in_traffic: 2400 },
+      });
+
+      const route = {
+        origin: 'Los Angeles, CA',
+        destination: 'Denver, CO',
+        waypoints: ['Las Vegas, NV'],
+      };
+      const trafficData = await createProvider().getTrafficData(route);
+
+      // Stopover waypoints would leave out duration_in_traffic
+      expect(
+        requests.map(request => [
+          request.searchParams.get('origin'),
+          request.searchParams.get('destination'),
+        ])
+      ).toEqual([
+        ['Los Angeles, CA', 'Las Vegas, NV'],
+        ['Las Vegas, NV', 'Denver, CO'],
+      ]);
+      expect(requests.some(request => request.searchParams.has('waypoints'))).toBe(false);
+      expect(requests[0].searchParams.get('departure_time')).toBe('now');
+      expect(requests[0].searchParams.get('key')).toBe('test-key');
+      expect(trafficData.normalDurationMinutes).toBe(90);
+      expect(trafficData.currentDurationMinutes).toBe(110);
+      expect(trafficData.estimatedDelayMinutes).toBe(20);
+      expect(trafficData.trafficCondition).toBe('moderate');
+      expect(trafficData.route).toEqual(route);
+      expect(trafficData.provider).toBe('google');
+      expect(trafficData.legs).toEqual([
+        {
+          from: 'Los Angeles, CA',
+          to: 'Las Vegas, NV',
+          normalDurationMinutes: 60,
+          currentDurationMinutes: 70,
+          delayMinutes: 10,
+          trafficCondition: 'moderate',
+        },
+        {
+          from: 'Las Vegas, NV',
+          to: 'Denver, CO',
+          normalDurationMinutes: 30,
+          currentDurationMinutes: 40,
+          delayMinutes: 10,
+          trafficCondition: 'heavy',
+        },
+      ]);
+    });
+
+    test('should fail over when a leg has no duration_in_traffic', async () => {
+      stubLegs({
+        'Los Angeles, CA': { duration: 3600, duration_in_traffic: 4200 },
+        'Las Vegas, NV': { duration: 1800 },
+      });
+
+      const error = await createProvider()
+        .getTrafficData({
+          origin: 'Los Angeles, CA',
+          destination: 'Denver, CO',
+          waypoints: ['Las Vegas, NV'],
+        })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(TrafficApiError);
+      expect(error.message).toBe(
+        'Google Maps API returned no traffic data from Las Vegas, NV to Denver, CO'
+      );
+      expect(error.retryable).toBe(false);
+    });
+
+    test('should map REQUEST_DENIED to a non-retryable error', async () => {
+      stubResponses['/maps/api/directions/json'] = {
+        status: 200,
+        body: {
+          status: 'REQUEST_DENIED',
+          error_message: 'The provided API key is invalid.',
+          routes: [],
+        },
+      };
+
+      const error = await createProvider()
+        .getTrafficData({ origin: 'A', destination: 'B' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(TrafficApiError);
+      expect(error.code).toBe('REQUEST_DENIED');
+      expect(error.retryable).toBe(false);
+    });
+
+    test('should map OVER_QUERY_LIMIT to a retryable error', async () => {
+      stubResponses['/maps/api/directions/json'] = {
+        status: 200,
+        body: { status: 'OVER_QUERY_LIMIT', routes: [] },
+      };
+
+      const error = await createProvider()
+        .getTrafficData({ origin: 'A', destination: 'B' })
+        .catch(e => e);
+
+      expect(error.code).toBe('OVER_QUERY_LIMIT');
+      expect(error.retryable).toBe(true);
+    });
+
+    test('should treat HTTP 5xx responses as retryable', async () => {
+      stubResponses['/maps/api/directions/json'] = { status: 503, body: {} };
+
+      const error = await createProvider()
+        .getTrafficData({ origin: 'A', destination: 'B' })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(TrafficApiError);
+      expect(error.retryable).toBe(true);
+    });
+  });
+
+  describe('HereProvider', () => {
+    test('should geocode addresses and sum section durations', async () => {
+      stubResponses['/v1/geocode'] = {
+        status: 200,
+        body: { items: [{ position: { lat: 40.7, lng: -74.0 } }] },
+      };
+      stubResponses['/v8/routes'] = {
+        status: 200,
+        body: {
+          routes: [
+            {
+              sections: [
+                { summary: { duration: 3000, baseDuration: 2400 } },
+                { summary: { duration: 1200, baseDuration: 1200 } },
+              ],
+            },
+          ],
+        },
+      };
+
+      const provider = new HereProvider({
+        apiKey: 'here-key',
+        routingBaseUrl: baseUrl,
+        geocodeBaseUrl: baseUrl,
+        timeoutMs: 2000,
+      });
+      const trafficData = await provider.getTrafficData({
+        origin: 'New York, NY',
+        destination: '39.95,-75.16',
+        waypoints: ['40.22,-74.76'],
+      });
+
+      const routeRequest = requests.find(url => url.pathname === '/v8/routes') as URL;
+      expect(requests.filter(url => url.pathname === '/v1/geocode')).toHaveLength(1);
+      expect(routeRequest.searchParams.getAll('via')).toEqual(['40.22,-74.76']);
+      expect(trafficData.normalDurationMinutes).toBe(60);
+      expect(trafficData.currentDurationMinutes).toBe(70);
+      expect(trafficData.provider).toBe('here');
+    });
+  });
+
+  describe('TomTomProvider', () => {
+    test('should use no-traffic travel time as the baseline', async () => {
+      stubResponses['/routing/1/calculateRoute'] = {
+        status: 200,
+        body: {
+          routes: [
+            {
+              legs: [
+                { summary: { travelTimeInSeconds: 5400, noTrafficTravelTimeInSeconds: 3600 } },
+              ],
+            },
+          ],
+        },
+      };
+
+      const provider = new TomTomProvider({ apiKey: 'tt-key', baseUrl, timeoutMs: 2000 });
+      const trafficData = await provider.getTrafficData({
+        origin: '40.7,-74.0',
+        destination: '39.95,-75.16',
+      });
+
+      expect(requests[0].pathname).toBe('/routing/1/calculateRoute/40.7,-74:39.95,-75.16/json');
+      expect(trafficData.estimatedDelayMinutes).toBe(30);
+      expect(trafficData.trafficCondition).toBe('severe');
+      expect(trafficData.provider).toBe('tomtom');
+    });
+
+    test('should map HTTP 403 to a non-retryable error', async () => {
+      stubResponses['/routing/1/calculateRoute'] = { status: 403, body: {} };
+
+      const provider = new TomTomProvider({ apiKey: 'bad-key', baseUrl, timeoutMs: 2000 });
+      const error = await provider
+        .getTrafficData({ origin: '40.7,-74.0', destination: '39.95,-75.16' })
+        .catch(e => e);
+
+      expect(error.code).toBe('REQUEST_DENIED');
+      expect(error.retryable).toBe(false);
+    });
+  });
+
+  describe('OsrmProvider', () => {
+    test('should send longitude-first coordinates and report durations', async () => {
+      stubResponses['/route/v1/driving'] = {
+        status: 200,
+        body: { code: 'Ok', routes: [{ legs: [{ duration: 1800 }, { duration: 1200 }] }] },
+      };
+
+      const provider = new OsrmProvider({ baseUrl, timeoutMs: 2000 });
+      const trafficData = await provider.getTrafficData({
+        origin: '40.7,-74.0',
+        destination: '39.95,-75.16',
+        waypoints: ['40.22,-74.76'],
+      });
+
+      expect(requests[0].pathname).toBe('/route/v1/driving/-74,40.7;-74.76,40.22;-75.16,39.95');
+      expect(trafficData.normalDurationMinutes).toBe(50);
+      expect(trafficData.estimatedDelayMinutes).toBe(0);
+      expect(trafficData.provider).toBe('osrm');
+    });
+
+    test('should reject address stops', async () => {
+      const provider = new OsrmProvider({ baseUrl, timeoutMs: 2000 });
+      const error = await provider
+        .getTrafficData({ origin: 'New York, NY', destination: '39.95,-75.16' })
+        .catch(e => e);
+
+      expect(error.code).toBe('INVALID_REQUEST');
+      expect(requests).toHaveLength(0);
+    });
+  });
+});
+
+describe('TrafficService provider chain', () => {
+  const route: DeliveryRoute = { origin: 'New York, NY', destination: 'Philadelphia, PA' };
+
+  const createProvider = (
+    name: TrafficProviderName,
+    result: TrafficApiError | Partial<TrafficData>
+  ): TrafficProvider & { calls: number } => ({
+    name,
+    calls: 0,
+    async getTrafficData(requestRoute: DeliveryRoute) {
+      this.calls++;
+      if (result instanceof TrafficApiError) {
+        throw result;
+      }
+      return {
+        estimatedDelayMinutes: 10,
+        normalDurationMinutes: 100,
+        currentDurationMinutes: 110,
+        trafficCondition: 'moderate',
+        legs: [],
+        route: requestRoute,
+        provider: name,
+        source: 'live',
+        confidence: 0.9,
+        ...result,
+      };
+    },
+  });
+
+  test('should fail over to the next provider and report which one answered', async () => {
+    const google = createProvider(
+      'google',
+      new TrafficApiError('Google down', 'UNKNOWN_ERROR', true)
+    );
+    const here = createProvider('here', {});
+    const service = new TrafficService(
+      { defaultChain: ['google', 'here'], tenantChains: {}, cacheTtlMinutes: 30 },
+      [google, here]
+    );
+
+    const trafficData = await service.getTrafficData(route);
+
+    expect(google.calls).toBe(1);
+    expect(here.calls).toBe(1);
+    expect(trafficData.provider).toBe('here');
+  });
+
+  test('should throw when every provider fails', async () => {
+    const service = new TrafficService(
+      { defaultChain: ['google', 'osrm'], tenantChains: {}, cacheTtlMinutes: 30 },
+      [
+        createProvider('google', new TrafficApiError('denied', 'REQUEST_DENIED', false)),
+        createProvider('osrm', new TrafficApiError('no route', 'ZERO_RESULTS', false)),
+      ]
+    );
+
+    const error = await service.getTrafficData(route).catch(e => e);
+
+    expect(error).toBeInstanceOf(TrafficApiError);
+    expect(error.message).toContain('All traffic providers failed');
+    expect(error.retryable).toBe(false);
+  });
+
+  test('should prefer the route chain over the tenant and default chains', () => {
+    const service = new TrafficService({
+      defaultChain: ['google'],
+      tenantChains: { acme: ['here', 'google', 'osrm'] },
+      cacheTtlMinutes: 30,
+    });
+
+    expect(service.resolveProviderChain(route)).toEqual(['google']);
+    expect(service.resolveProviderChain(route, 'acme')).toEqual(['here', 'google', 'osrm']);
+    expect(
+      service.resolveProviderChain({ ...route, trafficProviders: ['osrm', 'here'] }, 'acme')
+    ).toEqual(['osrm', 'here']);
+  });
+
+  test('should restrict the route chain to the configured providers', () => {
+    const service = new TrafficService({
+      defaultChain: ['google', 'here'],
+      tenantChains: {},
+      cacheTtlMinutes: 30,
+    });
+
+    expect(service.resolveProviderChain({ ...route, trafficProviders: ['osrm', 'here'] })).toEqual([
+      'here',
+    ]);
+    expect(service.resolveProviderChain({ ...route, trafficProviders: ['mock'] })).toEqual([
+      'google',
+      'here',
+    ]);
+  });
+});
+
+describe('TrafficService fallback data', () => {
+  const route: DeliveryRoute = { origin: 'New York, NY', destination: 'Philadelphia, PA' };
+
+  const createObservation = (provider: TrafficProviderName): TrafficData => ({
+    estimatedDelayMinutes: 20,
+    normalDurationMinutes: 100,
+    currentDurationMinutes: 120,
+    trafficCondition: 'moderate',
+    legs: [
+      {
+        from: route.origin,
+        to: route.destination,
+        normalDurationMinutes: 100,
+        currentDurationMinutes: 120,
+        delayMinutes: 20,
+        trafficCondition: 'moderate',
+      },
+    ],
+    route,
+    provider,
+    source: 'live',
+    confidence: 0.9,
+  });
+
+  const createFlakyProvider = (failAfter: number): TrafficProvider => {
+    let calls = 0;
+    return {
+      name: 'google',
+      async getTrafficData(requestRoute: DeliveryRoute): Promise<TrafficData> {
+        if (++calls > failAfter) {
+          throw new TrafficApiError('Google down', 'UNKNOWN_ERROR', true);
+        }
+        return {
+          estimatedDelayMinutes: 40,
+          normalDurationMinutes: 100,
+          currentDurationMinutes: 140,
+          trafficCondition: 'heavy',
+          legs: [
+            {
+              from: requestRoute.origin,
+              to: requestRoute.destination,
+              normalDurationMinutes: 100,
+              currentDurationMinutes: 140,
+              delayMinutes: 40,
+              trafficCondition: 'heavy',
+            },
+          ],
+          route: requestRoute,
+          provider: 'google',
+          source: 'live',
+          confidence: 0.9,
+        };
+      },
+    };
+  };
+
+  test('should return cached data with reduced confidence when the live provider fails', async () => {
+    const service = new TrafficService(
+      { defaultChain: ['google'], tenantChains: {}, cacheTtlMinutes: 30 },
+      [createFlakyProvider(1)],
+      new HistoricalTrafficStore()
+    );
+
+    const live = await service.getTrafficData(route);
+    const cached = await service.getTrafficData({
+      origin: ' new york, ny ',
+      destination: 'Philadelphia, PA',
+    });
+
+    expect(live.source).toBe('live');
+    expect(cached.source).toBe('cache');
+    expect(cached.estimatedDelayMinutes).toBe(40);
+    expect(cached.confidence).toBeLessThanOrEqual(live.confidence);
+    expect(cached.confidence).toBeGreaterThanOrEqual(live.confidence / 2);
+  });
+
+  test("should not serve one tenant's cached or historical data to another", async () => {
+    const history = new HistoricalTrafficStore();
+    const service = new TrafficService(
+      { defaultChain: ['google'], tenantChains: {}, cacheTtlMinutes: 30 },
+      [createFlakyProvider(1)],
+      history
+    );
+
+    expect((await service.getTrafficData(route, 'acme')).source).toBe('live');
+    await expect(service.getTrafficData(route, 'globex')).rejects.toBeInstanceOf(TrafficApiError);
+    await expect(service.getTrafficData(route)).rejects.toBeInstanceOf(TrafficApiError);
+    expect((await service.getTrafficData(route, 'acme')).source).toBe('cache');
+    expect(history.getBaseline(route, 'acme')).toBeDefined();
+  });
+
+  test('should not cache when the TTL is 0', async () => {
+    const service = new TrafficService(
+      { defaultChain: ['google'], tenantChains: {}, cacheTtlMinutes: 0 },
+      [createFlakyProvider(1)],
+      new HistoricalTrafficStore()
+    );
+
+    expect((await service.getTrafficData(route)).source).toBe('live');
+    expect((await service.getTrafficData(route)).source).toBe('historical');
+  });
+
+  test('should fall back to the historical baseline for the lane and hour of week', async () => {
+    const history = new HistoricalTrafficStore();
+    history.record(createObservation('here'));
+    const service = new TrafficService(
+      { defaultChain: ['google'], tenantChains: {}, cacheTtlMinutes: 30 },
+      [createFlakyProvider(0)],
+      history
+    );
+
+    const trafficData = await service.getTrafficData(route);
+
+    expect(trafficData.source).toBe('historical');
+    expect(trafficData.provider).toBe('here');
+    expect(trafficData.estimatedDelayMinutes).toBe(20);
+    expect(trafficData.confidence).toBeLessThan(0.6);
+  });
+
+  test('should not use another lane or hour of week as a baseline', () => {
+    const history = new HistoricalTrafficStore();
+    const at = new Date('2024-01-01T08:00:00Z');
+    history.record(createObservation('google'), undefined, at);
+
+    expect(history.getBaseline(route, undefined, at)).toBeDefined();
+    expect(history.getBaseline(route, undefined, new Date('2024-01-01T09:00:00Z'))).toBeUndefined();
+    expect(
+      history.getBaseline({ ...route, waypoints: ['Trenton, NJ'] }, undefined, at)
+    ).toBeUndefined();
+  });
+
+  test('should still throw when no live, cached or historical data exists', async () => {
+    const service = new TrafficService(
+      { defaultChain: ['google'], tenantChains: {}, cacheTtlMinutes: 30 },
+      [createFlakyProvider(0)],
+      new HistoricalTrafficStore()
+    );
+
+    await expect(service.getTrafficData(route)).rejects.toBeInstanceOf(TrafficApiError);
+  });
+});
+
+describe('TrafficService per-leg breakdown', () => {
+  const route: DeliveryRoute = {
+    origin: 'Los Angeles, CA',
+    destination: 'Chicago, IL',
+    waypoints: ['Las Vegas, NV', 'Denver, CO'],
+  };
+  const trafficData = buildTrafficData(route, 'google', [
+    { normalSeconds: 4 * 3600, currentSeconds: 4 * 3600 },
+    { normalSeconds: 10 * 3600, currentSeconds: 11 * 3600 },
+    { normalSeconds: 15 * 3600, currentSeconds: 15.5 * 3600 },
+  ]);
+
+  test('should narrow traffic data to the legs up to an intermediate stop', () => {
+    const service = new TrafficService({
+      defaultChain: ['mock'],
+      tenantChains: {},
+      cacheTtlMinutes: 30,
+    });
+
+    const toDenver = service.getTrafficDataToStop(trafficData, 'Denver, CO') as TrafficData;
+
+    expect(trafficData.estimatedDelayMinutes).toBe(90);
+    expect(toDenver.estimatedDelayMinutes).toBe(60);
+    expect(toDenver.normalDurationMinutes).toBe(840);
+    expect(toDenver.legs.map(leg => leg.to)).toEqual(['Las Vegas, NV', 'Denver, CO']);
+    expect(toDenver.route).toEqual({
+      origin: 'Los Angeles, CA',
+      destination: 'Denver, CO',
+      waypoints: ['Las Vegas, NV'],
+    });
+    expect(service.getTrafficDataToStop(trafficData, 'Omaha, NE')).toBeUndefined();
+  });
+
+  test('should offset a delay with time made up on an earlier leg', () => {
+    const service = new TrafficService({
+      defaultChain: ['mock'],
+      tenantChains: {},
+      cacheTtlMinutes: 30,
+    });
+    // 30 minutes ahead to Las Vegas, 20 minutes late to Denver, 10 minutes late to Chicago
+    const mixed = buildTrafficData(route, 'google', [
+      { normalSeconds: 4 * 3600, currentSeconds: 3.5 * 3600 },
+      { normalSeconds: 10 * 3600, currentSeconds: 10 * 3600 + 20 * 60 },
+      { normalSeconds: 15 * 3600, currentSeconds: 15 * 3600 + 10 * 60 },
+    ]);
+
+    expect(mixed.estimatedDelayMinutes).toBe(0);
+    expect(service.getTrafficDataToStop(mixed, 'Las Vegas, NV')?.estimatedDelayMinutes).toBe(0);
+    expect(service.getTrafficDataToStop(mixed, 'Denver, CO')?.estimatedDelayMinutes).toBe(0);
+
+    const late = buildTrafficData(route, 'google', [
+      { normalSeconds: 4 * 3600, currentSeconds: 3.5 * 3600 },
+      { normalSeconds: 10 * 3600, currentSeconds: 11 * 3600 },
+      { normalSeconds: 15 * 3600, currentSeconds: 15 * 3600 },
+    ]);
+    const toDenver = service.getTrafficDataToStop(late, 'Denver, CO') as TrafficData;
+    expect(toDenver.estimatedDelayMinutes).toBe(30);
+    expect(toDenver.estimatedDelayMinutes).toBeLessThanOrEqual(late.estimatedDelayMinutes);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -0,0 +1,202 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import {
+  SIGNATURE_HEADER,
+  WebhookService,
+  signWebhookPayload,
+  verifyWebhookSignature,
+} from '../services/webhookService';
+import { NotificationServiceError } from '../errors';
+import { NotificationRequest, WebhookDelayEvent } from '../types';
+
+/**
+ * Webhook tests
+ * Covers the signed delay event and error classification against a local HTTP receiver
+ */
+
+describe('WebhookService', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let received: { headers: http.IncomingHttpHeaders; body: string }[];
+  let responseStatus: number;
+
+  // The receiver runs on localhost
+  const createService = (allowPrivateUrls = true) =>
+    new WebhookService({
+      signingSecret: 'shared-secret',
+      customerSecrets: { 'tms@acme.com': 'acme-secret' },
+      timeoutMs: 2000,
+      allowPrivateUrls,
+    });
+
+  const createRequest = (): NotificationRequest => ({
+    customerEmail: 'customer@example.com',
+    webhookUrl: `${baseUrl}/freight-events`,
+    subject: 'Delivery Delay Notice - 45 minutes',
+    message: 'Your delivery is delayed by 45 minutes.',
+    delayMinutes: 45,
+    eta: { arrivalTime: '2026-10-19T21:45:00.000Z', timeZone: 'America/New_York' },
+    shipmentId: 'freight-delay-1',
+    correlationId: 'freight-delay-1',
+    trafficData: {
+      estimatedDelayMinutes: 45,
+      normalDurationMinutes: 240,
+      currentDurationMinutes: 285,
+      trafficCondition: 'heavy',
+      legs: [],
+      route: { origin: 'New York, NY', destination: 'Boston, MA', waypoints: ['Hartford, CT'] },
+      provider: 'google',
+      source: 'live',
+      confidence: 0.9,
+    },
+  });
+
+  beforeAll(done => {
+    server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => (body += chunk));
+      req.on('end', () => {
+        received.push({ headers: req.headers, body });
+        res.writeHead(responseStatus);
+        res.end();
+      });
+    });
+    server.listen(0, '127.0.0.1', () => {
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      done();
+    });
+  });
+
+  beforeEach(() => {
+    received = [];
+    responseStatus = 204;
+  });
+
+  afterAll(done => {
+    server.close(done);
+  });
+
+  test('should POST a signed, versioned delay event', async () => {
+    const response = await createService().sendWebhookNotification(createRequest());
+
+    expect(response.success).toBe(true);
+    const [{ headers, body }] = received;
+    const event: WebhookDelayEvent = JSON.parse(body);
+    expect(event).toMatchObject({
+      version: '1',
+      type: 'shipment.delayed',
+      shipment: {
+        id: 'freight-delay-1',
+        origin: 'New York, NY',
+        destination: 'Boston, MA',
+        waypoints: ['Hartford, CT'],
+      },
+      delay: { minutes: 45, trafficCondition: 'heavy' },
+      eta: { arrivalTime: '2026-10-19T21:45:00.000Z', timeZone: 'America/New_York' },
+      message: 'Your delivery is delayed by 45 minutes.',
+    });
+    expect(response.messageId).toBe(event.id);
+    expect(headers['x-freight-event-id']).toBe(event.id);
+    expect(headers['content-type']).toContain('application/json');
+
+    const signature = headers[SIGNATURE_HEADER.toLowerCase()] as string;
+    expect(verifyWebhookSignature(body, signature, 'shared-secret')).toBe(true);
+    expect(verifyWebhookSignature(body, signature, 'acme-secret')).toBe(false);
+  });
+
+  test('should keep the event ID across retries and sign with the customer secret', async () => {
+    const service = createService();
+    const request = { ...createRequest(), customerEmail: 'TMS@acme.com' };
+    await service.sendWebhookNotification(request);
+    await service.sendWebhookNotification(request);
+
+    expect(received[0].headers['x-freight-event-id']).toBe(
+      received[1].headers['x-freight-event-id']
+    );
+    const signature = received[0].headers[SIGNATURE_HEADER.toLowerCase()] as string;
+    expect(verifyWebhookSignature(received[0].body, signature, 'acme-secret')).toBe(true);
+  });
+
+  test('should throw a retryable error when the receiver fails', async () => {
+    responseStatus = 503;
+
+    const error = await createService()
+      .sendWebhookNotification(createRequest())
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(NotificationServiceError);
+    expect(error.code).toBe('SERVER_ERROR');
+    expect(error.retryable).toBe(true);
+  });
+
+  test('should report rejected events and missing endpoints as permanent failures', async () => {
+    responseStatus = 410;
+    const gone = await createService().sendWebhookNotification(createRequest());
+    expect(gone).toMatchObject({ success: false, errorCode: 'INVALID_RECIPIENT' });
+
+    responseStatus = 401;
+    const rejected = await createService().sendWebhookNotification(createRequest());
+    expect(rejected).toMatchObject({ success: false, errorCode: 'AUTHENTICATION_ERROR' });
+
+    const missing = await createService().sendWebhookNotification({
+      ...createRequest(),
+      webhookUrl: undefined,
+    });
+    expect(missing).toMatchObject({ success: false, errorCode: 'INVALID_RECIPIENT' });
+  });
+
+  test.each([
+    ['a loopback address', () => `${baseUrl.replace('http:', 'https:')}/freight-events`],
+    ['a private address', () => 'https://10.0.0.5/freight-events'],
+    ['a link-local address', () => 'https://169.254.169.254/latest/meta-data'],
+    ['an IPv6 loopback address', () => 'https://[::1]/freight-events'],
+    ['localhost', () => 'https://localhost/freight-events'],
+    ['plain HTTP', () => 'http://tms.example.com/freight-events'],
+  ])('should refuse to POST to %s', async (_name, webhookUrl) => {
+    const response = await createService(false).sendWebhookNotification({
+      ...createRequest(),
+      webhookUrl: webhookUrl(),
+    });
+
+    expect(response).toMatchObject({ success: false, errorCode: 'INVALID_RECIPIENT' });
+    expect(received).toHaveLength(0);
+  });
+
+  test('should send the payload it was given', async () => {
+    const service = createService();
+    const request = { ...createRequest(), createdAt: '2026-10-19T12:00:00.000Z' };
+    const payload = service.createPayload(request);
+
+    await service.sendWebhookNotification(request, payload);
+
+    expect(received[0].body).toBe(payload);
+    expect(service.createPayload(request)).toBe(payload);
+    expect((JSON.parse(payload) as WebhookDelayEvent).createdAt).toBe(request.createdAt);
+  });
+});
+
+describe('Webhook signatures', () => {
+  const payload = '{"version":"1"}';
+
+  test('should reject tampered and expired signatures', () => {
+    const now = Date.parse('2026-10-19T12:00:00.000Z');
+    const header = signWebhookPayload(payload, 'secret', now / 1000);
+
+    expect(verifyWebhookSignature(payload, header, 'secret', 300, now)).toBe(true);
+    expect(verifyWebhookSignature('{"version":"2"}', header, 'secret', 300, now)).toBe(false);
+    expect(verifyWebhookSignature(payload, header, 'secret', 300, now + 301 * 1000)).toBe(false);
+    expect(verifyWebhookSignature(payload, 'v1=abc', 'secret', 300, now)).toBe(false);
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
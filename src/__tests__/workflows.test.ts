@@ -0,0 +1,476 @@
+import { CancelledFailure, WorkflowFailedError } from '@temporalio/client';
+import { TestWorkflowEnvironment } from '@temporalio/testing';
+import { Worker } from '@temporalio/worker';
+import { activities } from '../activities';
+import { NotificationStateService } from '../services/notificationStateService';
+import {
+  getManifestSummaryQuery,
+  retryManifestShipmentsSignal,
+  smsApprovalDecisionSignal,
+  updateCustomerContactSignal,
+} from '../workflows/signals';
+import type { freightDelayNotificationWorkflow, freightManifestWorkflow } from '../workflows';
+import {
+  DelayNotificationInput,
+  DeliveryRoute,
+  NotificationPolicy,
+  NotificationRecipient,
+  NotificationRequest,
+  TrafficData,
+} from '../types';
+
+/**
+ * Workflow tests
+ * Runs the workflows on Temporal's time-skipping test server with stubbed external calls.
+ * The test server is downloaded on first use; where it cannot be downloaded (no network
+ * access), the tests are skipped with a notice instead of failing.
+ */
+
+let testEnv: TestWorkflowEnvironment | undefined;
+
+beforeAll(async () => {
+  try {
+    testEnv = await TestWorkflowEnvironment.createTimeSkipping();
+  } catch (error) {
+    if (!/download/i.test((error as Error).message)) {
+      throw error;
+    }
+    process.stderr.write(`Skipping workflow tests: ${(error as Error).message}\n`);
+  }
+}, 120000);
+
+afterAll(async () => {
+  await testEnv?.teardown();
+});
+
+/**
+ * Declares a test that runs on the test server, skipped when the server is unavailable
+ * @param name - The test name
+ * @param fn - The test, given the test environment
+ */
+const workflowTest = (name: string, fn: (env: TestWorkflowEnvironment) => Promise<void>) =>
+  test(
+    name,
+    async () => {
+      if (testEnv) {
+        await fn(testEnv);
+      }
+    },
+    120000
+  );
+
+/**
+ * Waits until a condition holds, polling in real time
+ * @param check - The condition
+ * @param timeoutMs - How long to wait before failing
+ */
+const waitFor = async (check: () => boolean, timeoutMs = 30000): Promise<void> => {
+  const deadline = Date.now() + timeoutMs;
+  while (!check()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for the workflow');
+    }
+    await new Promise(resolve => setTimeout(resolve, 50));
+  }
+};
+
+/**
+ * Creates a worker running the workflows with the given activities replaced
+ * Notification state is kept in memory per worker, so runs do not see each other's state
+ * @param env - The test environment
+ * @param taskQueue - The worker's task queue
+ * @param overrides - Stubbed activities
+ * @returns Promise<Worker> - The worker
+ */
+const createWorker = (
+  env: TestWorkflowEnvironment,
+  taskQueue: string,
+  overrides: Partial<typeof activities>
+): Promise<Worker> => {
+  const stateService = new NotificationStateService({
+    repeatChangeMinutes: 15,
+    escalationTierMinutes: [30, 60, 120],
+    store: 'memory',
+  });
+
+  return Worker.create({
+    connection: env.nativeConnection,
+    taskQueue,
+    workflowsPath: require.resolve('../workflows'),
+    activities: {
+      ...activities,
+      evaluateNotificationState: (
+        route: DeliveryRoute,
+        customerEmail: string,
+        delayMinutes: number,
+        delayCleared: boolean,
+        policy?: NotificationPolicy,
+        shipmentId?: string,
+        stop?: string
+      ) =>
+        stateService.evaluate(
+          stateService.getShipmentKey(route, customerEmail, shipmentId, stop),
+          delayMinutes,
+          delayCleared,
+          policy
+        ),
+      recordNotificationState: (
+        shipmentKey: string,
+        delayMinutes: number,
+        tierIndex: number,
+        recipients: NotificationRecipient[]
+      ) => stateService.recordNotified(shipmentKey, delayMinutes, tierIndex, recipients),
+      clearNotificationState: (shipmentKey: string) => stateService.clear(shipmentKey),
+      ...overrides,
+    },
+  });
+};
+
+const trafficData: TrafficData = {
+  estimatedDelayMinutes: 90,
+  normalDurationMinutes: 240,
+  currentDurationMinutes: 330,
+  trafficCondition: 'heavy',
+  legs: [],
+  route: { origin: 'New York, NY', destination: 'Boston, MA' },
+  provider: 'google',
+  source: 'live',
+  confidence: 0.9,
+};
+
+describe('Freight delay notification workflow', () => {
+  workflowTest('should settle concurrent SMS approvals with one decision each', async env => {
+    const steps: string[] = [];
+    const taskQueue = 'sms-approval-test';
+    const worker = await createWorker(env, taskQueue, {
+      fetchTrafficData: async () => trafficData,
+      // Email fails for everyone, so both recipients fall back to SMS
+      sendDelayNotification: async () => ({ success: false, error: 'Mailbox unavailable' }),
+      sendSMSNotification: async (request: NotificationRequest) => ({
+        success: true,
+        messageId: `sms-${request.customerEmail}`,
+      }),
+      logWorkflowStep: (stepName: string) => {
+        steps.push(stepName);
+      },
+    });
+
+    const input: DelayNotificationInput = {
+      route: trafficData.route,
+      shipment: { shipmentId: 'sms-approval-1' },
+      customerEmail: 'customer@example.com',
+      recipients: [
+        { customerEmail: 'dock@example.com', customerPhone: '+15551230001' },
+        { customerEmail: 'buyer@example.com', customerPhone: '+15551230002' },
+      ],
+      // Timed out approvals would send the SMS, rejected ones must not
+      smsApproval: { required: true, timeoutMinutes: 60, defaultAction: 'approve' },
+    };
+
+    const result = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start<typeof freightDelayNotificationWorkflow>(
+        'freightDelayNotificationWorkflow',
+        { taskQueue, workflowId: 'sms-approval-1', args: [input] }
+      );
+
+      await waitFor(
+        () => steps.filter(step => step === 'Step 4: Awaiting SMS Approval').length === 2
+      );
+      // Queries are answered once the workflow has caught up, i.e. both approvals are pending
+      await handle.query('getCurrentStep');
+
+      await handle.signal(smsApprovalDecisionSignal, { approved: false, decidedBy: 'alice' });
+      await handle.signal(smsApprovalDecisionSignal, { approved: false, decidedBy: 'bob' });
+      return handle.result();
+    });
+
+    expect(result.notificationSent).toBe(false);
+    expect(result.recipients?.map(recipient => recipient.error).sort()).toEqual([
+      'Failed to send notification: Email failed (Mailbox unavailable), SMS failed (fallback rejected by alice)',
+      'Failed to send notification: Email failed (Mailbox unavailable), SMS failed (fallback rejected by bob)',
+    ]);
+  });
+
+  workflowTest('should apply a contact update to the primary recipient', async env => {
+    const notified: string[] = [];
+    const taskQueue = 'contact-update-test';
+    const worker = await createWorker(env, taskQueue, {
+      fetchTrafficData: async () => trafficData,
+      sendDelayNotification: async (request: NotificationRequest) => {
+        notified.push(request.customerEmail);
+        return { success: true, messageId: `email-${request.customerEmail}` };
+      },
+    });
+
+    const input: DelayNotificationInput = {
+      route: trafficData.route,
+      shipment: { shipmentId: 'contact-update-1' },
+      customerEmail: 'customer@example.com',
+      recipients: [
+        { customerEmail: 'buyer@example.com' },
+        { customerEmail: 'customer@example.com' },
+      ],
+    };
+
+    const result = await worker.runUntil(async () => {
+      // Signal-with-start delivers the update before the recipients are notified
+      const handle = await env.client.workflow.signalWithStart<
+        typeof freightDelayNotificationWorkflow,
+        [{ customerEmail: string }]
+      >('freightDelayNotificationWorkflow', {
+        taskQueue,
+        workflowId: 'contact-update-1',
+        args: [input],
+        signal: updateCustomerContactSignal,
+        signalArgs: [{ customerEmail: 'receiving@example.com' }],
+      });
+      return handle.result();
+    });
+
+    expect(result.notificationSent).toBe(true);
+    expect(notified.sort()).toEqual(['buyer@example.com', 'receiving@example.com']);
+  });
+
+  workflowTest('should not notify a stop customer about the same delay twice', async env => {
+    const notified: string[] = [];
+    const taskQueue = 'stop-dedupe-test';
+    const route = {
+      origin: 'New York, NY',
+      destination: 'Boston, MA',
+      waypoints: ['Hartford, CT'],
+    };
+    const worker = await createWorker(env, taskQueue, {
+      fetchTrafficData: async () => ({
+        ...trafficData,
+        route,
+        legs: [
+          {
+            from: 'New York, NY',
+            to: 'Hartford, CT',
+            normalDurationMinutes: 120,
+            currentDurationMinutes: 200,
+            delayMinutes: 80,
+            trafficCondition: 'heavy',
+          },
+          {
+            from: 'Hartford, CT',
+            to: 'Boston, MA',
+            normalDurationMinutes: 120,
+            currentDurationMinutes: 130,
+            delayMinutes: 10,
+            trafficCondition: 'moderate',
+          },
+        ],
+      }),
+      sendDelayNotification: async (request: NotificationRequest) => {
+        notified.push(request.customerEmail);
+        return { success: true, messageId: `email-${notified.length}` };
+      },
+    });
+
+    const input: DelayNotificationInput = {
+      route,
+      shipment: { shipmentId: 'stop-dedupe-1' },
+      customerEmail: 'customer@example.com',
+      stopContacts: [{ stop: 'Hartford, CT', customerEmail: 'hartford@example.com' }],
+    };
+
+    const [first, second] = await worker.runUntil(async () => {
+      const run = (workflowId: string) =>
+        env.client.workflow.execute<typeof freightDelayNotificationWorkflow>(
+          'freightDelayNotificationWorkflow',
+          { taskQueue, workflowId, args: [input] }
+        );
+      return [await run('stop-dedupe-1'), await run('stop-dedupe-2')];
+    });
+
+    expect(first.stops?.[0]).toMatchObject({
+      notificationSent: true,
+      notificationAction: 'notify',
+    });
+    expect(second.stops?.[0]).toMatchObject({
+      notificationSent: false,
+      notificationAction: 'suppress',
+    });
+    expect(notified.filter(email => email === 'hartford@example.com')).toHaveLength(1);
+  });
+});
+
+describe('Freight manifest workflow', () => {
+  /**
+   * Creates the input of a manifest shipment
+   * @param customerEmail - The shipment's customer
+   * @param shipmentId - Optional shipment ID
+   * @returns DelayNotificationInput - The shipment's workflow input
+   */
+  const shipment = (customerEmail: string, shipmentId?: string): DelayNotificationInput => ({
+    route: trafficData.route,
+    customerEmail,
+    ...(shipmentId ? { shipment: { shipmentId } } : {}),
+  });
+
+  workflowTest(
+    'should run at most maxConcurrency shipments at once under unique keys',
+    async env => {
+      const taskQueue = 'manifest-lanes-test';
+      let running = 0;
+      let maxRunning = 0;
+      const worker = await createWorker(env, taskQueue, {
+        fetchTrafficData: async () => {
+          running++;
+          maxRunning = Math.max(maxRunning, running);
+          await new Promise(resolve => setTimeout(resolve, 200));
+          running--;
+          return trafficData;
+        },
+        sendDelayNotification: async () => ({ success: true, messageId: 'email-1' }),
+      });
+
+      const summary = await worker.runUntil(
+        env.client.workflow.execute<typeof freightManifestWorkflow>('freightManifestWorkflow', {
+          taskQueue,
+          workflowId: 'manifest-lanes',
+          args: [
+            {
+              shipments: [
+                shipment('a@example.com', 'A'),
+                shipment('b@example.com'),
+                // A shipment ID that looks like the position key of the shipment before it
+                shipment('c@example.com', 'shipment-2'),
+                shipment('d@example.com', 'A'),
+                shipment('e@example.com'),
+              ],
+              maxConcurrency: 2,
+            },
+          ],
+        })
+      );
+
+      expect(maxRunning).toBe(2);
+      expect(summary).toMatchObject({ total: 5, completed: 5, notified: 5, failed: 0 });
+      expect(summary.shipments.map(result => result.key)).toEqual([
+        'A',
+        'shipment-2-2',
+        'shipment-2',
+        'shipment-4',
+        'shipment-5',
+      ]);
+      expect(summary.shipments[1].workflowId).toBe('manifest-lanes-shipment-2-2');
+    }
+  );
+
+  workflowTest('should retry a failed shipment signaled during the retry window', async env => {
+    const taskQueue = 'manifest-retry-test';
+    const steps: string[] = [];
+    let bAttempts = 0;
+    const worker = await createWorker(env, taskQueue, {
+      fetchTrafficData: async () => trafficData,
+      // The first email to b@example.com fails
+      sendDelayNotification: async (request: NotificationRequest) =>
+        request.customerEmail === 'b@example.com' && ++bAttempts === 1
+          ? { success: false, error: 'Mailbox unavailable' }
+          : { success: true, messageId: `email-${request.customerEmail}` },
+      logWorkflowStep: (stepName: string) => {
+        steps.push(stepName);
+      },
+    });
+
+    const summary = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start<typeof freightManifestWorkflow>(
+        'freightManifestWorkflow',
+        {
+          taskQueue,
+          workflowId: 'manifest-retry',
+          args: [
+            {
+              shipments: [shipment('a@example.com', 'A'), shipment('b@example.com', 'B')],
+              retryWindowMinutes: 60,
+            },
+          ],
+        }
+      );
+
+      await waitFor(() => steps.includes('Manifest Waiting For Retries'));
+      expect(await handle.query(getManifestSummaryQuery)).toMatchObject({
+        completed: 1,
+        failed: 1,
+      });
+
+      await handle.signal(retryManifestShipmentsSignal, { keys: ['B'], requestedBy: 'dispatch' });
+      return handle.result();
+    });
+
+    expect(summary).toMatchObject({ total: 2, completed: 2, notified: 2, failed: 0 });
+    expect(summary.shipments[1]).toMatchObject({
+      key: 'B',
+      status: 'completed',
+      attempts: 2,
+      workflowId: 'manifest-retry-B-attempt-2',
+    });
+  });
+
+  workflowTest('should cancel the running shipments with the manifest', async env => {
+    const taskQueue = 'manifest-cancel-test';
+    const steps: string[] = [];
+    const worker = await createWorker(env, taskQueue, {
+      fetchTrafficData: async () => trafficData,
+      sendDelayNotification: async () => ({ success: false, error: 'Mailbox unavailable' }),
+      logWorkflowStep: (stepName: string) => {
+        steps.push(stepName);
+      },
+    });
+    // Both shipments wait for an SMS approval until the manifest is cancelled
+    const awaitingApproval = (customerEmail: string, shipmentId: string) => ({
+      ...shipment(customerEmail, shipmentId),
+      customerPhone: '+15551230001',
+      smsApproval: { required: true, timeoutMinutes: 60, defaultAction: 'approve' as const },
+    });
+
+    const error = await worker.runUntil(async () => {
+      const handle = await env.client.workflow.start<typeof freightManifestWorkflow>(
+        'freightManifestWorkflow',
+        {
+          taskQueue,
+          workflowId: 'manifest-cancel',
+          args: [
+            {
+              shipments: [
+                awaitingApproval('a@example.com', 'A'),
+                awaitingApproval('b@example.com', 'B'),
+                shipment('c@example.com', 'C'),
+              ],
+              maxConcurrency: 2,
+            },
+          ],
+        }
+      );
+
+      await waitFor(
+        () => steps.filter(step => step === 'Step 4: Awaiting SMS Approval').length === 2
+      );
+      await handle.cancel();
+      return handle.result().catch(failure => failure);
+    });
+
+    expect(error).toBeInstanceOf(WorkflowFailedError);
+    expect(error.cause).toBeInstanceOf(CancelledFailure);
+    for (const workflowId of ['manifest-cancel-A', 'manifest-cancel-B']) {
+      const description = await env.client.workflow.getHandle(workflowId).describe();
+      expect(description.status.name).toBe('CANCELLED');
+    }
+    // The queued shipment is not started once the manifest is cancelled
+    await expect(env.client.workflow.getHandle('manifest-cancel-C').describe()).rejects.toThrow();
+  });
+});
+
+// Mock console to avoid cluttering test output
+const originalConsole = console;
+beforeAll(() => {
+  console.log = jest.fn();
+  console.error = jest.fn();
+});
+
+afterAll(() => {
+  console.log = originalConsole.log;
+  console.error = originalConsole.error;
+});
@@ -1,14 +1,43 @@
+import { ApplicationFailure } from '@temporalio/activity';
 import {
   AIMessageRequest,
   AIMessageResponse,
+  DelaySeverity,
+  DeliveryEta,
   DeliveryRoute,
+  MessageValidationResult,
+  NotificationDecision,
+  NotificationPolicy,
+  NotificationRecipient,
   NotificationRequest,
   NotificationResponse,
+  NotificationRuleContext,
+  NotificationRuleDecision,
+  QuietHours,
+  ShipmentReference,
+  TenantSettings,
   TrafficData,
 } from '../types';
 import { TrafficService } from '../services/trafficService';
 import { AIService } from '../services/aiService';
 import { NotificationService } from '../services/notificationService';
+import { MessageGuardrailService } from '../services/messageGuardrailService';
+import { DeliveryTimeService } from '../services/deliveryTimeService';
+import { NotificationStateService } from '../services/notificationStateService';
+import { NotificationRuleService } from '../services/notificationRuleService';
+import { AuditLogService } from '../services/auditLogService';
+import { WebhookService } from '../services/webhookService';
+import { DeliveryEventService } from '../services/deliveryEventService';
+import { AIServiceError, NotificationServiceError, TrafficApiError } from '../errors';
+import { createSmsProvider } from '../services/smsProviders';
+import {
+  getAppConfig,
+  getSendGridConfig,
+  getSenderIdentity,
+  getSmsConfig,
+  getTenantProfile,
+  getWebhookConfig,
+} from '../config';
 
 // Type declarations for Node.js environment
 declare const console: any;
@@ -22,14 +51,68 @@ declare const console: any;
 const trafficService = new TrafficService();
 const aiService = new AIService();
 const notificationService = new NotificationService();
+const messageGuardrailService = new MessageGuardrailService();
+const deliveryTimeService = new DeliveryTimeService();
+const notificationStateService = new NotificationStateService();
+const notificationRuleService = new NotificationRuleService(undefined, deliveryTimeService);
+const auditLogService = new AuditLogService();
+const webhookService = new WebhookService();
+const deliveryEventService = new DeliveryEventService(auditLogService);
+
+// Services sending with a tenant's sender and credentials, by tenant ID
+const tenantNotificationServices = new Map<string, NotificationService>();
+const tenantWebhookServices = new Map<string, WebhookService>();
+
+/**
+ * Gets the notification service that sends for a tenant, creating it on first use
+ * @param tenantId - The tenant ID, if any
+ * @returns NotificationService - The tenant's service, the default one without a tenant profile
+ */
+function getNotificationService(tenantId?: string): NotificationService {
+  if (!tenantId || !getTenantProfile(tenantId)) {
+    return notificationService;
+  }
+  let service = tenantNotificationServices.get(tenantId);
+  if (!service) {
+    const smsConfig = getSmsConfig();
+    service = new NotificationService(
+      getSendGridConfig(tenantId),
+      smsConfig,
+      createSmsProvider(smsConfig.provider, tenantId)
+    );
+    tenantNotificationServices.set(tenantId, service);
+  }
+  return service;
+}
+
+/**
+ * Gets the webhook service that signs events for a tenant, creating it on first use
+ * @param tenantId - The tenant ID, if any
+ * @returns WebhookService - The tenant's service, the default one without a tenant profile
+ */
+function getWebhookService(tenantId?: string): WebhookService {
+  if (!tenantId || !getTenantProfile(tenantId)) {
+    return webhookService;
+  }
+  let service = tenantWebhookServices.get(tenantId);
+  if (!service) {
+    service = new WebhookService(getWebhookConfig(tenantId));
+    tenantWebhookServices.set(tenantId, service);
+  }
+  return service;
+}
 
 /**
  * Activity 1: Fetch traffic data for a delivery route
  * This activity calls the traffic service to get current traffic conditions
  * @param route - The delivery route to check
- * @returns Promise<TrafficData> - Traffic data with delay information
+ * @param tenantId - Optional tenant whose traffic provider chain should be used
+ * @returns Promise<TrafficData> - Traffic data with delay information and its provider
  */
-export async function fetchTrafficData(route: DeliveryRoute): Promise<TrafficData> {
+export async function fetchTrafficData(
+  route: DeliveryRoute,
+  tenantId?: string
+): Promise<TrafficData> {
   console.log('Activity 1: Fetching traffic data');
 
   if (!trafficService.validateRoute(route)) {
@@ -37,9 +120,18 @@ export async function fetchTrafficData(route: DeliveryRoute): Promise<TrafficDat
   }
 
   try {
-    return await trafficService.getTrafficData(route);
+    return await trafficService.getTrafficData(route, tenantId);
   } catch (error) {
     console.error('Failed to fetch traffic data:', error);
+
+    // Let Temporal's retry policy skip errors that cannot succeed on retry
+    if (error instanceof TrafficApiError) {
+      throw ApplicationFailure.create({
+        message: error.message,
+        type: error.code,
+        nonRetryable: !error.retryable,
+      });
+    }
     throw error;
   }
 }
@@ -62,14 +154,63 @@ export async function generateAIMessage(request: AIMessageRequest): Promise<AIMe
     if (response.error) {
       console.log(`  Error: ${response.error}`);
     }
+    if (response.usage) {
+      console.log(`  Tokens used: ${response.usage.totalTokens}`);
+    }
 
     return response;
   } catch (error) {
     console.error('Failed to generate AI message:', error);
+
+    // Timeouts and rate limits are retried by Temporal
+    if (error instanceof AIServiceError) {
+      throw ApplicationFailure.create({
+        message: error.message,
+        type: error.code,
+        nonRetryable: !error.retryable,
+      });
+    }
     throw error;
   }
 }
 
+/**
+ * Utility Activity: Validate an AI-generated message before it is sent
+ * @param message - The generated message
+ * @param request - The AI message request the message was generated for
+ * @returns MessageValidationResult - Whether the message may be sent, and the rejection reasons
+ */
+export function validateAIMessage(
+  message: string,
+  request: AIMessageRequest
+): MessageValidationResult {
+  const result = messageGuardrailService.validateMessage(message, request);
+  if (!result.valid) {
+    console.log('AI message rejected by guardrails:');
+    result.reasons.forEach(reason => console.log(`  - ${reason}`));
+  }
+  return result;
+}
+
+/**
+ * Utility Activity: Create a template message when AI generation fails or is rejected
+ * @param request - The AI message request
+ * @param error - Why the AI message cannot be used
+ * @returns AIMessageResponse - The fallback message, marked as unsuccessful
+ */
+export function createFallbackAIMessage(
+  request: AIMessageRequest,
+  error: string
+): AIMessageResponse {
+  console.log('Creating fallback message after AI generation failed');
+
+  return {
+    message: aiService.getFallbackMessage(request),
+    success: false,
+    error,
+  };
+}
+
 /**
  * Activity 3: Send delay notification to customer
  * @param request - The notification request with email details
@@ -80,15 +221,30 @@ export async function sendDelayNotification(
 ): Promise<NotificationResponse> {
   console.log('Activity 3: Sending delay notification');
 
-  if (!notificationService.validateRequest(request)) {
+  const service = getNotificationService(request.tenantId);
+  if (!service.validateRequest(request)) {
     throw new Error('Invalid notification request: Missing required fields');
   }
 
+  // Addresses that bounced repeatedly or reported spam are not emailed again
+  const suppression = await deliveryEventService.getSuppression(request.customerEmail);
+  if (suppression) {
+    console.log(`Email to ${suppression.email} suppressed: ${suppression.reason}`);
+    return {
+      success: false,
+      error: `${suppression.email} is suppressed (${suppression.reason})`,
+      errorCode: 'SUPPRESSED_RECIPIENT',
+    };
+  }
+
   try {
-    const response = await notificationService.sendDelayNotification(request);
+    const response = await service.sendDelayNotification(request);
     if (response.messageId) {
       console.log(`Message ID: ${response.messageId}`);
     }
+    if (response.success) {
+      await auditLogService.recordNotification('email', request, response, request.message);
+    }
 
     if (response.error) {
       console.log(`Error: ${response.error}`);
@@ -97,6 +253,15 @@ export async function sendDelayNotification(
     return response;
   } catch (error) {
     console.error('Failed to send notification:', error);
+
+    // Timeouts, rate limits and server errors are retried by Temporal
+    if (error instanceof NotificationServiceError) {
+      throw ApplicationFailure.create({
+        message: error.message,
+        type: error.code,
+        nonRetryable: !error.retryable,
+      });
+    }
     throw error;
   }
 }
@@ -111,12 +276,20 @@ export async function sendSMSNotification(
 ): Promise<NotificationResponse> {
   console.log('Activity 4: Sending SMS notification');
 
+  const service = getNotificationService(request.tenantId);
   try {
-    const response = await notificationService.sendSMSNotification(request);
+    const response = await service.sendSMSNotification(request);
 
     console.log('SMS notification sending completed:');
     console.log(`Success: ${response.success}`);
-    console.log(`Customer: ${request.customerEmail}`);
+    console.log(`Customer: ${request.customerPhone || request.customerEmail}`);
+    if (response.deliveryStatus) {
+      console.log(`Delivery status: ${response.deliveryStatus} (${response.segments} segment(s))`);
+    }
+    if (response.success) {
+      const body = service.createSMSMessage(request);
+      await auditLogService.recordNotification('sms', request, response, body);
+    }
 
     if (response.error) {
       console.log(`Error: ${response.error}`);
@@ -125,10 +298,73 @@ export async function sendSMSNotification(
     return response;
   } catch (error) {
     console.error('Failed to send SMS notification:', error);
+
+    // Timeouts, rate limits and server errors are retried by Temporal
+    if (error instanceof NotificationServiceError) {
+      throw ApplicationFailure.create({
+        message: error.message,
+        type: error.code,
+        nonRetryable: !error.retryable,
+      });
+    }
     throw error;
   }
 }
 
+/**
+ * Activity 5: Push the delay event to the customer's webhook endpoint (e.g. their TMS)
+ * @param request - The notification request with the customer's webhook URL
+ * @returns Promise<NotificationResponse> - Notification response with the event ID
+ */
+export async function sendWebhookNotification(
+  request: NotificationRequest
+): Promise<NotificationResponse> {
+  console.log('Activity 5: Sending webhook notification');
+
+  const service = getWebhookService(request.tenantId);
+  // The audit log records the exact body that was sent
+  const payload = service.createPayload(request);
+  try {
+    const response = await service.sendWebhookNotification(request, payload);
+
+    console.log(`Webhook: ${request.webhookUrl}`);
+    console.log(`Success: ${response.success}`);
+    if (response.error) {
+      console.log(`Error: ${response.error}`);
+    }
+    if (response.success) {
+      await auditLogService.recordNotification('webhook', request, response, payload);
+    }
+
+    return response;
+  } catch (error) {
+    console.error('Failed to send webhook notification:', error);
+
+    // Timeouts, rate limits and server errors are retried by Temporal with backoff
+    if (error instanceof NotificationServiceError) {
+      throw ApplicationFailure.create({
+        message: error.message,
+        type: error.code,
+        nonRetryable: !error.retryable,
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Utility Activity: Record a webhook event that could not be delivered once retries were exhausted
+ * @param request - The notification request with the customer's webhook URL
+ * @param error - Why the last attempt failed
+ */
+export async function recordWebhookDeadLetter(
+  request: NotificationRequest,
+  error: string
+): Promise<void> {
+  const event = getWebhookService(request.tenantId).createEvent(request);
+  await auditLogService.recordDeadLetter(request, event.id, JSON.stringify(event), error);
+}
+
 /**
  * Utility Activity: Validate delay threshold
  * @param delayMinutes - The delay in minutes
@@ -141,28 +377,248 @@ export function shouldSendNotification(delayMinutes: number, thresholdMinutes: n
   return shouldSend;
 }
 
+/**
+ * Utility Activity: Decide whether a delay should be notified from the notification rules
+ * The customer's rules are evaluated first, then the tenant's; the delay threshold decides
+ * when no rule matches
+ * @param trafficData - The traffic data behind the delay
+ * @param context - The customer, tenant, appointment and threshold the delay is checked against
+ * @returns NotificationRuleDecision - Whether to notify, the deciding rule and why
+ */
+export function evaluateNotificationRules(
+  trafficData: TrafficData,
+  context: NotificationRuleContext
+): NotificationRuleDecision {
+  const decision = notificationRuleService.evaluate(trafficData, context);
+  console.log(`Should send notification: ${decision.notify} (${decision.rule})`);
+  return decision;
+}
+
+/**
+ * Utility Activity: Resolve the settings a workflow uses for its tenant
+ * Workflows cannot read the configuration, so they resolve their tenant's settings once
+ * when they start
+ * @param tenantId - The tenant ID, if any
+ * @returns TenantSettings - The tenant's threshold, traffic confidence and enabled channels,
+ * the global settings for unknown tenants
+ */
+export function getTenantSettings(tenantId?: string): TenantSettings {
+  if (tenantId && !getTenantProfile(tenantId)) {
+    console.log(`Tenant ${tenantId} has no profile, using the default settings`);
+  }
+  const { delayThresholdMinutes, minTrafficConfidence, channels } = getAppConfig(tenantId);
+  return { tenantId, delayThresholdMinutes, minTrafficConfidence, channels };
+}
+
+/**
+ * Utility Activity: Classify how severe a delay is
+ * @param delayMinutes - The delay in minutes
+ * @param tenantId - Optional tenant whose severity thresholds apply
+ * @returns DelaySeverity - low below the first DELAY_SEVERITY_MINUTES threshold, then medium,
+ * high and critical
+ */
+export function getDelaySeverity(delayMinutes: number, tenantId?: string): DelaySeverity {
+  const [medium, high, critical] = getAppConfig(tenantId).delaySeverityMinutes;
+
+  let severity: DelaySeverity = 'low';
+  if (delayMinutes >= critical) {
+    severity = 'critical';
+  } else if (delayMinutes >= high) {
+    severity = 'high';
+  } else if (delayMinutes >= medium) {
+    severity = 'medium';
+  }
+  console.log(`Delay severity: ${severity}`);
+  return severity;
+}
+
+/**
+ * Utility Activity: Narrow traffic data to an intermediate stop
+ * @param trafficData - Traffic data for the whole route
+ * @param stop - The waypoint where the customer receives their freight
+ * @returns TrafficData | undefined - Traffic data up to the stop, or undefined when it is not on the route
+ */
+export function getTrafficDataToStop(
+  trafficData: TrafficData,
+  stop: string
+): TrafficData | undefined {
+  const stopTrafficData = trafficService.getTrafficDataToStop(trafficData, stop);
+  if (!stopTrafficData) {
+    console.log(`Stop ${stop} is not on the route`);
+    return undefined;
+  }
+
+  console.log(`Delay up to ${stop}: ${stopTrafficData.estimatedDelayMinutes} minutes`);
+  return stopTrafficData;
+}
+
+/**
+ * Utility Activity: Calculate the new estimated arrival in the destination's time zone
+ * @param trafficData - Traffic data up to the recipient's location
+ * @param expectedArrivalTime - Optional ISO 8601 planned arrival time
+ * @param timeZone - Optional IANA time zone of the destination
+ * @returns DeliveryEta - The new arrival time and the destination's time zone
+ */
+export function calculateDeliveryEta(
+  trafficData: TrafficData,
+  expectedArrivalTime?: string,
+  timeZone?: string
+): DeliveryEta {
+  const eta = deliveryTimeService.calculateEta(trafficData, expectedArrivalTime, timeZone);
+  console.log(`New ETA at ${trafficData.route.destination}: ${eta.arrivalTime} (${eta.timeZone})`);
+  return eta;
+}
+
+/**
+ * Utility Activity: Calculate how long a notification must be held for quiet hours
+ * @param quietHours - The recipient's quiet hours
+ * @param timeZone - Time zone used when the quiet hours do not set one
+ * @param delayMinutes - The delay being notified
+ * @returns number - Minutes until the quiet hours end, 0 when the notification can be sent
+ */
+export function getQuietHoursHoldMinutes(
+  quietHours: QuietHours,
+  timeZone: string,
+  delayMinutes: number
+): number {
+  const holdMinutes = deliveryTimeService.getQuietHoursHoldMinutes(
+    quietHours,
+    timeZone,
+    delayMinutes
+  );
+  console.log(`Quiet hours hold: ${Math.ceil(holdMinutes)} minutes`);
+  return holdMinutes;
+}
+
 /**
  * Utility Activity: Create notification request
  * @param customerEmail - The customer's email address
  * @param aiMessage - The AI-generated message
  * @param delayMinutes - The delay in minutes
+ * @param locale - Optional locale of the customer's language
+ * @param eta - Optional new estimated arrival
+ * @param shipment - Optional shipment references, quoted in the subject and message
+ * @param tenantId - Optional tenant the notification is sent for
  * @returns NotificationRequest - Formatted notification request
  */
 export function createNotificationRequest(
   customerEmail: string,
   aiMessage: string,
-  delayMinutes: number
+  delayMinutes: number,
+  locale?: string,
+  eta?: DeliveryEta,
+  shipment?: ShipmentReference,
+  tenantId?: string
 ): NotificationRequest {
-  const subject = notificationService.createDelaySubject(delayMinutes);
+  const subject = notificationService.createDelaySubject(delayMinutes, locale, eta, shipment);
 
   return {
     customerEmail,
     subject,
-    message: aiMessage,
+    message: notificationService.addShipmentReferences(aiMessage, locale, shipment),
     delayMinutes,
+    locale,
+    eta,
+    shipment,
+    tenantId,
+    sender: getSenderIdentity(tenantId),
   };
 }
 
+/**
+ * Utility Activity: Create the follow-up sent once a notified delay has cleared
+ * @param customerEmail - The recipient's email address
+ * @param route - The delivery route
+ * @param delayMinutes - The remaining delay
+ * @param locale - Optional locale of the recipient's language
+ * @param eta - Optional estimated arrival
+ * @param shipment - Optional shipment references, quoted in the subject and message
+ * @param tenantId - Optional tenant the follow-up is sent for and signed by
+ * @returns NotificationRequest - The back on schedule notification request
+ */
+export function createBackOnScheduleRequest(
+  customerEmail: string,
+  route: DeliveryRoute,
+  delayMinutes: number,
+  locale?: string,
+  eta?: DeliveryEta,
+  shipment?: ShipmentReference,
+  tenantId?: string
+): NotificationRequest {
+  const request = notificationService.createBackOnScheduleRequest(
+    customerEmail,
+    route,
+    delayMinutes,
+    locale,
+    eta,
+    shipment,
+    getSenderIdentity(tenantId)
+  );
+  return { ...request, tenantId };
+}
+
+/**
+ * Utility Activity: Decide whether a delay should be notified, suppressed or escalated
+ * @param route - The delivery route
+ * @param customerEmail - The shipment's customer
+ * @param delayMinutes - The current delay
+ * @param delayCleared - Whether the delay cleared the threshold and every notifying rule
+ * @param policy - Optional per-shipment deduplication and escalation policy
+ * @param shipmentId - Optional shipment ID, which identifies the shipment instead of its lane
+ * @param stop - Optional intermediate stop, for the delay notified to that stop's customer
+ * @returns NotificationDecision - The action to take and why
+ */
+export function evaluateNotificationState(
+  route: DeliveryRoute,
+  customerEmail: string,
+  delayMinutes: number,
+  delayCleared: boolean,
+  policy?: NotificationPolicy,
+  shipmentId?: string,
+  stop?: string
+): NotificationDecision {
+  const shipmentKey = notificationStateService.getShipmentKey(
+    route,
+    customerEmail,
+    shipmentId,
+    stop
+  );
+  const decision = notificationStateService.evaluate(
+    shipmentKey,
+    delayMinutes,
+    delayCleared,
+    policy
+  );
+  console.log(`Notification decision for ${shipmentKey}: ${decision.action} (${decision.reason})`);
+  return decision;
+}
+
+/**
+ * Utility Activity: Record a delay the recipients were notified about
+ * @param shipmentKey - The shipment key from the notification decision
+ * @param delayMinutes - The notified delay
+ * @param tierIndex - The escalation tier the delay reached
+ * @param recipients - The recipients who were notified
+ */
+export function recordNotificationState(
+  shipmentKey: string,
+  delayMinutes: number,
+  tierIndex: number,
+  recipients: NotificationRecipient[]
+): void {
+  notificationStateService.recordNotified(shipmentKey, delayMinutes, tierIndex, recipients);
+  console.log(`Recorded ${delayMinutes} minute delay notified to ${recipients.length} recipients`);
+}
+
+/**
+ * Utility Activity: Forget a shipment's notified delay once it is back on schedule
+ * @param shipmentKey - The shipment key from the notification decision
+ */
+export function clearNotificationState(shipmentKey: string): void {
+  notificationStateService.clear(shipmentKey);
+  console.log(`Cleared notification state for ${shipmentKey}`);
+}
+
 /**
  * Utility Activity: Log workflow step for monitoring
  * @param stepName - The name of the workflow step
@@ -179,20 +635,47 @@ export function logWorkflowStep(stepName: string, data?: any): void {
 /**
  * Utility Activity: Create AI message request
  * @param trafficData - The traffic data
+ * @param delayReason - Optional reason for the delay reported by a dispatcher
+ * @param locale - Optional locale of the customer's language
+ * @param eta - Optional new estimated arrival
+ * @param tenantId - Optional tenant the message is written for
  * @returns AIMessageRequest - Formatted AI message request
  */
-export function createAIMessageRequest(trafficData: TrafficData): AIMessageRequest {
+export function createAIMessageRequest(
+  trafficData: TrafficData,
+  delayReason?: string,
+  locale?: string,
+  eta?: DeliveryEta,
+  tenantId?: string
+): AIMessageRequest {
   console.log('Creating AI message request');
 
   const request: AIMessageRequest = {
     delayMinutes: trafficData.estimatedDelayMinutes,
     route: trafficData.route,
     trafficCondition: trafficData.trafficCondition,
+    delayReason,
+    legs: trafficData.legs,
+    locale,
+    eta,
+    sender: getSenderIdentity(tenantId),
   };
 
   console.log(`  Delay: ${request.delayMinutes} minutes`);
   console.log(`  Route: ${request.route.origin} to ${request.route.destination}`);
   console.log(`  Traffic condition: ${request.trafficCondition}`);
+  if (delayReason) {
+    console.log(`  Delay reason: ${delayReason}`);
+  }
+  if (locale) {
+    console.log(`  Locale: ${locale}`);
+  }
+  if (eta) {
+    console.log(`  New ETA: ${eta.arrivalTime} (${eta.timeZone})`);
+  }
+  if (request.sender) {
+    console.log(`  Sender: ${request.sender.name}`);
+  }
 
   return request;
 }
@@ -203,10 +686,24 @@ export function createAIMessageRequest(trafficData: TrafficData): AIMessageReque
 export const activities = {
   fetchTrafficData,
   generateAIMessage,
+  createFallbackAIMessage,
+  validateAIMessage,
   sendDelayNotification,
   sendSMSNotification,
+  sendWebhookNotification,
+  recordWebhookDeadLetter,
   shouldSendNotification,
+  evaluateNotificationRules,
+  getTenantSettings,
+  getDelaySeverity,
   createNotificationRequest,
   logWorkflowStep,
   createAIMessageRequest,
+  getTrafficDataToStop,
+  calculateDeliveryEta,
+  getQuietHoursHoldMinutes,
+  createBackOnScheduleRequest,
+  evaluateNotificationState,
+  recordNotificationState,
+  clearNotificationState,
 };
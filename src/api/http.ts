@@ -0,0 +1,112 @@
+import http from 'http';
+import { ApiError, ShipmentWorkflowError, ShipmentWorkflowErrorCode } from '../errors';
+
+/**
+ * HTTP helpers shared by the API and the event receiver
+ * Errors are answered as { "error": { "code", "message", "details"? } }
+ */
+
+// Request bodies are workflow inputs or event batches, far below this
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+
+const WORKFLOW_ERRORS: Record<ShipmentWorkflowErrorCode, [number, ApiError['code']]> = {
+  NOT_FOUND: [404, 'WORKFLOW_NOT_FOUND'],
+  ALREADY_STARTED: [409, 'WORKFLOW_ALREADY_STARTED'],
+  NOT_RUNNING: [409, 'WORKFLOW_NOT_RUNNING'],
+};
+
+/**
+ * Reads a request body
+ * @param req - The request
+ * @returns Promise<string> - The raw body
+ * @throws ApiError - When the body is too large
+ */
+export function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    let size = 0;
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => {
+      size += Buffer.byteLength(chunk);
+      if (size > MAX_BODY_BYTES) {
+        reject(new ApiError(413, 'PAYLOAD_TOO_LARGE', 'Request body is too large'));
+        req.destroy();
+        return;
+      }
+      body += chunk;
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+}
+
+/**
+ * Parses a JSON body
+ * @param body - The raw body
+ * @returns unknown - The parsed body
+ * @throws ApiError - When the body is not JSON
+ */
+export function parseJson(body: string): unknown {
+  try {
+    return JSON.parse(body);
+  } catch {
+    throw new ApiError(400, 'INVALID_JSON', 'Request body must be JSON');
+  }
+}
+
+/**
+ * Writes a JSON response
+ * @param res - The response
+ * @param status - The HTTP status
+ * @param body - The response body
+ * @param headers - Optional additional headers
+ */
+export function sendJson(
+  res: http.ServerResponse,
+  status: number,
+  body: unknown,
+  headers: http.OutgoingHttpHeaders = {}
+) {
+  if (res.headersSent) {
+    return;
+  }
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Writes an error as a structured response
+ * Unexpected errors are logged and answered with 500, without their details
+ * @param res - The response
+ * @param error - The error
+ */
+export function sendError(res: http.ServerResponse, error: unknown) {
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    console.error('Failed to handle request:', error);
+  }
+
+  sendJson(res, apiError.status, {
+    error: {
+      code: apiError.code,
+      message: apiError.message,
+      ...(apiError.details ? { details: apiError.details } : {}),
+    },
+  });
+}
+
+/**
+ * Maps an error to an API error
+ * @param error - The error
+ * @returns ApiError - The API error
+ */
+function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) {
+    return error;
+  }
+  if (error instanceof ShipmentWorkflowError) {
+    const [status, code] = WORKFLOW_ERRORS[error.code];
+    return new ApiError(status, code, error.message);
+  }
+  return new ApiError(500, 'INTERNAL_ERROR', 'Internal server error');
+}
@@ -0,0 +1,212 @@
+import http from 'http';
+import {
+  DelayNotificationInput,
+  DeliveryMonitoringInput,
+  DuplicateShipmentPolicy,
+  ManualDelayReport,
+  StartedShipmentWorkflow,
+} from '../types';
+import { ApiError, ValidationIssue } from '../errors';
+import { ShipmentWorkflowService } from '../services/shipmentWorkflowService';
+import { parseJson, readBody, sendError, sendJson } from './http';
+import {
+  validateDelayNotificationInput,
+  validateDeliveryMonitoringInput,
+  validateManualDelayReport,
+} from './validation';
+
+/**
+ * Routes of the shipment workflow API
+ *
+ *   POST /shipments/delay-checks        Start a one-time delay check (DelayNotificationInput)
+ *   POST /shipments/monitors            Start monitoring a shipment (DeliveryMonitoringInput)
+ *                                       ?ifExists=return-existing answers a shipment that is
+ *                                       already running with its workflow instead of 409
+ *   GET  /workflows/:id                 Status, current step, notifications and result
+ *   POST /workflows/:id/manual-delay    Report a manual delay (ManualDelayReport)
+ *   POST /workflows/:id/delivered       Mark the shipment delivered
+ *   POST /workflows/:id/cancel          Cancel the workflow
+ *   GET  /health                        Liveness check
+ */
+
+interface RouteResponse {
+  status: number;
+  body: unknown;
+  headers?: http.OutgoingHttpHeaders;
+}
+
+interface Route {
+  method: string;
+  path: RegExp; // Capture groups are passed to the handler, URL-decoded
+  handle: (
+    service: ShipmentWorkflowService,
+    params: string[],
+    req: http.IncomingMessage
+  ) => Promise<RouteResponse>;
+}
+
+const ROUTES: Route[] = [
+  {
+    method: 'GET',
+    path: /^\/health$/,
+    handle: async () => ({ status: 200, body: { status: 'ok' } }),
+  },
+  {
+    method: 'POST',
+    path: /^\/shipments\/delay-checks$/,
+    handle: async (service, _params, req) => {
+      const input = await readValidBody<DelayNotificationInput>(
+        req,
+        validateDelayNotificationInput
+      );
+      return started(await service.startDelayCheck(input, getDuplicatePolicy(req)));
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/shipments\/monitors$/,
+    handle: async (service, _params, req) => {
+      const input = await readValidBody<DeliveryMonitoringInput>(
+        req,
+        validateDeliveryMonitoringInput
+      );
+      return started(await service.startMonitoring(input, getDuplicatePolicy(req)));
+    },
+  },
+  {
+    method: 'GET',
+    path: /^\/workflows\/([^/]+)$/,
+    handle: async (service, [workflowId]) => ({
+      status: 200,
+      body: await service.getStatus(workflowId),
+    }),
+  },
+  {
+    method: 'POST',
+    path: /^\/workflows\/([^/]+)\/manual-delay$/,
+    handle: async (service, [workflowId], req) => {
+      const report = await readValidBody<ManualDelayReport>(req, validateManualDelayReport);
+      await service.reportManualDelay(workflowId, report);
+      return { status: 202, body: { workflowId, signal: 'reportManualDelay' } };
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/workflows\/([^/]+)\/delivered$/,
+    handle: async (service, [workflowId]) => {
+      await service.markDelivered(workflowId);
+      return { status: 202, body: { workflowId, signal: 'markDelivered' } };
+    },
+  },
+  {
+    method: 'POST',
+    path: /^\/workflows\/([^/]+)\/cancel$/,
+    handle: async (service, [workflowId]) => {
+      await service.cancel(workflowId);
+      return { status: 202, body: { workflowId, cancellationRequested: true } };
+    },
+  },
+];
+
+/**
+ * Creates the HTTP handler of the shipment workflow API
+ * @param service - The shipment workflow service
+ * @returns http.RequestListener - The request handler
+ */
+export function createApiHandler(service: ShipmentWorkflowService): http.RequestListener {
+  return (req, res) => {
+    handleRequest(service, req)
+      .then(({ status, body, headers }) => sendJson(res, status, body, headers))
+      .catch(error => sendError(res, error));
+  };
+}
+
+/**
+ * Routes a request to its handler
+ * @param service - The shipment workflow service
+ * @param req - The request
+ * @returns Promise<RouteResponse> - The response to send
+ * @throws ApiError - When no route matches or the request is invalid
+ */
+async function handleRequest(
+  service: ShipmentWorkflowService,
+  req: http.IncomingMessage
+): Promise<RouteResponse> {
+  const { pathname } = new URL(req.url || '/', 'http://localhost');
+  const matching = ROUTES.filter(route => route.path.test(pathname));
+  if (matching.length === 0) {
+    throw new ApiError(404, 'NOT_FOUND', `No route for ${pathname}`);
+  }
+
+  const route = matching.find(candidate => candidate.method === req.method);
+  if (!route) {
+    const allowed = matching.map(candidate => candidate.method).join(', ');
+    throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not allowed; use ${allowed}`);
+  }
+
+  const params = (route.path.exec(pathname) || []).slice(1).map(decodeParam);
+  return route.handle(service, params, req);
+}
+
+/**
+ * URL-decodes a path parameter
+ * @param param - The encoded parameter
+ * @returns string - The decoded parameter
+ * @throws ApiError - When the parameter is not valid percent-encoding
+ */
+function decodeParam(param: string): string {
+  try {
+    return decodeURIComponent(param);
+  } catch {
+    throw new ApiError(400, 'VALIDATION_ERROR', `Path parameter ${param} is not valid`);
+  }
+}
+
+/**
+ * Reads what to do when the shipment's workflow is already running from the query string
+ * @param req - The request
+ * @returns DuplicateShipmentPolicy - The policy, reject unless ifExists says otherwise
+ * @throws ApiError - When ifExists is not a known policy
+ */
+function getDuplicatePolicy(req: http.IncomingMessage): DuplicateShipmentPolicy {
+  const ifExists = new URL(req.url || '/', 'http://localhost').searchParams.get('ifExists');
+  if (ifExists === null || ifExists === 'reject' || ifExists === 'return-existing') {
+    return ifExists || 'reject';
+  }
+  throw new ApiError(400, 'VALIDATION_ERROR', 'Query parameter ifExists is invalid', [
+    { field: 'ifExists', message: 'must be one of reject, return-existing' },
+  ]);
+}
+
+/**
+ * Reads and validates a JSON request body
+ * @param req - The request
+ * @param validate - Returns the body's invalid fields
+ * @returns Promise<T> - The valid body
+ * @throws ApiError - When the body is not JSON or invalid
+ */
+async function readValidBody<T>(
+  req: http.IncomingMessage,
+  validate: (body: unknown) => ValidationIssue[]
+): Promise<T> {
+  const body = parseJson(await readBody(req));
+  const issues = validate(body);
+  if (issues.length > 0) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Request body is invalid', issues);
+  }
+  return body as T;
+}
+
+/**
+ * The response to a started workflow, pointing at its status
+ * @param workflow - The started workflow's IDs
+ * @returns RouteResponse - 202 with the workflow IDs and status URL, 200 for a workflow that was already running
+ */
+function started(workflow: StartedShipmentWorkflow): RouteResponse {
+  const statusUrl = `/workflows/${encodeURIComponent(workflow.workflowId)}`;
+  return {
+    status: workflow.existing ? 200 : 202,
+    body: { ...workflow, statusUrl },
+    headers: { Location: statusUrl },
+  };
+}
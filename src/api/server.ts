@@ -0,0 +1,39 @@
+import http from 'http';
+import { Connection, Client } from '@temporalio/client';
+import { getApiServerConfig, getConfig, getTemporalConfig } from '../config';
+import { ShipmentWorkflowService } from '../services/shipmentWorkflowService';
+import { createApiHandler } from './routes';
+
+/**
+ * HTTP API for starting and inspecting shipment workflows
+ * Lets a TMS start delay checks and monitoring, follow a shipment and signal it, against the
+ * Temporal server the worker uses (a local dev server by default):
+ *   npm run api
+ *   curl -X POST http://localhost:3000/shipments/delay-checks -H 'Content-Type: application/json' -d @shipment.json
+ */
+async function startApiServer() {
+  const temporalConfig = getTemporalConfig();
+  const { port } = getApiServerConfig();
+
+  console.log(`Using configuration profile: ${getConfig().profile}`);
+  console.log(`Connecting to Temporal server at: ${temporalConfig.address}`);
+  console.log(`Using namespace: ${temporalConfig.namespace}`);
+  const connection = await Connection.connect({ address: temporalConfig.address });
+  const client = new Client({ connection, namespace: temporalConfig.namespace });
+
+  const server = http.createServer(createApiHandler(new ShipmentWorkflowService(client)));
+  server.listen(port, () => {
+    console.log(`Shipment workflow API listening on http://localhost:${port}`);
+  });
+
+  process.on('SIGTERM', () => {
+    server.close(() => connection.close().finally(() => process.exit(0)));
+  });
+}
+
+if (require.main === module) {
+  startApiServer().catch(error => {
+    console.error('Failed to start the API server:', error);
+    process.exit(1);
+  });
+}
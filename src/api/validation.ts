@@ -0,0 +1,611 @@
+import { ValidationIssue } from '../errors';
+
+/**
+ * Request body validation for the HTTP API
+ * Checks bodies against the workflow input shapes (DelayNotificationInput,
+ * DeliveryMonitoringInput, ManualDelayReport) before anything is started or signaled, and
+ * reports every invalid field with its path. Unknown fields are rejected, so typos in optional
+ * settings do not go unnoticed.
+ */
+
+const TRAFFIC_PROVIDERS = ['google', 'here', 'tomtom', 'osrm', 'mock'];
+
+const NOTIFICATION_CHANNELS = ['email', 'sms', 'webhook'];
+
+const DELAY_SEVERITIES = ['low', 'medium', 'high', 'critical'];
+
+// E.164: "+", country code and subscriber number, at most 15 digits
+const E164_PHONE_NUMBER = /^\+[1-9]\d{1,14}$/;
+
+const EMAIL_ADDRESS = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const TIME_OF_DAY = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+// Shipment IDs become part of workflow IDs, so they are limited to URL-safe characters
+const SHIPMENT_ID = /^[A-Za-z0-9._:-]{1,100}$/;
+
+const DELAY_NOTIFICATION_FIELDS = [
+  'route',
+  'shipment',
+  'customerEmail',
+  'customerPhone',
+  'delayThresholdMinutes',
+  'tenantId',
+  'customerTier',
+  'deliveryAppointment',
+  'locale',
+  'expectedArrivalTime',
+  'destinationTimeZone',
+  'quietHours',
+  'minTrafficConfidence',
+  'smsApproval',
+  'stopContacts',
+  'recipients',
+  'notificationPolicy',
+  'emailFeedbackMinutes',
+];
+
+const RECIPIENT_FIELDS = [
+  'name',
+  'customerEmail',
+  'customerPhone',
+  'webhookUrl',
+  'channels',
+  'minSeverity',
+  'locale',
+  'expectedArrivalTime',
+  'timeZone',
+  'quietHours',
+];
+
+type JsonObject = Record<string, unknown>;
+
+interface NumberRules {
+  required?: boolean;
+  min?: number;
+  max?: number;
+  exclusiveMin?: boolean; // The value must be greater than min
+}
+
+/**
+ * Validates the input of a one-time delay check
+ * @param body - The parsed request body
+ * @returns ValidationIssue[] - The invalid fields, empty when the body is a valid DelayNotificationInput
+ */
+export function validateDelayNotificationInput(body: unknown): ValidationIssue[] {
+  return checkDelayNotificationInput(body, []);
+}
+
+/**
+ * Validates the input of a monitoring workflow
+ * Monitoring requires the planned arrival, which ends it, and the polling interval
+ * @param body - The parsed request body
+ * @returns ValidationIssue[] - The invalid fields, empty when the body is a valid DeliveryMonitoringInput
+ */
+export function validateDeliveryMonitoringInput(body: unknown): ValidationIssue[] {
+  const issues = checkDelayNotificationInput(body, ['pollIntervalMinutes']);
+  if (!isObject(body)) {
+    return issues;
+  }
+
+  if (body.expectedArrivalTime === undefined) {
+    issues.push({ field: 'expectedArrivalTime', message: 'is required for monitoring' });
+  }
+  checkNumber(issues, body.pollIntervalMinutes, 'pollIntervalMinutes', {
+    required: true,
+    min: 0,
+    exclusiveMin: true,
+  });
+  return issues;
+}
+
+/**
+ * Validates a manual delay report
+ * @param body - The parsed request body
+ * @returns ValidationIssue[] - The invalid fields, empty when the body is a valid ManualDelayReport
+ */
+export function validateManualDelayReport(body: unknown): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(body)) {
+    return [{ field: '', message: 'must be a JSON object' }];
+  }
+
+  checkUnknownFields(issues, body, ['delayMinutes', 'reason', 'reportedBy'], '');
+  checkNumber(issues, body.delayMinutes, 'delayMinutes', { required: true, min: 0 });
+  checkString(issues, body.reason, 'reason', true);
+  checkString(issues, body.reportedBy, 'reportedBy');
+  return issues;
+}
+
+/**
+ * Validates the fields shared by both workflow inputs
+ * @param body - The parsed request body
+ * @param extraFields - Fields the specific input adds
+ * @returns ValidationIssue[] - The invalid fields
+ */
+function checkDelayNotificationInput(body: unknown, extraFields: string[]): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+  if (!isObject(body)) {
+    return [{ field: '', message: 'must be a JSON object' }];
+  }
+
+  checkUnknownFields(issues, body, [...DELAY_NOTIFICATION_FIELDS, ...extraFields], '');
+  checkRoute(issues, body.route);
+  checkShipment(issues, body.shipment);
+  checkEmail(issues, body.customerEmail, 'customerEmail', true);
+  checkPhone(issues, body.customerPhone, 'customerPhone');
+  checkNumber(issues, body.delayThresholdMinutes, 'delayThresholdMinutes', { min: 0 });
+  checkString(issues, body.tenantId, 'tenantId');
+  checkString(issues, body.customerTier, 'customerTier');
+  checkDeliveryAppointment(issues, body.deliveryAppointment);
+  checkString(issues, body.locale, 'locale');
+  checkTimestamp(issues, body.expectedArrivalTime, 'expectedArrivalTime');
+  checkTimeZone(issues, body.destinationTimeZone, 'destinationTimeZone');
+  checkQuietHours(issues, body.quietHours, 'quietHours');
+  checkNumber(issues, body.minTrafficConfidence, 'minTrafficConfidence', { min: 0, max: 1 });
+  checkSmsApproval(issues, body.smsApproval);
+  checkRecipients(issues, body.stopContacts, 'stopContacts', true);
+  checkRecipients(issues, body.recipients, 'recipients', false);
+  checkNotificationPolicy(issues, body.notificationPolicy);
+  checkNumber(issues, body.emailFeedbackMinutes, 'emailFeedbackMinutes', { min: 0 });
+  return issues;
+}
+
+/**
+ * Validates the delivery route
+ * @param issues - Collects the invalid fields
+ * @param value - The route
+ */
+function checkRoute(issues: ValidationIssue[], value: unknown) {
+  if (!isObject(value)) {
+    issues.push({ field: 'route', message: 'is required and must be an object' });
+    return;
+  }
+
+  checkUnknownFields(
+    issues,
+    value,
+    ['origin', 'destination', 'waypoints', 'trafficProviders'],
+    'route'
+  );
+  checkString(issues, value.origin, 'route.origin', true);
+  checkString(issues, value.destination, 'route.destination', true);
+  checkStringArray(issues, value.waypoints, 'route.waypoints');
+  checkStringArray(issues, value.trafficProviders, 'route.trafficProviders', TRAFFIC_PROVIDERS);
+}
+
+/**
+ * Validates the shipment's references
+ * @param issues - Collects the invalid fields
+ * @param value - The shipment
+ */
+function checkShipment(issues: ValidationIssue[], value: unknown) {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    issues.push({ field: 'shipment', message: 'must be an object' });
+    return;
+  }
+
+  checkUnknownFields(
+    issues,
+    value,
+    ['shipmentId', 'proNumber', 'bolNumber', 'carrier', 'customerReference'],
+    'shipment'
+  );
+  if (typeof value.shipmentId !== 'string' || !SHIPMENT_ID.test(value.shipmentId)) {
+    issues.push({
+      field: 'shipment.shipmentId',
+      message: 'is required and must be 1-100 letters, digits, ".", "_", ":" or "-"',
+    });
+  }
+  checkString(issues, value.proNumber, 'shipment.proNumber');
+  checkString(issues, value.bolNumber, 'shipment.bolNumber');
+  checkString(issues, value.carrier, 'shipment.carrier');
+  checkString(issues, value.customerReference, 'shipment.customerReference');
+}
+
+/**
+ * Validates a list of recipients or stop contacts
+ * @param issues - Collects the invalid fields
+ * @param value - The list
+ * @param field - Path of the list
+ * @param isStopContact - Whether the entries are stop contacts, which require their stop
+ */
+function checkRecipients(
+  issues: ValidationIssue[],
+  value: unknown,
+  field: string,
+  isStopContact: boolean
+) {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value)) {
+    issues.push({ field, message: 'must be an array' });
+    return;
+  }
+
+  value.forEach((recipient, i) =>
+    checkRecipient(issues, recipient, `${field}[${i}]`, isStopContact)
+  );
+}
+
+/**
+ * Validates a recipient
+ * @param issues - Collects the invalid fields
+ * @param value - The recipient
+ * @param field - Path of the recipient
+ * @param isStopContact - Whether the recipient is a stop contact, which requires its stop
+ */
+function checkRecipient(
+  issues: ValidationIssue[],
+  value: unknown,
+  field: string,
+  isStopContact: boolean
+) {
+  if (!isObject(value)) {
+    issues.push({ field, message: 'must be an object' });
+    return;
+  }
+
+  checkUnknownFields(
+    issues,
+    value,
+    isStopContact ? [...RECIPIENT_FIELDS, 'stop'] : RECIPIENT_FIELDS,
+    field
+  );
+  if (isStopContact) {
+    checkString(issues, value.stop, `${field}.stop`, true);
+  }
+  checkString(issues, value.name, `${field}.name`);
+  checkEmail(issues, value.customerEmail, `${field}.customerEmail`, true);
+  checkPhone(issues, value.customerPhone, `${field}.customerPhone`);
+  checkUrl(issues, value.webhookUrl, `${field}.webhookUrl`);
+  checkStringArray(issues, value.channels, `${field}.channels`, NOTIFICATION_CHANNELS);
+  checkEnum(issues, value.minSeverity, `${field}.minSeverity`, DELAY_SEVERITIES);
+  checkString(issues, value.locale, `${field}.locale`);
+  checkTimestamp(issues, value.expectedArrivalTime, `${field}.expectedArrivalTime`);
+  checkTimeZone(issues, value.timeZone, `${field}.timeZone`);
+  checkQuietHours(issues, value.quietHours, `${field}.quietHours`);
+}
+
+/**
+ * Validates the delivery appointment window
+ * @param issues - Collects the invalid fields
+ * @param value - The appointment
+ */
+function checkDeliveryAppointment(issues: ValidationIssue[], value: unknown) {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    issues.push({ field: 'deliveryAppointment', message: 'must be an object' });
+    return;
+  }
+
+  checkUnknownFields(issues, value, ['start', 'end'], 'deliveryAppointment');
+  for (const key of ['start', 'end']) {
+    if (value[key] === undefined) {
+      issues.push({ field: `deliveryAppointment.${key}`, message: 'is required' });
+    }
+    checkTimestamp(issues, value[key], `deliveryAppointment.${key}`);
+  }
+  if (Date.parse(value.end as string) < Date.parse(value.start as string)) {
+    issues.push({ field: 'deliveryAppointment.end', message: 'must not be before start' });
+  }
+}
+
+/**
+ * Validates quiet hours
+ * @param issues - Collects the invalid fields
+ * @param value - The quiet hours
+ * @param field - Path of the quiet hours
+ */
+function checkQuietHours(issues: ValidationIssue[], value: unknown, field: string) {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    issues.push({ field, message: 'must be an object' });
+    return;
+  }
+
+  checkUnknownFields(issues, value, ['start', 'end', 'timeZone', 'urgentDelayMinutes'], field);
+  for (const key of ['start', 'end']) {
+    if (typeof value[key] !== 'string' || !TIME_OF_DAY.test(value[key] as string)) {
+      issues.push({ field: `${field}.${key}`, message: 'must be a time of day as "HH:mm"' });
+    }
+  }
+  checkTimeZone(issues, value.timeZone, `${field}.timeZone`);
+  checkNumber(issues, value.urgentDelayMinutes, `${field}.urgentDelayMinutes`, { min: 0 });
+}
+
+/**
+ * Validates the SMS approval policy
+ * @param issues - Collects the invalid fields
+ * @param value - The policy
+ */
+function checkSmsApproval(issues: ValidationIssue[], value: unknown) {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    issues.push({ field: 'smsApproval', message: 'must be an object' });
+    return;
+  }
+
+  checkUnknownFields(issues, value, ['required', 'timeoutMinutes', 'defaultAction'], 'smsApproval');
+  if (typeof value.required !== 'boolean') {
+    issues.push({ field: 'smsApproval.required', message: 'must be a boolean' });
+  }
+  checkNumber(issues, value.timeoutMinutes, 'smsApproval.timeoutMinutes', {
+    required: true,
+    min: 0,
+    exclusiveMin: true,
+  });
+  checkEnum(issues, value.defaultAction, 'smsApproval.defaultAction', ['approve', 'reject'], true);
+}
+
+/**
+ * Validates the notification policy and its escalation tiers
+ * @param issues - Collects the invalid fields
+ * @param value - The policy
+ */
+function checkNotificationPolicy(issues: ValidationIssue[], value: unknown) {
+  if (value === undefined) {
+    return;
+  }
+  if (!isObject(value)) {
+    issues.push({ field: 'notificationPolicy', message: 'must be an object' });
+    return;
+  }
+
+  checkUnknownFields(
+    issues,
+    value,
+    ['repeatChangeMinutes', 'escalationTiers'],
+    'notificationPolicy'
+  );
+  checkNumber(issues, value.repeatChangeMinutes, 'notificationPolicy.repeatChangeMinutes', {
+    min: 0,
+  });
+  if (value.escalationTiers === undefined) {
+    return;
+  }
+  if (!Array.isArray(value.escalationTiers)) {
+    issues.push({ field: 'notificationPolicy.escalationTiers', message: 'must be an array' });
+    return;
+  }
+
+  value.escalationTiers.forEach((tier, i) => {
+    const field = `notificationPolicy.escalationTiers[${i}]`;
+    if (!isObject(tier)) {
+      issues.push({ field, message: 'must be an object' });
+      return;
+    }
+    checkUnknownFields(issues, tier, ['delayMinutes', 'channels', 'recipients'], field);
+    checkNumber(issues, tier.delayMinutes, `${field}.delayMinutes`, { required: true, min: 0 });
+    checkStringArray(issues, tier.channels, `${field}.channels`, NOTIFICATION_CHANNELS);
+    checkRecipients(issues, tier.recipients, `${field}.recipients`, false);
+  });
+}
+
+/**
+ * Reports fields that are not part of the expected shape
+ * @param issues - Collects the invalid fields
+ * @param value - The object
+ * @param allowed - The expected fields
+ * @param field - Path of the object, empty for the body
+ */
+function checkUnknownFields(
+  issues: ValidationIssue[],
+  value: JsonObject,
+  allowed: string[],
+  field: string
+) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      issues.push({ field: field ? `${field}.${key}` : key, message: 'is not a known field' });
+    }
+  }
+}
+
+/**
+ * Validates a string field
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ * @param required - Whether the field is required
+ */
+function checkString(issues: ValidationIssue[], value: unknown, field: string, required = false) {
+  if (value === undefined && !required) {
+    return;
+  }
+  if (typeof value !== 'string' || value.trim().length === 0) {
+    issues.push({
+      field,
+      message: required
+        ? 'is required and must be a non-empty string'
+        : 'must be a non-empty string',
+    });
+  }
+}
+
+/**
+ * Validates an array of strings, optionally restricted to allowed values
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ * @param allowed - Optional allowed values
+ */
+function checkStringArray(
+  issues: ValidationIssue[],
+  value: unknown,
+  field: string,
+  allowed?: string[]
+) {
+  if (value === undefined) {
+    return;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    issues.push({ field, message: 'must be an array of strings' });
+    return;
+  }
+
+  const unknown = allowed ? value.filter(item => !allowed.includes(item)) : [];
+  if (unknown.length > 0) {
+    issues.push({
+      field,
+      message: `contains unknown value(s) ${unknown.join(', ')}; expected ${allowed?.join(', ')}`,
+    });
+  }
+}
+
+/**
+ * Validates a field restricted to allowed values
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ * @param allowed - The allowed values
+ * @param required - Whether the field is required
+ */
+function checkEnum(
+  issues: ValidationIssue[],
+  value: unknown,
+  field: string,
+  allowed: string[],
+  required = false
+) {
+  if (value === undefined && !required) {
+    return;
+  }
+  if (typeof value !== 'string' || !allowed.includes(value)) {
+    issues.push({ field, message: `must be one of ${allowed.join(', ')}` });
+  }
+}
+
+/**
+ * Validates a number field
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ * @param rules - Whether the field is required and its bounds
+ */
+function checkNumber(issues: ValidationIssue[], value: unknown, field: string, rules: NumberRules) {
+  if (value === undefined && !rules.required) {
+    return;
+  }
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    issues.push({
+      field,
+      message: rules.required ? 'is required and must be a number' : 'must be a number',
+    });
+    return;
+  }
+
+  if (rules.min !== undefined && (rules.exclusiveMin ? value <= rules.min : value < rules.min)) {
+    issues.push({
+      field,
+      message: `must be ${rules.exclusiveMin ? 'greater than' : 'at least'} ${rules.min}`,
+    });
+  }
+  if (rules.max !== undefined && value > rules.max) {
+    issues.push({ field, message: `must be at most ${rules.max}` });
+  }
+}
+
+/**
+ * Validates an email address
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ * @param required - Whether the field is required
+ */
+function checkEmail(issues: ValidationIssue[], value: unknown, field: string, required = false) {
+  if (value === undefined && !required) {
+    return;
+  }
+  if (typeof value !== 'string' || !EMAIL_ADDRESS.test(value)) {
+    issues.push({
+      field,
+      message: required ? 'is required and must be an email address' : 'must be an email address',
+    });
+  }
+}
+
+/**
+ * Validates an E.164 phone number
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ */
+function checkPhone(issues: ValidationIssue[], value: unknown, field: string) {
+  if (value !== undefined && (typeof value !== 'string' || !E164_PHONE_NUMBER.test(value))) {
+    issues.push({ field, message: 'must be an E.164 phone number, e.g. "+15551234567"' });
+  }
+}
+
+/**
+ * Validates an HTTP(S) URL
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ */
+function checkUrl(issues: ValidationIssue[], value: unknown, field: string) {
+  if (value === undefined) {
+    return;
+  }
+  try {
+    const { protocol } = new URL(String(value));
+    if (typeof value === 'string' && (protocol === 'https:' || protocol === 'http:')) {
+      return;
+    }
+  } catch {
+    // Reported below
+  }
+  issues.push({ field, message: 'must be an HTTP(S) URL' });
+}
+
+/**
+ * Validates an ISO 8601 timestamp
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ */
+function checkTimestamp(issues: ValidationIssue[], value: unknown, field: string) {
+  if (value !== undefined && (typeof value !== 'string' || isNaN(Date.parse(value)))) {
+    issues.push({ field, message: 'must be an ISO 8601 timestamp' });
+  }
+}
+
+/**
+ * Validates an IANA time zone
+ * @param issues - Collects the invalid fields
+ * @param value - The value
+ * @param field - Path of the field
+ */
+function checkTimeZone(issues: ValidationIssue[], value: unknown, field: string) {
+  if (value === undefined) {
+    return;
+  }
+  try {
+    if (typeof value === 'string') {
+      new Intl.DateTimeFormat('en-US', { timeZone: value });
+      return;
+    }
+  } catch {
+    // Reported below
+  }
+  issues.push({ field, message: 'must be an IANA time zone, e.g. "America/New_York"' });
+}
+
+/**
+ * Checks whether a value is a plain JSON object
+ * @param value - The value
+ * @returns boolean - Whether the value is an object and not an array or null
+ */
+function isObject(value: unknown): value is JsonObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,103 @@
+import { parseArgs } from 'util';
+import { NotificationAuditRecord, WebhookDeadLetter } from './types';
+import { AuditLogService } from './services/auditLogService';
+
+/**
+ * Notification audit log lookup
+ *
+ * Lists the notifications sent for a shipment and/or to a customer, most recent first, or the
+ * webhook events that could not be delivered:
+ *   npm run audit -- --shipment freight-delay-1-1700000000000
+ *   npm run audit -- --customer customer@example.com --limit 10 --json
+ *   npm run audit -- --customer tms@shipper.com --dead-letters
+ */
+async function runAuditLookup() {
+  const { values } = parseArgs({
+    options: {
+      shipment: { type: 'string' },
+      customer: { type: 'string' },
+      limit: { type: 'string' },
+      json: { type: 'boolean', default: false },
+      'dead-letters': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.shipment && !values.customer) {
+    console.error(
+      'Usage: npm run audit -- [--shipment <id>] [--customer <email>] [--limit <n>] [--dead-letters] [--json]'
+    );
+    console.error('At least one of --shipment or --customer is required');
+    process.exit(1);
+  }
+
+  const limit = values.limit ? parseInt(values.limit) : undefined;
+  if (limit !== undefined && (isNaN(limit) || limit <= 0)) {
+    console.error('--limit must be a positive number');
+    process.exit(1);
+  }
+
+  const auditLogService = new AuditLogService();
+  const query = { shipmentId: values.shipment, customerEmail: values.customer, limit };
+  const records = values['dead-letters']
+    ? await auditLogService.findDeadLetters(query)
+    : await auditLogService.findNotifications(query);
+
+  if (values.json) {
+    console.log(JSON.stringify(records, null, 2));
+    return;
+  }
+
+  if (records.length === 0) {
+    console.log(values['dead-letters'] ? 'No dead letters found' : 'No notifications found');
+    return;
+  }
+  if (values['dead-letters']) {
+    (records as WebhookDeadLetter[]).forEach(logDeadLetter);
+  } else {
+    (records as NotificationAuditRecord[]).forEach(logRecord);
+  }
+}
+
+/**
+ * Prints an audit record in a readable form
+ * @param record - The audit record
+ */
+function logRecord(record: NotificationAuditRecord) {
+  const { trafficData } = record;
+
+  console.log(`#${record.id} ${record.sentAt} ${record.channel} (${record.kind})`);
+  console.log(`  Shipment: ${record.shipmentId}`);
+  if (record.workflowId && record.workflowId !== record.shipmentId) {
+    console.log(`  Workflow: ${record.workflowId}`);
+  }
+  console.log(`  Recipient: ${record.recipient} (${record.customerEmail})`);
+  console.log(`  Message ID: ${record.messageId || 'n/a'}`);
+  console.log(`  Subject: ${record.subject}`);
+  console.log(`  Body: ${record.body.replace(/\n/g, '\n        ')}`);
+  if (trafficData) {
+    console.log(
+      `  Traffic: ${trafficData.estimatedDelayMinutes} minute delay, ${trafficData.trafficCondition}, ${trafficData.source} data from ${trafficData.provider} (confidence ${trafficData.confidence})`
+    );
+  }
+  console.log('');
+}
+
+/**
+ * Prints a dead letter in a readable form
+ * @param deadLetter - The undeliverable webhook event
+ */
+function logDeadLetter(deadLetter: WebhookDeadLetter) {
+  console.log(`#${deadLetter.id} ${deadLetter.failedAt} ${deadLetter.eventId}`);
+  console.log(`  Shipment: ${deadLetter.shipmentId}`);
+  console.log(`  Webhook: ${deadLetter.url} (${deadLetter.customerEmail})`);
+  console.log(`  Error: ${deadLetter.error}`);
+  console.log(`  Payload: ${deadLetter.payload}`);
+  console.log('');
+}
+
+if (require.main === module) {
+  runAuditLookup().catch(error => {
+    console.error('Failed to look up notifications:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,800 @@
+import { readFileSync } from 'fs';
+import { parseArgs } from 'util';
+import {
+  DelayNotificationInput,
+  DeliveryMonitoringInput,
+  DuplicateShipmentPolicy,
+  ManifestSummary,
+  MonitoringResult,
+  ShipmentReference,
+  ShipmentWorkflowStatus,
+  ShipmentWorkflowSummary,
+  StartedShipmentWorkflow,
+} from '../types';
+import { CliError, ShipmentWorkflowError, ValidationIssue } from '../errors';
+import { ShipmentWorkflowService } from '../services/shipmentWorkflowService';
+import { validateDelayNotificationInput, validateDeliveryMonitoringInput } from '../api/validation';
+import { detectManifestFormat, ManifestEntry, parseManifest } from './manifest';
+
+/**
+ * Operator CLI commands
+ * Each command parses its own flags before connecting to Temporal, so mistyped flags fail fast.
+ * With --json, the command's result (or error) is printed as JSON and nothing else goes to
+ * stdout.
+ */
+
+export interface CliOutput {
+  log: (line: string) => void; // Command results, stdout
+  error: (line: string) => void; // Errors and progress, stderr
+}
+
+type CliValues = Record<string, string | boolean | string[] | undefined>;
+
+type CliOptions = NonNullable<Parameters<typeof parseArgs>[0]>['options'];
+
+interface CliCommand {
+  usage: string;
+  positionals: string[]; // Names of the required positional arguments
+  options: CliOptions;
+  run: (
+    service: ShipmentWorkflowService,
+    values: CliValues,
+    positionals: string[],
+    output: CliOutput
+  ) => Promise<number>; // The exit code
+}
+
+const DEFAULT_POLL_INTERVAL_MINUTES = 15;
+
+const JSON_OPTION = { json: { type: 'boolean', default: false } } as const;
+
+const IF_EXISTS_OPTION = { 'if-exists': { type: 'string', default: 'reject' } } as const;
+
+const DUPLICATE_POLICIES: DuplicateShipmentPolicy[] = ['reject', 'return-existing'];
+
+const defaultOutput: CliOutput = {
+  log: line => process.stdout.write(`${line}\n`),
+  error: line => process.stderr.write(`${line}\n`),
+};
+
+const COMMANDS: Record<string, CliCommand> = {
+  start: {
+    usage: [
+      'start --origin <address> --destination <address> --email <email>',
+      '[--waypoint <address>]... [--phone <e164>] [--tenant <id>] [--threshold <minutes>]',
+      '[--locale <tag>]',
+      '[--eta <iso>] [--time-zone <iana>] [--shipment-id <id> [--pro <number>] [--bol <number>]',
+      '[--carrier <name>] [--customer-ref <ref>] [--if-exists reject|return-existing]]',
+      '[--monitor [--poll <minutes>]] [--json]',
+    ].join(' '),
+    positionals: [],
+    options: {
+      'shipment-id': { type: 'string' },
+      pro: { type: 'string' },
+      bol: { type: 'string' },
+      carrier: { type: 'string' },
+      'customer-ref': { type: 'string' },
+      ...IF_EXISTS_OPTION,
+      origin: { type: 'string' },
+      destination: { type: 'string' },
+      waypoint: { type: 'string', multiple: true },
+      email: { type: 'string' },
+      phone: { type: 'string' },
+      tenant: { type: 'string' },
+      threshold: { type: 'string' },
+      locale: { type: 'string' },
+      eta: { type: 'string' },
+      'time-zone': { type: 'string' },
+      monitor: { type: 'boolean', default: false },
+      poll: { type: 'string' },
+      ...JSON_OPTION,
+    },
+    run: startCommand,
+  },
+  status: {
+    usage: 'status <workflowId> [--json]',
+    positionals: ['workflowId'],
+    options: { ...JSON_OPTION },
+    run: statusCommand,
+  },
+  list: {
+    usage: 'list [--all] [--limit <n>] [--json]',
+    positionals: [],
+    options: {
+      all: { type: 'boolean', default: false },
+      limit: { type: 'string' },
+      ...JSON_OPTION,
+    },
+    run: listCommand,
+  },
+  cancel: {
+    usage: 'cancel <workflowId> [--json]',
+    positionals: ['workflowId'],
+    options: { ...JSON_OPTION },
+    run: cancelCommand,
+  },
+  terminate: {
+    usage: 'terminate <workflowId> [--reason <text>] [--json]',
+    positionals: ['workflowId'],
+    options: {
+      reason: { type: 'string', default: 'Terminated by an operator' },
+      ...JSON_OPTION,
+    },
+    run: terminateCommand,
+  },
+  import: {
+    usage: [
+      'import <manifest.csv|manifest.json> [--format csv|json] [--tenant <id>]',
+      '[--monitor [--poll <minutes>] | --parent [--concurrency <n>]]',
+      '[--if-exists reject|return-existing] [--dry-run] [--json]',
+    ].join(' '),
+    positionals: ['manifest'],
+    options: {
+      format: { type: 'string' },
+      tenant: { type: 'string' },
+      ...IF_EXISTS_OPTION,
+      monitor: { type: 'boolean', default: false },
+      poll: { type: 'string' },
+      parent: { type: 'boolean', default: false },
+      concurrency: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+      ...JSON_OPTION,
+    },
+    run: importCommand,
+  },
+  retry: {
+    usage: 'retry <manifestWorkflowId> [--shipment <key>]... [--json]',
+    positionals: ['manifestWorkflowId'],
+    options: {
+      shipment: { type: 'string', multiple: true },
+      ...JSON_OPTION,
+    },
+    run: retryCommand,
+  },
+};
+
+/**
+ * Runs a CLI command
+ * @param argv - The arguments after the script, e.g. ["status", "freight-delay-1", "--json"]
+ * @param connect - Connects to Temporal; only called once the arguments are valid
+ * @param output - Where results and errors are printed
+ * @returns Promise<number> - The exit code: 0 on success, 1 on failure, 2 on usage errors
+ */
+export async function runCli(
+  argv: string[],
+  connect: () => Promise<ShipmentWorkflowService>,
+  output: CliOutput = defaultOutput
+): Promise<number> {
+  const [name, ...args] = argv;
+  if (!name || name === 'help' || name === '--help' || name === '-h') {
+    output.log(getUsage());
+    return name ? 0 : 2;
+  }
+
+  const command = COMMANDS[name];
+  const json = args.includes('--json');
+  if (!command) {
+    return reportError(output, new CliError(`Unknown command: ${name}`, 'USAGE'), json);
+  }
+
+  try {
+    const { values, positionals } = parseCommandArgs(command, args);
+    return await command.run(await connect(), values, positionals, output);
+  } catch (error) {
+    return reportError(output, error, json);
+  }
+}
+
+/**
+ * Lists the commands and their flags
+ * @returns string - The usage text
+ */
+export function getUsage(): string {
+  const commands = Object.values(COMMANDS).map(command => `  npm run cli -- ${command.usage}`);
+  return ['Usage:', ...commands].join('\n');
+}
+
+/**
+ * Starts a delay check or monitoring for one route given as flags
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param _positionals - Unused
+ * @param output - Where the result is printed
+ * @returns Promise<number> - The exit code
+ */
+async function startCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  _positionals: string[],
+  output: CliOutput
+): Promise<number> {
+  const monitor = values.monitor === true;
+  const ifExists = getDuplicatePolicy(values);
+  const shipment = withoutUndefined({
+    shipmentId: values['shipment-id'],
+    proNumber: values.pro,
+    bolNumber: values.bol,
+    carrier: values.carrier,
+    customerReference: values['customer-ref'],
+  });
+  const input = withoutUndefined({
+    route: withoutUndefined({
+      origin: values.origin,
+      destination: values.destination,
+      waypoints: values.waypoint,
+    }),
+    shipment: Object.keys(shipment).length > 0 ? shipment : undefined,
+    customerEmail: values.email,
+    customerPhone: values.phone,
+    tenantId: values.tenant,
+    // Without --threshold the tenant's threshold applies
+    delayThresholdMinutes: getNumberOption(values, 'threshold'),
+    locale: values.locale,
+    expectedArrivalTime: values.eta,
+    destinationTimeZone: values['time-zone'],
+    pollIntervalMinutes: monitor
+      ? (getNumberOption(values, 'poll') ?? DEFAULT_POLL_INTERVAL_MINUTES)
+      : undefined,
+  });
+
+  const issues = validateInput(input, monitor);
+  if (issues.length > 0) {
+    throw new CliError('Shipment is invalid', 'VALIDATION_ERROR', issues);
+  }
+
+  const started = await startWorkflow(service, input, monitor, ifExists);
+  if (values.json) {
+    output.log(JSON.stringify(started, null, 2));
+  } else if (started.existing) {
+    output.log(`Already running: ${started.type} ${started.workflowId} (run ${started.runId})`);
+  } else {
+    output.log(`Started ${started.type} ${started.workflowId} (run ${started.runId})`);
+  }
+  return 0;
+}
+
+/**
+ * Prints the status of a workflow, with its result once closed
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param positionals - The workflow ID
+ * @param output - Where the status is printed
+ * @returns Promise<number> - The exit code
+ */
+async function statusCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  [workflowId]: string[],
+  output: CliOutput
+): Promise<number> {
+  const status = await service.getStatus(workflowId);
+  if (values.json) {
+    output.log(JSON.stringify(status, null, 2));
+  } else {
+    logStatus(output, status);
+  }
+  return 0;
+}
+
+/**
+ * Lists running (or all) shipment workflows
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param _positionals - Unused
+ * @param output - Where the workflows are printed
+ * @returns Promise<number> - The exit code
+ */
+async function listCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  _positionals: string[],
+  output: CliOutput
+): Promise<number> {
+  const limit = getNumberOption(values, 'limit');
+  if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+    throw new CliError('--limit must be a positive integer', 'USAGE');
+  }
+
+  const workflows = await service.list({ includeClosed: values.all === true, limit });
+  if (values.json) {
+    output.log(JSON.stringify(workflows, null, 2));
+  } else if (workflows.length === 0) {
+    output.log(values.all ? 'No shipment workflows found' : 'No running shipment workflows');
+  } else {
+    workflows.forEach(workflow => output.log(formatSummary(workflow)));
+  }
+  return 0;
+}
+
+/**
+ * Requests cancellation of a running workflow
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param positionals - The workflow ID
+ * @param output - Where the result is printed
+ * @returns Promise<number> - The exit code
+ */
+async function cancelCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  [workflowId]: string[],
+  output: CliOutput
+): Promise<number> {
+  await service.cancel(workflowId);
+  if (values.json) {
+    output.log(JSON.stringify({ workflowId, cancellationRequested: true }, null, 2));
+  } else {
+    output.log(`Cancellation requested for ${workflowId}`);
+  }
+  return 0;
+}
+
+/**
+ * Terminates a running workflow
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param positionals - The workflow ID
+ * @param output - Where the result is printed
+ * @returns Promise<number> - The exit code
+ */
+async function terminateCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  [workflowId]: string[],
+  output: CliOutput
+): Promise<number> {
+  const reason = values.reason as string;
+  await service.terminate(workflowId, reason);
+  if (values.json) {
+    output.log(JSON.stringify({ workflowId, terminated: true, reason }, null, 2));
+  } else {
+    output.log(`Terminated ${workflowId}: ${reason}`);
+  }
+  return 0;
+}
+
+/**
+ * Starts a workflow per shipment of a CSV or JSON manifest, or with --parent one manifest
+ * workflow that checks the shipments in child workflows
+ * The whole manifest is validated first, so nothing is started when an entry is invalid.
+ * Entries that fail to start are reported and do not stop the others.
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param positionals - The manifest path
+ * @param output - Where the results are printed
+ * @returns Promise<number> - The exit code: 1 when an entry failed to start
+ */
+async function importCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  [path]: string[],
+  output: CliOutput
+): Promise<number> {
+  const monitor = values.monitor === true;
+  const ifExists = getDuplicatePolicy(values);
+  if (monitor && values.parent) {
+    throw new CliError(
+      '--parent checks shipments once; it cannot be combined with --monitor',
+      'USAGE'
+    );
+  }
+  const concurrency = getNumberOption(values, 'concurrency');
+  if (concurrency !== undefined && (!Number.isInteger(concurrency) || concurrency <= 0)) {
+    throw new CliError('--concurrency must be a positive integer', 'USAGE');
+  }
+
+  const entries = readManifest(path, values.format as string | undefined);
+  // Entries name their own tenant, or take --tenant; thresholds default to the tenant's
+  const defaults = {
+    ...(values.tenant ? { tenantId: values.tenant } : {}),
+    ...(monitor
+      ? { pollIntervalMinutes: getNumberOption(values, 'poll') ?? DEFAULT_POLL_INTERVAL_MINUTES }
+      : {}),
+  };
+
+  const shipments = entries.map(entry => ({
+    label: entry.label,
+    input: isObject(entry.input) ? { ...defaults, ...entry.input } : entry.input,
+  }));
+  const issues = [
+    ...shipments.flatMap(({ label, input }) =>
+      validateInput(input, monitor).map(issue => ({
+        field: issue.field ? `${label}: ${issue.field}` : label,
+        message: issue.message,
+      }))
+    ),
+    ...findRepeatedShipments(shipments),
+  ];
+  if (issues.length > 0) {
+    throw new CliError(
+      'Manifest is invalid; no shipments were started',
+      'VALIDATION_ERROR',
+      issues
+    );
+  }
+
+  if (values['dry-run']) {
+    if (values.json) {
+      output.log(JSON.stringify({ valid: shipments.length }, null, 2));
+    } else {
+      output.log(`${shipments.length} shipments are valid; none were started (--dry-run)`);
+    }
+    return 0;
+  }
+
+  if (values.parent) {
+    const started = await service.startManifest({
+      shipments: shipments.map(({ input }) => input as DelayNotificationInput),
+      ...(concurrency !== undefined ? { maxConcurrency: concurrency } : {}),
+    });
+    if (values.json) {
+      output.log(JSON.stringify({ ...started, shipments: shipments.length }, null, 2));
+    } else {
+      output.log(`Started ${started.workflowId} for ${shipments.length} shipments`);
+    }
+    return 0;
+  }
+
+  const results: {
+    entry: string;
+    workflowId?: string;
+    runId?: string;
+    existing?: boolean;
+    error?: string;
+  }[] = [];
+  for (const { label, input } of shipments) {
+    try {
+      const started = await startWorkflow(service, input, monitor, ifExists);
+      results.push({
+        entry: label,
+        workflowId: started.workflowId,
+        runId: started.runId,
+        ...(started.existing ? { existing: true } : {}),
+      });
+      if (!values.json) {
+        output.log(
+          `${label}: ${started.existing ? 'already running as' : 'started'} ${started.workflowId}`
+        );
+      }
+    } catch (error) {
+      results.push({ entry: label, error: getErrorMessage(error) });
+      if (!values.json) {
+        output.error(`${label}: failed to start: ${getErrorMessage(error)}`);
+      }
+    }
+  }
+
+  const failed = results.filter(result => result.error !== undefined).length;
+  if (values.json) {
+    output.log(JSON.stringify({ started: results.length - failed, failed, results }, null, 2));
+  } else {
+    output.log(`Started ${results.length - failed} of ${results.length} shipments`);
+  }
+  return failed > 0 ? 1 : 0;
+}
+
+/**
+ * Retries failed shipments of a running manifest workflow
+ * @param service - The shipment workflow service
+ * @param values - The parsed flags
+ * @param positionals - The manifest's workflow ID
+ * @param output - Where the result is printed
+ * @returns Promise<number> - The exit code
+ */
+async function retryCommand(
+  service: ShipmentWorkflowService,
+  values: CliValues,
+  [workflowId]: string[],
+  output: CliOutput
+): Promise<number> {
+  const keys = values.shipment as string[] | undefined;
+  await service.retryManifestShipments(workflowId, { keys, requestedBy: 'cli' });
+  if (values.json) {
+    output.log(JSON.stringify({ workflowId, retryRequested: keys ?? 'all failed' }, null, 2));
+  } else {
+    output.log(
+      `Retry requested for ${keys ? keys.join(', ') : 'all failed shipments'} of ${workflowId}`
+    );
+  }
+  return 0;
+}
+
+/**
+ * Parses a command's flags and checks its positional arguments
+ * @param command - The command
+ * @param args - The arguments after the command name
+ * @returns Object - The parsed flags and positional arguments
+ * @throws CliError - When a flag is unknown or an argument is missing
+ */
+function parseCommandArgs(
+  command: CliCommand,
+  args: string[]
+): { values: CliValues; positionals: string[] } {
+  let parsed: { values: CliValues; positionals: string[] };
+  try {
+    parsed = parseArgs({ args, options: command.options, allowPositionals: true }) as {
+      values: CliValues;
+      positionals: string[];
+    };
+  } catch (error) {
+    throw new CliError(
+      `${getErrorMessage(error)}\nUsage: npm run cli -- ${command.usage}`,
+      'USAGE'
+    );
+  }
+
+  if (parsed.positionals.length !== command.positionals.length) {
+    const expected = command.positionals.map(name => `<${name}>`).join(' ') || 'no arguments';
+    throw new CliError(`Expected ${expected}\nUsage: npm run cli -- ${command.usage}`, 'USAGE');
+  }
+  return parsed;
+}
+
+/**
+ * Reads and parses a manifest file
+ * @param path - The manifest path
+ * @param format - The format given with --format; detected from the extension otherwise
+ * @returns ManifestEntry[] - The manifest's shipments
+ * @throws CliError - When the file cannot be read or parsed
+ */
+function readManifest(path: string, format: string | undefined): ManifestEntry[] {
+  const manifestFormat = format ?? detectManifestFormat(path);
+  if (manifestFormat !== 'csv' && manifestFormat !== 'json') {
+    throw new CliError('Manifest format must be csv or json; use --format', 'USAGE');
+  }
+
+  let content: string;
+  try {
+    content = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new CliError(`Cannot read manifest ${path}: ${getErrorMessage(error)}`, 'USAGE');
+  }
+  return parseManifest(content, manifestFormat);
+}
+
+/**
+ * Reads what to do when a shipment's workflow is already running
+ * @param values - The parsed flags
+ * @returns DuplicateShipmentPolicy - The policy given with --if-exists
+ * @throws CliError - When --if-exists is not a known policy
+ */
+function getDuplicatePolicy(values: CliValues): DuplicateShipmentPolicy {
+  const ifExists = values['if-exists'] as DuplicateShipmentPolicy;
+  if (!DUPLICATE_POLICIES.includes(ifExists)) {
+    throw new CliError(`--if-exists must be one of ${DUPLICATE_POLICIES.join(', ')}`, 'USAGE');
+  }
+  return ifExists;
+}
+
+/**
+ * Finds shipment IDs that appear more than once in a manifest
+ * Each shipment ID has one workflow, so a repeated one would not be started twice
+ * @param shipments - The manifest's entries
+ * @returns ValidationIssue[] - One issue per repeated entry
+ */
+function findRepeatedShipments(shipments: { label: string; input: unknown }[]): ValidationIssue[] {
+  const firstLabels = new Map<string, string>();
+  const issues: ValidationIssue[] = [];
+  for (const { label, input } of shipments) {
+    const shipment = isObject(input) && isObject(input.shipment) ? input.shipment : undefined;
+    if (typeof shipment?.shipmentId !== 'string') {
+      continue;
+    }
+    const firstLabel = firstLabels.get(shipment.shipmentId);
+    if (firstLabel) {
+      issues.push({
+        field: `${label}: shipment.shipmentId`,
+        message: `repeats ${shipment.shipmentId} from ${firstLabel}`,
+      });
+    } else {
+      firstLabels.set(shipment.shipmentId, label);
+    }
+  }
+  return issues;
+}
+
+/**
+ * Validates a workflow input with the HTTP API's rules
+ * @param input - The workflow input
+ * @param monitor - Whether the input starts monitoring
+ * @returns ValidationIssue[] - The invalid fields
+ */
+function validateInput(input: unknown, monitor: boolean): ValidationIssue[] {
+  return monitor ? validateDeliveryMonitoringInput(input) : validateDelayNotificationInput(input);
+}
+
+/**
+ * Starts a delay check or monitoring for a validated input
+ * @param service - The shipment workflow service
+ * @param input - The validated workflow input
+ * @param monitor - Whether to start monitoring
+ * @param ifExists - What to do when the shipment's workflow is already running
+ * @returns Promise<StartedShipmentWorkflow> - The started (or running) workflow's IDs
+ */
+function startWorkflow(
+  service: ShipmentWorkflowService,
+  input: unknown,
+  monitor: boolean,
+  ifExists: DuplicateShipmentPolicy
+): Promise<StartedShipmentWorkflow> {
+  return monitor
+    ? service.startMonitoring(input as DeliveryMonitoringInput, ifExists)
+    : service.startDelayCheck(input as DelayNotificationInput, ifExists);
+}
+
+/**
+ * Prints an error, as JSON in --json mode
+ * @param output - Where the error is printed
+ * @param error - The error
+ * @param json - Whether --json was given
+ * @returns number - The exit code: 2 for usage errors, 1 otherwise
+ */
+function reportError(output: CliOutput, error: unknown, json: boolean): number {
+  const code =
+    error instanceof CliError || error instanceof ShipmentWorkflowError ? error.code : 'ERROR';
+  const details = error instanceof CliError ? error.details : undefined;
+
+  if (json) {
+    output.log(
+      JSON.stringify(
+        { error: { code, message: getErrorMessage(error), ...(details ? { details } : {}) } },
+        null,
+        2
+      )
+    );
+  } else {
+    output.error(`Error: ${getErrorMessage(error)}`);
+    (details || []).forEach(issue => output.error(`  ${issue.field} ${issue.message}`));
+  }
+  return code === 'USAGE' ? 2 : 1;
+}
+
+/**
+ * Prints a workflow's status in a readable form
+ * @param output - Where the status is printed
+ * @param status - The workflow status
+ */
+function logStatus(output: CliOutput, status: ShipmentWorkflowStatus) {
+  const { trafficData, notifications, error } = status;
+
+  output.log(`Workflow: ${status.workflowId} (${status.type})`);
+  output.log(`  Status: ${status.status}`);
+  output.log(`  Started: ${status.startTime}`);
+  if (status.closeTime) {
+    output.log(`  Closed: ${status.closeTime}`);
+  }
+  if (status.type === 'freightManifestWorkflow') {
+    logManifestSummary(output, status.manifest || (status.result as ManifestSummary | undefined));
+    if (error) {
+      output.log(`  Error: ${error}`);
+    }
+    return;
+  }
+
+  const result = status.result as MonitoringResult | undefined;
+  if (status.currentStep) {
+    output.log(`  Current step: ${status.currentStep}`);
+  }
+  if (trafficData) {
+    output.log(
+      `  Traffic: ${trafficData.estimatedDelayMinutes} minute delay, ${trafficData.trafficCondition}`
+    );
+  }
+  if (notifications) {
+    output.log(`  Notifications sent: ${notifications.length}`);
+  }
+  if (result?.shipment) {
+    output.log(`  Shipment: ${formatShipment(result.shipment)}`);
+  }
+  if (result) {
+    output.log(`  Delay detected: ${result.delayDetected} (${result.delayMinutes} minutes)`);
+    output.log(`  Notification sent: ${result.notificationSent}`);
+    if (result.completionReason) {
+      output.log(
+        `  Checks: ${result.checksPerformed}, notifications: ${result.notificationsSent}, ended: ${result.completionReason}`
+      );
+    }
+    if (result.error) {
+      output.log(`  Result error: ${result.error}`);
+    }
+  }
+  if (error) {
+    output.log(`  Error: ${error}`);
+  }
+}
+
+/**
+ * Formats a shipment's references for display
+ * @param shipment - The shipment
+ * @returns string - e.g. "4471 (PRO 0123456789, carrier ODFL)"
+ */
+function formatShipment(shipment: ShipmentReference): string {
+  const references = [
+    shipment.proNumber && `PRO ${shipment.proNumber}`,
+    shipment.bolNumber && `BOL ${shipment.bolNumber}`,
+    shipment.carrier && `carrier ${shipment.carrier}`,
+    shipment.customerReference && `customer ref ${shipment.customerReference}`,
+  ].filter(Boolean);
+  return references.length > 0
+    ? `${shipment.shipmentId} (${references.join(', ')})`
+    : shipment.shipmentId;
+}
+
+/**
+ * Prints the progress of a manifest and why its failed shipments failed
+ * @param output - Where the summary is printed
+ * @param summary - The manifest summary, if it could be queried
+ */
+function logManifestSummary(output: CliOutput, summary: ManifestSummary | undefined) {
+  if (!summary) {
+    return;
+  }
+
+  output.log(
+    `  Shipments: ${summary.total} (${summary.completed} completed, ${summary.running} running, ${summary.pending} pending, ${summary.failed} failed)`
+  );
+  output.log(`  Delayed: ${summary.delayed}, notified: ${summary.notified}`);
+  summary.shipments
+    .filter(shipment => shipment.status === 'failed')
+    .forEach(shipment =>
+      output.log(
+        `  Failed ${shipment.key} (${shipment.workflowId}, attempt ${shipment.attempts}): ${shipment.error}`
+      )
+    );
+}
+
+/**
+ * Formats a listed workflow as one line
+ * @param workflow - The workflow summary
+ * @returns string - The workflow ID, status, type and start time
+ */
+function formatSummary(workflow: ShipmentWorkflowSummary): string {
+  return `${workflow.workflowId}  ${workflow.status}  ${workflow.type}  started ${workflow.startTime}`;
+}
+
+/**
+ * Parses a numeric flag
+ * @param values - The parsed flags
+ * @param name - The flag name
+ * @returns number | undefined - The number, undefined when the flag was not given
+ * @throws CliError - When the flag is not a number
+ */
+function getNumberOption(values: CliValues, name: string): number | undefined {
+  const value = values[name];
+  if (typeof value !== 'string') {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (value.trim() === '' || isNaN(number)) {
+    throw new CliError(`--${name} must be a number`, 'USAGE');
+  }
+  return number;
+}
+
+/**
+ * Removes the fields that were not given
+ * @param fields - The fields
+ * @returns Record<string, unknown> - The fields with a value
+ */
+function withoutUndefined(fields: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Checks whether a manifest entry is an object, so defaults can be applied to it
+ * @param value - The entry
+ * @returns boolean - Whether the entry is a plain object
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Extracts a readable message from an error
+ * @param error - The error
+ * @returns string - The error message
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
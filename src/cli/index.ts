@@ -0,0 +1,38 @@
+import { Connection, Client } from '@temporalio/client';
+import { getTemporalConfig } from '../config';
+import { ShipmentWorkflowService } from '../services/shipmentWorkflowService';
+import { runCli } from './commands';
+
+/**
+ * Operator CLI for freight workflows
+ *
+ *   npm run cli -- start --origin "New York, NY" --destination "Boston, MA" --email ops@acme.com
+ *   npm run cli -- status freight-delay-1700000000000-1a2b3c4d --json
+ *   npm run cli -- list --all --limit 20
+ *   npm run cli -- cancel freight-monitoring-1700000000000-1a2b3c4d
+ *   npm run cli -- import shipments.csv --monitor --poll 30
+ *
+ * Logging goes to stderr, so stdout only carries the command's output (JSON with --json).
+ */
+async function runOperatorCli() {
+  console.log = console.error;
+
+  let connection: Connection | undefined;
+  const connect = async () => {
+    const temporalConfig = getTemporalConfig();
+    connection = await Connection.connect({ address: temporalConfig.address });
+    const client = new Client({ connection, namespace: temporalConfig.namespace });
+    return new ShipmentWorkflowService(client);
+  };
+
+  const exitCode = await runCli(process.argv.slice(2), connect);
+  await connection?.close();
+  process.exit(exitCode);
+}
+
+if (require.main === module) {
+  runOperatorCli().catch(error => {
+    console.error('Unhandled error in CLI:', error);
+    process.exit(1);
+  });
+}
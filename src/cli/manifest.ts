@@ -0,0 +1,241 @@
+import { CliError } from '../errors';
+
+/**
+ * Shipment manifests for bulk starts
+ *
+ * JSON manifests are an array of workflow inputs. CSV manifests have a header row naming the
+ * input fields, with origin, destination, waypoints and trafficProviders for the route and
+ * shipmentId, proNumber, bolNumber, carrier and customerReference for the shipment, and
+ * appointmentStart and appointmentEnd for the delivery appointment. Cells containing commas
+ * are quoted and list cells are separated by ";":
+ *   shipmentId,origin,destination,waypoints,customerEmail,customerPhone,delayThresholdMinutes
+ *   4471,"New York, NY","Boston, MA","Hartford, CT;Providence, RI",ops@acme.com,+15551234567,30
+ *
+ * Entries are returned unvalidated, so they are checked with the same rules as the HTTP API.
+ */
+
+export type ManifestFormat = 'csv' | 'json';
+
+export interface ManifestEntry {
+  label: string; // Where the entry is in the manifest, e.g. "line 3" or "entry 2"
+  input: Record<string, unknown>;
+}
+
+// CSV columns that map to nested or non-string input fields
+const ROUTE_COLUMNS = ['origin', 'destination', 'waypoints', 'trafficProviders'];
+
+const SHIPMENT_COLUMNS = ['shipmentId', 'proNumber', 'bolNumber', 'carrier', 'customerReference'];
+
+// Delivery appointment columns, by the appointment field they set
+const APPOINTMENT_COLUMNS: Record<string, string> = {
+  appointmentStart: 'start',
+  appointmentEnd: 'end',
+};
+
+const LIST_COLUMNS = ['waypoints', 'trafficProviders'];
+
+const NUMBER_COLUMNS = [
+  'delayThresholdMinutes',
+  'minTrafficConfidence',
+  'emailFeedbackMinutes',
+  'pollIntervalMinutes',
+];
+
+/**
+ * Detects the format of a manifest from its file name
+ * @param path - The manifest path
+ * @returns ManifestFormat | undefined - The format, undefined for unknown extensions
+ */
+export function detectManifestFormat(path: string): ManifestFormat | undefined {
+  const extension = path.toLowerCase().split('.').pop();
+  return extension === 'csv' || extension === 'json' ? extension : undefined;
+}
+
+/**
+ * Parses a manifest into workflow inputs
+ * @param content - The manifest content
+ * @param format - The manifest format
+ * @returns ManifestEntry[] - One entry per shipment
+ * @throws CliError - When the manifest cannot be parsed
+ */
+export function parseManifest(content: string, format: ManifestFormat): ManifestEntry[] {
+  return format === 'csv' ? parseCsvManifest(content) : parseJsonManifest(content);
+}
+
+/**
+ * Parses a JSON manifest
+ * @param content - The manifest content
+ * @returns ManifestEntry[] - One entry per array element
+ * @throws CliError - When the content is not a JSON array of objects
+ */
+function parseJsonManifest(content: string): ManifestEntry[] {
+  let entries: unknown;
+  try {
+    entries = JSON.parse(content);
+  } catch (error) {
+    throw new CliError(
+      `Manifest is not valid JSON: ${(error as Error).message}`,
+      'INVALID_MANIFEST'
+    );
+  }
+
+  if (!Array.isArray(entries)) {
+    throw new CliError('JSON manifest must be an array of shipments', 'INVALID_MANIFEST');
+  }
+  return entries.map((input, index) => ({
+    label: `entry ${index + 1}`,
+    // Non-objects are passed through, so validation reports them per entry
+    input: input as Record<string, unknown>,
+  }));
+}
+
+/**
+ * Parses a CSV manifest
+ * Empty cells are left out, so the workflow defaults apply
+ * @param content - The manifest content
+ * @returns ManifestEntry[] - One entry per data row, labelled with its line number
+ * @throws CliError - When the manifest has no header or a row has too many cells
+ */
+function parseCsvManifest(content: string): ManifestEntry[] {
+  const rows = parseCsv(content);
+  const header = rows.shift();
+  if (!header) {
+    throw new CliError('CSV manifest is empty', 'INVALID_MANIFEST');
+  }
+  const columns = header.cells.map(cell => cell.trim());
+
+  return rows
+    .filter(row => row.cells.some(cell => cell.trim() !== ''))
+    .map(row => {
+      if (row.cells.length > columns.length) {
+        throw new CliError(
+          `line ${row.line}: has ${row.cells.length} cells but the header has ${columns.length}`,
+          'INVALID_MANIFEST'
+        );
+      }
+
+      const input: Record<string, unknown> = {};
+      const route: Record<string, unknown> = {};
+      const shipment: Record<string, unknown> = {};
+      const appointment: Record<string, unknown> = {};
+      columns.forEach((column, index) => {
+        const cell = (row.cells[index] ?? '').trim();
+        if (cell === '') {
+          return;
+        }
+        if (column in APPOINTMENT_COLUMNS) {
+          appointment[APPOINTMENT_COLUMNS[column]] = cell;
+          return;
+        }
+        const target = getTarget(column, input, route, shipment);
+        target[column] = toFieldValue(column, cell);
+      });
+      input.route = route;
+      if (Object.keys(shipment).length > 0) {
+        input.shipment = shipment;
+      }
+      if (Object.keys(appointment).length > 0) {
+        input.deliveryAppointment = appointment;
+      }
+
+      return { label: `line ${row.line}`, input };
+    });
+}
+
+/**
+ * Picks the object a CSV column's value belongs to
+ * @param column - The column name
+ * @param input - The workflow input
+ * @param route - The input's route
+ * @param shipment - The input's shipment references
+ * @returns Record<string, unknown> - The route or shipment for their columns, the input otherwise
+ */
+function getTarget(
+  column: string,
+  input: Record<string, unknown>,
+  route: Record<string, unknown>,
+  shipment: Record<string, unknown>
+): Record<string, unknown> {
+  if (ROUTE_COLUMNS.includes(column)) {
+    return route;
+  }
+  return SHIPMENT_COLUMNS.includes(column) ? shipment : input;
+}
+
+/**
+ * Converts a CSV cell to the value of its input field
+ * Numbers that do not parse are kept as text, so validation reports them
+ * @param column - The column name
+ * @param cell - The trimmed cell
+ * @returns unknown - The field value
+ */
+function toFieldValue(column: string, cell: string): unknown {
+  if (LIST_COLUMNS.includes(column)) {
+    return cell
+      .split(';')
+      .map(item => item.trim())
+      .filter(item => item !== '');
+  }
+  if (NUMBER_COLUMNS.includes(column)) {
+    const value = Number(cell);
+    return isNaN(value) ? cell : value;
+  }
+  return cell;
+}
+
+/**
+ * Splits CSV content into rows of cells (RFC 4180: quoted cells may contain commas, line
+ * breaks and "" for a quote)
+ * @param content - The CSV content
+ * @returns Array - The rows with the line each starts on
+ * @throws CliError - When a quoted cell is not closed
+ */
+function parseCsv(content: string): { line: number; cells: string[] }[] {
+  const rows: { line: number; cells: string[] }[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (char === '\n') {
+      line++;
+    }
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      rows.push({ line: rowLine, cells: [...cells, cell] });
+      cells = [];
+      cell = '';
+      rowLine = line;
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new CliError(`line ${rowLine}: quoted cell is not closed`, 'INVALID_MANIFEST');
+  }
+  if (cells.length > 0 || cell !== '') {
+    rows.push({ line: rowLine, cells: [...cells, cell] });
+  }
+  return rows;
+}
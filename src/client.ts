@@ -1,7 +1,8 @@
 import { Connection, Client } from '@temporalio/client';
-import { DelayNotificationInput, WorkflowResult } from './types';
+import { DelayNotificationInput, DeliveryMonitoringInput, WorkflowResult } from './types';
 import { getTemporalConfig, getAppConfig } from './config';
-import { scenarios } from './scenarios/testScenarios';
+import { Scenario, scenarios } from './scenarios/testScenarios';
+import { ShipmentWorkflowService } from './services/shipmentWorkflowService';
 
 /**
  * Temporal Client for Freight Delay Notification System
@@ -29,7 +30,7 @@ async function runClient() {
       const scenario = scenarios[i];
       console.log(`${scenario.name}`);
 
-      await runScenario(client, scenario.input, i + 1);
+      await runScenario(client, scenario, i + 1);
 
       if (i < scenarios.length - 1) {
         // adding a delay between scenarios
@@ -52,26 +53,31 @@ async function runClient() {
 
 /**
  * Run a single scenario
+ * The workflow ID derives from the scenario's shipment ID, so running the client again while a
+ * scenario's workflow is still running waits for that workflow instead of notifying twice
  * @param client - Temporal client
- * @param input - Workflow input
+ * @param scenario - Scenario with the workflow type and input
  * @param scenarioNumber - Scenario number for identification
  */
-async function runScenario(client: Client, input: DelayNotificationInput, scenarioNumber: number) {
+async function runScenario(client: Client, scenario: Scenario, scenarioNumber: number) {
   try {
+    const { input } = scenario;
     logScenarioDetails(input);
-    const workflowId = `freight-delay-${scenarioNumber}-${Date.now()}`;
     console.log('');
-    console.log(`Starting workflow: ${workflowId}`);
 
-    const handle = await client.workflow.start('freightDelayNotificationWorkflow', {
-      args: [input],
-      taskQueue: 'freight-delay-notifications',
-      workflowId,
-    });
+    const service = new ShipmentWorkflowService(client);
+    const { workflowId, existing } =
+      scenario.workflowType === 'freightDelayMonitoringWorkflow'
+        ? await service.startMonitoring(input as DeliveryMonitoringInput, 'return-existing')
+        : await service.startDelayCheck(input, 'return-existing');
 
-    console.log(`Workflow started successfully: ${workflowId}`);
+    console.log(
+      existing
+        ? `Workflow already running, waiting for its result: ${workflowId}`
+        : `Workflow started successfully: ${workflowId}`
+    );
 
-    const result: WorkflowResult = await handle.result();
+    const result: WorkflowResult = await client.workflow.getHandle(workflowId).result();
 
     logScenarioResults(result, scenarioNumber);
   } catch (error) {
@@ -93,6 +99,9 @@ function sleep(ms: number): Promise<void> {
 
 function logScenarioDetails(input: DelayNotificationInput) {
   console.log('Scenario Details:');
+  if (input.shipment) {
+    console.log(`  Shipment: ${input.shipment.shipmentId}`);
+  }
   console.log(`  Route: ${input.route.origin} to ${input.route.destination}`);
   if (input.route.waypoints) {
     console.log(`  Waypoints: ${input.route.waypoints.join(', ')}`);
@@ -112,6 +121,12 @@ function logScenarioResults(result: WorkflowResult, scenarioNumber: number) {
     console.log(`  Message: ${result.message}`);
   }
 
+  if (result.smsApproval) {
+    console.log(
+      `  SMS Approval: ${result.smsApproval.decision} by ${result.smsApproval.decidedBy} at ${result.smsApproval.decidedAt}`
+    );
+  }
+
   if (result.error) {
     console.log(`  Error: ${result.error}`);
   }
@@ -1,46 +1,1086 @@
-import { APIConfig } from '../types';
+import { ConfigError, ValidationIssue } from '../errors';
+import {
+  APIConfig,
+  AuditStoreName,
+  ConfigProfileName,
+  EffectiveConfig,
+  NotificationChannel,
+  NotificationRule,
+  NotificationRuleConditions,
+  NotificationStateStoreName,
+  SenderIdentity,
+  SmsProviderName,
+  TenantCredentials,
+  TenantProfile,
+  TrafficCondition,
+  TrafficProviderName,
+} from '../types';
+import { ConfigFile, ConfigReader, ConfigValues, readConfigFile } from './reader';
 
 /**
  * Configuration module
- * Handles environment variables and API configuration
+ *
+ * Typed, validated settings from environment variables and an optional JSON config file (see
+ * ./reader), with per-environment profiles selected by APP_ENV:
+ * - dev: the default; mock providers and a demo webhook secret work out of the box
+ * - staging: live credentials and an explicit webhook secret are required, mocks are allowed
+ * - prod: as staging, plus OpenAI and the SendGrid event key; mock providers are refused
+ *
+ * The configuration is loaded on first use and every invalid setting is reported at once in a
+ * ConfigError. `npm run config` prints the effective settings with secrets redacted.
+ *
+ * TENANT_PROFILES holds the shippers notifications are sent for, by tenant ID. The getters
+ * below take an optional tenant ID and overlay that tenant's sender, thresholds, channels and
+ * credentials on the global settings; unknown tenants get the global settings.
  */
-const getConfig = (): APIConfig => {
-  const config: APIConfig = {
-    openaiApiKey: process.env.GOOGLE_MAPS_API_KEY || 'demo-key',
-    googleMapsApiKey: process.env.GOOGLE_MAPS_API_KEY || 'demo-key',
-    sendgridApiKey: process.env.SENDGRID_API_KEY || 'demo-key',
-    temporalAddress: process.env.TEMPORAL_ADDRESS || 'localhost:7233',
-    temporalNamespace: process.env.TEMPORAL_NAMESPACE || 'default',
-    delayThresholdMinutes: parseInt(process.env.DELAY_THRESHOLD_MINUTES || '30'),
-    fromEmail: process.env.FROM_EMAIL || 'noreply@freightnotifications.com',
-    customerEmail: process.env.CUSTOMER_EMAIL || 'customer@example.com',
+
+export interface LoadedConfig {
+  config: APIConfig;
+  effective: EffectiveConfig;
+}
+
+interface ConfigProfile {
+  defaults: ConfigValues; // Override the built-in defaults, by setting
+  required: string[]; // Settings that must be set
+  allowDemoProviders: boolean; // Whether mock providers and the memory audit store may be used
+}
+
+const TRAFFIC_PROVIDERS: TrafficProviderName[] = ['google', 'here', 'tomtom', 'osrm', 'mock'];
+
+const SMS_PROVIDERS: SmsProviderName[] = ['twilio', 'mock'];
+
+const AUDIT_STORES: AuditStoreName[] = ['sqlite', 'memory'];
+
+const NOTIFICATION_STATE_STORES: NotificationStateStoreName[] = ['sqlite', 'memory'];
+
+const CONFIG_PROFILES: ConfigProfileName[] = ['dev', 'staging', 'prod'];
+
+const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'sms', 'webhook'];
+
+const TRAFFIC_CONDITIONS: TrafficCondition[] = ['light', 'moderate', 'heavy', 'severe'];
+
+const RULE_CONDITIONS: (keyof NotificationRuleConditions)[] = [
+  'minDelayMinutes',
+  'minDelayPercent',
+  'missesAppointment',
+  'trafficConditions',
+  'customerTiers',
+  'timeOfDay',
+];
+
+const TIME_OF_DAY = /^([01]?\d|2[0-3]):[0-5]\d$/;
+
+const DEMO_WEBHOOK_SIGNING_SECRET = 'demo-webhook-secret';
+
+const PROFILES: Record<ConfigProfileName, ConfigProfile> = {
+  dev: {
+    defaults: { WEBHOOK_SIGNING_SECRET: DEMO_WEBHOOK_SIGNING_SECRET },
+    required: [],
+    allowDemoProviders: true,
+  },
+  staging: {
+    defaults: {},
+    required: ['SENDGRID_API_KEY', 'WEBHOOK_SIGNING_SECRET'],
+    allowDemoProviders: true,
+  },
+  prod: {
+    defaults: {},
+    required: [
+      'OPENAI_API_KEY',
+      'SENDGRID_API_KEY',
+      'SENDGRID_EVENT_PUBLIC_KEY',
+      'WEBHOOK_SIGNING_SECRET',
+    ],
+    allowDemoProviders: false,
+  },
+};
+
+// Settings each live provider needs, by provider name
+const PROVIDER_CREDENTIALS: Record<string, string[]> = {
+  google: ['GOOGLE_MAPS_API_KEY'],
+  here: ['HERE_API_KEY'],
+  tomtom: ['TOMTOM_API_KEY'],
+  twilio: ['TWILIO_ACCOUNT_SID', 'TWILIO_AUTH_TOKEN', 'TWILIO_FROM_NUMBER'],
+};
+
+// The tenant credential that replaces each global credential setting
+const TENANT_CREDENTIALS: Record<string, keyof TenantCredentials> = {
+  SENDGRID_API_KEY: 'sendgridApiKey',
+  TWILIO_ACCOUNT_SID: 'twilioAccountSid',
+  TWILIO_AUTH_TOKEN: 'twilioAuthToken',
+  TWILIO_FROM_NUMBER: 'twilioFromNumber',
+  GOOGLE_MAPS_API_KEY: 'googleMapsApiKey',
+  HERE_API_KEY: 'hereApiKey',
+  TOMTOM_API_KEY: 'tomTomApiKey',
+  WEBHOOK_SIGNING_SECRET: 'webhookSigningSecret',
+};
+
+/**
+ * Parses an ordered traffic provider chain (e.g. "google,here,osrm")
+ * Mock data is an explicit choice: it cannot be combined with live providers
+ * @param value - Comma separated provider names
+ * @param source - Name of the setting, used in error messages
+ * @returns TrafficProviderName[] - The validated provider chain
+ */
+export const parseTrafficProviderChain = (
+  value: string | string[],
+  source: string
+): TrafficProviderName[] => {
+  const names = (Array.isArray(value) ? value : value.split(','))
+    .map(name => name.trim())
+    .filter(name => name.length > 0);
+
+  if (names.length === 0) {
+    throw new Error(`${source} must list at least one traffic provider`);
+  }
+
+  const unknown = names.filter(name => !TRAFFIC_PROVIDERS.includes(name as TrafficProviderName));
+  if (unknown.length > 0) {
+    throw new Error(
+      `${source} contains unknown traffic provider(s): ${unknown.join(', ')}. Expected: ${TRAFFIC_PROVIDERS.join(', ')}`
+    );
+  }
+
+  if (names.includes('mock') && names.length > 1) {
+    throw new Error(`${source} cannot combine the mock provider with live providers`);
+  }
+
+  return names as TrafficProviderName[];
+};
+
+/**
+ * Parses per-tenant provider chains from JSON (e.g. {"acme": ["here", "google"]})
+ * @param value - JSON object mapping tenant IDs to provider chains
+ * @returns Record<string, TrafficProviderName[]> - Validated chains by tenant
+ */
+const parseTenantProviderChains = (value: string): Record<string, TrafficProviderName[]> => {
+  let parsed: Record<string, string[]>;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error('TRAFFIC_PROVIDER_TENANT_CHAINS must be a JSON object');
+  }
+
+  const chains: Record<string, TrafficProviderName[]> = {};
+  for (const [tenantId, chain] of Object.entries(parsed)) {
+    chains[tenantId] = parseTrafficProviderChain(
+      chain,
+      `TRAFFIC_PROVIDER_TENANT_CHAINS.${tenantId}`
+    );
+  }
+  return chains;
+};
+
+/**
+ * Parses the shippers notifications are sent for from JSON, e.g.
+ * {"acme": {"name": "Acme Logistics", "fromEmail": "alerts@acme.com", "channels": ["email"]}}
+ * @param value - JSON object mapping tenant IDs to tenant profiles
+ * @returns Record<string, TenantProfile> - Validated profiles by tenant
+ */
+const parseTenantProfiles = (value: string): Record<string, TenantProfile> => {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error('TENANT_PROFILES must be a JSON object');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('TENANT_PROFILES must be a JSON object');
+  }
+
+  const profiles: Record<string, TenantProfile> = {};
+  for (const [tenantId, profile] of Object.entries(parsed)) {
+    profiles[tenantId] = parseTenantProfile(profile, `TENANT_PROFILES.${tenantId}`);
+  }
+  return profiles;
+};
+
+/**
+ * Parses a single tenant profile
+ * @param value - The parsed JSON value
+ * @param source - Name of the profile, used in error messages
+ * @returns TenantProfile - The validated profile
+ */
+const parseTenantProfile = (value: unknown, source: string): TenantProfile => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${source} must be an object`);
+  }
+  const profile = value as Record<string, unknown>;
+  const text = (field: string): string | undefined => {
+    const fieldValue = profile[field];
+    if (fieldValue === undefined) {
+      return undefined;
+    }
+    if (typeof fieldValue !== 'string' || fieldValue.trim().length === 0) {
+      throw new Error(`${source}.${field} must be a non-empty string`);
+    }
+    return fieldValue.trim();
+  };
+  const number = (field: string, max?: number): number | undefined => {
+    const fieldValue = profile[field];
+    if (fieldValue === undefined) {
+      return undefined;
+    }
+    if (
+      typeof fieldValue !== 'number' ||
+      fieldValue < 0 ||
+      (max !== undefined && fieldValue > max)
+    ) {
+      const range = max === undefined ? 'of at least 0' : `between 0 and ${max}`;
+      throw new Error(`${source}.${field} must be a number ${range}`);
+    }
+    return fieldValue;
   };
 
-  return config;
+  const name = text('name');
+  if (!name) {
+    throw new Error(`${source}.name is required`);
+  }
+  for (const field of ['fromEmail', 'replyTo']) {
+    const email = text(field);
+    if (email && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new Error(`${source}.${field} must be an email address`);
+    }
+  }
+
+  const channels = profile.channels;
+  if (
+    channels !== undefined &&
+    (!Array.isArray(channels) ||
+      channels.length === 0 ||
+      channels.some(channel => !NOTIFICATION_CHANNELS.includes(channel)))
+  ) {
+    throw new Error(
+      `${source}.channels must list one or more of: ${NOTIFICATION_CHANNELS.join(', ')}`
+    );
+  }
+
+  // Lists are read like the global settings, e.g. [60, 120, 240] or "60,120,240"
+  const severity = profile.delaySeverityMinutes;
+  const providers = profile.trafficProviders as string | string[] | undefined;
+
+  return {
+    name,
+    fromEmail: text('fromEmail'),
+    fromName: text('fromName'),
+    replyTo: text('replyTo'),
+    signature: text('signature'),
+    sendgridTemplateId: text('sendgridTemplateId'),
+    delayThresholdMinutes: number('delayThresholdMinutes'),
+    minTrafficConfidence: number('minTrafficConfidence', 1),
+    delaySeverityMinutes:
+      severity === undefined
+        ? undefined
+        : parseDelaySeverityMinutes(String(severity), `${source}.delaySeverityMinutes`),
+    channels: channels as NotificationChannel[] | undefined,
+    trafficProviders:
+      providers === undefined
+        ? undefined
+        : parseTrafficProviderChain(providers, `${source}.trafficProviders`),
+    credentials: parseTenantCredentials(profile.credentials, `${source}.credentials`),
+    notificationRules:
+      profile.notificationRules === undefined
+        ? undefined
+        : parseNotificationRules(profile.notificationRules, `${source}.notificationRules`),
+  };
 };
 
-export const config = getConfig();
+/**
+ * Parses a tenant's own provider credentials
+ * @param value - The parsed JSON value, if any
+ * @param source - Name of the credentials, used in error messages
+ * @returns TenantCredentials | undefined - The validated credentials
+ */
+const parseTenantCredentials = (value: unknown, source: string): TenantCredentials | undefined => {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${source} must be an object`);
+  }
 
-export const getOpenAIConfig = () => ({
-  apiKey: config.openaiApiKey,
-  model: 'gpt-4o-mini',
-});
+  const known = Object.values(TENANT_CREDENTIALS) as string[];
+  const credentials: Record<string, string> = {};
+  for (const [key, credential] of Object.entries(value)) {
+    if (!known.includes(key)) {
+      throw new Error(`${source}.${key} is not a known credential. Expected: ${known.join(', ')}`);
+    }
+    if (typeof credential !== 'string' || credential.length === 0) {
+      throw new Error(`${source}.${key} must be a non-empty string`);
+    }
+    credentials[key] = credential;
+  }
 
-export const getGoogleMapsConfig = () => ({
-  apiKey: config.googleMapsApiKey,
-});
+  // A tenant's Twilio account needs all of its settings, mixing accounts would send from the
+  // wrong number
+  const twilio = ['twilioAccountSid', 'twilioAuthToken', 'twilioFromNumber'];
+  const twilioSet = twilio.filter(key => key in credentials);
+  if (twilioSet.length > 0 && twilioSet.length < twilio.length) {
+    throw new Error(`${source} must set all of ${twilio.join(', ')} or none`);
+  }
+  return credentials as TenantCredentials;
+};
 
-export const getSendGridConfig = () => ({
-  apiKey: config.sendgridApiKey,
-  fromEmail: config.fromEmail,
-});
+/**
+ * Parses the SMS provider name
+ * @param value - The provider name
+ * @returns SmsProviderName - The validated provider name
+ */
+const parseSmsProvider = (value: string): SmsProviderName => {
+  const name = value.trim();
+  if (!SMS_PROVIDERS.includes(name as SmsProviderName)) {
+    throw new Error(`SMS_PROVIDER must be one of: ${SMS_PROVIDERS.join(', ')}`);
+  }
+  return name as SmsProviderName;
+};
 
-export const getTemporalConfig = () => ({
-  address: config.temporalAddress,
-  namespace: config.temporalNamespace,
-});
+/**
+ * Parses a true/false setting
+ * @param key - The setting's environment variable
+ * @param value - The value
+ * @returns boolean - The parsed value
+ */
+const parseBoolean = (key: string, value: string): boolean => {
+  const normalized = value.trim().toLowerCase();
+  if (normalized !== 'true' && normalized !== 'false') {
+    throw new Error(`${key} must be true or false`);
+  }
+  return normalized === 'true';
+};
+
+/**
+ * Parses the audit store name
+ * @param value - The store name
+ * @returns AuditStoreName - The validated store name
+ */
+const parseAuditStore = (value: string): AuditStoreName => {
+  const name = value.trim();
+  if (!AUDIT_STORES.includes(name as AuditStoreName)) {
+    throw new Error(`AUDIT_STORE must be one of: ${AUDIT_STORES.join(', ')}`);
+  }
+  return name as AuditStoreName;
+};
+
+/**
+ * Parses the notification state store name
+ * @param value - The store name
+ * @returns NotificationStateStoreName - The validated store name
+ */
+const parseNotificationStateStore = (value: string): NotificationStateStoreName => {
+  const name = value.trim();
+  if (!NOTIFICATION_STATE_STORES.includes(name as NotificationStateStoreName)) {
+    throw new Error(
+      `NOTIFICATION_STATE_STORE must be one of: ${NOTIFICATION_STATE_STORES.join(', ')}`
+    );
+  }
+  return name as NotificationStateStoreName;
+};
+
+/**
+ * Parses per-customer webhook signing secrets from JSON (e.g. {"tms@acme.com": "secret"})
+ * @param value - JSON object mapping customer emails to signing secrets
+ * @returns Record<string, string> - Secrets by lowercased customer email
+ */
+const parseWebhookCustomerSecrets = (value: string): Record<string, string> => {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error('WEBHOOK_CUSTOMER_SECRETS must be a JSON object');
+  }
+
+  const secrets: Record<string, string> = {};
+  for (const [customerEmail, secret] of Object.entries(parsed)) {
+    if (typeof secret !== 'string' || secret.length === 0) {
+      throw new Error(`WEBHOOK_CUSTOMER_SECRETS.${customerEmail} must be a non-empty string`);
+    }
+    secrets[customerEmail.toLowerCase()] = secret;
+  }
+  return secrets;
+};
+
+/**
+ * Parses per-customer notification rules from JSON, e.g.
+ * {"ops@acme.com": [{"name": "missed-slot", "when": {"missesAppointment": true}, "notify": true}]}
+ * @param value - JSON object mapping customer emails to notification rules
+ * @returns Record<string, NotificationRule[]> - Rules by lowercased customer email
+ */
+const parseCustomerNotificationRules = (value: string): Record<string, NotificationRule[]> => {
+  let parsed: Record<string, unknown>;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new Error('CUSTOMER_NOTIFICATION_RULES must be a JSON object');
+  }
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error('CUSTOMER_NOTIFICATION_RULES must be a JSON object');
+  }
+
+  const rules: Record<string, NotificationRule[]> = {};
+  for (const [customerEmail, customerRules] of Object.entries(parsed)) {
+    rules[customerEmail.toLowerCase()] = parseNotificationRules(
+      customerRules,
+      `CUSTOMER_NOTIFICATION_RULES.${customerEmail}`
+    );
+  }
+  return rules;
+};
+
+/**
+ * Parses an ordered list of notification rules; the first matching rule decides
+ * @param value - The parsed JSON value
+ * @param source - Name of the rules, used in error messages
+ * @returns NotificationRule[] - The validated rules
+ */
+const parseNotificationRules = (value: unknown, source: string): NotificationRule[] => {
+  if (!Array.isArray(value)) {
+    throw new Error(`${source} must be a list of rules`);
+  }
+  return value.map((rule, i) => parseNotificationRule(rule, `${source}[${i}]`));
+};
+
+/**
+ * Parses a single notification rule
+ * @param value - The parsed JSON value
+ * @param source - Name of the rule, used in error messages
+ * @returns NotificationRule - The validated rule
+ */
+const parseNotificationRule = (value: unknown, source: string): NotificationRule => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${source} must be an object`);
+  }
+  const rule = value as Record<string, unknown>;
+  if (typeof rule.name !== 'string' || rule.name.trim().length === 0) {
+    throw new Error(`${source}.name must be a non-empty string`);
+  }
+  if (typeof rule.notify !== 'boolean') {
+    throw new Error(`${source}.notify must be true or false`);
+  }
+  const when = rule.when ?? {};
+  if (typeof when !== 'object' || when === null || Array.isArray(when)) {
+    throw new Error(`${source}.when must be an object of conditions`);
+  }
+
+  const conditions = when as Record<string, unknown>;
+  for (const [key, condition] of Object.entries(conditions)) {
+    const field = `${source}.when.${key}`;
+    if (!RULE_CONDITIONS.includes(key as keyof NotificationRuleConditions)) {
+      throw new Error(`${field} is not a known condition. Expected: ${RULE_CONDITIONS.join(', ')}`);
+    }
+    if (
+      (key === 'minDelayMinutes' || key === 'minDelayPercent') &&
+      (typeof condition !== 'number' || condition < 0)
+    ) {
+      throw new Error(`${field} must be a number of at least 0`);
+    }
+    if (key === 'missesAppointment' && typeof condition !== 'boolean') {
+      throw new Error(`${field} must be true or false`);
+    }
+    if (
+      key === 'trafficConditions' &&
+      (!Array.isArray(condition) ||
+        condition.length === 0 ||
+        condition.some(traffic => !TRAFFIC_CONDITIONS.includes(traffic)))
+    ) {
+      throw new Error(`${field} must list one or more of: ${TRAFFIC_CONDITIONS.join(', ')}`);
+    }
+    if (
+      key === 'customerTiers' &&
+      (!Array.isArray(condition) ||
+        condition.length === 0 ||
+        condition.some(tier => typeof tier !== 'string' || tier.trim().length === 0))
+    ) {
+      throw new Error(`${field} must list one or more customer tiers`);
+    }
+    if (key === 'timeOfDay') {
+      const window = condition as Record<string, unknown> | null;
+      const valid =
+        typeof window === 'object' &&
+        window !== null &&
+        [window.start, window.end].every(
+          time => typeof time === 'string' && TIME_OF_DAY.test(time)
+        );
+      if (!valid) {
+        throw new Error(`${field} must have a start and end time of day as "HH:mm"`);
+      }
+    }
+  }
+
+  return {
+    name: rule.name.trim(),
+    when: conditions as NotificationRuleConditions,
+    notify: rule.notify,
+  };
+};
+
+/**
+ * Parses the delays at which a delay becomes medium, high and critical (e.g. "60,120,240")
+ * @param value - Comma separated minutes, in ascending order
+ * @param source - Name of the setting, used in error messages
+ * @returns number[] - The three validated thresholds
+ */
+const parseDelaySeverityMinutes = (value: string, source = 'DELAY_SEVERITY_MINUTES'): number[] => {
+  const minutes = value.split(',').map(threshold => Number(threshold.trim()));
+  const ascending = minutes.every((threshold, i) => i === 0 || threshold > minutes[i - 1]);
+  if (minutes.length !== 3 || minutes.some(isNaN) || !ascending) {
+    throw new Error(`${source} must list three ascending delays in minutes`);
+  }
+  return minutes;
+};
+
+/**
+ * Parses a list of escalation delays (e.g. "30,60,120")
+ * @param value - Comma separated minutes
+ * @returns number[] - The validated delays
+ */
+const parseEscalationTiers = (value: string): number[] => {
+  const minutes = value
+    .split(',')
+    .map(tier => tier.trim())
+    .filter(tier => tier.length > 0);
+  if (minutes.some(tier => !/^\d+$/.test(tier) || Number(tier) === 0)) {
+    throw new Error('ESCALATION_TIERS_MINUTES must list delays in whole minutes');
+  }
+  return minutes.map(Number);
+};
+
+/**
+ * Parses a comma separated list, dropping empty items
+ * @param value - Comma separated items
+ * @returns string[] - The trimmed items
+ */
+const parseList = (value: string): string[] =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(item => item.length > 0);
+
+/**
+ * Parses the configuration profile
+ * @param value - The profile name
+ * @returns ConfigProfileName - The validated profile name
+ */
+const parseProfile = (value: string): ConfigProfileName => {
+  const name = value.trim();
+  if (!CONFIG_PROFILES.includes(name as ConfigProfileName)) {
+    throw new Error(`APP_ENV must be one of: ${CONFIG_PROFILES.join(', ')}`);
+  }
+  return name as ConfigProfileName;
+};
 
-export const getAppConfig = () => ({
-  delayThresholdMinutes: config.delayThresholdMinutes,
-  customerEmail: config.customerEmail,
+/**
+ * Reads the configuration from its sources
+ * @param reader - Reads the settings, collecting invalid ones
+ * @returns APIConfig - The configuration; invalid settings hold their defaults
+ */
+const readConfig = (reader: ConfigReader): APIConfig => ({
+  profile: reader.parse('APP_ENV', 'dev', parseProfile, 'dev'),
+  openaiApiKey: reader.string('OPENAI_API_KEY', '', true),
+  openaiBaseUrl: reader.string('OPENAI_BASE_URL', 'https://api.openai.com/v1'),
+  openaiModel: reader.string('OPENAI_MODEL', 'gpt-4o-mini'),
+  openaiTemperature: reader.number('OPENAI_TEMPERATURE', 0.7, { min: 0, max: 2 }),
+  openaiMaxTokens: reader.integer('OPENAI_MAX_TOKENS', 200, { min: 1 }),
+  openaiTimeoutMs: reader.integer('OPENAI_TIMEOUT_MS', 30000, { min: 1 }),
+  messageMinLength: reader.integer('MESSAGE_MIN_LENGTH', 80, { min: 0 }),
+  messageMaxLength: reader.integer('MESSAGE_MAX_LENGTH', 1200, { min: 1 }),
+  googleMapsApiKey: reader.string('GOOGLE_MAPS_API_KEY', '', true),
+  googleMapsBaseUrl: reader.string('GOOGLE_MAPS_BASE_URL', 'https://maps.googleapis.com'),
+  hereApiKey: reader.string('HERE_API_KEY', '', true),
+  hereRoutingBaseUrl: reader.string('HERE_ROUTING_BASE_URL', 'https://router.hereapi.com'),
+  hereGeocodeBaseUrl: reader.string('HERE_GEOCODE_BASE_URL', 'https://geocode.search.hereapi.com'),
+  tomTomApiKey: reader.string('TOMTOM_API_KEY', '', true),
+  tomTomBaseUrl: reader.string('TOMTOM_BASE_URL', 'https://api.tomtom.com'),
+  osrmBaseUrl: reader.string('OSRM_BASE_URL', 'http://localhost:5000'),
+  trafficProviderTimeoutMs: reader.integer('TRAFFIC_PROVIDER_TIMEOUT_MS', 10000, { min: 1 }),
+  trafficProviderChain: reader.parse(
+    'TRAFFIC_PROVIDERS',
+    'mock',
+    value => parseTrafficProviderChain(value, 'TRAFFIC_PROVIDERS'),
+    ['mock']
+  ),
+  trafficProviderTenantChains: reader.parse(
+    'TRAFFIC_PROVIDER_TENANT_CHAINS',
+    '{}',
+    parseTenantProviderChains,
+    {}
+  ),
+  tenantProfiles: reader.parse('TENANT_PROFILES', '{}', parseTenantProfiles, {}, true),
+  customerNotificationRules: reader.parse(
+    'CUSTOMER_NOTIFICATION_RULES',
+    '{}',
+    parseCustomerNotificationRules,
+    {}
+  ),
+  trafficCacheTtlMinutes: reader.integer('TRAFFIC_CACHE_TTL_MINUTES', 30, { min: 0 }),
+  trafficHistoryFile: reader.optional('TRAFFIC_HISTORY_FILE'),
+  minTrafficConfidence: reader.number('MIN_TRAFFIC_CONFIDENCE', 0.6, { min: 0, max: 1 }),
+  sendgridApiKey: reader.string('SENDGRID_API_KEY', '', true),
+  sendgridBaseUrl: reader.string('SENDGRID_BASE_URL', 'https://api.sendgrid.com'),
+  sendgridTemplateId: reader.optional('SENDGRID_TEMPLATE_ID'),
+  sendgridCategories: reader.parse(
+    'SENDGRID_CATEGORIES',
+    'freight,delay-notification',
+    parseList,
+    []
+  ),
+  sendgridTimeoutMs: reader.integer('SENDGRID_TIMEOUT_MS', 10000, { min: 1 }),
+  smsProvider: reader.parse('SMS_PROVIDER', 'mock', parseSmsProvider, 'mock'),
+  smsMaxSegments: reader.integer('SMS_MAX_SEGMENTS', 3, { min: 1 }),
+  smsReceiptTimeoutMs: reader.integer('SMS_RECEIPT_TIMEOUT_MS', 30000, { min: 0 }),
+  smsReceiptPollIntervalMs: reader.integer('SMS_RECEIPT_POLL_INTERVAL_MS', 2000, { min: 1 }),
+  twilioAccountSid: reader.string('TWILIO_ACCOUNT_SID'),
+  twilioAuthToken: reader.string('TWILIO_AUTH_TOKEN', '', true),
+  twilioFromNumber: reader.string('TWILIO_FROM_NUMBER'),
+  twilioBaseUrl: reader.string('TWILIO_BASE_URL', 'https://api.twilio.com'),
+  twilioTimeoutMs: reader.integer('TWILIO_TIMEOUT_MS', 10000, { min: 1 }),
+  temporalAddress: reader.string('TEMPORAL_ADDRESS', 'localhost:7233'),
+  temporalNamespace: reader.string('TEMPORAL_NAMESPACE', 'default'),
+  temporalTaskQueue: reader.string('TEMPORAL_TASK_QUEUE', 'freight-delay-notifications'),
+  delayThresholdMinutes: reader.integer('DELAY_THRESHOLD_MINUTES', 30, { min: 0 }),
+  fromEmail: reader.string('FROM_EMAIL', 'noreply@freightnotifications.com'),
+  customerEmail: reader.string('CUSTOMER_EMAIL', 'customer@example.com'),
+  customerPhone: reader.string('CUSTOMER_PHONE', '+15551234567'),
+  delaySeverityMinutes: reader.parse(
+    'DELAY_SEVERITY_MINUTES',
+    '60,120,240',
+    parseDelaySeverityMinutes,
+    [60, 120, 240]
+  ),
+  notificationRepeatChangeMinutes: reader.integer('NOTIFICATION_REPEAT_CHANGE_MINUTES', 15, {
+    min: 0,
+  }),
+  escalationTierMinutes: reader.parse(
+    'ESCALATION_TIERS_MINUTES',
+    '30,60,120',
+    parseEscalationTiers,
+    [30, 60, 120]
+  ),
+  notificationStateStore: reader.parse(
+    'NOTIFICATION_STATE_STORE',
+    'sqlite',
+    parseNotificationStateStore,
+    'sqlite'
+  ),
+  notificationStateDatabaseFile: reader.string(
+    'NOTIFICATION_STATE_DATABASE_FILE',
+    'notification-state.db'
+  ),
+  auditStore: reader.parse('AUDIT_STORE', 'sqlite', parseAuditStore, 'sqlite'),
+  auditDatabaseFile: reader.string('AUDIT_DATABASE_FILE', 'notification-audit.db'),
+  webhookSigningSecret: reader.string('WEBHOOK_SIGNING_SECRET', '', true),
+  webhookCustomerSecrets: reader.parse(
+    'WEBHOOK_CUSTOMER_SECRETS',
+    '{}',
+    parseWebhookCustomerSecrets,
+    {},
+    true
+  ),
+  webhookTimeoutMs: reader.integer('WEBHOOK_TIMEOUT_MS', 10000, { min: 1 }),
+  webhookAllowPrivateUrls: reader.parse(
+    'WEBHOOK_ALLOW_PRIVATE_URLS',
+    'false',
+    value => parseBoolean('WEBHOOK_ALLOW_PRIVATE_URLS', value),
+    false
+  ),
+  apiPort: reader.integer('API_PORT', 3000, { min: 1, max: 65535 }),
+  eventServerPort: reader.integer('EVENT_SERVER_PORT', 3001, { min: 1, max: 65535 }),
+  sendgridEventPublicKey: reader.string('SENDGRID_EVENT_PUBLIC_KEY'),
+  emailSuppressionBounces: reader.integer('EMAIL_SUPPRESSION_BOUNCES', 2, { min: 1 }),
+  manifestMaxConcurrency: reader.integer('MANIFEST_MAX_CONCURRENCY', 10, { min: 1 }),
+  manifestRetryWindowMinutes: reader.integer('MANIFEST_RETRY_WINDOW_MINUTES', 60, { min: 0 }),
 });
+
+/**
+ * Checks the settings that depend on each other and on the profile
+ * Live providers need their credentials in every profile. Staging and prod need the settings
+ * their profile requires, and prod refuses mock providers and the in-memory audit store.
+ * Settings that are already invalid are not checked again.
+ * @param config - The configuration
+ * @param reader - The reader the configuration was read with; problems are reported to it
+ */
+const checkConfig = (config: APIConfig, reader: ConfigReader) => {
+  const profile = PROFILES[config.profile];
+
+  if (config.messageMinLength >= config.messageMaxLength) {
+    reader.report('MESSAGE_MIN_LENGTH', 'MESSAGE_MIN_LENGTH must be less than MESSAGE_MAX_LENGTH');
+  }
+
+  profile.required
+    .filter(key => !reader.get(key))
+    .forEach(key => reader.report(key, `${key} is required in the ${config.profile} profile`));
+
+  // Chains with the tenant whose credentials they may use
+  const chains: [string, TrafficProviderName[], string?][] = [
+    ['TRAFFIC_PROVIDERS', config.trafficProviderChain],
+    ...Object.entries(config.trafficProviderTenantChains).map(
+      ([tenantId, chain]): [string, TrafficProviderName[], string] => [
+        `TRAFFIC_PROVIDER_TENANT_CHAINS.${tenantId}`,
+        chain,
+        tenantId,
+      ]
+    ),
+    ...Object.entries(config.tenantProfiles)
+      .filter(([, tenant]) => tenant.trafficProviders)
+      .map(([tenantId, tenant]): [string, TrafficProviderName[], string] => [
+        `TENANT_PROFILES.${tenantId}.trafficProviders`,
+        tenant.trafficProviders as TrafficProviderName[],
+        tenantId,
+      ]),
+  ];
+  // Missing credentials with the first provider that needs them
+  const missing = new Map<string, string>();
+  const checkCredentials = (provider: string, tenantId?: string) => {
+    const credentials = tenantId ? config.tenantProfiles[tenantId]?.credentials : undefined;
+    (PROVIDER_CREDENTIALS[provider] ?? [])
+      .filter(key => !reader.get(key) && !credentials?.[TENANT_CREDENTIALS[key]])
+      .forEach(key => missing.set(key, missing.get(key) ?? provider));
+  };
+  chains.forEach(([, chain, tenantId]) => chain.forEach(name => checkCredentials(name, tenantId)));
+  checkCredentials(config.smsProvider);
+  missing.forEach((provider, key) =>
+    reader.report(key, `${key} is required by the ${provider} provider`)
+  );
+
+  if (profile.allowDemoProviders) {
+    return;
+  }
+  chains
+    .filter(([source, chain]) => chain.includes('mock') && reader.isValid(source))
+    .forEach(([source]) =>
+      reader.report(
+        source,
+        `${source} cannot use the mock provider in the ${config.profile} profile`
+      )
+    );
+  if (config.smsProvider === 'mock' && reader.isValid('SMS_PROVIDER')) {
+    reader.report('SMS_PROVIDER', `SMS_PROVIDER cannot be mock in the ${config.profile} profile`);
+  }
+  if (config.auditStore === 'memory') {
+    reader.report('AUDIT_STORE', `AUDIT_STORE cannot be memory in the ${config.profile} profile`);
+  }
+  // Workers of a deployment must share what each shipment's recipients were told
+  if (config.notificationStateStore === 'memory') {
+    reader.report(
+      'NOTIFICATION_STATE_STORE',
+      `NOTIFICATION_STATE_STORE cannot be memory in the ${config.profile} profile`
+    );
+  }
+  if (config.webhookSigningSecret === DEMO_WEBHOOK_SIGNING_SECRET) {
+    reader.report(
+      'WEBHOOK_SIGNING_SECRET',
+      `WEBHOOK_SIGNING_SECRET cannot be the demo secret in the ${config.profile} profile`
+    );
+  }
+  if (config.webhookAllowPrivateUrls) {
+    reader.report(
+      'WEBHOOK_ALLOW_PRIVATE_URLS',
+      `WEBHOOK_ALLOW_PRIVATE_URLS cannot be true in the ${config.profile} profile`
+    );
+  }
+};
+
+/**
+ * Loads and validates the configuration
+ * @param env - The environment variables; CONFIG_FILE names an optional JSON config file and
+ * APP_ENV the profile (dev by default)
+ * @returns LoadedConfig - The configuration and the effective settings, secrets redacted
+ * @throws ConfigError - Listing every invalid or missing setting
+ */
+export const loadConfig = (env: ConfigValues): LoadedConfig => {
+  const issues: ValidationIssue[] = [];
+  let file: ConfigFile | undefined;
+  if (env.CONFIG_FILE) {
+    try {
+      file = readConfigFile(env.CONFIG_FILE);
+    } catch (error) {
+      issues.push({ field: 'CONFIG_FILE', message: (error as Error).message });
+    }
+  }
+
+  // The profile picks the file's profile section and defaults; an invalid one is reported
+  // when APP_ENV is read
+  const profileName = env.APP_ENV || file?.values.APP_ENV || 'dev';
+  const profile = PROFILES[profileName as ConfigProfileName] ?? PROFILES.dev;
+  const reader = new ConfigReader({
+    env,
+    file,
+    profile: profileName,
+    profileDefaults: profile.defaults,
+  });
+
+  const config = readConfig(reader);
+  checkConfig(config, reader);
+  Object.keys(file?.profiles ?? {})
+    .filter(name => !CONFIG_PROFILES.includes(name as ConfigProfileName))
+    .forEach(name =>
+      reader.report('CONFIG_FILE', `CONFIG_FILE ${file?.path}: ${name} is not a profile`)
+    );
+  reader
+    .getUnknownFileKeys()
+    .forEach(key =>
+      reader.report('CONFIG_FILE', `CONFIG_FILE ${file?.path}: ${key} is not a known setting`)
+    );
+
+  issues.push(...reader.issues);
+  if (issues.length > 0) {
+    throw new ConfigError(
+      [
+        `Invalid configuration for the ${profileName} profile:`,
+        ...issues.map(issue => `  - ${issue.message}`),
+      ].join('\n'),
+      issues
+    );
+  }
+
+  return {
+    config,
+    effective: { profile: config.profile, configFile: file?.path, settings: reader.settings },
+  };
+};
+
+let loadedConfig: LoadedConfig | undefined;
+
+/**
+ * Gets the configuration of this process, loading it from the environment on first use
+ * @returns LoadedConfig - The configuration and the effective settings
+ * @throws ConfigError - When the configuration is invalid
+ */
+const getLoadedConfig = (): LoadedConfig => {
+  if (!loadedConfig) {
+    loadedConfig = loadConfig(process.env);
+  }
+  return loadedConfig;
+};
+
+/**
+ * Gets the configuration of this process
+ * Entry points call this, or a getter below, on startup so a misconfigured process fails
+ * before it connects to anything
+ * @returns APIConfig - The validated configuration
+ * @throws ConfigError - When the configuration is invalid
+ */
+export const getConfig = (): APIConfig => getLoadedConfig().config;
+
+/**
+ * Gets the settings the configuration was loaded from, with where each came from
+ * @returns EffectiveConfig - The profile, config file and settings, secrets redacted
+ * @throws ConfigError - When the configuration is invalid
+ */
+export const getEffectiveConfig = (): EffectiveConfig => getLoadedConfig().effective;
+
+/**
+ * Gets the profile of the shipper notifications are sent for
+ * @param tenantId - The tenant ID, if any
+ * @returns TenantProfile | undefined - The profile, undefined without one
+ */
+export const getTenantProfile = (tenantId?: string): TenantProfile | undefined =>
+  tenantId ? getConfig().tenantProfiles[tenantId] : undefined;
+
+/**
+ * Gets who messages for a tenant are from
+ * @param tenantId - The tenant ID, if any
+ * @returns SenderIdentity | undefined - The tenant's name and sign-off, undefined without a
+ * profile so messages keep the default sign-off
+ */
+export const getSenderIdentity = (tenantId?: string): SenderIdentity | undefined => {
+  const tenant = getTenantProfile(tenantId);
+  return tenant ? { name: tenant.name, signature: tenant.signature ?? tenant.name } : undefined;
+};
+
+export const getOpenAIConfig = () => {
+  const config = getConfig();
+  return {
+    apiKey: config.openaiApiKey,
+    baseUrl: config.openaiBaseUrl,
+    model: config.openaiModel,
+    temperature: config.openaiTemperature,
+    maxTokens: config.openaiMaxTokens,
+    timeoutMs: config.openaiTimeoutMs,
+  };
+};
+
+export const getGuardrailConfig = () => {
+  const config = getConfig();
+  return {
+    minLength: config.messageMinLength,
+    maxLength: config.messageMaxLength,
+  };
+};
+
+export const getGoogleMapsConfig = (tenantId?: string) => {
+  const config = getConfig();
+  return {
+    apiKey: getTenantProfile(tenantId)?.credentials?.googleMapsApiKey ?? config.googleMapsApiKey,
+    baseUrl: config.googleMapsBaseUrl,
+    timeoutMs: config.trafficProviderTimeoutMs,
+  };
+};
+
+export const getHereConfig = (tenantId?: string) => {
+  const config = getConfig();
+  return {
+    apiKey: getTenantProfile(tenantId)?.credentials?.hereApiKey ?? config.hereApiKey,
+    routingBaseUrl: config.hereRoutingBaseUrl,
+    geocodeBaseUrl: config.hereGeocodeBaseUrl,
+    timeoutMs: config.trafficProviderTimeoutMs,
+  };
+};
+
+export const getTomTomConfig = (tenantId?: string) => {
+  const config = getConfig();
+  return {
+    apiKey: getTenantProfile(tenantId)?.credentials?.tomTomApiKey ?? config.tomTomApiKey,
+    baseUrl: config.tomTomBaseUrl,
+    timeoutMs: config.trafficProviderTimeoutMs,
+  };
+};
+
+export const getOsrmConfig = () => {
+  const config = getConfig();
+  return {
+    baseUrl: config.osrmBaseUrl,
+    timeoutMs: config.trafficProviderTimeoutMs,
+  };
+};
+
+export const getTrafficConfig = () => {
+  const config = getConfig();
+  return {
+    defaultChain: config.trafficProviderChain,
+    tenantChains: {
+      ...config.trafficProviderTenantChains,
+      ...Object.fromEntries(
+        Object.entries(config.tenantProfiles)
+          .filter(([, tenant]) => tenant.trafficProviders)
+          .map(([tenantId, tenant]) => [tenantId, tenant.trafficProviders])
+      ),
+    } as Record<string, TrafficProviderName[]>,
+    cacheTtlMinutes: config.trafficCacheTtlMinutes,
+    historyFile: config.trafficHistoryFile,
+  };
+};
+
+export const getNotificationRuleConfig = () => {
+  const config = getConfig();
+  return {
+    customerRules: config.customerNotificationRules,
+    tenantRules: Object.fromEntries(
+      Object.entries(config.tenantProfiles)
+        .filter(([, tenant]) => tenant.notificationRules)
+        .map(([tenantId, tenant]) => [tenantId, tenant.notificationRules])
+    ) as Record<string, NotificationRule[]>,
+  };
+};
+
+export const getSendGridConfig = (tenantId?: string) => {
+  const config = getConfig();
+  const tenant = getTenantProfile(tenantId);
+  return {
+    apiKey: tenant?.credentials?.sendgridApiKey ?? config.sendgridApiKey,
+    baseUrl: config.sendgridBaseUrl,
+    fromEmail: tenant?.fromEmail ?? config.fromEmail,
+    fromName: tenant?.fromName ?? tenant?.name,
+    replyTo: tenant?.replyTo,
+    templateId: tenant?.sendgridTemplateId ?? config.sendgridTemplateId,
+    categories: config.sendgridCategories,
+    timeoutMs: config.sendgridTimeoutMs,
+  };
+};
+
+export const getSmsConfig = () => {
+  const config = getConfig();
+  return {
+    provider: config.smsProvider,
+    maxSegments: config.smsMaxSegments,
+  };
+};
+
+export const getTwilioConfig = (tenantId?: string) => {
+  const config = getConfig();
+  // Tenants set all of their Twilio account or none of it
+  const credentials = getTenantProfile(tenantId)?.credentials;
+  return {
+    accountSid: credentials?.twilioAccountSid ?? config.twilioAccountSid,
+    authToken: credentials?.twilioAuthToken ?? config.twilioAuthToken,
+    fromNumber: credentials?.twilioFromNumber ?? config.twilioFromNumber,
+    baseUrl: config.twilioBaseUrl,
+    timeoutMs: config.twilioTimeoutMs,
+    receiptTimeoutMs: config.smsReceiptTimeoutMs,
+    receiptPollIntervalMs: config.smsReceiptPollIntervalMs,
+  };
+};
+
+export const getNotificationStateConfig = () => {
+  const config = getConfig();
+  return {
+    repeatChangeMinutes: config.notificationRepeatChangeMinutes,
+    escalationTierMinutes: config.escalationTierMinutes,
+    store: config.notificationStateStore,
+    databaseFile: config.notificationStateDatabaseFile,
+  };
+};
+
+export const getWebhookConfig = (tenantId?: string) => {
+  const config = getConfig();
+  return {
+    signingSecret:
+      getTenantProfile(tenantId)?.credentials?.webhookSigningSecret ?? config.webhookSigningSecret,
+    customerSecrets: config.webhookCustomerSecrets,
+    timeoutMs: config.webhookTimeoutMs,
+    allowPrivateUrls: config.webhookAllowPrivateUrls,
+  };
+};
+
+export const getDeliveryEventConfig = () => {
+  const config = getConfig();
+  return {
+    port: config.eventServerPort,
+    publicKey: config.sendgridEventPublicKey,
+    suppressionBounces: config.emailSuppressionBounces,
+  };
+};
+
+export const getAuditConfig = () => {
+  const config = getConfig();
+  return {
+    store: config.auditStore,
+    databaseFile: config.auditDatabaseFile,
+  };
+};
+
+export const getTemporalConfig = () => {
+  const config = getConfig();
+  return {
+    address: config.temporalAddress,
+    namespace: config.temporalNamespace,
+    taskQueue: config.temporalTaskQueue,
+  };
+};
+
+export const getManifestConfig = () => {
+  const config = getConfig();
+  return {
+    maxConcurrency: config.manifestMaxConcurrency,
+    retryWindowMinutes: config.manifestRetryWindowMinutes,
+  };
+};
+
+export const getApiServerConfig = () => {
+  const config = getConfig();
+  return {
+    port: config.apiPort,
+  };
+};
+
+export const getAppConfig = (tenantId?: string) => {
+  const config = getConfig();
+  const tenant = getTenantProfile(tenantId);
+  return {
+    delayThresholdMinutes: tenant?.delayThresholdMinutes ?? config.delayThresholdMinutes,
+    minTrafficConfidence: tenant?.minTrafficConfidence ?? config.minTrafficConfidence,
+    customerEmail: config.customerEmail,
+    customerPhone: config.customerPhone,
+    delaySeverityMinutes: tenant?.delaySeverityMinutes ?? config.delaySeverityMinutes,
+    channels: tenant?.channels ?? NOTIFICATION_CHANNELS,
+  };
+};
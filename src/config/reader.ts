@@ -0,0 +1,313 @@
+import fs from 'fs';
+import { ValidationIssue } from '../errors';
+import { ConfigSetting, ConfigSource } from '../types';
+
+/**
+ * Configuration sources
+ *
+ * Settings are named after their environment variables. Each is resolved from, in order:
+ * 1. The environment
+ * 2. The config file's section for the active profile
+ * 3. The rest of the config file
+ * 4. The profile's defaults
+ * 5. The built-in default
+ * Empty values count as unset, so an empty variable falls through to the next source.
+ *
+ * The config file is a JSON object of settings, with an optional "profiles" object of
+ * per-profile overrides. Lists are joined with commas and objects are kept as JSON:
+ *   { "TRAFFIC_PROVIDERS": ["google", "osrm"], "profiles": { "dev": { "API_PORT": 8080 } } }
+ */
+
+export const REDACTED = '[redacted]';
+
+export type ConfigValues = Record<string, string | undefined>;
+
+export interface ConfigFile {
+  path: string;
+  values: ConfigValues;
+  profiles: Record<string, ConfigValues>;
+}
+
+export interface ConfigSources {
+  env: ConfigValues;
+  file?: ConfigFile;
+  profile: string;
+  profileDefaults: ConfigValues;
+}
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+/**
+ * Reads a config file
+ * @param path - The file path
+ * @returns ConfigFile - The file's settings, as text
+ * @throws Error - When the file cannot be read or is not a JSON object of settings
+ */
+export function readConfigFile(path: string): ConfigFile {
+  let content: string;
+  try {
+    content = fs.readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new Error(`CONFIG_FILE ${path} cannot be read: ${(error as Error).message}`);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`CONFIG_FILE ${path} is not valid JSON: ${(error as Error).message}`);
+  }
+  if (!isObject(parsed)) {
+    throw new Error(`CONFIG_FILE ${path} must be a JSON object of settings`);
+  }
+
+  const { profiles = {}, ...values } = parsed;
+  if (!isObject(profiles)) {
+    throw new Error(`CONFIG_FILE ${path}: profiles must be an object of settings by profile`);
+  }
+
+  const sections: Record<string, ConfigValues> = {};
+  for (const [profile, section] of Object.entries(profiles)) {
+    if (!isObject(section)) {
+      throw new Error(`CONFIG_FILE ${path}: profiles.${profile} must be an object of settings`);
+    }
+    sections[profile] = toConfigValues(section);
+  }
+  return { path, values: toConfigValues(values), profiles: sections };
+}
+
+/**
+ * Reads settings from their sources
+ * Invalid settings are collected instead of thrown, so they can all be reported at once, and
+ * every setting read is recorded, with secrets redacted, for the effective config dump
+ */
+export class ConfigReader {
+  readonly issues: ValidationIssue[] = [];
+  readonly settings: ConfigSetting[] = [];
+  private sources: ConfigSources;
+  private values: ConfigValues = {};
+
+  constructor(sources: ConfigSources) {
+    this.sources = sources;
+  }
+
+  /**
+   * Reads a text setting
+   * @param key - The setting's environment variable
+   * @param fallback - The built-in default
+   * @param secret - Whether the value is redacted from the dump
+   * @returns string - The value, empty when unset
+   */
+  string(key: string, fallback = '', secret = false): string {
+    return this.resolve(key, fallback, secret) ?? '';
+  }
+
+  /**
+   * Reads a text setting without a default
+   * @param key - The setting's environment variable
+   * @returns string | undefined - The value, undefined when unset
+   */
+  optional(key: string): string | undefined {
+    return this.resolve(key, undefined, false);
+  }
+
+  /**
+   * Reads a whole number setting
+   * @param key - The setting's environment variable
+   * @param fallback - The built-in default
+   * @param range - The allowed values
+   * @returns number - The value, the default when invalid
+   */
+  integer(key: string, fallback: number, range: NumberRange = {}): number {
+    const value = this.resolve(key, String(fallback), false) as string;
+    const parsed = /^-?\d+$/.test(value.trim()) ? Number(value) : NaN;
+    return this.checkNumber(key, value, parsed, 'a whole number', range) ? parsed : fallback;
+  }
+
+  /**
+   * Reads a decimal number setting
+   * @param key - The setting's environment variable
+   * @param fallback - The built-in default
+   * @param range - The allowed values
+   * @returns number - The value, the default when invalid
+   */
+  number(key: string, fallback: number, range: NumberRange = {}): number {
+    const value = this.resolve(key, String(fallback), false) as string;
+    const parsed = value.trim() === '' ? NaN : Number(value);
+    return this.checkNumber(key, value, parsed, 'a number', range) ? parsed : fallback;
+  }
+
+  /**
+   * Reads a setting with its own parser
+   * @param key - The setting's environment variable
+   * @param fallback - The built-in default
+   * @param parser - Parses the value; throws an Error naming the setting when it is invalid
+   * @param invalid - The value used when the setting is invalid
+   * @param secret - Whether the value is redacted from the dump
+   * @returns T - The parsed value
+   */
+  parse<T>(
+    key: string,
+    fallback: string,
+    parser: (value: string) => T,
+    invalid: T,
+    secret = false
+  ): T {
+    const value = this.resolve(key, fallback, secret) as string;
+    try {
+      return parser(value);
+    } catch (error) {
+      this.report(key, (error as Error).message);
+      return invalid;
+    }
+  }
+
+  /**
+   * Gets the value a setting resolved to
+   * @param key - The setting's environment variable, read before
+   * @returns string | undefined - The value, undefined when unset
+   */
+  get(key: string): string | undefined {
+    return this.values[key];
+  }
+
+  /**
+   * Checks whether a setting was read without problems
+   * @param key - The setting's environment variable
+   * @returns boolean - False once the setting has been reported
+   */
+  isValid(key: string): boolean {
+    return !this.issues.some(issue => issue.field === key);
+  }
+
+  /**
+   * Records an invalid setting
+   * @param field - The setting's environment variable, or a path within it
+   * @param message - What is wrong, naming the setting
+   */
+  report(field: string, message: string) {
+    this.issues.push({ field, message });
+  }
+
+  /**
+   * Lists the config file's settings that were never read, i.e. misspelled or unknown ones
+   * @returns string[] - The unknown keys, with profile sections as "profiles.dev.KEY"
+   */
+  getUnknownFileKeys(): string[] {
+    const file = this.sources.file;
+    if (!file) {
+      return [];
+    }
+    const isUnknown = (key: string) => !(key in this.values);
+    return [
+      ...Object.keys(file.values).filter(isUnknown),
+      ...Object.entries(file.profiles).flatMap(([profile, values]) =>
+        Object.keys(values)
+          .filter(isUnknown)
+          .map(key => `profiles.${profile}.${key}`)
+      ),
+    ];
+  }
+
+  /**
+   * Resolves a setting from its sources and records it
+   * @param key - The setting's environment variable
+   * @param fallback - The built-in default
+   * @param secret - Whether the value is redacted from the dump
+   * @returns string | undefined - The value, undefined when unset
+   */
+  private resolve(key: string, fallback: string | undefined, secret: boolean): string | undefined {
+    const { env, file, profile, profileDefaults } = this.sources;
+    const candidates: [ConfigSource, string | undefined][] = [
+      ['env', env[key]],
+      ['file', file?.profiles[profile]?.[key]],
+      ['file', file?.values[key]],
+      ['profile', profileDefaults[key]],
+      ['default', fallback],
+    ];
+    const [source, value] = candidates.find(([, candidate]) => !!candidate) ?? ['default', ''];
+
+    this.values[key] = value || undefined;
+    this.settings.push({
+      key,
+      value: secret && value ? REDACTED : value || undefined,
+      source,
+      secret,
+    });
+    return value || undefined;
+  }
+
+  /**
+   * Checks a number setting, recording it when invalid
+   * @param key - The setting's environment variable
+   * @param value - The setting's text
+   * @param parsed - The parsed number, NaN when it did not parse
+   * @param kind - What the setting holds, e.g. "a whole number"
+   * @param range - The allowed values
+   * @returns boolean - Whether the number is valid
+   */
+  private checkNumber(
+    key: string,
+    value: string,
+    parsed: number,
+    kind: string,
+    range: NumberRange
+  ): boolean {
+    const { min, max } = range;
+    const valid =
+      Number.isFinite(parsed) &&
+      (min === undefined || parsed >= min) &&
+      (max === undefined || parsed <= max);
+    if (!valid) {
+      this.report(key, `${key} must be ${kind}${describeRange(range)}, got "${value}"`);
+    }
+    return valid;
+  }
+}
+
+/**
+ * Describes the allowed values of a number setting
+ * @param range - The allowed values
+ * @returns string - e.g. " between 1 and 65535", or empty without bounds
+ */
+function describeRange({ min, max }: NumberRange): string {
+  if (min !== undefined && max !== undefined) {
+    return ` between ${min} and ${max}`;
+  }
+  if (min !== undefined) {
+    return ` of at least ${min}`;
+  }
+  return max !== undefined ? ` of at most ${max}` : '';
+}
+
+/**
+ * Converts config file values to the text their environment variables would hold
+ * Lists become comma separated and objects JSON, e.g. for TRAFFIC_PROVIDER_TENANT_CHAINS
+ * @param values - The file's settings
+ * @returns ConfigValues - The settings as text; null leaves a setting unset
+ */
+function toConfigValues(values: Record<string, unknown>): ConfigValues {
+  const converted: ConfigValues = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (Array.isArray(value)) {
+      converted[key] = value.join(',');
+    } else if (isObject(value)) {
+      converted[key] = JSON.stringify(value);
+    } else {
+      converted[key] = value === null ? undefined : String(value);
+    }
+  }
+  return converted;
+}
+
+/**
+ * Checks whether a parsed JSON value is an object
+ * @param value - The value
+ * @returns boolean - True for objects other than arrays and null
+ */
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
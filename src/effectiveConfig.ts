@@ -0,0 +1,62 @@
+import { parseArgs } from 'util';
+import { ConfigSetting, EffectiveConfig } from './types';
+import { ConfigError } from './errors';
+import { getEffectiveConfig } from './config';
+
+/**
+ * Effective configuration dump
+ *
+ * Validates the configuration the worker, API and event server would start with and prints
+ * every setting with where its value came from; secrets are redacted:
+ *   npm run config
+ *   APP_ENV=prod CONFIG_FILE=config/prod.json npm run config -- --json
+ *
+ * Exits with 1 and lists the problems when the configuration is invalid.
+ */
+function dumpEffectiveConfig() {
+  const { values } = parseArgs({
+    options: {
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  let effective: EffectiveConfig;
+  try {
+    effective = getEffectiveConfig();
+  } catch (error) {
+    if (!(error instanceof ConfigError)) {
+      throw error;
+    }
+    console.error(error.message);
+    process.exit(1);
+  }
+
+  if (values.json) {
+    console.log(JSON.stringify(effective, null, 2));
+    return;
+  }
+
+  console.log(`Profile: ${effective.profile}`);
+  console.log(`Config file: ${effective.configFile || 'none'}`);
+  console.log('');
+  const width = Math.max(...effective.settings.map(setting => setting.key.length));
+  effective.settings.forEach(setting => logSetting(setting, width));
+}
+
+/**
+ * Prints a setting in a readable form
+ * @param setting - The setting
+ * @param width - The width of the key column
+ */
+function logSetting(setting: ConfigSetting, width: number) {
+  console.log(`${setting.key.padEnd(width)}  ${setting.value ?? '(not set)'}  [${setting.source}]`);
+}
+
+if (require.main === module) {
+  try {
+    dumpEffectiveConfig();
+  } catch (error) {
+    console.error('Failed to read the configuration:', error);
+    process.exit(1);
+  }
+}
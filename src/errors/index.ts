@@ -0,0 +1,143 @@
+/**
+ * Error types for the Freight Delay Notification System
+ * Service errors carry a provider-independent code and whether retrying can help
+ */
+
+export type TrafficErrorCode =
+  | 'NOT_FOUND'
+  | 'ZERO_RESULTS'
+  | 'MAX_WAYPOINTS_EXCEEDED'
+  | 'MAX_ROUTE_LENGTH_EXCEEDED'
+  | 'INVALID_REQUEST'
+  | 'OVER_QUERY_LIMIT'
+  | 'OVER_DAILY_LIMIT'
+  | 'REQUEST_DENIED'
+  | 'UNKNOWN_ERROR'
+  | 'NETWORK_ERROR';
+
+export class TrafficApiError extends Error {
+  readonly code: TrafficErrorCode;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: TrafficErrorCode, retryable: boolean) {
+    super(message);
+    this.name = 'TrafficApiError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export type AIErrorCode =
+  | 'RATE_LIMITED'
+  | 'QUOTA_EXCEEDED'
+  | 'TIMEOUT'
+  | 'CONNECTION_ERROR'
+  | 'SERVER_ERROR'
+  | 'AUTHENTICATION_ERROR'
+  | 'INVALID_REQUEST'
+  | 'EMPTY_RESPONSE'
+  | 'UNKNOWN_ERROR';
+
+export class AIServiceError extends Error {
+  readonly code: AIErrorCode;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: AIErrorCode, retryable: boolean) {
+    super(message);
+    this.name = 'AIServiceError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export type NotificationErrorCode =
+  | 'INVALID_RECIPIENT'
+  | 'SUPPRESSED_RECIPIENT'
+  | 'INVALID_REQUEST'
+  | 'AUTHENTICATION_ERROR'
+  | 'RATE_LIMITED'
+  | 'TIMEOUT'
+  | 'CONNECTION_ERROR'
+  | 'SERVER_ERROR'
+  | 'UNKNOWN_ERROR';
+
+export class NotificationServiceError extends Error {
+  readonly code: NotificationErrorCode;
+  readonly retryable: boolean;
+
+  constructor(message: string, code: NotificationErrorCode, retryable: boolean) {
+    super(message);
+    this.name = 'NotificationServiceError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+export type ShipmentWorkflowErrorCode = 'NOT_FOUND' | 'ALREADY_STARTED' | 'NOT_RUNNING';
+
+export class ShipmentWorkflowError extends Error {
+  readonly code: ShipmentWorkflowErrorCode;
+  readonly workflowId: string;
+
+  constructor(message: string, code: ShipmentWorkflowErrorCode, workflowId: string) {
+    super(message);
+    this.name = 'ShipmentWorkflowError';
+    this.code = code;
+    this.workflowId = workflowId;
+  }
+}
+
+export type ApiErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'INVALID_JSON'
+  | 'PAYLOAD_TOO_LARGE'
+  | 'INVALID_SIGNATURE'
+  | 'NOT_FOUND'
+  | 'METHOD_NOT_ALLOWED'
+  | 'WORKFLOW_NOT_FOUND'
+  | 'WORKFLOW_ALREADY_STARTED'
+  | 'WORKFLOW_NOT_RUNNING'
+  | 'INTERNAL_ERROR';
+
+export interface ValidationIssue {
+  field: string; // Path of the invalid field, e.g. "route.origin" or "recipients[0].channels"
+  message: string;
+}
+
+export class ApiError extends Error {
+  readonly status: number;
+  readonly code: ApiErrorCode;
+  readonly details?: ValidationIssue[];
+
+  constructor(status: number, code: ApiErrorCode, message: string, details?: ValidationIssue[]) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export type CliErrorCode = 'USAGE' | 'INVALID_MANIFEST' | 'VALIDATION_ERROR';
+
+export class CliError extends Error {
+  readonly code: CliErrorCode;
+  readonly details?: ValidationIssue[];
+
+  constructor(message: string, code: CliErrorCode, details?: ValidationIssue[]) {
+    super(message);
+    this.name = 'CliError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class ConfigError extends Error {
+  readonly details: ValidationIssue[];
+
+  constructor(message: string, details: ValidationIssue[]) {
+    super(message);
+    this.name = 'ConfigError';
+    this.details = details;
+  }
+}
@@ -0,0 +1,130 @@
+import http from 'http';
+import { Connection, Client } from '@temporalio/client';
+import { DeliveryEventBatchResult, SendGridEvent } from './types';
+import { ApiError } from './errors';
+import { getConfig, getDeliveryEventConfig, getTemporalConfig } from './config';
+import {
+  DeliveryEventService,
+  DeliveryEventSignaler,
+  SENDGRID_SIGNATURE_HEADER,
+  SENDGRID_TIMESTAMP_HEADER,
+  verifySendGridSignature,
+} from './services/deliveryEventService';
+import { emailDeliveryEventSignal } from './workflows/signals';
+import { parseJson, readBody, sendError, sendJson } from './api/http';
+
+/**
+ * Email delivery event receiver
+ *
+ * Accepts SendGrid event webhook batches and signals the delivery events to the workflows that
+ * sent the emails:
+ *   npm run events
+ *   POST http://localhost:3001/events/sendgrid
+ *
+ * Point SendGrid's Event Webhook (Mail Settings) at the endpoint with the delivered, bounce,
+ * dropped and spam report events selected. With SENDGRID_EVENT_PUBLIC_KEY set, unsigned batches
+ * are rejected.
+ */
+
+export const SENDGRID_EVENTS_PATH = '/events/sendgrid';
+
+/**
+ * Creates the HTTP handler for SendGrid event webhook batches
+ * Failures to handle a batch are answered with 500, so SendGrid retries it
+ * @param service - The delivery event service
+ * @param signal - Signals a delivery event to a running workflow
+ * @param publicKey - SendGrid's verification key; empty to accept unsigned batches
+ * @returns http.RequestListener - The request handler
+ */
+export function createDeliveryEventHandler(
+  service: DeliveryEventService,
+  signal: DeliveryEventSignaler,
+  publicKey: string
+): http.RequestListener {
+  return (req, res) => {
+    handleBatch(service, signal, publicKey, req)
+      .then(result => sendJson(res, 200, result))
+      .catch(error => sendError(res, error));
+  };
+}
+
+/**
+ * Verifies and handles a batch
+ * @param service - The delivery event service
+ * @param signal - Signals a delivery event to a running workflow
+ * @param publicKey - SendGrid's verification key; empty to accept unsigned batches
+ * @param req - The request
+ * @returns Promise<DeliveryEventBatchResult> - What happened to the batch's events
+ * @throws ApiError - When the request is not a valid, signed batch
+ */
+async function handleBatch(
+  service: DeliveryEventService,
+  signal: DeliveryEventSignaler,
+  publicKey: string,
+  req: http.IncomingMessage
+): Promise<DeliveryEventBatchResult> {
+  if (req.url?.split('?')[0] !== SENDGRID_EVENTS_PATH) {
+    throw new ApiError(404, 'NOT_FOUND', `No route for ${req.url}`);
+  }
+  if (req.method !== 'POST') {
+    throw new ApiError(405, 'METHOD_NOT_ALLOWED', `${req.method} is not allowed; use POST`);
+  }
+
+  const body = await readBody(req);
+  if (publicKey && !isSigned(req, body, publicKey)) {
+    throw new ApiError(401, 'INVALID_SIGNATURE', 'Event batch signature is invalid');
+  }
+
+  const events = parseJson(body);
+  if (!Array.isArray(events)) {
+    throw new ApiError(400, 'VALIDATION_ERROR', 'Request body must be an array of events');
+  }
+  return service.handleBatch(events as SendGridEvent[], signal);
+}
+
+/**
+ * Checks the signature headers of a batch
+ * @param req - The request
+ * @param body - The raw body
+ * @param publicKey - SendGrid's verification key
+ * @returns boolean - Whether the batch was signed by SendGrid
+ */
+function isSigned(req: http.IncomingMessage, body: string, publicKey: string): boolean {
+  const signature = req.headers[SENDGRID_SIGNATURE_HEADER.toLowerCase()];
+  const timestamp = req.headers[SENDGRID_TIMESTAMP_HEADER.toLowerCase()];
+  if (typeof signature !== 'string' || typeof timestamp !== 'string') {
+    return false;
+  }
+  return verifySendGridSignature(body, signature, timestamp, publicKey);
+}
+
+async function startEventServer() {
+  const temporalConfig = getTemporalConfig();
+  const { port, publicKey } = getDeliveryEventConfig();
+
+  console.log(`Using configuration profile: ${getConfig().profile}`);
+  console.log(`Connecting to Temporal server at: ${temporalConfig.address}`);
+  const connection = await Connection.connect({ address: temporalConfig.address });
+  const client = new Client({ connection, namespace: temporalConfig.namespace });
+
+  const signal: DeliveryEventSignaler = (workflowId, event) =>
+    client.workflow.getHandle(workflowId).signal(emailDeliveryEventSignal, event);
+
+  if (!publicKey) {
+    console.log('SENDGRID_EVENT_PUBLIC_KEY is not set: accepting unsigned event batches');
+  }
+
+  const server = http.createServer(
+    createDeliveryEventHandler(new DeliveryEventService(), signal, publicKey)
+  );
+  server.listen(port, () => {
+    console.log(`Receiving SendGrid events at http://localhost:${port}${SENDGRID_EVENTS_PATH}`);
+  });
+}
+
+if (require.main === module) {
+  startEventServer().catch(error => {
+    console.error('Failed to start the event server:', error);
+    process.exit(1);
+  });
+}
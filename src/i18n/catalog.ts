@@ -0,0 +1,38 @@
+/**
+ * Message catalog shape shared by all locales
+ * Placeholders in braces (e.g. {delay}) are replaced by `translate`
+ */
+export interface MessageCatalog {
+  languageName: string; // English name of the language, used to instruct the AI model
+  'trafficReason.light': string;
+  'trafficReason.moderate': string;
+  'trafficReason.heavy': string;
+  'trafficReason.severe': string;
+  segmentReason: string; // {reason}, {from}, {to}
+  emailSubject: string; // {minutes} (number only) or {delay} (with unit)
+  emailSubjectWithEta: string; // As emailSubject, plus {eta}
+  emailHeading: string;
+  emailFooter: string;
+  emailSentAt: string; // {time}
+  defaultSender: string; // Sign-off of SMS messages sent without a tenant
+  defaultSignature: string; // Sign-off of letters sent without a tenant
+  smsMessage: string; // {delay}, {sender}
+  smsMessageWithEta: string; // {delay}, {eta}, {sender}
+  arrivalSentence: string; // {eta}
+  // {origin}, {destination}, {delay}, {reason}, {arrival} (arrivalSentence), {signature}
+  fallbackMessage: string;
+  backOnScheduleSubject: string;
+  backOnScheduleHeading: string;
+  smsBackOnSchedule: string; // {arrival} (arrivalSentence), {sender}
+  backOnScheduleMessage: string; // {origin}, {destination}, {arrival} (arrivalSentence), {signature}
+  subjectWithReference: string; // {subject}, {reference}
+  smsWithReference: string; // {reference}, {message}
+  shipmentReferences: string; // {references}, e.g. "Shipment ID: 4471, PRO: 0123456789"
+  'reference.shipmentId': string;
+  'reference.proNumber': string;
+  'reference.bolNumber': string;
+  'reference.carrier': string;
+  'reference.customerReference': string;
+}
+
+export type MessageKey = keyof MessageCatalog;
@@ -0,0 +1,161 @@
+import { MessageCatalog, MessageKey } from './catalog';
+import { en } from './locales/en';
+import { de } from './locales/de';
+import { fr } from './locales/fr';
+import { es } from './locales/es';
+import { ro } from './locales/ro';
+
+/**
+ * Localization of customer notifications
+ *
+ * Locales are BCP 47 tags (e.g. "de", "de-AT", "fr-CA"). Each message is looked up along a
+ * fallback chain: the exact locale, its base language, then English. A locale without a
+ * catalog, or a catalog missing a message, therefore still produces text.
+ */
+
+export { MessageCatalog, MessageKey };
+
+export const DEFAULT_LOCALE = 'en';
+
+const catalogs: Record<string, Partial<MessageCatalog>> = { en, de, fr, es, ro };
+
+export const SUPPORTED_LOCALES = Object.keys(catalogs);
+
+/**
+ * Resolves the locales to try, most specific first
+ * @param locale - The requested locale, e.g. "de-AT"
+ * @returns string[] - e.g. ["de-AT", "de", "en"]
+ */
+export function resolveLocaleChain(locale: string = DEFAULT_LOCALE): string[] {
+  const parts = locale.replace(/_/g, '-').split('-');
+  const chain: string[] = [];
+  for (let length = parts.length; length > 0; length--) {
+    const tag = [parts[0].toLowerCase(), ...parts.slice(1, length)].join('-');
+    chain.push(tag);
+  }
+  if (!chain.includes(DEFAULT_LOCALE)) {
+    chain.push(DEFAULT_LOCALE);
+  }
+  return chain;
+}
+
+/**
+ * Returns the first locale in the fallback chain that has a catalog
+ * Used for locale-aware formatting, so numbers match the language of the text
+ * @param locale - The requested locale
+ * @returns string - A supported locale
+ */
+export function resolveLocale(locale?: string): string {
+  return resolveLocaleChain(locale).find(tag => catalogs[tag]) || DEFAULT_LOCALE;
+}
+
+/**
+ * Translates a message, filling in its placeholders
+ * @param locale - The requested locale
+ * @param key - The message key
+ * @param params - Values for the message placeholders
+ * @returns string - The localized message
+ */
+export function translate(
+  locale: string | undefined,
+  key: MessageKey,
+  params: Record<string, string | number> = {}
+): string {
+  const template =
+    resolveLocaleChain(locale)
+      .map(tag => catalogs[tag]?.[key])
+      .find(message => message !== undefined) ??
+    en[key] ??
+    key;
+
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  );
+}
+
+/**
+ * Formats a number of minutes with the locale's number format and unit name
+ * @param locale - The requested locale
+ * @param minutes - The number of minutes
+ * @returns string - e.g. "45 minutes", "45 Minuten", "45 de minute"
+ */
+export function formatMinutes(locale: string | undefined, minutes: number): string {
+  return new Intl.NumberFormat(toIntlLocale(locale), {
+    style: 'unit',
+    unit: 'minute',
+    unitDisplay: 'long',
+  }).format(minutes);
+}
+
+/**
+ * Formats a number with the locale's grouping and decimal separators
+ * @param locale - The requested locale
+ * @param value - The number
+ * @returns string - e.g. "1,500" in English, "1.500" in German
+ */
+export function formatNumber(locale: string | undefined, value: number): string {
+  return new Intl.NumberFormat(toIntlLocale(locale)).format(value);
+}
+
+/**
+ * Formats a date and time with the locale's conventions
+ * @param locale - The requested locale
+ * @param date - The date to format
+ * @param timeZone - IANA time zone to display the time in
+ * @returns string - e.g. "Oct 19, 2026, 9:21 AM" in English, "19.10.2026, 09:21" in German
+ */
+export function formatDateTime(
+  locale: string | undefined,
+  date: Date,
+  timeZone: string = 'UTC'
+): string {
+  return new Intl.DateTimeFormat(toIntlLocale(locale), {
+    dateStyle: 'medium',
+    timeStyle: 'short',
+    timeZone,
+  }).format(date);
+}
+
+/**
+ * Formats an arrival time in the time zone of the arrival location, naming the zone
+ * @param locale - The requested locale
+ * @param date - The arrival time
+ * @param timeZone - IANA time zone of the arrival location
+ * @returns string - e.g. "Mon, Oct 19, 5:30 PM EDT" in English
+ */
+export function formatArrivalTime(
+  locale: string | undefined,
+  date: Date,
+  timeZone: string
+): string {
+  return new Intl.DateTimeFormat(toIntlLocale(locale), {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone,
+    timeZoneName: 'short',
+  }).format(date);
+}
+
+/**
+ * Picks the locale used for Intl formatting
+ * The requested locale is kept when the text is in its language, so regional conventions
+ * apply (e.g. "de-CH"); otherwise numbers are formatted like the text they appear in
+ * @param locale - The requested locale
+ * @returns string - A locale Intl can format with
+ */
+function toIntlLocale(locale?: string): string {
+  const resolved = resolveLocale(locale);
+  if (!locale) {
+    return resolved;
+  }
+
+  try {
+    const [canonical] = Intl.getCanonicalLocales(locale.replace(/_/g, '-'));
+    return canonical.split('-')[0] === resolved.split('-')[0] ? canonical : resolved;
+  } catch {
+    return resolved;
+  }
+}
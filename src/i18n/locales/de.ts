@@ -0,0 +1,52 @@
+import { MessageCatalog } from '../catalog';
+
+export const de: Partial<MessageCatalog> = {
+  languageName: 'German',
+  'trafficReason.light': 'geringes Verkehrsaufkommen',
+  'trafficReason.moderate': 'mäßiges Verkehrsaufkommen',
+  'trafficReason.heavy': 'starkes Verkehrsaufkommen',
+  'trafficReason.severe': 'sehr starkes Verkehrsaufkommen',
+  segmentReason: '{reason} auf dem Abschnitt {from} – {to}',
+  emailSubject: 'Verzögerung Ihrer Frachtlieferung - {minutes} Minuten',
+  emailSubjectWithEta:
+    'Verzögerung Ihrer Frachtlieferung - {minutes} Minuten - Neue Ankunftszeit {eta}',
+  emailHeading: 'Benachrichtigung über Lieferverzögerung',
+  emailFooter: 'Dies ist eine automatische Benachrichtigung Ihres Frachtlieferdienstes.',
+  emailSentAt: 'Gesendet am {time}',
+  defaultSender: 'Ihr Fracht-Team',
+  defaultSignature: 'Ihr Frachtlieferungs-Team',
+  smsMessage:
+    'Frachtverzögerung: Ihre Lieferung verzögert sich verkehrsbedingt um {delay}. Wir bitten um Entschuldigung. - {sender}',
+  smsMessageWithEta:
+    'Frachtverzögerung: Ihre Lieferung verzögert sich verkehrsbedingt um {delay}. Neue voraussichtliche Ankunft: {eta}. Wir bitten um Entschuldigung. - {sender}',
+  arrivalSentence: 'Die neue voraussichtliche Ankunftszeit ist {eta}.',
+  fallbackMessage: `Sehr geehrte Kundin, sehr geehrter Kunde,
+
+wir möchten Sie darüber informieren, dass sich Ihre Frachtlieferung von {origin} nach {destination} um etwa {delay} verzögert. Grund: {reason}.{arrival}
+
+Wir entschuldigen uns für die entstandenen Unannehmlichkeiten und danken Ihnen für Ihre Geduld. Unser Team setzt alles daran, dass Ihre Lieferung so schnell wie möglich ankommt.
+
+Vielen Dank für Ihr Verständnis.
+
+Mit freundlichen Grüßen
+{signature}`,
+  backOnScheduleSubject: 'Update zu Ihrer Frachtlieferung - Wieder im Zeitplan',
+  backOnScheduleHeading: 'Lieferung wieder im Zeitplan',
+  smsBackOnSchedule: 'Fracht-Update: Ihre Lieferung ist wieder im Zeitplan.{arrival} - {sender}',
+  backOnScheduleMessage: `Sehr geehrte Kundin, sehr geehrter Kunde,
+
+gute Nachrichten: Ihre Frachtlieferung von {origin} nach {destination} ist wieder im Zeitplan.{arrival}
+
+Vielen Dank für Ihre Geduld.
+
+Mit freundlichen Grüßen
+{signature}`,
+  subjectWithReference: '{subject} - Ref. {reference}',
+  smsWithReference: 'Ref. {reference}: {message}',
+  shipmentReferences: 'Sendungsreferenzen: {references}',
+  'reference.shipmentId': 'Sendungs-ID',
+  'reference.proNumber': 'PRO',
+  'reference.bolNumber': 'Frachtbrief',
+  'reference.carrier': 'Frachtführer',
+  'reference.customerReference': 'Ihre Referenz',
+};
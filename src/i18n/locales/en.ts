@@ -0,0 +1,51 @@
+import { MessageCatalog } from '../catalog';
+
+export const en: MessageCatalog = {
+  languageName: 'English',
+  'trafficReason.light': 'light traffic conditions',
+  'trafficReason.moderate': 'moderate traffic conditions',
+  'trafficReason.heavy': 'heavy traffic conditions',
+  'trafficReason.severe': 'severe traffic conditions',
+  segmentReason: '{reason} on the {from} to {to} segment',
+  emailSubject: 'Freight Delivery Delay Notice - {minutes} Minutes',
+  emailSubjectWithEta: 'Freight Delivery Delay Notice - {minutes} Minutes - New ETA {eta}',
+  emailHeading: 'Delivery Delay Notification',
+  emailFooter: 'This is an automated notification from your freight delivery service.',
+  emailSentAt: 'Sent on {time}',
+  defaultSender: 'Freight Team',
+  defaultSignature: 'Freight Delivery Team',
+  smsMessage:
+    'Freight Delay Alert: Your delivery is delayed by {delay} due to traffic conditions. We apologize for the inconvenience. - {sender}',
+  smsMessageWithEta:
+    'Freight Delay Alert: Your delivery is delayed by {delay} due to traffic conditions. New estimated arrival: {eta}. We apologize for the inconvenience. - {sender}',
+  arrivalSentence: 'The new estimated arrival time is {eta}.',
+  fallbackMessage: `Dear Customer,
+
+We want to inform you that your freight delivery from {origin} to {destination} is experiencing a delay of approximately {delay} due to {reason}.{arrival}
+
+We apologize for any inconvenience this may cause and appreciate your patience. Our team is working to ensure your delivery arrives as soon as possible.
+
+Thank you for your understanding.
+
+Best regards,
+{signature}`,
+  backOnScheduleSubject: 'Freight Delivery Update - Back on Schedule',
+  backOnScheduleHeading: 'Delivery Back on Schedule',
+  smsBackOnSchedule: 'Freight Update: Your delivery is back on schedule.{arrival} - {sender}',
+  backOnScheduleMessage: `Dear Customer,
+
+Good news: your freight delivery from {origin} to {destination} is back on schedule.{arrival}
+
+Thank you for your patience.
+
+Best regards,
+{signature}`,
+  subjectWithReference: '{subject} - Ref. {reference}',
+  smsWithReference: 'Ref. {reference}: {message}',
+  shipmentReferences: 'Shipment references: {references}',
+  'reference.shipmentId': 'Shipment ID',
+  'reference.proNumber': 'PRO',
+  'reference.bolNumber': 'BOL',
+  'reference.carrier': 'Carrier',
+  'reference.customerReference': 'Your reference',
+};
@@ -0,0 +1,53 @@
+import { MessageCatalog } from '../catalog';
+
+export const es: Partial<MessageCatalog> = {
+  languageName: 'Spanish',
+  'trafficReason.light': 'tráfico ligero',
+  'trafficReason.moderate': 'tráfico moderado',
+  'trafficReason.heavy': 'tráfico denso',
+  'trafficReason.severe': 'tráfico muy denso',
+  segmentReason: '{reason} en el tramo {from} – {to}',
+  emailSubject: 'Aviso de retraso en la entrega - {minutes} minutos',
+  emailSubjectWithEta:
+    'Aviso de retraso en la entrega - {minutes} minutos - Nueva llegada estimada {eta}',
+  emailHeading: 'Notificación de retraso en la entrega',
+  emailFooter: 'Esta es una notificación automática de su servicio de entrega de carga.',
+  emailSentAt: 'Enviado el {time}',
+  defaultSender: 'Equipo de Carga',
+  defaultSignature: 'El equipo de Entregas de Carga',
+  smsMessage:
+    'Alerta de retraso: su entrega se retrasa {delay} debido al tráfico. Disculpe las molestias. - {sender}',
+  smsMessageWithEta:
+    'Alerta de retraso: su entrega se retrasa {delay} debido al tráfico. Nueva llegada estimada: {eta}. Disculpe las molestias. - {sender}',
+  arrivalSentence: 'La nueva hora estimada de llegada es {eta}.',
+  fallbackMessage: `Estimado/a cliente:
+
+Le informamos de que su envío de carga de {origin} a {destination} sufre un retraso de aproximadamente {delay}. Motivo: {reason}.{arrival}
+
+Lamentamos las molestias que esto pueda ocasionarle y le agradecemos su paciencia. Nuestro equipo está trabajando para que su envío llegue lo antes posible.
+
+Gracias por su comprensión.
+
+Atentamente,
+{signature}`,
+  backOnScheduleSubject: 'Actualización de su entrega - De nuevo a tiempo',
+  backOnScheduleHeading: 'Entrega de nuevo a tiempo',
+  smsBackOnSchedule:
+    'Actualización de carga: su entrega vuelve a estar a tiempo.{arrival} - {sender}',
+  backOnScheduleMessage: `Estimado cliente:
+
+Buenas noticias: su entrega de carga de {origin} a {destination} vuelve a estar a tiempo.{arrival}
+
+Gracias por su paciencia.
+
+Atentamente,
+{signature}`,
+  subjectWithReference: '{subject} - Ref. {reference}',
+  smsWithReference: 'Ref. {reference}: {message}',
+  shipmentReferences: 'Referencias del envío: {references}',
+  'reference.shipmentId': 'ID de envío',
+  'reference.proNumber': 'PRO',
+  'reference.bolNumber': 'Conocimiento de embarque',
+  'reference.carrier': 'Transportista',
+  'reference.customerReference': 'Su referencia',
+};
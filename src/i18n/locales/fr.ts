@@ -0,0 +1,53 @@
+import { MessageCatalog } from '../catalog';
+
+export const fr: Partial<MessageCatalog> = {
+  languageName: 'French',
+  'trafficReason.light': 'trafic légèrement ralenti',
+  'trafficReason.moderate': 'trafic modéré',
+  'trafficReason.heavy': 'trafic dense',
+  'trafficReason.severe': 'trafic très dense',
+  segmentReason: '{reason} sur le tronçon {from} – {to}',
+  emailSubject: 'Avis de retard de livraison - {minutes} minutes',
+  emailSubjectWithEta:
+    'Avis de retard de livraison - {minutes} minutes - Nouvelle arrivée prévue {eta}',
+  emailHeading: 'Notification de retard de livraison',
+  emailFooter: 'Ceci est une notification automatique de votre service de livraison de fret.',
+  emailSentAt: 'Envoyé le {time}',
+  defaultSender: 'L’équipe Fret',
+  defaultSignature: 'L’équipe Livraison de fret',
+  smsMessage:
+    'Alerte retard : votre livraison est retardée de {delay} en raison de la circulation. Veuillez nous excuser pour la gêne occasionnée. - {sender}',
+  smsMessageWithEta:
+    'Alerte retard : votre livraison est retardée de {delay} en raison de la circulation. Nouvelle arrivée prévue : {eta}. Veuillez nous excuser pour la gêne occasionnée. - {sender}',
+  arrivalSentence: 'La nouvelle heure d’arrivée prévue est {eta}.',
+  fallbackMessage: `Madame, Monsieur,
+
+Nous souhaitons vous informer que votre livraison de fret de {origin} à {destination} subit un retard d’environ {delay}. Motif : {reason}.{arrival}
+
+Nous vous prions de nous excuser pour la gêne occasionnée et vous remercions de votre patience. Notre équipe met tout en œuvre pour que votre livraison arrive dans les meilleurs délais.
+
+Merci de votre compréhension.
+
+Cordialement,
+{signature}`,
+  backOnScheduleSubject: 'Mise à jour de livraison - De nouveau dans les temps',
+  backOnScheduleHeading: 'Livraison de nouveau dans les temps',
+  smsBackOnSchedule:
+    'Mise à jour fret : votre livraison est de nouveau dans les temps.{arrival} - {sender}',
+  backOnScheduleMessage: `Chère cliente, cher client,
+
+Bonne nouvelle : votre livraison de fret de {origin} à {destination} est de nouveau dans les temps.{arrival}
+
+Merci de votre patience.
+
+Cordialement,
+{signature}`,
+  subjectWithReference: '{subject} - Réf. {reference}',
+  smsWithReference: 'Réf. {reference} : {message}',
+  shipmentReferences: 'Références de l’envoi : {references}',
+  'reference.shipmentId': 'ID d’envoi',
+  'reference.proNumber': 'PRO',
+  'reference.bolNumber': 'Connaissement',
+  'reference.carrier': 'Transporteur',
+  'reference.customerReference': 'Votre référence',
+};
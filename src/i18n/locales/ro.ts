@@ -0,0 +1,54 @@
+import { MessageCatalog } from '../catalog';
+
+export const ro: Partial<MessageCatalog> = {
+  languageName: 'Romanian',
+  'trafficReason.light': 'trafic redus',
+  'trafficReason.moderate': 'trafic moderat',
+  'trafficReason.heavy': 'trafic aglomerat',
+  'trafficReason.severe': 'trafic foarte aglomerat',
+  segmentReason: '{reason} pe tronsonul {from} – {to}',
+  emailSubject: 'Notificare de întârziere a livrării - {delay}',
+  emailSubjectWithEta:
+    'Notificare de întârziere a livrării - {delay} - Noua oră estimată de sosire {eta}',
+  emailHeading: 'Notificare privind întârzierea livrării',
+  emailFooter:
+    'Aceasta este o notificare automată de la serviciul dumneavoastră de livrare a mărfii.',
+  emailSentAt: 'Trimis la {time}',
+  defaultSender: 'Echipa Marfă',
+  defaultSignature: 'Echipa de livrări marfă',
+  smsMessage:
+    'Alertă întârziere: livrarea dumneavoastră întârzie {delay} din cauza traficului. Ne cerem scuze pentru neplăceri. - {sender}',
+  smsMessageWithEta:
+    'Alertă întârziere: livrarea dumneavoastră întârzie {delay} din cauza traficului. Noua oră estimată de sosire: {eta}. Ne cerem scuze pentru neplăceri. - {sender}',
+  arrivalSentence: 'Noua oră estimată de sosire este {eta}.',
+  fallbackMessage: `Stimate client,
+
+Dorim să vă informăm că livrarea dumneavoastră de marfă de la {origin} la {destination} are o întârziere de aproximativ {delay}. Motiv: {reason}.{arrival}
+
+Ne cerem scuze pentru neplăcerile create și vă mulțumim pentru răbdare. Echipa noastră face tot posibilul ca livrarea să ajungă cât mai curând.
+
+Vă mulțumim pentru înțelegere.
+
+Cu stimă,
+{signature}`,
+  backOnScheduleSubject: 'Actualizare livrare - Din nou în grafic',
+  backOnScheduleHeading: 'Livrare din nou în grafic',
+  smsBackOnSchedule:
+    'Actualizare marfă: livrarea dumneavoastră este din nou în grafic.{arrival} - {sender}',
+  backOnScheduleMessage: `Stimate client,
+
+Vești bune: livrarea de marfă de la {origin} la {destination} este din nou în grafic.{arrival}
+
+Vă mulțumim pentru răbdare.
+
+Cu stimă,
+{signature}`,
+  subjectWithReference: '{subject} - Ref. {reference}',
+  smsWithReference: 'Ref. {reference}: {message}',
+  shipmentReferences: 'Referințe expediere: {references}',
+  'reference.shipmentId': 'ID expediere',
+  'reference.proNumber': 'PRO',
+  'reference.bolNumber': 'Conosament',
+  'reference.carrier': 'Transportator',
+  'reference.customerReference': 'Referința dvs.',
+};
@@ -1,7 +1,14 @@
 import { getAppConfig } from '../config';
+import { DelayNotificationInput, DeliveryMonitoringInput } from '../types';
 const appConfig = getAppConfig();
 
-export const scenarios = [
+export interface Scenario {
+  name: string;
+  workflowType?: 'freightDelayNotificationWorkflow' | 'freightDelayMonitoringWorkflow';
+  input: DelayNotificationInput | DeliveryMonitoringInput;
+}
+
+export const scenarios: Scenario[] = [
   {
     name: 'Scenario 1: Short Route - No Delay Expected',
     input: {
@@ -9,8 +16,11 @@ export const scenarios = [
         origin: 'New York, NY',
         destination: 'Philadelphia, PA',
       },
+      shipment: { shipmentId: 'DEMO-1001', carrier: 'ODFL', proNumber: '0123456789' },
       customerEmail: appConfig.customerEmail,
+      customerPhone: appConfig.customerPhone,
       delayThresholdMinutes: appConfig.delayThresholdMinutes,
+      minTrafficConfidence: appConfig.minTrafficConfidence,
     },
   },
   {
@@ -21,8 +31,19 @@ export const scenarios = [
         destination: 'New York, NY',
         waypoints: ['Las Vegas, NV', 'Denver, CO', 'Chicago, IL'],
       },
+      shipment: {
+        shipmentId: 'DEMO-1002',
+        carrier: 'ODFL',
+        proNumber: '0123456790',
+        bolNumber: 'BOL-558201',
+        customerReference: 'PO-77120',
+      },
       customerEmail: appConfig.customerEmail,
+      customerPhone: appConfig.customerPhone,
       delayThresholdMinutes: appConfig.delayThresholdMinutes,
+      minTrafficConfidence: appConfig.minTrafficConfidence,
+      // The Denver drop is notified, in Spanish, about the delay up to Denver only
+      stopContacts: [{ stop: 'Denver, CO', customerEmail: appConfig.customerEmail, locale: 'es' }],
     },
   },
   {
@@ -32,8 +53,45 @@ export const scenarios = [
         origin: 'San Francisco, CA',
         destination: 'Los Angeles, CA',
       },
+      shipment: { shipmentId: 'DEMO-1003', customerReference: 'PO-77121' },
       customerEmail: appConfig.customerEmail,
+      customerPhone: appConfig.customerPhone,
       delayThresholdMinutes: 10,
+      minTrafficConfidence: appConfig.minTrafficConfidence,
+      // The dock prefers SMS; the account manager only hears about high severity delays
+      recipients: [
+        {
+          name: 'Receiving dock',
+          customerEmail: appConfig.customerEmail,
+          customerPhone: appConfig.customerPhone,
+          channels: ['sms', 'email'],
+        },
+        { name: 'Buyer', customerEmail: appConfig.customerEmail, channels: ['email'] },
+        {
+          name: 'Account manager',
+          customerEmail: appConfig.customerEmail,
+          channels: ['email'],
+          minSeverity: 'high',
+        },
+      ],
+    },
+  },
+  {
+    name: 'Scenario 4: Monitored Route - Periodic Traffic Checks Until Arrival',
+    workflowType: 'freightDelayMonitoringWorkflow',
+    input: {
+      route: {
+        origin: 'Chicago, IL',
+        destination: 'Milwaukee, WI',
+      },
+      shipment: { shipmentId: 'DEMO-1004', carrier: 'XPO', bolNumber: 'BOL-558202' },
+      customerEmail: appConfig.customerEmail,
+      customerPhone: appConfig.customerPhone,
+      delayThresholdMinutes: appConfig.delayThresholdMinutes,
+      minTrafficConfidence: appConfig.minTrafficConfidence,
+      // Short demo window: arrival in 3 minutes, checked every minute
+      expectedArrivalTime: new Date(Date.now() + 3 * 60 * 1000).toISOString(),
+      pollIntervalMinutes: 1,
     },
   },
 ];
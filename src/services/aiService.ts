@@ -1,42 +1,73 @@
-import { AIMessageRequest, AIMessageResponse } from '../types';
+import OpenAI from 'openai';
+import { AIMessageRequest, AIMessageResponse, TrafficLeg } from '../types';
 import { getOpenAIConfig } from '../config';
+import { AIServiceError } from '../errors';
+import { MessageKey, formatArrivalTime, formatMinutes, resolveLocale, translate } from '../i18n';
 
 /**
  * AI Service for OpenAI API integration
- * Generates friendly, personalized delay messages for customers
+ * Generates friendly, personalized delay messages for customers through the
+ * chat completions API, in the customer's language. Without an API key, mock responses
+ * are used for demos. Messages for a tenant are written and signed on the tenant's behalf.
  */
 
+interface OpenAIConfig {
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
+  timeoutMs: number;
+}
+
 export class AIService {
-  private apiKey: string;
+  private client?: OpenAI;
   private model: string;
+  private temperature: number;
+  private maxTokens: number;
 
-  constructor() {
-    const config = getOpenAIConfig();
-    this.apiKey = config.apiKey;
+  constructor(config: OpenAIConfig = getOpenAIConfig()) {
     this.model = config.model;
+    this.temperature = config.temperature;
+    this.maxTokens = config.maxTokens;
+    if (config.apiKey) {
+      // Retries are left to Temporal's activity retry policy
+      this.client = new OpenAI({
+        apiKey: config.apiKey,
+        baseURL: config.baseUrl,
+        timeout: config.timeoutMs,
+        maxRetries: 0,
+      });
+    }
   }
 
   /**
-   * Generates a friendly delay message using OpenAI's GPT-4o-mini model
+   * Generates a friendly delay message using the configured OpenAI model
+   * Retryable failures (timeouts, rate limits, server errors) are thrown so the activity
+   * can be retried; other failures fall back to a template message.
    * @param request - The AI message request with delay information
-   * @returns Promise<AIMessageResponse> - Generated message response
+   * @returns Promise<AIMessageResponse> - Generated message response, including token usage
+   * @throws AIServiceError - When the failure is retryable
    */
   async generateDelayMessage(request: AIMessageRequest): Promise<AIMessageResponse> {
     try {
       console.log(`Generating AI message for ${request.delayMinutes} minute delay`);
       const prompt = this.buildPrompt(request);
-      const mockResponse = await this.getAiResponse(request, prompt);
-      console.log('AI response received:', mockResponse.message);
-      return mockResponse
+      const response = await this.getAiResponse(request, prompt);
+      console.log('AI response received:', response.message);
+      return response;
     } catch (error) {
-      console.error('Error generating AI message:', error);
-      console.log('Using fallback message');
-      const fallbackMessage = this.getFallbackMessage(request);
+      const aiError = this.toAIServiceError(error);
+      console.error('Error generating AI message:', aiError.message);
+      if (aiError.retryable) {
+        throw aiError;
+      }
 
+      console.log('Using fallback message');
       return {
-        message: fallbackMessage,
+        message: this.getFallbackMessage(request),
         success: false,
-        error: error instanceof Error ? error.message : 'AI service unavailable',
+        error: aiError.message,
       };
     }
   }
@@ -47,107 +78,265 @@ export class AIService {
    * @returns string - The formatted prompt
    */
   private buildPrompt(request: AIMessageRequest): string {
-    const { delayMinutes, route, trafficCondition } = request;
-
-    return `You are a friendly customer service assistant for a freight delivery company. 
+    const { locale } = request;
+    const delay = formatMinutes(locale, request.delayMinutes);
+    const eta = this.formatEta(request);
+    const etaDetails = eta
+      ? `\n    - New estimated arrival: ${eta} (local time at the destination)`
+      : '';
+    const etaRequirement = eta ? `\n    - State the new estimated arrival time as "${eta}"` : '';
+    const signatureRequirement = request.sender
+      ? `\n    - Sign the message as "${request.sender.signature}"`
+      : '';
+
+    return `You are a friendly customer service assistant for ${this.describeCompany(request)}. 
     
     Generate a courteous and professional message to inform a customer about a delivery delay.
     
     Details:
-    - Delivery route: ${route.origin} to ${route.destination}
-    - Estimated delay: ${delayMinutes} minutes
-    - Traffic condition: ${trafficCondition}
+    - Delivery route: ${this.describeRoute(request)}
+    - Estimated delay: ${delay}${etaDetails}
+    - Reason for delay: ${this.describeDelayReason(request)}${this.describeLegs(request)}
     
     Requirements:
     - Be empathetic and apologetic
-    - Explain the reason for the delay (traffic conditions)
-    - Provide the estimated delay time
+    - Explain the reason for the delay, including the route segment causing it
+    - Write the message in ${translate(locale, 'languageName')}
+    - State the delay as exactly "${delay}"${etaRequirement}
+    - Do not offer refunds, compensation or guaranteed delivery times
     - Offer reassurance about delivery
     - Keep the tone professional but friendly
-    - Keep the message concise (under 150 words)
-    
+    - Keep the message concise (under 150 words)${signatureRequirement}
+    ${this.describeRejections(request)}
     Generate only the message content, no additional text.`;
   }
 
+  /**
+   * Names the company the message is written for
+   * @param request - The AI message request
+   * @returns string - e.g. "Acme Logistics, a freight shipping company", or a generic description
+   */
+  private describeCompany(request: AIMessageRequest): string {
+    return request.sender
+      ? `${request.sender.name}, a freight shipping company`
+      : 'a freight delivery company';
+  }
+
+  /**
+   * Tells the model why its previous draft was rejected by the guardrails
+   * @param request - The AI message request
+   * @returns string - Additional prompt lines, empty for a first draft
+   */
+  private describeRejections(request: AIMessageRequest): string {
+    if (!request.rejectionReasons || request.rejectionReasons.length === 0) {
+      return '';
+    }
+
+    const lines = request.rejectionReasons.map(reason => `\n    - ${reason}`).join('');
+    return `\n    A previous draft was rejected for these reasons, avoid them:${lines}\n`;
+  }
+
   /**
    * Provides a fallback message when AI service is unavailable
    * @param request - The AI message request
-   * @returns string - Fallback message
+   * @returns string - Fallback message in the request's locale
    */
-  private getFallbackMessage(request: AIMessageRequest): string {
-    const { delayMinutes, route } = request;
+  getFallbackMessage(request: AIMessageRequest): string {
+    const { locale, route } = request;
+
+    return translate(locale, 'fallbackMessage', {
+      origin: route.origin,
+      destination: route.destination,
+      delay: formatMinutes(locale, request.delayMinutes),
+      reason: this.describeDelayReason(request),
+      arrival: this.describeArrival(request),
+      signature: request.sender?.signature ?? translate(locale, 'defaultSignature'),
+    });
+  }
+
+  /**
+   * Formats the new estimated arrival in the destination's time zone
+   * @param request - The AI message request
+   * @returns string | undefined - e.g. "Mon, Oct 19, 5:30 PM EDT", undefined without an ETA
+   */
+  private formatEta(request: AIMessageRequest): string | undefined {
+    if (!request.eta) {
+      return undefined;
+    }
+    return formatArrivalTime(
+      request.locale,
+      new Date(request.eta.arrivalTime),
+      request.eta.timeZone
+    );
+  }
+
+  /**
+   * Describes the new estimated arrival as a sentence appended to the delay sentence
+   * @param request - The AI message request
+   * @returns string - The localized sentence with a leading space, empty without an ETA
+   */
+  private describeArrival(request: AIMessageRequest): string {
+    const eta = this.formatEta(request);
+    return eta ? ` ${translate(request.locale, 'arrivalSentence', { eta })}` : '';
+  }
+
+  /**
+   * Describes why the shipment is delayed, in the request's locale
+   * Uses the dispatcher-reported reason when available, traffic conditions otherwise,
+   * and names the route segment causing most of the delay on multi-stop routes
+   * @param request - The AI message request
+   * @returns string - Human readable delay reason
+   */
+  private describeDelayReason(request: AIMessageRequest): string {
+    const { locale } = request;
+    const segment = this.findDelaySegment(request);
+    const condition = segment ? segment.trafficCondition : request.trafficCondition;
+    const reason =
+      request.delayReason || translate(locale, `trafficReason.${condition}` as MessageKey);
+
+    if (!segment) {
+      return reason;
+    }
+    return translate(locale, 'segmentReason', { reason, from: segment.from, to: segment.to });
+  }
 
-    return `Dear Customer,
+  /**
+   * Finds the leg with the largest delay on a multi-stop route
+   * @param request - The AI message request
+   * @returns TrafficLeg | undefined - The most delayed leg, or undefined for single-leg routes
+   */
+  private findDelaySegment(request: AIMessageRequest): TrafficLeg | undefined {
+    const legs = request.legs || [];
+    if (legs.length < 2) {
+      return undefined;
+    }
 
-We want to inform you that your freight delivery from ${route.origin} to ${route.destination} is experiencing a delay of approximately ${delayMinutes} minutes due to current traffic conditions.
+    const segment = legs.reduce((worst, leg) =>
+      leg.delayMinutes > worst.delayMinutes ? leg : worst
+    );
+    return segment.delayMinutes > 0 ? segment : undefined;
+  }
 
-We apologize for any inconvenience this may cause and appreciate your patience. Our team is working to ensure your delivery arrives as soon as possible.
+  /**
+   * Describes the route including its intermediate stops
+   * @param request - The AI message request
+   * @returns string - e.g. "Los Angeles, CA via Las Vegas, NV to Denver, CO"
+   */
+  private describeRoute(request: AIMessageRequest): string {
+    const { origin, destination, waypoints } = request.route;
+    const via = waypoints && waypoints.length > 0 ? ` via ${waypoints.join(', ')}` : '';
+    return `${origin}${via} to ${destination}`;
+  }
 
-Thank you for your understanding.
+  /**
+   * Lists the per-leg delays for the prompt on multi-stop routes
+   * @param request - The AI message request
+   * @returns string - Additional prompt lines, empty for single-leg routes
+   */
+  private describeLegs(request: AIMessageRequest): string {
+    const legs = request.legs || [];
+    if (legs.length < 2) {
+      return '';
+    }
 
-Best regards,
-Freight Delivery Team`;
+    const lines = legs.map(
+      leg =>
+        `\n      - ${leg.from} to ${leg.to}: ${leg.delayMinutes} minutes delay (${leg.trafficCondition} traffic)`
+    );
+    return `\n    - Route segments:${lines.join('')}`;
   }
 
   /**
-   * Demonstrates how to integrate with OpenAI API
-   * This method shows the actual implementation structure
+   * Calls the chat completions API, or picks a mock response when no API key is configured
    * @param request - The AI message request
-   * @returns Promise<AIMessageResponse> - Would return real AI response
+   * @param prompt - The prompt built from the request
+   * @returns Promise<AIMessageResponse> - The generated message and token usage
    */
   private async getAiResponse(
     request: AIMessageRequest,
     prompt: string
   ): Promise<AIMessageResponse> {
-    // Example of how to integrate with OpenAI API:
-    //
-    // const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    //   method: 'POST',
-    //   headers: {
-    //     'Authorization': `Bearer ${this.apiKey}`,
-    //     'Content-Type': 'application/json',
-    //   },
-    //   body: JSON.stringify({
-    //     model: this.model,
-    //     messages: [
-    //       {
-    //         role: 'system',
-    //         content: 'You are a helpful customer service assistant for a freight delivery company.'
-    //       },
-    //       {
-    //         role: 'user',
-    //         content: prompt
-    //       }
-    //     ],
-    //     max_tokens: 200,
-    //     temperature: 0.7
-    //   })
-    // });
-    //
-    // const data = await response.json();
-    //
-    // if (!response.ok) {
-    //   throw new Error(`OpenAI API error: ${data.error?.message || 'Unknown error'}`);
-    // }
-    //
-    // const message = data.choices[0]?.message?.content?.trim();
-    //
-    // if (!message) {
-    //   throw new Error('No message generated by AI');
-    // }
-    //
-    // return {
-    //   message,
-    //   success: true
-    // };
-
-    // For this demo return mock response
+    if (!this.client) {
+      return {
+        message: this.pickMockAIResponse(request),
+        success: true,
+      };
+    }
+
+    const completion = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        {
+          role: 'system',
+          content: `You are a helpful customer service assistant for ${this.describeCompany(request)}.`,
+        },
+        { role: 'user', content: prompt },
+      ],
+      max_tokens: this.maxTokens,
+      temperature: this.temperature,
+    });
+
+    const message = completion.choices[0]?.message?.content?.trim();
+    if (!message) {
+      throw new AIServiceError('No message generated by AI', 'EMPTY_RESPONSE', false);
+    }
+
     return {
-      message: this.pickMockAIResponse(request, prompt),
+      message,
       success: true,
+      usage: completion.usage && {
+        promptTokens: completion.usage.prompt_tokens,
+        completionTokens: completion.usage.completion_tokens,
+        totalTokens: completion.usage.total_tokens,
+      },
     };
   }
 
+  /**
+   * Maps an OpenAI SDK failure to a typed error
+   * Timeouts, connection failures, rate limits and server errors are retryable
+   * @param error - The error thrown while generating the message
+   * @returns AIServiceError - The typed error
+   */
+  private toAIServiceError(error: unknown): AIServiceError {
+    if (error instanceof AIServiceError) {
+      return error;
+    }
+    if (error instanceof OpenAI.APIConnectionTimeoutError) {
+      return new AIServiceError('OpenAI API request timed out', 'TIMEOUT', true);
+    }
+    if (error instanceof OpenAI.APIConnectionError) {
+      return new AIServiceError(
+        `OpenAI API unreachable: ${error.message}`,
+        'CONNECTION_ERROR',
+        true
+      );
+    }
+    if (error instanceof OpenAI.RateLimitError) {
+      // An exhausted quota does not recover by retrying
+      return error.code === 'insufficient_quota'
+        ? new AIServiceError('OpenAI API quota exceeded', 'QUOTA_EXCEEDED', false)
+        : new AIServiceError('OpenAI API rate limit exceeded', 'RATE_LIMITED', true);
+    }
+    if (error instanceof OpenAI.APIError) {
+      const status = error.status ?? 0;
+      if (status >= 500) {
+        return new AIServiceError(`OpenAI API error: ${error.message}`, 'SERVER_ERROR', true);
+      }
+      if (status === 401 || status === 403) {
+        return new AIServiceError(
+          `OpenAI API error: ${error.message}`,
+          'AUTHENTICATION_ERROR',
+          false
+        );
+      }
+      return new AIServiceError(`OpenAI API error: ${error.message}`, 'INVALID_REQUEST', false);
+    }
+
+    const message = error instanceof Error ? error.message : 'AI service unavailable';
+    return new AIServiceError(message, 'UNKNOWN_ERROR', false);
+  }
+
   /**
    * Validates the AI request
    * @param request - The AI message request to validate
@@ -168,42 +357,50 @@ Freight Delivery Team`;
    * @param request - The AI message request
    * @returns string - Mock AI-generated message
    */
-  private pickMockAIResponse(request: AIMessageRequest, prompt: string): string {
-    const { delayMinutes, route, trafficCondition } = request;
+  private pickMockAIResponse(request: AIMessageRequest): string {
+    // Mock templates are English only; other languages use the localized fallback message
+    if (resolveLocale(request.locale) !== 'en') {
+      return this.getFallbackMessage(request);
+    }
+
+    const { delayMinutes, route } = request;
+    const reason = this.describeDelayReason(request);
+    const arrival = this.describeArrival(request);
+    const signOff = (signature: string) => request.sender?.signature ?? signature;
 
     const templates = [
       `Dear Valued Customer,
 
-We want to inform you that your freight delivery from ${route.origin} to ${route.destination} is experiencing a delay of approximately ${delayMinutes} minutes due to ${trafficCondition} traffic conditions.
+We want to inform you that your freight delivery from ${route.origin} to ${route.destination} is experiencing a delay of approximately ${delayMinutes} minutes due to ${reason}.${arrival}
 
 Our team is actively monitoring the situation and working to ensure your delivery arrives as soon as possible. We sincerely apologize for any inconvenience this may cause.
 
 We appreciate your patience and understanding.
 
 Best regards,
-Freight Delivery Team`,
+${signOff('Freight Delivery Team')}`,
 
       `Hello,
 
-We're writing to update you on your delivery from ${route.origin} to ${route.destination}. Due to current ${trafficCondition} traffic conditions, we're experiencing a delay of about ${delayMinutes} minutes.
+We're writing to update you on your delivery from ${route.origin} to ${route.destination}. Due to ${reason}, we're experiencing a delay of about ${delayMinutes} minutes.${arrival}
 
 Our drivers are navigating the situation carefully to ensure your freight arrives safely. We apologize for this unexpected delay and thank you for your patience.
 
 We'll keep you updated on any further changes.
 
 Sincerely,
-Your Delivery Team`,
+${signOff('Your Delivery Team')}`,
 
       `Dear Customer,
 
-Your freight shipment from ${route.origin} to ${route.destination} is currently delayed by approximately ${delayMinutes} minutes due to ${trafficCondition} traffic conditions in the area.
+Your freight shipment from ${route.origin} to ${route.destination} is currently delayed by approximately ${delayMinutes} minutes due to ${reason}.${arrival}
 
 Please be assured that our experienced drivers are taking the safest route possible, and we're doing everything we can to minimize the delay. We apologize for any inconvenience this may cause to your schedule.
 
 Thank you for choosing our services.
 
 Best regards,
-Freight Operations`,
+${signOff('Freight Operations')}`,
     ];
 
     const selectedTemplate = templates[Math.floor(Math.random() * templates.length)];
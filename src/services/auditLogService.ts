@@ -0,0 +1,166 @@
+import {
+  EmailDeliveryEventRecord,
+  NotificationAuditQuery,
+  NotificationAuditRecord,
+  NotificationAuditStore,
+  NotificationChannel,
+  NotificationRequest,
+  NotificationResponse,
+  WebhookDeadLetter,
+} from '../types';
+import { getAuditConfig } from '../config';
+import { createAuditStore } from './auditStores';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * Notification audit log
+ * Keeps an append-only record of every notification sent to a customer: what was sent, to whom,
+ * on which channel and based on which traffic data, so customer disputes can be answered later.
+ * Records are written to the configured store (SQLite by default).
+ */
+export class AuditLogService {
+  private store: NotificationAuditStore;
+
+  constructor(store: NotificationAuditStore = createAuditStore(getAuditConfig().store)) {
+    this.store = store;
+  }
+
+  /**
+   * Records a notification that was sent
+   * A failure to record is logged rather than thrown: the notification already went out, and
+   * retrying the send activity would notify the customer twice
+   * @param channel - The channel the notification was sent on
+   * @param request - The notification request
+   * @param response - The provider's response
+   * @param body - The rendered text that was sent
+   * @returns Promise<NotificationAuditRecord | undefined> - The stored record, undefined when it could not be stored
+   */
+  async recordNotification(
+    channel: NotificationChannel,
+    request: NotificationRequest,
+    response: NotificationResponse,
+    body: string
+  ): Promise<NotificationAuditRecord | undefined> {
+    const record: NotificationAuditRecord = {
+      shipmentId: getShipmentId(request),
+      workflowId: request.correlationId,
+      customerEmail: request.customerEmail,
+      recipient: getRecipientAddress(channel, request),
+      channel,
+      kind: request.kind || 'delay',
+      subject: request.subject,
+      body,
+      messageId: response.messageId,
+      trafficData: request.trafficData,
+      sentAt: new Date().toISOString(),
+    };
+
+    try {
+      const stored = await this.store.append(record);
+      console.log(
+        `Recorded ${channel} notification ${stored.id} in the ${this.store.name} audit log`
+      );
+      return stored;
+    } catch (error) {
+      console.error('Failed to record notification in the audit log:', error);
+      return undefined;
+    }
+  }
+
+  /**
+   * Records a webhook event that could not be delivered once retries were exhausted
+   * @param request - The notification request
+   * @param eventId - The event's ID
+   * @param payload - The JSON event that was POSTed
+   * @param error - Why the last attempt failed
+   * @returns Promise<WebhookDeadLetter | undefined> - The stored dead letter, undefined when it could not be stored
+   */
+  async recordDeadLetter(
+    request: NotificationRequest,
+    eventId: string,
+    payload: string,
+    error: string
+  ): Promise<WebhookDeadLetter | undefined> {
+    const deadLetter: WebhookDeadLetter = {
+      shipmentId: getShipmentId(request),
+      customerEmail: request.customerEmail,
+      url: request.webhookUrl || '',
+      eventId,
+      payload,
+      error,
+      failedAt: new Date().toISOString(),
+    };
+
+    try {
+      const stored = await this.store.appendDeadLetter(deadLetter);
+      console.log(`Recorded undeliverable webhook event ${eventId} as dead letter ${stored.id}`);
+      return stored;
+    } catch (storeError) {
+      console.error('Failed to record webhook dead letter:', storeError);
+      return undefined;
+    }
+  }
+
+  /**
+   * Records an email delivery event reported by SendGrid
+   * @param record - The delivery event and the shipment it belongs to
+   * @returns Promise<EmailDeliveryEventRecord> - The stored record
+   */
+  async recordDeliveryEvent(record: EmailDeliveryEventRecord): Promise<EmailDeliveryEventRecord> {
+    return this.store.appendDeliveryEvent(record);
+  }
+
+  /**
+   * Lists the email delivery events for a shipment, customer and/or message, most recent first
+   * @param query - The shipment ID, customer email, message ID and maximum number of records
+   * @returns Promise<EmailDeliveryEventRecord[]> - The matching delivery events
+   */
+  async findDeliveryEvents(query: NotificationAuditQuery): Promise<EmailDeliveryEventRecord[]> {
+    return this.store.findDeliveryEvents(query);
+  }
+
+  /**
+   * Lists the undeliverable webhook events for a shipment and/or customer, most recent first
+   * @param query - The shipment ID, customer email and maximum number of records
+   * @returns Promise<WebhookDeadLetter[]> - The matching dead letters
+   */
+  async findDeadLetters(query: NotificationAuditQuery): Promise<WebhookDeadLetter[]> {
+    return this.store.findDeadLetters(query);
+  }
+
+  /**
+   * Lists the notifications sent for a shipment and/or to a customer, most recent first
+   * @param query - The shipment ID, customer email, message ID and maximum number of records
+   * @returns Promise<NotificationAuditRecord[]> - The matching records
+   */
+  async findNotifications(query: NotificationAuditQuery): Promise<NotificationAuditRecord[]> {
+    return this.store.find(query);
+  }
+}
+
+/**
+ * The shipment a notification is about
+ * @param request - The notification request
+ * @returns string - The shipment ID, falling back to the correlation ID
+ */
+function getShipmentId(request: NotificationRequest): string {
+  return request.shipmentId || request.correlationId || 'unknown';
+}
+
+/**
+ * The address a notification is sent to on a channel
+ * @param channel - The channel
+ * @param request - The notification request
+ * @returns string - The email address, phone number or webhook URL
+ */
+function getRecipientAddress(channel: NotificationChannel, request: NotificationRequest): string {
+  if (channel === 'sms') {
+    return request.customerPhone || '';
+  }
+  if (channel === 'webhook') {
+    return request.webhookUrl || '';
+  }
+  return request.customerEmail;
+}
@@ -0,0 +1,19 @@
+import { AuditStoreName, NotificationAuditStore } from '../../types';
+import { SqliteAuditStore } from './sqliteAuditStore';
+import { MemoryAuditStore } from './memoryAuditStore';
+
+export { SqliteAuditStore, MemoryAuditStore };
+
+const storeFactories: Record<AuditStoreName, () => NotificationAuditStore> = {
+  sqlite: () => new SqliteAuditStore(),
+  memory: () => new MemoryAuditStore(),
+};
+
+/**
+ * Creates a notification audit store from the application configuration
+ * @param name - The store name
+ * @returns NotificationAuditStore - The configured store
+ */
+export function createAuditStore(name: AuditStoreName): NotificationAuditStore {
+  return storeFactories[name]();
+}
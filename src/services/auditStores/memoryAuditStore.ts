@@ -0,0 +1,98 @@
+import {
+  EmailDeliveryEventRecord,
+  NotificationAuditQuery,
+  NotificationAuditRecord,
+  NotificationAuditStore,
+  WebhookDeadLetter,
+} from '../../types';
+
+/**
+ * In-memory notification audit store for demos and tests
+ * Records are lost when the worker stops
+ */
+export class MemoryAuditStore implements NotificationAuditStore {
+  readonly name = 'memory' as const;
+  private records: NotificationAuditRecord[] = [];
+  private deadLetters: WebhookDeadLetter[] = [];
+  private deliveryEvents: EmailDeliveryEventRecord[] = [];
+
+  /**
+   * Appends a notification to the audit log
+   * @param record - The notification that was sent
+   * @returns Promise<NotificationAuditRecord> - The record with its assigned ID
+   */
+  async append(record: NotificationAuditRecord): Promise<NotificationAuditRecord> {
+    const stored = { ...record, id: this.records.length + 1 };
+    this.records.push(stored);
+    return stored;
+  }
+
+  /**
+   * Lists the notifications for a shipment, customer and/or message, most recent first
+   * @param query - The shipment ID, customer email, message ID and maximum number of records
+   * @returns Promise<NotificationAuditRecord[]> - The matching records
+   */
+  async find(query: NotificationAuditQuery): Promise<NotificationAuditRecord[]> {
+    return filterRecords(this.records, query);
+  }
+
+  /**
+   * Appends a webhook event that could not be delivered
+   * @param deadLetter - The undeliverable event and why it failed
+   * @returns Promise<WebhookDeadLetter> - The dead letter with its assigned ID
+   */
+  async appendDeadLetter(deadLetter: WebhookDeadLetter): Promise<WebhookDeadLetter> {
+    const stored = { ...deadLetter, id: this.deadLetters.length + 1 };
+    this.deadLetters.push(stored);
+    return stored;
+  }
+
+  /**
+   * Lists the undeliverable webhook events for a shipment and/or customer, most recent first
+   * @param query - The shipment ID, customer email and maximum number of records
+   * @returns Promise<WebhookDeadLetter[]> - The matching dead letters
+   */
+  async findDeadLetters(query: NotificationAuditQuery): Promise<WebhookDeadLetter[]> {
+    return filterRecords(this.deadLetters, { ...query, messageId: undefined });
+  }
+
+  /**
+   * Appends an email delivery event reported by SendGrid
+   * @param record - The delivery event and the shipment it belongs to
+   * @returns Promise<EmailDeliveryEventRecord> - The record with its assigned ID
+   */
+  async appendDeliveryEvent(record: EmailDeliveryEventRecord): Promise<EmailDeliveryEventRecord> {
+    const stored = { ...record, id: this.deliveryEvents.length + 1 };
+    this.deliveryEvents.push(stored);
+    return stored;
+  }
+
+  /**
+   * Lists the email delivery events for a shipment, customer and/or message, most recent first
+   * @param query - The shipment ID, customer email, message ID and maximum number of records
+   * @returns Promise<EmailDeliveryEventRecord[]> - The matching delivery events
+   */
+  async findDeliveryEvents(query: NotificationAuditQuery): Promise<EmailDeliveryEventRecord[]> {
+    return filterRecords(this.deliveryEvents, query);
+  }
+}
+
+/**
+ * Filters records by shipment, customer and message, most recent first
+ * @param records - The records in the order they were appended
+ * @param query - The shipment ID, customer email, message ID and maximum number of records
+ * @returns T[] - The matching records
+ */
+function filterRecords<T extends { shipmentId: string; customerEmail: string; messageId?: string }>(
+  records: T[],
+  query: NotificationAuditQuery
+): T[] {
+  const customerEmail = query.customerEmail?.toLowerCase();
+  const matching = records
+    .filter(record => !query.shipmentId || record.shipmentId === query.shipmentId)
+    .filter(record => !customerEmail || record.customerEmail.toLowerCase() === customerEmail)
+    .filter(record => !query.messageId || record.messageId === query.messageId)
+    .reverse();
+
+  return query.limit ? matching.slice(0, query.limit) : matching;
+}
@@ -0,0 +1,377 @@
+import Database from 'better-sqlite3';
+import {
+  EmailDeliveryEventRecord,
+  NotificationAuditQuery,
+  NotificationAuditRecord,
+  NotificationAuditStore,
+  WebhookDeadLetter,
+} from '../../types';
+import { getAuditConfig } from '../../config';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * SQLite notification audit store
+ * Sent notifications, undeliverable webhook events and email delivery events are kept in tables
+ * that triggers make append-only: updates and deletes are rejected by the database itself.
+ * The database is opened on first use, so importing the store has no side effects.
+ */
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS notification_audit (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    shipment_id TEXT NOT NULL,
+    workflow_id TEXT,
+    customer_email TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    channel TEXT NOT NULL,
+    kind TEXT NOT NULL,
+    subject TEXT NOT NULL,
+    body TEXT NOT NULL,
+    message_id TEXT,
+    traffic_data TEXT,
+    sent_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS notification_audit_shipment
+    ON notification_audit (shipment_id);
+  CREATE INDEX IF NOT EXISTS notification_audit_customer
+    ON notification_audit (customer_email COLLATE NOCASE);
+  CREATE TRIGGER IF NOT EXISTS notification_audit_no_update
+    BEFORE UPDATE ON notification_audit
+    BEGIN SELECT RAISE(ABORT, 'notification audit log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS notification_audit_no_delete
+    BEFORE DELETE ON notification_audit
+    BEGIN SELECT RAISE(ABORT, 'notification audit log is append-only'); END;
+
+  CREATE TABLE IF NOT EXISTS webhook_dead_letter (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    shipment_id TEXT NOT NULL,
+    customer_email TEXT NOT NULL,
+    url TEXT NOT NULL,
+    event_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    error TEXT NOT NULL,
+    failed_at TEXT NOT NULL
+  );
+  CREATE TRIGGER IF NOT EXISTS webhook_dead_letter_no_update
+    BEFORE UPDATE ON webhook_dead_letter
+    BEGIN SELECT RAISE(ABORT, 'notification audit log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS webhook_dead_letter_no_delete
+    BEFORE DELETE ON webhook_dead_letter
+    BEGIN SELECT RAISE(ABORT, 'notification audit log is append-only'); END;
+
+  CREATE TABLE IF NOT EXISTS email_delivery_event (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    shipment_id TEXT NOT NULL,
+    customer_email TEXT NOT NULL,
+    message_id TEXT NOT NULL,
+    event TEXT NOT NULL,
+    reason TEXT,
+    event_id TEXT,
+    occurred_at TEXT NOT NULL,
+    received_at TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS email_delivery_event_customer
+    ON email_delivery_event (customer_email COLLATE NOCASE);
+  CREATE INDEX IF NOT EXISTS email_delivery_event_message
+    ON email_delivery_event (message_id);
+  CREATE TRIGGER IF NOT EXISTS email_delivery_event_no_update
+    BEFORE UPDATE ON email_delivery_event
+    BEGIN SELECT RAISE(ABORT, 'notification audit log is append-only'); END;
+  CREATE TRIGGER IF NOT EXISTS email_delivery_event_no_delete
+    BEFORE DELETE ON email_delivery_event
+    BEGIN SELECT RAISE(ABORT, 'notification audit log is append-only'); END;
+`;
+
+// Shape of a row in the notification_audit table
+interface AuditRow {
+  id: number;
+  shipment_id: string;
+  workflow_id: string | null;
+  customer_email: string;
+  recipient: string;
+  channel: NotificationAuditRecord['channel'];
+  kind: NotificationAuditRecord['kind'];
+  subject: string;
+  body: string;
+  message_id: string | null;
+  traffic_data: string | null;
+  sent_at: string;
+}
+
+// Shape of a row in the webhook_dead_letter table
+interface DeadLetterRow {
+  id: number;
+  shipment_id: string;
+  customer_email: string;
+  url: string;
+  event_id: string;
+  payload: string;
+  error: string;
+  failed_at: string;
+}
+
+// Shape of a row in the email_delivery_event table
+interface DeliveryEventRow {
+  id: number;
+  shipment_id: string;
+  customer_email: string;
+  message_id: string;
+  event: EmailDeliveryEventRecord['event'];
+  reason: string | null;
+  event_id: string | null;
+  occurred_at: string;
+  received_at: string;
+}
+
+export class SqliteAuditStore implements NotificationAuditStore {
+  readonly name = 'sqlite' as const;
+  private databaseFile: string;
+  private database?: Database.Database;
+
+  constructor(databaseFile: string = getAuditConfig().databaseFile) {
+    this.databaseFile = databaseFile;
+  }
+
+  /**
+   * Appends a notification to the audit log
+   * @param record - The notification that was sent
+   * @returns Promise<NotificationAuditRecord> - The record with its assigned ID
+   */
+  async append(record: NotificationAuditRecord): Promise<NotificationAuditRecord> {
+    const result = this.getDatabase()
+      .prepare(
+        `INSERT INTO notification_audit (
+          shipment_id, workflow_id, customer_email, recipient, channel, kind, subject, body,
+          message_id, traffic_data, sent_at
+        ) VALUES (
+          @shipmentId, @workflowId, @customerEmail, @recipient, @channel, @kind, @subject, @body,
+          @messageId, @trafficData, @sentAt
+        )`
+      )
+      .run({
+        shipmentId: record.shipmentId,
+        workflowId: record.workflowId ?? null,
+        customerEmail: record.customerEmail,
+        recipient: record.recipient,
+        channel: record.channel,
+        kind: record.kind,
+        subject: record.subject,
+        body: record.body,
+        messageId: record.messageId ?? null,
+        trafficData: record.trafficData ? JSON.stringify(record.trafficData) : null,
+        sentAt: record.sentAt,
+      });
+
+    return { ...record, id: Number(result.lastInsertRowid) };
+  }
+
+  /**
+   * Lists the notifications for a shipment, customer and/or message, most recent first
+   * @param query - The shipment ID, customer email, message ID and maximum number of records
+   * @returns Promise<NotificationAuditRecord[]> - The matching records
+   */
+  async find(query: NotificationAuditQuery): Promise<NotificationAuditRecord[]> {
+    return (this.select('notification_audit', query) as AuditRow[]).map(toRecord);
+  }
+
+  /**
+   * Appends a webhook event that could not be delivered
+   * @param deadLetter - The undeliverable event and why it failed
+   * @returns Promise<WebhookDeadLetter> - The dead letter with its assigned ID
+   */
+  async appendDeadLetter(deadLetter: WebhookDeadLetter): Promise<WebhookDeadLetter> {
+    const result = this.getDatabase()
+      .prepare(
+        `INSERT INTO webhook_dead_letter (
+          shipment_id, customer_email, url, event_id, payload, error, failed_at
+        ) VALUES (
+          @shipmentId, @customerEmail, @url, @eventId, @payload, @error, @failedAt
+        )`
+      )
+      .run({
+        shipmentId: deadLetter.shipmentId,
+        customerEmail: deadLetter.customerEmail,
+        url: deadLetter.url,
+        eventId: deadLetter.eventId,
+        payload: deadLetter.payload,
+        error: deadLetter.error,
+        failedAt: deadLetter.failedAt,
+      });
+
+    return { ...deadLetter, id: Number(result.lastInsertRowid) };
+  }
+
+  /**
+   * Lists the undeliverable webhook events for a shipment and/or customer, most recent first
+   * @param query - The shipment ID, customer email and maximum number of records
+   * @returns Promise<WebhookDeadLetter[]> - The matching dead letters
+   */
+  async findDeadLetters(query: NotificationAuditQuery): Promise<WebhookDeadLetter[]> {
+    return (
+      this.select('webhook_dead_letter', { ...query, messageId: undefined }) as DeadLetterRow[]
+    ).map(toDeadLetter);
+  }
+
+  /**
+   * Appends an email delivery event reported by SendGrid
+   * @param record - The delivery event and the shipment it belongs to
+   * @returns Promise<EmailDeliveryEventRecord> - The record with its assigned ID
+   */
+  async appendDeliveryEvent(record: EmailDeliveryEventRecord): Promise<EmailDeliveryEventRecord> {
+    const result = this.getDatabase()
+      .prepare(
+        `INSERT INTO email_delivery_event (
+          shipment_id, customer_email, message_id, event, reason, event_id, occurred_at, received_at
+        ) VALUES (
+          @shipmentId, @customerEmail, @messageId, @event, @reason, @eventId, @occurredAt, @receivedAt
+        )`
+      )
+      .run({
+        shipmentId: record.shipmentId,
+        customerEmail: record.customerEmail,
+        messageId: record.messageId,
+        event: record.event,
+        reason: record.reason ?? null,
+        eventId: record.eventId ?? null,
+        occurredAt: record.occurredAt,
+        receivedAt: record.receivedAt,
+      });
+
+    return { ...record, id: Number(result.lastInsertRowid) };
+  }
+
+  /**
+   * Lists the email delivery events for a shipment, customer and/or message, most recent first
+   * @param query - The shipment ID, customer email, message ID and maximum number of records
+   * @returns Promise<EmailDeliveryEventRecord[]> - The matching delivery events
+   */
+  async findDeliveryEvents(query: NotificationAuditQuery): Promise<EmailDeliveryEventRecord[]> {
+    return (this.select('email_delivery_event', query) as DeliveryEventRow[]).map(toDeliveryEvent);
+  }
+
+  /**
+   * Closes the database; it is reopened on next use
+   */
+  close(): void {
+    this.database?.close();
+    this.database = undefined;
+  }
+
+  /**
+   * Selects the rows of a table matching a query, most recent first
+   * @param table - The table, which has shipment_id and customer_email columns
+   * @param query - The shipment ID, customer email, message ID and maximum number of rows
+   * @returns unknown[] - The matching rows
+   */
+  private select(table: string, query: NotificationAuditQuery): unknown[] {
+    const conditions: string[] = [];
+    const params: Record<string, string | number> = {};
+    if (query.shipmentId) {
+      conditions.push('shipment_id = @shipmentId');
+      params.shipmentId = query.shipmentId;
+    }
+    if (query.customerEmail) {
+      conditions.push('customer_email = @customerEmail COLLATE NOCASE');
+      params.customerEmail = query.customerEmail;
+    }
+    if (query.messageId) {
+      conditions.push('message_id = @messageId');
+      params.messageId = query.messageId;
+    }
+    if (query.limit) {
+      params.limit = query.limit;
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const limit = query.limit ? 'LIMIT @limit' : '';
+    return this.getDatabase()
+      .prepare(`SELECT * FROM ${table} ${where} ORDER BY id DESC ${limit}`)
+      .all(params);
+  }
+
+  private getDatabase(): Database.Database {
+    if (!this.database) {
+      this.database = new Database(this.databaseFile);
+      this.database.pragma('journal_mode = WAL');
+      this.database.exec(SCHEMA);
+      migrate(this.database);
+      console.log(`Opened notification audit log at ${this.databaseFile}`);
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Upgrades audit logs created by earlier versions
+ * Notifications recorded before workflow IDs were kept have no workflow_id; their shipment_id
+ * holds the workflow ID instead
+ * @param database - The open database
+ */
+function migrate(database: Database.Database): void {
+  const columns = database.pragma('table_info(notification_audit)') as { name: string }[];
+  if (!columns.some(column => column.name === 'workflow_id')) {
+    database.exec('ALTER TABLE notification_audit ADD COLUMN workflow_id TEXT');
+  }
+}
+
+/**
+ * Maps a database row to an audit record
+ * @param row - The notification_audit row
+ * @returns NotificationAuditRecord - The audit record
+ */
+function toRecord(row: AuditRow): NotificationAuditRecord {
+  return {
+    id: row.id,
+    shipmentId: row.shipment_id,
+    workflowId: row.workflow_id ?? undefined,
+    customerEmail: row.customer_email,
+    recipient: row.recipient,
+    channel: row.channel,
+    kind: row.kind,
+    subject: row.subject,
+    body: row.body,
+    messageId: row.message_id ?? undefined,
+    trafficData: row.traffic_data ? JSON.parse(row.traffic_data) : undefined,
+    sentAt: row.sent_at,
+  };
+}
+
+/**
+ * Maps a database row to a dead letter
+ * @param row - The webhook_dead_letter row
+ * @returns WebhookDeadLetter - The dead letter
+ */
+function toDeadLetter(row: DeadLetterRow): WebhookDeadLetter {
+  return {
+    id: row.id,
+    shipmentId: row.shipment_id,
+    customerEmail: row.customer_email,
+    url: row.url,
+    eventId: row.event_id,
+    payload: row.payload,
+    error: row.error,
+    failedAt: row.failed_at,
+  };
+}
+
+/**
+ * Maps a database row to a delivery event record
+ * @param row - The email_delivery_event row
+ * @returns EmailDeliveryEventRecord - The delivery event record
+ */
+function toDeliveryEvent(row: DeliveryEventRow): EmailDeliveryEventRecord {
+  return {
+    id: row.id,
+    shipmentId: row.shipment_id,
+    customerEmail: row.customer_email,
+    email: row.customer_email,
+    messageId: row.message_id,
+    event: row.event,
+    reason: row.reason ?? undefined,
+    eventId: row.event_id ?? undefined,
+    occurredAt: row.occurred_at,
+    receivedAt: row.received_at,
+  };
+}
@@ -0,0 +1,255 @@
+import { createPublicKey, verify } from 'crypto';
+import {
+  DeliveryEventBatchResult,
+  EmailDeliveryEvent,
+  EmailEventType,
+  EmailSuppression,
+  SendGridEvent,
+} from '../types';
+import { getDeliveryEventConfig } from '../config';
+import { AuditLogService } from './auditLogService';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * Email delivery event service
+ * Handles SendGrid event webhook batches: each delivery event is recorded in the audit log,
+ * correlated to the workflow that sent the email by its message ID and signaled to it, so a
+ * bounced email makes the workflow try the recipient's next channel. Addresses with repeated
+ * hard bounces or a spam report are suppressed and no longer emailed.
+ *
+ * Signature headers (Signed Event Webhook): X-Twilio-Email-Event-Webhook-Signature (base64
+ * ECDSA signature of "<timestamp><body>") and X-Twilio-Email-Event-Webhook-Timestamp
+ */
+
+interface DeliveryEventConfig {
+  suppressionBounces: number;
+}
+
+// Signals a delivery event to a running workflow; rejects when the workflow is not running
+export type DeliveryEventSignaler = (
+  workflowId: string,
+  event: EmailDeliveryEvent
+) => Promise<void>;
+
+export const SENDGRID_SIGNATURE_HEADER = 'X-Twilio-Email-Event-Webhook-Signature';
+
+export const SENDGRID_TIMESTAMP_HEADER = 'X-Twilio-Email-Event-Webhook-Timestamp';
+
+const EMAIL_EVENT_TYPES: EmailEventType[] = ['delivered', 'bounce', 'dropped', 'spamreport'];
+
+export class DeliveryEventService {
+  private auditLogService: AuditLogService;
+  private suppressionBounces: number;
+
+  constructor(
+    auditLogService: AuditLogService = new AuditLogService(),
+    config: DeliveryEventConfig = getDeliveryEventConfig()
+  ) {
+    this.auditLogService = auditLogService;
+    this.suppressionBounces = config.suppressionBounces;
+  }
+
+  /**
+   * Handles a SendGrid event webhook batch
+   * Events SendGrid retries are recognized by their event ID and handled once
+   * @param events - The events of the batch
+   * @param signal - Signals a delivery event to the workflow that sent the email
+   * @returns Promise<DeliveryEventBatchResult> - What happened to the batch's events
+   */
+  async handleBatch(
+    events: SendGridEvent[],
+    signal: DeliveryEventSignaler
+  ): Promise<DeliveryEventBatchResult> {
+    const result: DeliveryEventBatchResult = {
+      received: events.length,
+      signaled: 0,
+      unmatched: 0,
+      ignored: 0,
+      duplicates: 0,
+      suppressed: [],
+    };
+
+    for (const event of events) {
+      const deliveryEvent = toDeliveryEvent(event);
+      if (!deliveryEvent) {
+        result.ignored++;
+        continue;
+      }
+      if (await this.isDuplicate(deliveryEvent.messageId, event.sg_event_id)) {
+        result.duplicates++;
+        continue;
+      }
+
+      const [notification] = await this.auditLogService.findNotifications({
+        messageId: deliveryEvent.messageId,
+        limit: 1,
+      });
+      // Notifications recorded before workflow IDs were kept have the workflow ID as shipment ID
+      const workflowId =
+        notification?.workflowId || event.correlationId || notification?.shipmentId;
+
+      await this.auditLogService.recordDeliveryEvent({
+        ...deliveryEvent,
+        shipmentId: notification?.shipmentId || workflowId || 'unknown',
+        customerEmail: deliveryEvent.email,
+        eventId: event.sg_event_id,
+        receivedAt: new Date().toISOString(),
+      });
+
+      if (await this.signalWorkflow(workflowId, deliveryEvent, signal)) {
+        result.signaled++;
+      } else {
+        result.unmatched++;
+      }
+
+      if (deliveryEvent.event === 'bounce' || deliveryEvent.event === 'spamreport') {
+        const suppression = await this.getSuppression(deliveryEvent.email);
+        if (suppression && !result.suppressed.includes(suppression.email)) {
+          console.log(`Suppressing ${suppression.email}: ${suppression.reason}`);
+          result.suppressed.push(suppression.email);
+        }
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks whether an address is suppressed
+   * A spam report suppresses the address right away; hard bounces do once they reach the
+   * configured number. Soft bounces (blocked) and drops do not count
+   * @param email - The email address
+   * @returns Promise<EmailSuppression | undefined> - Why the address is suppressed, undefined when it is not
+   */
+  async getSuppression(email: string): Promise<EmailSuppression | undefined> {
+    const events = await this.auditLogService.findDeliveryEvents({ customerEmail: email });
+
+    const spamReport = events.find(event => event.event === 'spamreport');
+    if (spamReport) {
+      return { email: email.toLowerCase(), reason: 'marked as spam', since: spamReport.occurredAt };
+    }
+
+    const bounces = events.filter(event => event.event === 'bounce');
+    if (bounces.length >= this.suppressionBounces) {
+      const [latest] = bounces;
+      return {
+        email: email.toLowerCase(),
+        reason: `${bounces.length} hard bounces${latest.reason ? `, last: ${latest.reason}` : ''}`,
+        since: latest.occurredAt,
+      };
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Checks whether an event was already received in an earlier batch
+   * @param messageId - The email's message ID
+   * @param eventId - SendGrid's event ID
+   * @returns Promise<boolean> - Whether the event was already handled
+   */
+  private async isDuplicate(messageId: string, eventId?: string): Promise<boolean> {
+    if (!eventId) {
+      return false;
+    }
+    const events = await this.auditLogService.findDeliveryEvents({ messageId });
+    return events.some(event => event.eventId === eventId);
+  }
+
+  /**
+   * Signals a delivery event to the workflow that sent the email
+   * @param workflowId - The workflow ID, undefined when the email could not be correlated
+   * @param event - The delivery event
+   * @param signal - Signals the workflow
+   * @returns Promise<boolean> - Whether a running workflow was signaled
+   */
+  private async signalWorkflow(
+    workflowId: string | undefined,
+    event: EmailDeliveryEvent,
+    signal: DeliveryEventSignaler
+  ): Promise<boolean> {
+    if (!workflowId) {
+      console.log(`No workflow found for ${event.event} event of message ${event.messageId}`);
+      return false;
+    }
+
+    try {
+      await signal(workflowId, event);
+      console.log(`Signaled ${event.event} event of message ${event.messageId} to ${workflowId}`);
+      return true;
+    } catch (error) {
+      console.log(
+        `Could not signal ${event.event} event to ${workflowId}:`,
+        error instanceof Error ? error.message : error
+      );
+      return false;
+    }
+  }
+}
+
+/**
+ * Verifies the signature of a SendGrid event webhook batch
+ * Batches signed too long ago are rejected, so a captured batch cannot be replayed
+ * @param payload - The raw JSON body as received
+ * @param signature - The base64 signature header value
+ * @param timestamp - The timestamp header value, in Unix seconds
+ * @param publicKey - The verification key from SendGrid's settings, base64 or PEM
+ * @param toleranceSeconds - Maximum age of the signature
+ * @param now - Current time in epoch milliseconds
+ * @returns boolean - Whether the batch was signed by SendGrid and is recent
+ */
+export function verifySendGridSignature(
+  payload: string,
+  signature: string,
+  timestamp: string,
+  publicKey: string,
+  toleranceSeconds = 300,
+  now: number = Date.now()
+): boolean {
+  const signedAt = /^\d+$/.test(timestamp.trim()) ? Number(timestamp) : NaN;
+  if (isNaN(signedAt) || Math.abs(now / 1000 - signedAt) > toleranceSeconds) {
+    return false;
+  }
+
+  try {
+    const key = publicKey.includes('BEGIN PUBLIC KEY')
+      ? createPublicKey(publicKey)
+      : createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+    return verify(
+      'sha256',
+      Buffer.from(`${timestamp}${payload}`),
+      key,
+      Buffer.from(signature, 'base64')
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Maps a SendGrid event to a delivery event
+ * Bounces SendGrid reports as "blocked" are soft bounces
+ * @param event - The SendGrid event
+ * @returns EmailDeliveryEvent | undefined - The delivery event, undefined for events that do not affect delivery
+ */
+function toDeliveryEvent(event: SendGridEvent): EmailDeliveryEvent | undefined {
+  const messageId = event.sg_message_id?.split('.')[0];
+  if (!messageId || !event.email || !EMAIL_EVENT_TYPES.includes(event.event as EmailEventType)) {
+    return undefined;
+  }
+
+  return {
+    messageId,
+    email: event.email,
+    event:
+      event.event === 'bounce' && event.type === 'blocked'
+        ? 'blocked'
+        : (event.event as EmailEventType),
+    reason: event.reason,
+    occurredAt: Number.isFinite(event.timestamp)
+      ? new Date(event.timestamp * 1000).toISOString()
+      : new Date().toISOString(),
+  };
+}
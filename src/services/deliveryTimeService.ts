@@ -0,0 +1,213 @@
+import { DeliveryEta, QuietHours, TimeOfDayWindow, TrafficData } from '../types';
+
+/**
+ * Delivery Time Service
+ * Computes arrival times in the local time zone of a stop and checks customer quiet hours and
+ * other local time of day windows
+ */
+
+// Time zone of each US state (and DC), keyed by the postal code used in "City, ST" locations
+// States spanning two zones use the zone most of their population lives in
+const US_STATE_TIME_ZONES: Record<string, string> = {
+  AL: 'America/Chicago',
+  AK: 'America/Anchorage',
+  AZ: 'America/Phoenix',
+  AR: 'America/Chicago',
+  CA: 'America/Los_Angeles',
+  CO: 'America/Denver',
+  CT: 'America/New_York',
+  DC: 'America/New_York',
+  DE: 'America/New_York',
+  FL: 'America/New_York',
+  GA: 'America/New_York',
+  HI: 'Pacific/Honolulu',
+  IA: 'America/Chicago',
+  ID: 'America/Boise',
+  IL: 'America/Chicago',
+  IN: 'America/Indiana/Indianapolis',
+  KS: 'America/Chicago',
+  KY: 'America/New_York',
+  LA: 'America/Chicago',
+  MA: 'America/New_York',
+  MD: 'America/New_York',
+  ME: 'America/New_York',
+  MI: 'America/Detroit',
+  MN: 'America/Chicago',
+  MO: 'America/Chicago',
+  MS: 'America/Chicago',
+  MT: 'America/Denver',
+  NC: 'America/New_York',
+  ND: 'America/Chicago',
+  NE: 'America/Chicago',
+  NH: 'America/New_York',
+  NJ: 'America/New_York',
+  NM: 'America/Denver',
+  NV: 'America/Los_Angeles',
+  NY: 'America/New_York',
+  OH: 'America/New_York',
+  OK: 'America/Chicago',
+  OR: 'America/Los_Angeles',
+  PA: 'America/New_York',
+  RI: 'America/New_York',
+  SC: 'America/New_York',
+  SD: 'America/Chicago',
+  TN: 'America/Chicago',
+  TX: 'America/Chicago',
+  UT: 'America/Denver',
+  VA: 'America/New_York',
+  VT: 'America/New_York',
+  WA: 'America/Los_Angeles',
+  WI: 'America/Chicago',
+  WV: 'America/New_York',
+  WY: 'America/Denver',
+};
+
+const DEFAULT_TIME_ZONE = 'UTC';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export class DeliveryTimeService {
+  /**
+   * Resolves the IANA time zone of a location
+   * An explicit time zone wins; otherwise it is inferred from the US state code of
+   * "City, ST" locations, falling back to UTC
+   * @param location - The location, e.g. "New York, NY"
+   * @param timeZone - Optional explicit IANA time zone
+   * @returns string - A valid IANA time zone
+   */
+  resolveTimeZone(location: string, timeZone?: string): string {
+    if (timeZone && this.isValidTimeZone(timeZone)) {
+      return timeZone;
+    }
+
+    const stateCode = location.split(',').pop()?.trim().toUpperCase() || '';
+    return US_STATE_TIME_ZONES[stateCode] || DEFAULT_TIME_ZONE;
+  }
+
+  /**
+   * Calculates the new estimated arrival at the route's destination
+   * With a planned arrival time the delay is added to it; otherwise the shipment is assumed
+   * to be leaving the origin now and arrives after the current travel duration
+   * @param trafficData - The traffic data up to the destination
+   * @param expectedArrivalTime - Optional ISO 8601 planned arrival time
+   * @param timeZone - Optional IANA time zone of the destination
+   * @param now - Current time
+   * @returns DeliveryEta - The new arrival time and the destination's time zone
+   */
+  calculateEta(
+    trafficData: TrafficData,
+    expectedArrivalTime?: string,
+    timeZone?: string,
+    now: Date = new Date()
+  ): DeliveryEta {
+    const plannedArrival = expectedArrivalTime ? Date.parse(expectedArrivalTime) : NaN;
+    const arrival = isNaN(plannedArrival)
+      ? now.getTime() + trafficData.currentDurationMinutes * 60 * 1000
+      : plannedArrival + trafficData.estimatedDelayMinutes * 60 * 1000;
+
+    return {
+      arrivalTime: new Date(arrival).toISOString(),
+      timeZone: this.resolveTimeZone(trafficData.route.destination, timeZone),
+    };
+  }
+
+  /**
+   * Calculates how long a notification must be held for the customer's quiet hours
+   * Delays at or above the quiet hours' urgent threshold are never held
+   * @param quietHours - The customer's quiet hours
+   * @param timeZone - Time zone used when the quiet hours do not set one
+   * @param delayMinutes - The delay being notified
+   * @param now - Current time
+   * @returns number - Minutes until the quiet hours end, 0 when the notification can be sent
+   */
+  getQuietHoursHoldMinutes(
+    quietHours: QuietHours,
+    timeZone: string,
+    delayMinutes: number,
+    now: Date = new Date()
+  ): number {
+    if (
+      quietHours.urgentDelayMinutes !== undefined &&
+      delayMinutes >= quietHours.urgentDelayMinutes
+    ) {
+      return 0;
+    }
+
+    const zone =
+      quietHours.timeZone && this.isValidTimeZone(quietHours.timeZone)
+        ? quietHours.timeZone
+        : timeZone;
+    if (!this.isWithinTimeOfDay(quietHours, zone, now)) {
+      return 0;
+    }
+
+    const end = parseTimeOfDay(quietHours.end) as number;
+    return (end - this.getLocalMinutes(now, zone) + MINUTES_PER_DAY) % MINUTES_PER_DAY;
+  }
+
+  /**
+   * Checks whether the local time falls within a time of day window
+   * @param window - The window; its end is exclusive and may be before its start
+   * @param timeZone - IANA time zone the window is in
+   * @param now - Current time
+   * @returns boolean - Whether the local time is inside the window, false for invalid windows
+   */
+  isWithinTimeOfDay(window: TimeOfDayWindow, timeZone: string, now: Date = new Date()): boolean {
+    const start = parseTimeOfDay(window.start);
+    const end = parseTimeOfDay(window.end);
+    if (start === undefined || end === undefined || start === end) {
+      return false;
+    }
+
+    const localTime = this.getLocalMinutes(now, timeZone);
+    return start < end
+      ? localTime >= start && localTime < end
+      : localTime >= start || localTime < end; // Window spans midnight, e.g. 22:00-07:00
+  }
+
+  /**
+   * Minutes since local midnight in a time zone, including seconds
+   * @param date - The date
+   * @param timeZone - IANA time zone
+   * @returns number - Local time of day in minutes
+   */
+  private getLocalMinutes(date: Date, timeZone: string): number {
+    const parts = new Intl.DateTimeFormat('en-US', {
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      hourCycle: 'h23',
+      timeZone,
+    }).formatToParts(date);
+    const part = (type: string) => Number(parts.find(p => p.type === type)?.value || 0);
+
+    return part('hour') * 60 + part('minute') + part('second') / 60;
+  }
+
+  /**
+   * Checks whether Intl knows a time zone
+   * @param timeZone - IANA time zone
+   * @returns boolean - Whether the time zone is valid
+   */
+  private isValidTimeZone(timeZone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
+
+/**
+ * Parses an "HH:mm" time of day
+ * @param time - The time of day, e.g. "22:00"
+ * @returns number | undefined - Minutes since midnight, or undefined when invalid
+ */
+function parseTimeOfDay(time: string): number | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    return undefined;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
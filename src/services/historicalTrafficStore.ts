@@ -0,0 +1,133 @@
+import fs from 'fs';
+import { DeliveryRoute, TrafficData } from '../types';
+import { buildTrafficData } from './trafficProviders/providerUtils';
+import { getTenantLaneKey } from './trafficCache';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * Historical traffic baselines per tenant, lane and hour of the week
+ * Tenants only get baselines built from their own providers' answers. Live observations are
+ * folded into running averages; the store can be persisted to (and seeded from) a JSON file so
+ * baselines survive worker restarts.
+ */
+
+interface LegAverage {
+  normalDurationMinutes: number;
+  currentDurationMinutes: number;
+}
+
+interface Baseline {
+  samples: number;
+  provider: TrafficData['provider']; // Provider of the latest observation
+  legs: LegAverage[];
+}
+
+// tenant lane key -> hour of week (0-167, UTC) -> baseline
+type BaselineData = Record<string, Record<string, Baseline>>;
+
+const MAX_HISTORICAL_CONFIDENCE = 0.75;
+
+export class HistoricalTrafficStore {
+  private baselines: BaselineData = {};
+  private filePath?: string;
+
+  constructor(filePath?: string) {
+    this.filePath = filePath;
+    if (filePath && fs.existsSync(filePath)) {
+      this.baselines = JSON.parse(fs.readFileSync(filePath, 'utf8'));
+      console.log(`Loaded historical traffic baselines from ${filePath}`);
+    }
+  }
+
+  /**
+   * Folds a live observation into the baseline for its lane and hour of the week
+   * Durations are averaged per leg so baselines keep the per-leg breakdown
+   * @param trafficData - Live traffic data
+   * @param tenantId - Optional tenant whose providers answered
+   * @param at - Time of the observation
+   */
+  record(trafficData: TrafficData, tenantId?: string, at: Date = new Date()): void {
+    if (trafficData.legs.length === 0) {
+      return;
+    }
+
+    const lane = (this.baselines[getTenantLaneKey(trafficData.route, tenantId)] ??= {});
+    const hour = String(getHourOfWeek(at));
+    const previous = lane[hour];
+    // A different leg count means the lane's stops changed; start a fresh baseline
+    const baseline =
+      previous && previous.legs.length === trafficData.legs.length ? previous : undefined;
+
+    const samples = (baseline?.samples ?? 0) + 1;
+    lane[hour] = {
+      samples,
+      provider: trafficData.provider,
+      legs: trafficData.legs.map((leg, index) => {
+        const average = baseline?.legs[index] ?? leg;
+        return {
+          normalDurationMinutes:
+            average.normalDurationMinutes +
+            (leg.normalDurationMinutes - average.normalDurationMinutes) / samples,
+          currentDurationMinutes:
+            average.currentDurationMinutes +
+            (leg.currentDurationMinutes - average.currentDurationMinutes) / samples,
+        };
+      }),
+    };
+
+    this.persist();
+  }
+
+  /**
+   * Returns the historical baseline for a route at a given time
+   * Confidence grows with the number of samples, capped below live data
+   * @param route - The delivery route
+   * @param tenantId - Optional tenant the data is for
+   * @param at - The time to look up
+   * @returns TrafficData | undefined - Baseline data marked with source 'historical'
+   */
+  getBaseline(
+    route: DeliveryRoute,
+    tenantId?: string,
+    at: Date = new Date()
+  ): TrafficData | undefined {
+    const lane = this.baselines[getTenantLaneKey(route, tenantId)];
+    const baseline = lane?.[String(getHourOfWeek(at))];
+    if (!baseline || baseline.samples === 0) {
+      return undefined;
+    }
+
+    const legDurations = baseline.legs.map(leg => ({
+      normalSeconds: leg.normalDurationMinutes * 60,
+      currentSeconds: leg.currentDurationMinutes * 60,
+    }));
+
+    return {
+      ...buildTrafficData(route, baseline.provider, legDurations),
+      source: 'historical',
+      confidence: Math.min(MAX_HISTORICAL_CONFIDENCE, 0.4 + 0.05 * baseline.samples),
+    };
+  }
+
+  private persist(): void {
+    if (!this.filePath) {
+      return;
+    }
+    try {
+      fs.writeFileSync(this.filePath, JSON.stringify(this.baselines, null, 2));
+    } catch (error) {
+      console.error('Failed to persist historical traffic baselines:', error);
+    }
+  }
+}
+
+/**
+ * Hour of the week in UTC, Sunday 00:00 being hour 0
+ * @param date - The date
+ * @returns number - Hour of the week (0-167)
+ */
+export function getHourOfWeek(date: Date): number {
+  return date.getUTCDay() * 24 + date.getUTCHours();
+}
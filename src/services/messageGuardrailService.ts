@@ -0,0 +1,206 @@
+import { AIMessageRequest, MessageValidationResult } from '../types';
+import { getGuardrailConfig } from '../config';
+
+/**
+ * Message Guardrail Service
+ * Validates AI-generated delay messages before they are sent to customers:
+ * - the message states the correct delay, origin and destination
+ * - the message stays within the configured length limits
+ * - the message makes no promises the company has not authorized
+ * - the message contains no leftover prompt text or placeholders
+ */
+
+interface GuardrailConfig {
+  minLength: number;
+  maxLength: number;
+}
+
+// Declining to commit ("we cannot guarantee", "no podemos prometer") is not a commitment: a
+// negation up to one word before the term clears it
+const NEGATIONS = String.raw`not|cannot|can['’]t|never|no|nor|nicht|keine?|pas|ne|ni|nu|nunca`;
+const NOT_NEGATED = String.raw`(?<!\b(?:${NEGATIONS})\s+(?:[\p{L}'’]+\s+)?)`;
+
+// Commitments only customer service may make (refunds, compensation, guaranteed times)
+// Patterns cover the supported languages: English, German, French, Spanish and Romanian
+const UNAUTHORIZED_PROMISES: { pattern: RegExp; description: string }[] = [
+  { pattern: /\b(refund|rückerstatt|erstatt|rembours|reembols|ramburs)/i, description: 'refund' },
+  {
+    pattern: /\b(compens|reimburs|entschädig|kompensat|indemni|despăgub)/i,
+    description: 'compensation',
+  },
+  {
+    pattern: new RegExp(
+      [
+        String.raw`\b(discount|voucher|coupon|free of charge)`, // en, ro
+        String.raw`\b(rabatt|gutschein|kostenlos)`, // de
+        String.raw`\b(bon|code) de réduction|\brabais|\bbon d['’]achat|\bgratuit`, // fr, ro
+        String.raw`\b(descuento|cupón|gratis|sin (coste|costo))`, // es, de
+        String.raw`\b(cupon|reducere de preț|fără cost)`, // ro
+      ].join('|'),
+      'iu'
+    ),
+    description: 'discount',
+  },
+  {
+    pattern: new RegExp(`${NOT_NEGATED}\\b(guarantee|garant)`, 'iu'),
+    description: 'guarantee',
+  },
+  {
+    // promise, versprechen, promettre, prometer, a promite
+    pattern: new RegExp(`${NOT_NEGATED}\\b(promise\\b|versprech|promet|promit)`, 'iu'),
+    description: 'promise',
+  },
+  {
+    pattern: new RegExp(
+      [
+        String.raw`\bwill (arrive|be delivered) (by|at|before) \d`,
+        String.raw`\b(wird|werden) (bis|um|vor) \d[^.]{0,30}` +
+          String.raw`\b(ankommen|eintreffen|geliefert|zugestellt)`,
+        String.raw`(?<!(devrait|devraient|pourrait|pourraient) être )` +
+          String.raw`\blivrée?s? (avant|d['’]ici|au plus tard à) \d`,
+        String.raw`\barrivera (avant|à|d['’]ici) \d`,
+        String.raw`\b(llegará|será entregad[oa]) (antes de las|a las|para las) \d`,
+        String.raw`\b(va ajunge|va fi livrat[ăa]?) (până la|înainte de|la) (ora )?\d`,
+      ].join('|'),
+      'iu'
+    ),
+    description: 'guaranteed delivery time',
+  },
+];
+
+// Prompt instructions, template placeholders and assistant chatter that must not reach customers
+// The prompt's section headers only count on a line of their own, not e.g. "Shipment details:"
+const PROMPT_LEFTOVERS: RegExp[] = [
+  /^[ \t]*(details|requirements):[ \t]*$/im,
+  /^\s*- (delivery route|estimated delay|new estimated arrival|reason for delay|route segments):/im,
+  /generate only the message/i,
+  /you are a (friendly|helpful) customer service assistant/i,
+  /\bas an ai\b/i,
+  /\[[a-z ]*(name|company|date|time)[a-z ]*\]/i,
+  /\{\{|\}\}|\$\{/,
+];
+
+// A number of minutes; digits may be grouped by thousands with ",", ".", "'", "’" or a
+// (narrow) no-break space, as Intl formats them in the supported locales
+const DELAY_PATTERN = /\b(\d{1,3}(?:[,.'’\u00a0\u202f]\d{3})+|\d+)\s*(?:-\s*)?(?:de\s+)?min\w*/gi;
+
+export class MessageGuardrailService {
+  private minLength: number;
+  private maxLength: number;
+
+  constructor(config: GuardrailConfig = getGuardrailConfig()) {
+    this.minLength = config.minLength;
+    this.maxLength = config.maxLength;
+  }
+
+  /**
+   * Validates an AI-generated message against the request it was generated for
+   * @param message - The generated message
+   * @param request - The AI message request with the delay and route
+   * @returns MessageValidationResult - Whether the message may be sent, and why not
+   */
+  validateMessage(message: string, request: AIMessageRequest): MessageValidationResult {
+    const reasons = [
+      ...this.checkLength(message),
+      ...this.checkDelay(message, request),
+      ...this.checkRoute(message, request),
+      ...this.checkPromises(message),
+      ...this.checkPromptLeftovers(message),
+    ];
+
+    return { valid: reasons.length === 0, reasons };
+  }
+
+  /**
+   * Checks the message against the configured length limits
+   * @param message - The generated message
+   * @returns string[] - Rejection reasons
+   */
+  private checkLength(message: string): string[] {
+    const length = message.trim().length;
+    if (length < this.minLength) {
+      return [`Message is too short (${length} characters, minimum ${this.minLength})`];
+    }
+    if (length > this.maxLength) {
+      return [`Message is too long (${length} characters, maximum ${this.maxLength})`];
+    }
+    return [];
+  }
+
+  /**
+   * Checks that the delay is stated and no other delay in minutes is mentioned
+   * Delays of individual legs may be mentioned when explaining which segment is delayed
+   * @param message - The generated message
+   * @param request - The AI message request
+   * @returns string[] - Rejection reasons
+   */
+  private checkDelay(message: string, request: AIMessageRequest): string[] {
+    const { delayMinutes } = request;
+    // Matches "45 minutes", "45-minute", "45 Minuten", "45 minutos" and "45 de minute", with
+    // the locale's grouping separators in long delays ("1,250 minutes", "1.250 Minuten")
+    const statedDelays = [...message.matchAll(DELAY_PATTERN)].map(match =>
+      parseInt(match[1].replace(/\D/g, ''))
+    );
+
+    if (!statedDelays.includes(delayMinutes)) {
+      return [`Message does not state the delay of ${delayMinutes} minutes`];
+    }
+
+    const legDelays = (request.legs || []).map(leg => leg.delayMinutes);
+    const otherDelays = statedDelays.filter(
+      minutes => minutes !== delayMinutes && !legDelays.includes(minutes)
+    );
+    if (otherDelays.length > 0) {
+      return [
+        `Message states a different delay (${otherDelays.join(', ')} minutes) than ${delayMinutes} minutes`,
+      ];
+    }
+    return [];
+  }
+
+  /**
+   * Checks that origin and destination are mentioned; the city is enough ("Denver" for "Denver, CO")
+   * @param message - The generated message
+   * @param request - The AI message request
+   * @returns string[] - Rejection reasons
+   */
+  private checkRoute(message: string, request: AIMessageRequest): string[] {
+    const text = message.toLowerCase();
+    const reasons: string[] = [];
+
+    for (const [label, stop] of [
+      ['origin', request.route.origin],
+      ['destination', request.route.destination],
+    ]) {
+      const city = stop.split(',')[0].trim().toLowerCase();
+      if (!text.includes(city)) {
+        reasons.push(`Message does not mention the ${label} (${stop})`);
+      }
+    }
+    return reasons;
+  }
+
+  /**
+   * Checks for refunds, compensation, guaranteed times and other unauthorized promises
+   * @param message - The generated message
+   * @returns string[] - Rejection reasons
+   */
+  private checkPromises(message: string): string[] {
+    return UNAUTHORIZED_PROMISES.filter(({ pattern }) => pattern.test(message)).map(
+      ({ description }) => `Message makes an unauthorized commitment (${description})`
+    );
+  }
+
+  /**
+   * Checks for prompt instructions and template placeholders copied into the message
+   * @param message - The generated message
+   * @returns string[] - Rejection reasons
+   */
+  private checkPromptLeftovers(message: string): string[] {
+    const leftovers = PROMPT_LEFTOVERS.map(pattern => pattern.exec(message)).filter(
+      (match): match is RegExpExecArray => match !== null
+    );
+
+    return leftovers.map(match => `Message contains leftover prompt text ("${match[0].trim()}")`);
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  NotificationRule,
+  NotificationRuleConditions,
+  NotificationRuleContext,
+  NotificationRuleDecision,
+  NotificationRuleSource,
+  TrafficData,
+} from '../types';
+import { getNotificationRuleConfig } from '../config';
+import { DeliveryTimeService } from './deliveryTimeService';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * Notification rules
+ * Decides whether a delay is worth notifying from declarative rules instead of a single minute
+ * threshold. A rule lists conditions (delay in minutes or as a percentage of the normal
+ * duration, a missed delivery appointment, traffic condition, customer tier and local time of
+ * day at the destination) and whether a matching delay is notified or suppressed.
+ *
+ * The customer's own rules are evaluated first, then the tenant's; the first rule whose
+ * conditions all hold decides. Without a matching rule the delay threshold decides, as before.
+ * Every decision names the rule behind it and explains why, so workflows can report it.
+ *
+ * A delay a rule suppresses has not necessarily cleared: the decision separately tells whether
+ * the delay is within the threshold and below the minimum delay of every notifying rule, which
+ * is what the "back on schedule" follow-up waits for.
+ */
+
+interface NotificationRuleConfig {
+  customerRules: Record<string, NotificationRule[]>; // By lowercased customer email
+  tenantRules: Record<string, NotificationRule[]>; // By tenant ID
+}
+
+// Name reported when no rule matched and the delay threshold decided
+const THRESHOLD_RULE = 'delay-threshold';
+
+export class NotificationRuleService {
+  private customerRules: Record<string, NotificationRule[]>;
+  private tenantRules: Record<string, NotificationRule[]>;
+  private deliveryTimeService: DeliveryTimeService;
+
+  constructor(
+    config: NotificationRuleConfig = getNotificationRuleConfig(),
+    deliveryTimeService: DeliveryTimeService = new DeliveryTimeService()
+  ) {
+    this.customerRules = config.customerRules;
+    this.tenantRules = config.tenantRules;
+    this.deliveryTimeService = deliveryTimeService;
+  }
+
+  /**
+   * Decides whether a delay should be notified
+   * @param trafficData - The traffic data behind the delay
+   * @param context - The customer, tenant, appointment and threshold the delay is checked against
+   * @param now - Current time
+   * @returns NotificationRuleDecision - Whether to notify, the deciding rule and why
+   */
+  evaluate(
+    trafficData: TrafficData,
+    context: NotificationRuleContext,
+    now: Date = new Date()
+  ): NotificationRuleDecision {
+    const candidates: { rule: NotificationRule; source: NotificationRuleSource }[] = [
+      ...(this.customerRules[context.customerEmail.trim().toLowerCase()] || []).map(rule => ({
+        rule,
+        source: 'customer' as const,
+      })),
+      ...((context.tenantId && this.tenantRules[context.tenantId]) || []).map(rule => ({
+        rule,
+        source: 'tenant' as const,
+      })),
+    ];
+
+    const delayCleared = this.isDelayCleared(
+      trafficData,
+      context,
+      candidates.map(candidate => candidate.rule)
+    );
+
+    for (const { rule, source } of candidates) {
+      const reasons = this.matchConditions(rule.when, trafficData, context, now);
+      if (!reasons) {
+        continue;
+      }
+
+      const owner =
+        source === 'customer' ? `customer ${context.customerEmail}` : `tenant ${context.tenantId}`;
+      const explanation = `Rule "${rule.name}" of ${owner} ${rule.notify ? 'notifies' : 'suppresses'} the delay: ${reasons.length > 0 ? reasons.join(', ') : 'it matches every delay'}`;
+      console.log(explanation);
+      return { notify: rule.notify, rule: rule.name, source, explanation, delayCleared };
+    }
+
+    const delayMinutes = trafficData.estimatedDelayMinutes;
+    const notify = delayMinutes > context.thresholdMinutes;
+    const explanation = `Delay of ${delayMinutes} minutes ${notify ? 'exceeds' : 'is below'} threshold of ${context.thresholdMinutes} minutes`;
+    console.log(`No notification rule matched. ${explanation}`);
+    return { notify, rule: THRESHOLD_RULE, source: 'threshold', explanation, delayCleared };
+  }
+
+  /**
+   * Checks whether a delay has cleared: it is within the threshold and below the minimum delay
+   * of every notifying rule, so no rule could have notified it for its size
+   * Notifying rules without a minimum delay (e.g. only a time of day) set no bound here; the
+   * notification state compares the delay with the one that was notified instead
+   * @param trafficData - The traffic data behind the delay
+   * @param context - The rule context
+   * @param rules - The customer's and tenant's rules
+   * @returns boolean - True if the delay has cleared
+   */
+  private isDelayCleared(
+    trafficData: TrafficData,
+    context: NotificationRuleContext,
+    rules: NotificationRule[]
+  ): boolean {
+    const delayMinutes = trafficData.estimatedDelayMinutes;
+    if (delayMinutes > context.thresholdMinutes) {
+      return false;
+    }
+
+    const normalMinutes = trafficData.normalDurationMinutes;
+    return rules
+      .filter(rule => rule.notify)
+      .every(({ when }) => {
+        if (when.minDelayMinutes !== undefined && delayMinutes >= when.minDelayMinutes) {
+          return false;
+        }
+        if (
+          when.minDelayPercent !== undefined &&
+          normalMinutes > 0 &&
+          (delayMinutes / normalMinutes) * 100 >= when.minDelayPercent
+        ) {
+          return false;
+        }
+        return true;
+      });
+  }
+
+  /**
+   * Checks a rule's conditions against the delay
+   * @param conditions - The rule's conditions; unset conditions always hold
+   * @param trafficData - The traffic data behind the delay
+   * @param context - The rule context
+   * @param now - Current time
+   * @returns string[] | undefined - Why each set condition holds, or undefined when one does not
+   */
+  private matchConditions(
+    conditions: NotificationRuleConditions,
+    trafficData: TrafficData,
+    context: NotificationRuleContext,
+    now: Date
+  ): string[] | undefined {
+    const reasons: string[] = [];
+    const delayMinutes = trafficData.estimatedDelayMinutes;
+
+    if (conditions.minDelayMinutes !== undefined) {
+      if (delayMinutes < conditions.minDelayMinutes) {
+        return undefined;
+      }
+      reasons.push(`delay of ${delayMinutes} minutes is at least ${conditions.minDelayMinutes}`);
+    }
+
+    if (conditions.minDelayPercent !== undefined) {
+      // Without a normal duration the delay cannot be put in proportion
+      const normalMinutes = trafficData.normalDurationMinutes;
+      const percent = normalMinutes > 0 ? (delayMinutes / normalMinutes) * 100 : undefined;
+      if (percent === undefined || percent < conditions.minDelayPercent) {
+        return undefined;
+      }
+      reasons.push(
+        `delay is ${Math.round(percent)}% of the normal ${normalMinutes} minute duration`
+      );
+    }
+
+    if (conditions.missesAppointment !== undefined) {
+      // Rules about the appointment do not apply to shipments without one
+      const appointmentEnd = context.deliveryAppointment
+        ? Date.parse(context.deliveryAppointment.end)
+        : NaN;
+      if (isNaN(appointmentEnd)) {
+        return undefined;
+      }
+
+      const eta = this.deliveryTimeService.calculateEta(
+        trafficData,
+        context.expectedArrivalTime,
+        context.timeZone,
+        now
+      );
+      const misses = Date.parse(eta.arrivalTime) > appointmentEnd;
+      if (misses !== conditions.missesAppointment) {
+        return undefined;
+      }
+      reasons.push(
+        `estimated arrival at ${eta.arrivalTime} ${misses ? 'misses' : 'makes'} the appointment ending ${context.deliveryAppointment?.end}`
+      );
+    }
+
+    if (conditions.trafficConditions) {
+      if (!conditions.trafficConditions.includes(trafficData.trafficCondition)) {
+        return undefined;
+      }
+      reasons.push(`traffic is ${trafficData.trafficCondition}`);
+    }
+
+    if (conditions.customerTiers) {
+      const tier = context.customerTier?.trim().toLowerCase();
+      if (!tier || !conditions.customerTiers.some(ruleTier => ruleTier.toLowerCase() === tier)) {
+        return undefined;
+      }
+      reasons.push(`customer tier is ${context.customerTier}`);
+    }
+
+    if (conditions.timeOfDay) {
+      const { start, end } = conditions.timeOfDay;
+      const timeZone = this.deliveryTimeService.resolveTimeZone(
+        trafficData.route.destination,
+        context.timeZone
+      );
+      if (!this.deliveryTimeService.isWithinTimeOfDay(conditions.timeOfDay, timeZone, now)) {
+        return undefined;
+      }
+      reasons.push(`local time at the destination is between ${start} and ${end}`);
+    }
+
+    return reasons;
+  }
+}
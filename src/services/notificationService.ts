@@ -1,41 +1,139 @@
-import { NotificationRequest, NotificationResponse } from '../types';
-import { getSendGridConfig } from '../config';
+import { Client } from '@sendgrid/client';
+import { MailDataRequired, MailService } from '@sendgrid/mail';
+import {
+  DeliveryEta,
+  DeliveryRoute,
+  NotificationRequest,
+  NotificationResponse,
+  SenderIdentity,
+  ShipmentReference,
+  SmsProvider,
+  SmsProviderName,
+} from '../types';
+import { getSendGridConfig, getSmsConfig } from '../config';
+import { NotificationServiceError } from '../errors';
+import { createSmsProvider, truncateToSegments } from './smsProviders';
+import {
+  formatArrivalTime,
+  formatDateTime,
+  formatMinutes,
+  formatNumber,
+  MessageKey,
+  resolveLocale,
+  translate,
+} from '../i18n';
 
 // Type declarations for Node.js environment
 declare const console: any;
 
+// Shipment references listed in messages, in this order
+const REFERENCE_FIELDS: (keyof ShipmentReference)[] = [
+  'customerReference',
+  'proNumber',
+  'bolNumber',
+  'carrier',
+  'shipmentId',
+];
+
 /**
  * Notification Service for SendGrid API integration
- * Sends delay notifications via email to customers
+ * Sends delay notifications via email to customers, in the customer's language, as
+ * multipart text/HTML or through a SendGrid dynamic template. Without an API key, email
+ * sending is simulated for demos. SMS notifications go through the configured SMS provider.
+ * Messages are signed by the request's sender, a tenant, or with the default sign-off.
  */
 
+interface SendGridConfig {
+  apiKey: string;
+  baseUrl: string;
+  fromEmail: string;
+  fromName?: string;
+  replyTo?: string;
+  templateId?: string;
+  categories: string[];
+  timeoutMs: number;
+}
+
+// Shape of the errors thrown by the SendGrid client for HTTP error responses
+interface SendGridResponseError {
+  code: number;
+  message: string;
+  response?: { body?: { errors?: { message?: string; field?: string | null }[] } };
+}
+
+interface SmsConfig {
+  provider: SmsProviderName;
+  maxSegments: number;
+}
+
+// E.164: "+", country code and subscriber number, at most 15 digits
+const E164_PHONE_NUMBER = /^\+[1-9]\d{1,14}$/;
+
+type EmailContent =
+  | { templateId: string; dynamicTemplateData: Record<string, unknown> }
+  | { text: string; html: string };
+
 export class NotificationService {
-  private apiKey: string;
+  private mailService?: MailService;
   private fromEmail: string;
+  private fromName?: string;
+  private replyTo?: string;
+  private templateId?: string;
+  private categories: string[];
+  private smsProvider: SmsProvider;
+  private smsMaxSegments: number;
 
-  constructor() {
-    const config = getSendGridConfig();
-    this.apiKey = config.apiKey;
+  constructor(
+    config: SendGridConfig = getSendGridConfig(),
+    smsConfig: SmsConfig = getSmsConfig(),
+    smsProvider: SmsProvider = createSmsProvider(smsConfig.provider)
+  ) {
+    this.smsProvider = smsProvider;
+    this.smsMaxSegments = smsConfig.maxSegments;
     this.fromEmail = config.fromEmail;
+    this.fromName = config.fromName;
+    this.replyTo = config.replyTo;
+    this.templateId = config.templateId;
+    this.categories = config.categories;
+    if (config.apiKey) {
+      const client = new Client();
+      client.setApiKey(config.apiKey);
+      // Set after the API key, which resets the base URL to SendGrid's
+      client.setDefaultRequest('baseUrl', config.baseUrl);
+
+      this.mailService = new MailService();
+      this.mailService.setClient(client);
+      this.mailService.setTimeout(config.timeoutMs);
+    }
   }
 
   /**
    * Sends a delay notification email to the customer
+   * Retryable failures (timeouts, rate limits, server errors) are thrown so the activity
+   * can be retried; permanent failures such as an invalid address are returned.
    * @param request - The notification request with email details
    * @returns Promise<NotificationResponse> - Notification response
+   * @throws NotificationServiceError - When the failure is retryable
    */
   async sendDelayNotification(request: NotificationRequest): Promise<NotificationResponse> {
     try {
-      const mockResponse = this.simulateEmailSending(request);
+      const response = this.mailService
+        ? await this.sendRealEmail(request, this.mailService)
+        : this.simulateEmailSending(request);
 
       console.log('Notification sent successfully');
-      return mockResponse;
+      return response;
     } catch (error) {
-      console.error('Error sending notification:', error);
+      const notificationError = this.toNotificationServiceError(error);
+      console.error('Error sending notification:', notificationError.message);
+      if (notificationError.retryable) {
+        throw notificationError;
+      }
 
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'Notification service unavailable',
+        error: notificationError.message,
+        errorCode: notificationError.code,
       };
     }
   }
@@ -54,109 +152,242 @@ export class NotificationService {
   }
 
   /**
-   * Sends an SMS notification (alternative to email)
-   * @param request - The notification request
-   * @returns Promise<NotificationResponse> - Notification response
+   * Sends an SMS notification (alternative to email) to the customer's phone number
+   * The message is kept within the configured segment budget. Retryable failures are thrown
+   * so the activity can be retried; a missing or invalid number and rejected or undelivered
+   * messages are returned as permanent failures.
+   * @param request - The notification request with the customer's E.164 phone number
+   * @returns Promise<NotificationResponse> - Notification response with the delivery receipt
+   * @throws NotificationServiceError - When the failure is retryable
    */
   async sendSMSNotification(request: NotificationRequest): Promise<NotificationResponse> {
+    const phone = request.customerPhone?.trim();
+    if (!phone || !E164_PHONE_NUMBER.test(phone)) {
+      return {
+        success: false,
+        error: phone
+          ? `Phone number ${phone} is not in E.164 format`
+          : 'Customer has no phone number for SMS notifications',
+        errorCode: 'INVALID_RECIPIENT',
+      };
+    }
+
     try {
-      const smsMessage = this.createSMSMessage(request);
-      const mockResponse = this.simulateSMSSending(request, smsMessage);
-      return mockResponse;
+      const receipt = await this.smsProvider.sendMessage(phone, this.createSMSMessage(request));
+      const delivered = receipt.status !== 'failed' && receipt.status !== 'undelivered';
+      console.log(`SMS notification ${receipt.messageId} is ${receipt.status}`);
+
+      return {
+        success: delivered,
+        messageId: receipt.messageId,
+        deliveryStatus: receipt.status,
+        segments: receipt.segments,
+        error: delivered ? undefined : receipt.errorMessage || `SMS ${receipt.status}`,
+        errorCode: delivered ? undefined : receipt.errorCode,
+      };
     } catch (error) {
-      console.error('Error sending SMS notification:', error);
+      const notificationError = this.toNotificationServiceError(error);
+      console.error('Error sending SMS notification:', notificationError.message);
+      if (notificationError.retryable) {
+        throw notificationError;
+      }
 
       return {
         success: false,
-        error: error instanceof Error ? error.message : 'SMS service unavailable',
+        error: notificationError.message,
+        errorCode: notificationError.code,
       };
     }
   }
 
   /**
    * Creates a shorter message suitable for SMS
+   * Messages over the segment budget are shortened; characters outside the GSM-7 alphabet
+   * switch the message to UCS-2, which fits less text per segment
    * @param request - The notification request
-   * @returns string - SMS-formatted message
+   * @returns string - SMS-formatted message in the request's locale
    */
-  private createSMSMessage(request: NotificationRequest): string {
-    return `Freight Delay Alert: Your delivery is delayed by ${request.delayMinutes} minutes due to traffic conditions. We apologize for the inconvenience. - Freight Team`;
+  createSMSMessage(request: NotificationRequest): string {
+    const { locale, eta } = request;
+    const sender = request.sender?.name ?? translate(locale, 'defaultSender');
+    let message: string;
+    if (request.kind === 'back_on_schedule') {
+      message = translate(locale, 'smsBackOnSchedule', {
+        arrival: this.describeArrival(eta, locale),
+        sender,
+      });
+    } else {
+      const params = { delay: formatMinutes(locale, request.delayMinutes), sender };
+      message = eta
+        ? translate(locale, 'smsMessageWithEta', { ...params, eta: this.formatEta(eta, locale) })
+        : translate(locale, 'smsMessage', params);
+    }
+
+    // The reference leads, so shortening the message never cuts it off
+    const reference = getShipmentReference(request.shipment);
+    if (reference) {
+      message = translate(locale, 'smsWithReference', { reference, message });
+    }
+    return truncateToSegments(message, this.smsMaxSegments);
   }
 
   /**
-   * Simulates SMS sending for demonstration purposes
+   * Sends the email through the SendGrid mail send API
    * @param request - The notification request
-   * @param smsMessage - The SMS message content
-   * @returns NotificationResponse - Mock response
+   * @param mailService - The SendGrid mail service
+   * @returns Promise<NotificationResponse> - The response with SendGrid's message ID
    */
-  private simulateSMSSending(
+  private async sendRealEmail(
     request: NotificationRequest,
-    smsMessage: string
-  ): NotificationResponse {
-    const messageId = `sms_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    mailService: MailService
+  ): Promise<NotificationResponse> {
+    const { correlationId } = request;
+    const mail: MailDataRequired = {
+      to: request.customerEmail,
+      from: this.fromName ? { email: this.fromEmail, name: this.fromName } : this.fromEmail,
+      replyTo: this.replyTo,
+      subject: request.subject,
+      categories: this.categories,
+      headers: correlationId ? { 'X-Correlation-ID': correlationId } : undefined,
+      customArgs: correlationId ? { correlationId } : undefined,
+      ...this.createContent(request),
+    };
+
+    const [response] = await mailService.send(mail);
+    const messageId = response.headers['x-message-id'];
+
     return {
       success: true,
-      messageId,
+      messageId: typeof messageId === 'string' ? messageId : 'unknown',
+    };
+  }
+
+  /**
+   * Builds the email content: the dynamic template when configured, multipart text/HTML otherwise
+   * @param request - The notification request
+   * @returns EmailContent - The template reference with its data, or the text and HTML bodies
+   */
+  private createContent(request: NotificationRequest): EmailContent {
+    if (this.templateId) {
+      return { templateId: this.templateId, dynamicTemplateData: this.createTemplateData(request) };
+    }
+    return {
+      text: request.message,
+      html: this.formatHTMLEmail(
+        request.message,
+        request.locale,
+        undefined,
+        this.getHeading(request)
+      ),
     };
   }
 
   /**
-   * Demonstrates how we can integrate with SendGrid API
-   * This method shows the actual implementation structure
+   * Builds the data passed to the SendGrid dynamic template
+   * Texts are localized, so a single template can serve all languages
    * @param request - The notification request
-   * @returns Promise<NotificationResponse> - Would return real response
-   */
-  private async sendRealEmail(request: NotificationRequest): Promise<NotificationResponse> {
-    // Example of how to integrate with SendGrid API:
-    //
-    // const emailData = {
-    //   to: request.customerEmail,
-    //   from: this.fromEmail,
-    //   subject: request.subject,
-    //   html: this.formatHTMLEmail(request.message),
-    //   text: request.message
-    // };
-    //
-    // const response = await fetch('https://api.sendgrid.com/v3/mail/send', {
-    //   method: 'POST',
-    //   headers: {
-    //     'Authorization': `Bearer ${this.apiKey}`,
-    //     'Content-Type': 'application/json',
-    //   },
-    //   body: JSON.stringify(emailData)
-    // });
-    //
-    // if (!response.ok) {
-    //   const error = await response.json();
-    //   throw new Error(`SendGrid API error: ${error.errors?.[0]?.message || 'Unknown error'}`);
-    // }
-    //
-    // const messageId = response.headers.get('x-message-id');
-    //
-    // return {
-    //   success: true,
-    //   messageId: messageId || 'unknown'
-    // };
-
-    // For now, return mock response
-    return this.simulateEmailSending(request);
+   * @returns Record<string, unknown> - The dynamic template data
+   */
+  private createTemplateData(request: NotificationRequest): Record<string, unknown> {
+    const { locale, eta } = request;
+
+    return {
+      subject: request.subject,
+      heading: this.getHeading(request),
+      message: request.message,
+      footer: translate(locale, 'emailFooter'),
+      locale: resolveLocale(locale),
+      kind: request.kind || 'delay',
+      delayMinutes: request.delayMinutes,
+      delay: formatMinutes(locale, request.delayMinutes),
+      eta: eta ? this.formatEta(eta, locale) : undefined,
+      shipment: request.shipment,
+    };
+  }
+
+  /**
+   * Maps a SendGrid client failure to a typed error; SMS provider errors are already typed
+   * Timeouts, connection failures, rate limits and server errors are retryable;
+   * invalid recipients, invalid requests and authentication errors are permanent
+   * @param error - The error thrown while sending the email
+   * @returns NotificationServiceError - The typed error
+   */
+  private toNotificationServiceError(error: unknown): NotificationServiceError {
+    if (error instanceof NotificationServiceError) {
+      return error;
+    }
+
+    if (isSendGridResponseError(error)) {
+      const status = error.code;
+      const errors = error.response?.body?.errors || [];
+      const details = errors.map(detail => detail.message).filter(Boolean);
+      const message = `SendGrid API error (${status}): ${details.join('; ') || error.message}`;
+
+      if (status === 429) {
+        return new NotificationServiceError(message, 'RATE_LIMITED', true);
+      }
+      if (status >= 500) {
+        return new NotificationServiceError(message, 'SERVER_ERROR', true);
+      }
+      if (status === 401 || status === 403) {
+        return new NotificationServiceError(message, 'AUTHENTICATION_ERROR', false);
+      }
+      // e.g. { field: "personalizations.0.to.0.email", message: "Does not contain a valid address." }
+      const invalidRecipient = errors.some(
+        detail =>
+          /^personalizations\.\d+\.to/.test(detail.field || '') ||
+          /valid (email )?address/i.test(detail.message || '')
+      );
+      return new NotificationServiceError(
+        message,
+        invalidRecipient ? 'INVALID_RECIPIENT' : 'INVALID_REQUEST',
+        false
+      );
+    }
+
+    const code = (error as { code?: unknown })?.code;
+    if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+      return new NotificationServiceError('SendGrid API request timed out', 'TIMEOUT', true);
+    }
+    if (typeof code === 'string') {
+      return new NotificationServiceError(
+        `SendGrid API unreachable: ${(error as Error).message}`,
+        'CONNECTION_ERROR',
+        true
+      );
+    }
+
+    const message = error instanceof Error ? error.message : 'Notification service unavailable';
+    return new NotificationServiceError(message, 'UNKNOWN_ERROR', false);
   }
 
   /**
    * Formats the email message as HTML
+   * The message is escaped: it holds AI output, dispatcher-reported delay reasons and shipment
+   * references from the API, none of which may add markup or links to the email
    * @param message - The plain text message
+   * @param locale - Optional locale of the customer's language
+   * @param sentAt - When the email is sent
+   * @param heading - Optional heading; defaults to the delay notice heading
    * @returns string - HTML formatted message
    */
-  private formatHTMLEmail(message: string): string {
+  formatHTMLEmail(
+    message: string,
+    locale?: string,
+    sentAt: Date = new Date(),
+    heading: string = translate(locale, 'emailHeading')
+  ): string {
     return `
-      <html>
+      <html lang="${resolveLocale(locale)}">
         <body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333;">
           <div style="max-width: 600px; margin: 0 auto; padding: 20px;">
-            <h2 style="color: #d32f2f;">Delivery Delay Notification</h2>
+            <h2 style="color: #d32f2f;">${escapeHtml(heading)}</h2>
             <div style="background-color: #f5f5f5; padding: 20px; border-radius: 5px;">
-              ${message.replace(/\n/g, '<br>')}
+              ${escapeHtml(message).replace(/\n/g, '<br>')}
             </div>
             <p style="font-size: 12px; color: #666; margin-top: 20px;">
-              This is an automated notification from your freight delivery service.
+              ${translate(locale, 'emailFooter')}<br>
+              ${translate(locale, 'emailSentAt', { time: formatDateTime(locale, sentAt) })}
             </p>
           </div>
         </body>
@@ -164,27 +395,190 @@ export class NotificationService {
     `;
   }
 
+  /**
+   * Picks the email heading for the kind of notification
+   * @param request - The notification request
+   * @returns string - The localized heading
+   */
+  private getHeading(request: NotificationRequest): string {
+    return request.kind === 'back_on_schedule'
+      ? translate(request.locale, 'backOnScheduleHeading')
+      : translate(request.locale, 'emailHeading');
+  }
+
   /**
    * Validates the notification request
+   * Back on schedule follow-ups may report no remaining delay
    * @param request - The notification request to validate
    * @returns boolean - Whether the request is valid
    */
   validateRequest(request: NotificationRequest): boolean {
+    const minDelayMinutes = request.kind === 'back_on_schedule' ? 0 : 1;
     return !!(
       request.customerEmail &&
       request.customerEmail.includes('@') &&
       request.subject &&
       request.message &&
-      request.delayMinutes > 0
+      request.delayMinutes >= minDelayMinutes
     );
   }
 
   /**
    * Creates a standardized delay notification subject
    * @param delayMinutes - The delay in minutes
+   * @param locale - Optional locale of the customer's language
+   * @param eta - Optional new estimated arrival, included in the subject
+   * @param shipment - Optional shipment references; the customer's own is quoted in the subject
    * @returns string - Email subject
    */
-  createDelaySubject(delayMinutes: number): string {
-    return `Freight Delivery Delay Notice - ${delayMinutes} Minutes`;
+  createDelaySubject(
+    delayMinutes: number,
+    locale?: string,
+    eta?: DeliveryEta,
+    shipment?: ShipmentReference
+  ): string {
+    const params = {
+      minutes: formatNumber(locale, delayMinutes),
+      delay: formatMinutes(locale, delayMinutes),
+    };
+
+    const subject = eta
+      ? translate(locale, 'emailSubjectWithEta', { ...params, eta: this.formatEta(eta, locale) })
+      : translate(locale, 'emailSubject', params);
+    return this.addSubjectReference(subject, locale, shipment);
+  }
+
+  /**
+   * Appends the shipment's references to a message, so recipients can match it to their load
+   * @param message - The message
+   * @param locale - Optional locale of the recipient's language
+   * @param shipment - Optional shipment references
+   * @returns string - The message followed by a line listing the references, unchanged without a shipment
+   */
+  addShipmentReferences(message: string, locale?: string, shipment?: ShipmentReference): string {
+    if (!shipment) {
+      return message;
+    }
+    const references = REFERENCE_FIELDS.filter(field => shipment[field])
+      .map(field => `${translate(locale, `reference.${field}` as MessageKey)}: ${shipment[field]}`)
+      .join(', ');
+    return `${message}\n\n${translate(locale, 'shipmentReferences', { references })}`;
+  }
+
+  /**
+   * Creates the follow-up sent once a notified delay has cleared
+   * @param customerEmail - The recipient's email address
+   * @param route - The delivery route
+   * @param delayMinutes - The remaining delay, below the notification threshold
+   * @param locale - Optional locale of the recipient's language
+   * @param eta - Optional estimated arrival
+   * @param shipment - Optional shipment references, quoted in the subject and message
+   * @param sender - Optional tenant the message is signed by
+   * @returns NotificationRequest - The back on schedule notification request
+   */
+  createBackOnScheduleRequest(
+    customerEmail: string,
+    route: DeliveryRoute,
+    delayMinutes: number,
+    locale?: string,
+    eta?: DeliveryEta,
+    shipment?: ShipmentReference,
+    sender?: SenderIdentity
+  ): NotificationRequest {
+    const message = translate(locale, 'backOnScheduleMessage', {
+      origin: route.origin,
+      destination: route.destination,
+      arrival: this.describeArrival(eta, locale),
+      signature: sender?.signature ?? translate(locale, 'defaultSignature'),
+    });
+
+    return {
+      customerEmail,
+      subject: this.addSubjectReference(
+        translate(locale, 'backOnScheduleSubject'),
+        locale,
+        shipment
+      ),
+      message: this.addShipmentReferences(message, locale, shipment),
+      delayMinutes,
+      locale,
+      eta,
+      kind: 'back_on_schedule',
+      shipment,
+      sender,
+    };
+  }
+
+  /**
+   * Quotes the shipment's main reference in an email subject
+   * @param subject - The subject
+   * @param locale - Optional locale of the recipient's language
+   * @param shipment - Optional shipment references
+   * @returns string - The subject with the reference, unchanged without a shipment
+   */
+  private addSubjectReference(
+    subject: string,
+    locale?: string,
+    shipment?: ShipmentReference
+  ): string {
+    const reference = getShipmentReference(shipment);
+    return reference ? translate(locale, 'subjectWithReference', { subject, reference }) : subject;
+  }
+
+  /**
+   * Describes the estimated arrival as a sentence appended to the message
+   * @param eta - Optional estimated arrival
+   * @param locale - Optional locale of the recipient's language
+   * @returns string - The localized sentence with a leading space, empty without an ETA
+   */
+  private describeArrival(eta: DeliveryEta | undefined, locale?: string): string {
+    return eta
+      ? ` ${translate(locale, 'arrivalSentence', { eta: this.formatEta(eta, locale) })}`
+      : '';
+  }
+
+  /**
+   * Formats the new estimated arrival in the destination's time zone
+   * @param eta - The new estimated arrival
+   * @param locale - Optional locale of the customer's language
+   * @returns string - e.g. "Mon, Oct 19, 5:30 PM EDT"
+   */
+  private formatEta(eta: DeliveryEta, locale?: string): string {
+    return formatArrivalTime(locale, new Date(eta.arrivalTime), eta.timeZone);
   }
 }
+
+/**
+ * Picks the reference a recipient most likely knows the shipment by
+ * @param shipment - Optional shipment references
+ * @returns string | undefined - The customer's reference, else the PRO, BOL or shipment ID
+ */
+function getShipmentReference(shipment?: ShipmentReference): string | undefined {
+  return (
+    shipment &&
+    (shipment.customerReference || shipment.proNumber || shipment.bolNumber || shipment.shipmentId)
+  );
+}
+
+/**
+ * Checks whether an error is an HTTP error response from the SendGrid client
+ * @param error - The error to check
+ * @returns boolean - Whether the error carries an HTTP status code
+ */
+function isSendGridResponseError(error: unknown): error is SendGridResponseError {
+  return error instanceof Error && typeof (error as { code?: unknown }).code === 'number';
+}
+
+/**
+ * Escapes text for use in HTML
+ * @param text - The plain text
+ * @returns string - The text with &, <, >, " and ' replaced by entities
+ */
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
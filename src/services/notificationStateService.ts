@@ -0,0 +1,191 @@
+import {
+  DeliveryRoute,
+  EscalationTier,
+  NotificationDecision,
+  NotificationPolicy,
+  NotificationRecipient,
+  NotificationStateStore,
+  NotificationStateStoreName,
+} from '../types';
+import { getNotificationStateConfig } from '../config';
+import { getLaneKey } from './trafficCache';
+import { createNotificationStateStore } from './notificationStateStores';
+
+/**
+ * Notification state per shipment
+ * Remembers the last delay each shipment's recipients were told about, so re-runs and polls
+ * only notify again when the delay changed enough or crossed a higher escalation tier, and
+ * a single "back on schedule" follow-up is sent once the delay clears. The state is kept in
+ * the configured store (SQLite by default), which survives worker restarts and is shared by
+ * the workers using it.
+ */
+
+interface NotificationStateConfig {
+  repeatChangeMinutes: number;
+  escalationTierMinutes: number[];
+  store: NotificationStateStoreName;
+}
+
+export class NotificationStateService {
+  private store: NotificationStateStore;
+  private repeatChangeMinutes: number;
+  private escalationTiers: EscalationTier[];
+
+  constructor(
+    config: NotificationStateConfig = getNotificationStateConfig(),
+    store: NotificationStateStore = createNotificationStateStore(config.store)
+  ) {
+    this.store = store;
+    this.repeatChangeMinutes = config.repeatChangeMinutes;
+    this.escalationTiers = config.escalationTierMinutes.map(delayMinutes => ({ delayMinutes }));
+  }
+
+  /**
+   * Identifies a shipment by its shipment ID or, for shipments without one, by its lane and
+   * customer
+   * @param route - The delivery route
+   * @param customerEmail - The shipment's customer
+   * @param shipmentId - Optional shipment ID; loads of a customer on the same lane stay apart
+   * @param stop - Optional intermediate stop, whose customer is tracked apart from the destination
+   * @returns string - The shipment key
+   */
+  getShipmentKey(
+    route: DeliveryRoute,
+    customerEmail: string,
+    shipmentId?: string,
+    stop?: string
+  ): string {
+    const shipmentKey = shipmentId
+      ? `shipment ${shipmentId}`
+      : `${getLaneKey(route)} | ${customerEmail.trim().toLowerCase()}`;
+    return stop ? `${shipmentKey} | stop ${stop.trim().toLowerCase()}` : shipmentKey;
+  }
+
+  /**
+   * Decides whether a delay should be notified, given what the recipients were told so far
+   * - A new delay over the threshold is notified
+   * - Reaching a higher escalation tier is notified, with the tier's channels and recipients
+   * - A notified delay is repeated only once it changed by the repeat change minutes
+   * - A notified delay that clears, and drops below the delay that was notified, gets a single
+   *   "back on schedule" follow-up
+   * @param shipmentKey - The shipment key
+   * @param delayMinutes - The current delay
+   * @param delayCleared - Whether the delay cleared the threshold and every notifying rule
+   * @param policy - Optional per-shipment policy overriding the configured one
+   * @returns NotificationDecision - The action to take and why
+   */
+  evaluate(
+    shipmentKey: string,
+    delayMinutes: number,
+    delayCleared: boolean,
+    policy: NotificationPolicy = {}
+  ): NotificationDecision {
+    const state = this.store.get(shipmentKey);
+    const tiers = [...(policy.escalationTiers || this.escalationTiers)].sort(
+      (a, b) => a.delayMinutes - b.delayMinutes
+    );
+    const tierIndex = tiers.filter(tier => delayMinutes >= tier.delayMinutes).length - 1;
+    const reachedTiers = tiers.slice(0, tierIndex + 1);
+    const decision = {
+      shipmentKey,
+      tierIndex,
+      previousDelayMinutes: state?.lastNotifiedDelayMinutes,
+      // The highest tier that sets channels wins; recipients add up across tiers
+      escalationChannels: [...reachedTiers].reverse().find(tier => tier.channels)?.channels,
+      escalationRecipients: reachedTiers.flatMap(tier => tier.recipients || []),
+      notifiedRecipients: state?.notifiedRecipients,
+    };
+
+    if (delayCleared) {
+      if (!state) {
+        return { ...decision, action: 'none', reason: 'Delay is below the threshold' };
+      }
+      // A delay notified below the threshold (by a rule) has not cleared while it stays as large
+      if (delayMinutes >= state.lastNotifiedDelayMinutes) {
+        return {
+          ...decision,
+          action: 'none',
+          reason: `Delay of ${delayMinutes} minutes is not below the ${state.lastNotifiedDelayMinutes} minute delay that was notified`,
+        };
+      }
+      return {
+        ...decision,
+        action: 'back_on_schedule',
+        reason: `Delay of ${delayMinutes} minutes cleared after a ${state.lastNotifiedDelayMinutes} minute delay was notified`,
+      };
+    }
+
+    if (!state) {
+      return { ...decision, action: 'notify', reason: `New delay of ${delayMinutes} minutes` };
+    }
+
+    if (tierIndex > state.tierIndex) {
+      return {
+        ...decision,
+        action: 'escalate',
+        reason: `Delay of ${delayMinutes} minutes reached the ${tiers[tierIndex].delayMinutes} minute escalation tier`,
+      };
+    }
+
+    const repeatChangeMinutes = policy.repeatChangeMinutes ?? this.repeatChangeMinutes;
+    const change = Math.abs(delayMinutes - state.lastNotifiedDelayMinutes);
+    if (change >= repeatChangeMinutes) {
+      return {
+        ...decision,
+        action: 'notify',
+        reason: `Delay changed by ${change} minutes since a ${state.lastNotifiedDelayMinutes} minute delay was notified`,
+      };
+    }
+
+    return {
+      ...decision,
+      action: 'suppress',
+      reason: `Delay changed by ${change} minutes since a ${state.lastNotifiedDelayMinutes} minute delay was notified, less than ${repeatChangeMinutes}`,
+    };
+  }
+
+  /**
+   * Records a delay the recipients were notified about
+   * Recipients notified earlier are kept, so all of them get the "back on schedule" follow-up
+   * @param shipmentKey - The shipment key
+   * @param delayMinutes - The notified delay
+   * @param tierIndex - The escalation tier the delay reached
+   * @param recipients - The recipients who were notified
+   */
+  recordNotified(
+    shipmentKey: string,
+    delayMinutes: number,
+    tierIndex: number,
+    recipients: NotificationRecipient[]
+  ): void {
+    this.store.update(shipmentKey, state => {
+      const notifiedRecipients = [...(state?.notifiedRecipients || [])];
+      for (const recipient of recipients) {
+        const index = notifiedRecipients.findIndex(
+          notified =>
+            notified.customerEmail === recipient.customerEmail && notified.name === recipient.name
+        );
+        if (index >= 0) {
+          notifiedRecipients[index] = recipient;
+        } else {
+          notifiedRecipients.push(recipient);
+        }
+      }
+
+      return {
+        lastNotifiedDelayMinutes: delayMinutes,
+        tierIndex,
+        notifiedRecipients,
+        updatedAt: new Date().toISOString(),
+      };
+    });
+  }
+
+  /**
+   * Forgets a shipment's notified delay once it is back on schedule
+   * @param shipmentKey - The shipment key
+   */
+  clear(shipmentKey: string): void {
+    this.store.delete(shipmentKey);
+  }
+}
@@ -0,0 +1,21 @@
+import { NotificationStateStore, NotificationStateStoreName } from '../../types';
+import { SqliteNotificationStateStore } from './sqliteNotificationStateStore';
+import { MemoryNotificationStateStore } from './memoryNotificationStateStore';
+
+export { SqliteNotificationStateStore, MemoryNotificationStateStore };
+
+const storeFactories: Record<NotificationStateStoreName, () => NotificationStateStore> = {
+  sqlite: () => new SqliteNotificationStateStore(),
+  memory: () => new MemoryNotificationStateStore(),
+};
+
+/**
+ * Creates a notification state store from the application configuration
+ * @param name - The store name
+ * @returns NotificationStateStore - The configured store
+ */
+export function createNotificationStateStore(
+  name: NotificationStateStoreName
+): NotificationStateStore {
+  return storeFactories[name]();
+}
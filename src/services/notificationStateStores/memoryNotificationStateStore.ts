@@ -0,0 +1,39 @@
+import { NotificationStateStore, ShipmentNotificationState } from '../../types';
+
+/**
+ * In-memory notification state store for demos and tests
+ * The state is lost when the worker stops and is not shared with other workers
+ */
+export class MemoryNotificationStateStore implements NotificationStateStore {
+  readonly name = 'memory' as const;
+  private states: Record<string, ShipmentNotificationState> = {};
+
+  /**
+   * Reads a shipment's notification state
+   * @param shipmentKey - The shipment key
+   * @returns ShipmentNotificationState | undefined - The state, undefined when nothing was notified
+   */
+  get(shipmentKey: string): ShipmentNotificationState | undefined {
+    return this.states[shipmentKey];
+  }
+
+  /**
+   * Changes a shipment's notification state
+   * @param shipmentKey - The shipment key
+   * @param change - Returns the new state from the current one
+   */
+  update(
+    shipmentKey: string,
+    change: (state: ShipmentNotificationState | undefined) => ShipmentNotificationState
+  ): void {
+    this.states[shipmentKey] = change(this.states[shipmentKey]);
+  }
+
+  /**
+   * Forgets a shipment's notification state
+   * @param shipmentKey - The shipment key
+   */
+  delete(shipmentKey: string): void {
+    delete this.states[shipmentKey];
+  }
+}
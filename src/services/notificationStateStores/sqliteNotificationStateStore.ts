@@ -0,0 +1,97 @@
+import Database from 'better-sqlite3';
+import { NotificationStateStore, ShipmentNotificationState } from '../../types';
+import { getNotificationStateConfig } from '../../config';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * SQLite notification state store
+ * Keeps each shipment's notification state in a table, so it survives worker restarts and is
+ * shared by every worker that opens the same database file. Changes run in immediate
+ * transactions, and workers wait for each other's writes instead of failing.
+ * The database is opened on first use, so importing the store has no side effects.
+ */
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS notification_state (
+    shipment_key TEXT PRIMARY KEY,
+    state TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+`;
+
+// How long a worker waits for another worker's write before giving up
+const BUSY_TIMEOUT_MS = 5000;
+
+// Shape of a row in the notification_state table
+interface StateRow {
+  shipment_key: string;
+  state: string;
+  updated_at: string;
+}
+
+export class SqliteNotificationStateStore implements NotificationStateStore {
+  readonly name = 'sqlite' as const;
+  private databaseFile: string;
+  private database?: Database.Database;
+
+  constructor(databaseFile: string = getNotificationStateConfig().databaseFile) {
+    this.databaseFile = databaseFile;
+  }
+
+  /**
+   * Reads a shipment's notification state
+   * @param shipmentKey - The shipment key
+   * @returns ShipmentNotificationState | undefined - The state, undefined when nothing was notified
+   */
+  get(shipmentKey: string): ShipmentNotificationState | undefined {
+    const row = this.getDatabase()
+      .prepare('SELECT * FROM notification_state WHERE shipment_key = ?')
+      .get(shipmentKey) as StateRow | undefined;
+    return row ? JSON.parse(row.state) : undefined;
+  }
+
+  /**
+   * Changes a shipment's notification state in a single transaction
+   * @param shipmentKey - The shipment key
+   * @param change - Returns the new state from the current one
+   */
+  update(
+    shipmentKey: string,
+    change: (state: ShipmentNotificationState | undefined) => ShipmentNotificationState
+  ): void {
+    const database = this.getDatabase();
+    const transaction = database.transaction(() => {
+      const state = change(this.get(shipmentKey));
+      database
+        .prepare(
+          `INSERT INTO notification_state (shipment_key, state, updated_at) VALUES (?, ?, ?)
+           ON CONFLICT (shipment_key) DO UPDATE SET state = excluded.state,
+             updated_at = excluded.updated_at`
+        )
+        .run(shipmentKey, JSON.stringify(state), state.updatedAt);
+    });
+    transaction.immediate();
+  }
+
+  /**
+   * Forgets a shipment's notification state
+   * @param shipmentKey - The shipment key
+   */
+  delete(shipmentKey: string): void {
+    this.getDatabase()
+      .prepare('DELETE FROM notification_state WHERE shipment_key = ?')
+      .run(shipmentKey);
+  }
+
+  private getDatabase(): Database.Database {
+    if (!this.database) {
+      this.database = new Database(this.databaseFile, { timeout: BUSY_TIMEOUT_MS });
+      this.database.pragma('journal_mode = WAL');
+      this.database.exec(SCHEMA);
+      console.log(`Opened notification state at ${this.databaseFile}`);
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,352 @@
+import { randomUUID } from 'crypto';
+import {
+  Client,
+  WorkflowExecutionAlreadyStartedError,
+  WorkflowExecutionInfo,
+  WorkflowFailedError,
+  WorkflowHandle,
+  WorkflowNotFoundError,
+} from '@temporalio/client';
+import {
+  DelayNotificationInput,
+  DeliveryMonitoringInput,
+  DuplicateShipmentPolicy,
+  ManifestRetryRequest,
+  ManifestWorkflowInput,
+  ManualDelayReport,
+  ShipmentWorkflowListQuery,
+  ShipmentWorkflowStatus,
+  ShipmentWorkflowSummary,
+  ShipmentWorkflowType,
+  StartedShipmentWorkflow,
+} from '../types';
+import { getManifestConfig, getTemporalConfig } from '../config';
+import { ShipmentWorkflowError } from '../errors';
+import {
+  getCurrentStepQuery,
+  getManifestSummaryQuery,
+  getNotificationsQuery,
+  getTrafficDataQuery,
+  markDeliveredSignal,
+  reportManualDelaySignal,
+  retryManifestShipmentsSignal,
+} from '../workflows/signals';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * Shipment workflow service
+ * Starts the freight workflows on the worker's task queue and inspects, signals and cancels
+ * running shipments through a Temporal client. Temporal's errors are mapped to
+ * ShipmentWorkflowError so callers (the HTTP API and the CLI) do not depend on the client's error
+ * types.
+ *
+ * Shipments with a shipment ID get a deterministic workflow ID (e.g. "freight-delay-4471"), so
+ * starting the same load twice while its workflow runs is caught by Temporal: the second start is
+ * rejected, or returns the running workflow. Once the workflow has closed, the shipment can be
+ * started again.
+ */
+
+// Prefix of workflow IDs, by workflow type
+const WORKFLOW_ID_PREFIXES: Record<ShipmentWorkflowType, string> = {
+  freightDelayNotificationWorkflow: 'freight-delay',
+  freightDelayMonitoringWorkflow: 'freight-monitoring',
+  freightManifestWorkflow: 'freight-manifest',
+};
+
+const DEFAULT_LIST_LIMIT = 100;
+
+export class ShipmentWorkflowService {
+  private client: Client;
+  private taskQueue: string;
+
+  constructor(client: Client, taskQueue: string = getTemporalConfig().taskQueue) {
+    this.client = client;
+    this.taskQueue = taskQueue;
+  }
+
+  /**
+   * Starts a one-time delay check for a shipment
+   * @param input - The workflow input
+   * @param ifExists - What to do when the shipment's workflow is already running
+   * @returns Promise<StartedShipmentWorkflow> - The started (or running) workflow's IDs
+   * @throws ShipmentWorkflowError - When the shipment's workflow is running and ifExists is reject
+   */
+  async startDelayCheck(
+    input: DelayNotificationInput,
+    ifExists: DuplicateShipmentPolicy = 'reject'
+  ): Promise<StartedShipmentWorkflow> {
+    return this.start('freightDelayNotificationWorkflow', input, ifExists);
+  }
+
+  /**
+   * Starts monitoring a shipment until its planned arrival or delivery
+   * @param input - The workflow input with the polling interval
+   * @param ifExists - What to do when the shipment's workflow is already running
+   * @returns Promise<StartedShipmentWorkflow> - The started (or running) workflow's IDs
+   * @throws ShipmentWorkflowError - When the shipment's workflow is running and ifExists is reject
+   */
+  async startMonitoring(
+    input: DeliveryMonitoringInput,
+    ifExists: DuplicateShipmentPolicy = 'reject'
+  ): Promise<StartedShipmentWorkflow> {
+    return this.start('freightDelayMonitoringWorkflow', input, ifExists);
+  }
+
+  /**
+   * Starts checking a manifest of shipments in child workflows
+   * The configured concurrency and retry window apply unless the input sets them
+   * @param input - The manifest's shipments
+   * @returns Promise<StartedShipmentWorkflow> - The started manifest workflow's IDs
+   */
+  async startManifest(input: ManifestWorkflowInput): Promise<StartedShipmentWorkflow> {
+    const { maxConcurrency, retryWindowMinutes } = getManifestConfig();
+    return this.start('freightManifestWorkflow', { maxConcurrency, retryWindowMinutes, ...input });
+  }
+
+  /**
+   * Describes a shipment workflow
+   * Running workflows are queried for their current step, traffic data and notifications;
+   * closed workflows report their result or why they ended
+   * @param workflowId - The workflow ID
+   * @returns Promise<ShipmentWorkflowStatus> - The workflow's status
+   * @throws ShipmentWorkflowError - When the workflow does not exist
+   */
+  async getStatus(workflowId: string): Promise<ShipmentWorkflowStatus> {
+    const handle = this.client.workflow.getHandle(workflowId);
+    const description = await this.describe(handle, workflowId);
+
+    const status: ShipmentWorkflowStatus = { ...toSummary(description), workflowId };
+
+    if (description.status.name === 'RUNNING' && description.type === 'freightManifestWorkflow') {
+      try {
+        status.manifest = await handle.query(getManifestSummaryQuery);
+      } catch (error) {
+        console.error(`Failed to query manifest ${workflowId}:`, getErrorMessage(error));
+      }
+      return status;
+    }
+
+    if (description.status.name === 'RUNNING') {
+      try {
+        status.currentStep = await handle.query(getCurrentStepQuery);
+        status.trafficData = await handle.query(getTrafficDataQuery);
+        status.notifications = await handle.query(getNotificationsQuery);
+      } catch (error) {
+        // Queries need a worker; the execution status is still useful without them
+        console.error(`Failed to query workflow ${workflowId}:`, getErrorMessage(error));
+      }
+      return status;
+    }
+
+    try {
+      status.result = await handle.result();
+    } catch (error) {
+      status.error =
+        error instanceof WorkflowFailedError && error.cause
+          ? error.cause.message
+          : getErrorMessage(error);
+    }
+    return status;
+  }
+
+  /**
+   * Lists shipment workflows, most recently started first
+   * Uses the visibility store, so recently started workflows may take a moment to appear
+   * @param query - Whether to include closed workflows and how many to return
+   * @returns Promise<ShipmentWorkflowSummary[]> - The matching workflows
+   */
+  async list(query: ShipmentWorkflowListQuery = {}): Promise<ShipmentWorkflowSummary[]> {
+    const limit = query.limit ?? DEFAULT_LIST_LIMIT;
+    const types = Object.keys(WORKFLOW_ID_PREFIXES)
+      .map(type => `'${type}'`)
+      .join(', ');
+    const filter = query.includeClosed
+      ? `WorkflowType IN (${types})`
+      : `WorkflowType IN (${types}) AND ExecutionStatus = 'Running'`;
+
+    const summaries: ShipmentWorkflowSummary[] = [];
+    if (limit <= 0) {
+      return summaries;
+    }
+    for await (const execution of this.client.workflow.list({ query: filter })) {
+      summaries.push(toSummary(execution));
+      if (summaries.length >= limit) {
+        break;
+      }
+    }
+    return summaries;
+  }
+
+  /**
+   * Reports a delay communicated by the company to a running shipment workflow
+   * @param workflowId - The workflow ID
+   * @param report - The manual delay report
+   * @throws ShipmentWorkflowError - When the workflow does not exist or is not running
+   */
+  async reportManualDelay(workflowId: string, report: ManualDelayReport): Promise<void> {
+    const handle = await this.getRunningHandle(workflowId);
+    await handle.signal(reportManualDelaySignal, report);
+  }
+
+  /**
+   * Marks a running shipment delivered, so no further notifications are sent
+   * @param workflowId - The workflow ID
+   * @throws ShipmentWorkflowError - When the workflow does not exist or is not running
+   */
+  async markDelivered(workflowId: string): Promise<void> {
+    const handle = await this.getRunningHandle(workflowId);
+    await handle.signal(markDeliveredSignal);
+  }
+
+  /**
+   * Retries failed shipments of a running manifest workflow
+   * @param workflowId - The manifest's workflow ID
+   * @param request - The shipments to retry; all failed shipments when no keys are given
+   * @throws ShipmentWorkflowError - When the workflow does not exist or is not running
+   */
+  async retryManifestShipments(workflowId: string, request: ManifestRetryRequest): Promise<void> {
+    const handle = await this.getRunningHandle(workflowId);
+    await handle.signal(retryManifestShipmentsSignal, request);
+  }
+
+  /**
+   * Requests cancellation of a running shipment workflow
+   * @param workflowId - The workflow ID
+   * @throws ShipmentWorkflowError - When the workflow does not exist or is not running
+   */
+  async cancel(workflowId: string): Promise<void> {
+    const handle = await this.getRunningHandle(workflowId);
+    await handle.cancel();
+  }
+
+  /**
+   * Terminates a running shipment workflow right away
+   * Unlike cancel, the workflow gets no chance to clean up; use it for stuck workflows
+   * @param workflowId - The workflow ID
+   * @param reason - Why the workflow is terminated, recorded in its history
+   * @throws ShipmentWorkflowError - When the workflow does not exist or is not running
+   */
+  async terminate(workflowId: string, reason: string): Promise<void> {
+    const handle = await this.getRunningHandle(workflowId);
+    await handle.terminate(reason);
+  }
+
+  /**
+   * Starts a shipment workflow, with a workflow ID derived from the shipment ID when there is
+   * one and a generated workflow ID otherwise
+   * @param type - The workflow type
+   * @param input - The workflow input
+   * @param ifExists - What to do when the shipment's workflow is already running
+   * @returns Promise<StartedShipmentWorkflow> - The started (or running) workflow's IDs
+   */
+  private async start(
+    type: ShipmentWorkflowType,
+    input: DelayNotificationInput | ManifestWorkflowInput,
+    ifExists: DuplicateShipmentPolicy = 'reject'
+  ): Promise<StartedShipmentWorkflow> {
+    const shipmentId = 'shipment' in input ? input.shipment?.shipmentId : undefined;
+    const workflowId = shipmentId
+      ? `${WORKFLOW_ID_PREFIXES[type]}-${shipmentId}`
+      : `${WORKFLOW_ID_PREFIXES[type]}-${Date.now()}-${randomUUID().slice(0, 8)}`;
+
+    try {
+      const handle = await this.client.workflow.start(type, {
+        args: [input],
+        taskQueue: this.taskQueue,
+        workflowId,
+      });
+      console.log(`Started ${type} ${workflowId}`);
+      return { workflowId, runId: handle.firstExecutionRunId, type };
+    } catch (error) {
+      if (error instanceof WorkflowExecutionAlreadyStartedError && ifExists === 'return-existing') {
+        const handle = this.client.workflow.getHandle(workflowId);
+        const description = await this.describe(handle, workflowId);
+        console.log(`Shipment ${shipmentId} is already running as ${type} ${workflowId}`);
+        return { workflowId, runId: description.runId, type, existing: true };
+      }
+      if (error instanceof WorkflowExecutionAlreadyStartedError) {
+        throw new ShipmentWorkflowError(
+          `Workflow ${workflowId} is already running`,
+          'ALREADY_STARTED',
+          workflowId
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Gets the handle of a running workflow, so signals and cancellations are not sent to
+   * closed workflows
+   * @param workflowId - The workflow ID
+   * @returns Promise<WorkflowHandle> - The workflow handle
+   * @throws ShipmentWorkflowError - When the workflow does not exist or is not running
+   */
+  private async getRunningHandle(workflowId: string): Promise<WorkflowHandle> {
+    const handle = this.client.workflow.getHandle(workflowId);
+    const description = await this.describe(handle, workflowId);
+
+    if (description.status.name !== 'RUNNING') {
+      throw new ShipmentWorkflowError(
+        `Workflow ${workflowId} is not running (${description.status.name})`,
+        'NOT_RUNNING',
+        workflowId
+      );
+    }
+    return handle;
+  }
+
+  /**
+   * Describes a workflow execution
+   * @param handle - The workflow handle
+   * @param workflowId - The workflow ID
+   * @returns Promise - The execution description
+   * @throws ShipmentWorkflowError - When the workflow does not exist
+   */
+  private async describe(handle: WorkflowHandle, workflowId: string) {
+    try {
+      return await handle.describe();
+    } catch (error) {
+      if (error instanceof WorkflowNotFoundError) {
+        throw new ShipmentWorkflowError(
+          `Workflow ${workflowId} not found`,
+          'NOT_FOUND',
+          workflowId
+        );
+      }
+      throw error;
+    }
+  }
+}
+
+/**
+ * Maps a workflow execution to its summary
+ * @param execution - The execution as listed or described by Temporal
+ * @returns ShipmentWorkflowSummary - The workflow's IDs, type, status and times
+ */
+function toSummary(
+  execution: Pick<
+    WorkflowExecutionInfo,
+    'workflowId' | 'runId' | 'type' | 'status' | 'startTime' | 'closeTime'
+  >
+): ShipmentWorkflowSummary {
+  return {
+    workflowId: execution.workflowId,
+    runId: execution.runId,
+    type: execution.type,
+    status: execution.status.name,
+    startTime: execution.startTime.toISOString(),
+    closeTime: execution.closeTime?.toISOString(),
+  };
+}
+
+/**
+ * Extracts a readable message from an error
+ * @param error - The error
+ * @returns string - The error message
+ */
+function getErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
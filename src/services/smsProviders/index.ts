@@ -0,0 +1,22 @@
+import { SmsProvider, SmsProviderName } from '../../types';
+import { getTwilioConfig } from '../../config';
+import { TwilioSmsProvider } from './twilioProvider';
+import { MockSmsProvider } from './mockProvider';
+
+export { TwilioSmsProvider, MockSmsProvider };
+export { getSmsEncoding, splitIntoSegments, truncateToSegments } from './smsEncoding';
+
+const providerFactories: Record<SmsProviderName, (tenantId?: string) => SmsProvider> = {
+  twilio: tenantId => new TwilioSmsProvider(getTwilioConfig(tenantId)),
+  mock: () => new MockSmsProvider(),
+};
+
+/**
+ * Creates an SMS provider from the application configuration
+ * @param name - The provider name
+ * @param tenantId - Optional tenant whose account the provider should send from
+ * @returns SmsProvider - The configured provider
+ */
+export function createSmsProvider(name: SmsProviderName, tenantId?: string): SmsProvider {
+  return providerFactories[name](tenantId);
+}
@@ -0,0 +1,24 @@
+import { SmsProvider, SmsReceipt } from '../../types';
+import { splitIntoSegments } from './smsEncoding';
+
+/**
+ * Mock SMS provider for demos and tests
+ * Every message is reported as delivered immediately
+ */
+export class MockSmsProvider implements SmsProvider {
+  readonly name = 'mock' as const;
+
+  /**
+   * Simulates SMS sending for demonstration purposes
+   * @param _to - The recipient's E.164 phone number
+   * @param body - The message text
+   * @returns Promise<SmsReceipt> - A delivered receipt
+   */
+  async sendMessage(_to: string, body: string): Promise<SmsReceipt> {
+    return {
+      messageId: `sms_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      status: 'delivered',
+      segments: splitIntoSegments(body).length,
+    };
+  }
+}
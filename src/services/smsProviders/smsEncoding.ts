@@ -0,0 +1,107 @@
+/**
+ * SMS encoding helpers
+ * Messages using only the GSM 03.38 alphabet are sent as GSM-7 (160 characters per SMS, 153
+ * per segment of a multipart SMS); any other character switches the whole message to UCS-2
+ * (70 characters per SMS, 67 per segment).
+ */
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+const GSM_BASIC_CHARACTERS = new Set(
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+    '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà'
+);
+
+// Extension table characters take two units (escape + character)
+const GSM_EXTENSION_CHARACTERS = new Set('^{}\\[~]|€\f');
+
+const SEGMENT_LIMITS: Record<SmsEncoding, { single: number; multipart: number }> = {
+  'GSM-7': { single: 160, multipart: 153 },
+  'UCS-2': { single: 70, multipart: 67 },
+};
+
+/**
+ * Detects the encoding needed to send a message
+ * @param text - The message
+ * @returns SmsEncoding - GSM-7 when every character is in the GSM alphabet, UCS-2 otherwise
+ */
+export function getSmsEncoding(text: string): SmsEncoding {
+  for (const char of text) {
+    if (!GSM_BASIC_CHARACTERS.has(char) && !GSM_EXTENSION_CHARACTERS.has(char)) {
+      return 'UCS-2';
+    }
+  }
+  return 'GSM-7';
+}
+
+/**
+ * Splits a message into the segments it is sent as
+ * Characters are never split across segments (GSM escapes, UTF-16 surrogate pairs)
+ * @param text - The message
+ * @returns string[] - The segments, a single one when the message fits into one SMS
+ */
+export function splitIntoSegments(text: string): string[] {
+  const encoding = getSmsEncoding(text);
+  const limits = SEGMENT_LIMITS[encoding];
+  if (countUnits(text, encoding) <= limits.single) {
+    return [text];
+  }
+
+  const segments: string[] = [];
+  let segment = '';
+  let units = 0;
+  for (const char of text) {
+    const charUnits = countUnits(char, encoding);
+    if (units + charUnits > limits.multipart) {
+      segments.push(segment);
+      segment = '';
+      units = 0;
+    }
+    segment += char;
+    units += charUnits;
+  }
+  segments.push(segment);
+
+  return segments;
+}
+
+/**
+ * Shortens a message to a maximum number of segments, cutting at a word boundary
+ * @param text - The message
+ * @param maxSegments - The maximum number of segments
+ * @param suffix - Appended to a shortened message
+ * @returns string - The message, shortened when it needs more segments
+ */
+export function truncateToSegments(text: string, maxSegments: number, suffix = '...'): string {
+  if (splitIntoSegments(text).length <= maxSegments) {
+    return text;
+  }
+
+  const encoding = getSmsEncoding(text);
+  const limits = SEGMENT_LIMITS[encoding];
+  const budget = maxSegments <= 1 ? limits.single : maxSegments * limits.multipart;
+
+  const words = text.split(' ');
+  while (words.length > 1 && countUnits(`${words.join(' ')}${suffix}`, encoding) > budget) {
+    words.pop();
+  }
+  return `${words.join(' ')}${suffix}`;
+}
+
+/**
+ * Counts the units a text takes in an encoding
+ * @param text - The text
+ * @param encoding - The encoding
+ * @returns number - GSM-7 septets or UCS-2 code units
+ */
+function countUnits(text: string, encoding: SmsEncoding): number {
+  if (encoding === 'UCS-2') {
+    return text.length;
+  }
+
+  let units = 0;
+  for (const char of text) {
+    units += GSM_EXTENSION_CHARACTERS.has(char) ? 2 : 1;
+  }
+  return units;
+}
@@ -0,0 +1,205 @@
+import axios from 'axios';
+import { SmsDeliveryStatus, SmsProvider, SmsReceipt } from '../../types';
+import { getTwilioConfig } from '../../config';
+import { NotificationServiceError } from '../../errors';
+
+/**
+ * Twilio Programmable Messaging SMS provider
+ * Sends the message through the Messages REST API and polls the message resource until a
+ * final delivery receipt arrives or the receipt timeout passes
+ */
+
+interface TwilioConfig {
+  accountSid: string;
+  authToken: string;
+  fromNumber: string;
+  baseUrl: string;
+  timeoutMs: number;
+  receiptTimeoutMs: number;
+  receiptPollIntervalMs: number;
+}
+
+interface TwilioMessageResponse {
+  sid: string;
+  status: string;
+  num_segments?: string;
+  error_code?: number | null;
+  error_message?: string | null;
+}
+
+interface TwilioErrorResponse {
+  code?: number;
+  message?: string;
+}
+
+// Twilio error codes for numbers that can never receive the message
+// 21211: invalid "To" number, 21610: recipient replied STOP, 21614: not a mobile number
+const INVALID_RECIPIENT_CODES = [21211, 21610, 21614];
+
+const FINAL_STATUSES: SmsDeliveryStatus[] = ['delivered', 'undelivered', 'failed'];
+
+export class TwilioSmsProvider implements SmsProvider {
+  readonly name = 'twilio' as const;
+  private accountSid: string;
+  private authToken: string;
+  private fromNumber: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+  private receiptTimeoutMs: number;
+  private receiptPollIntervalMs: number;
+
+  constructor(config: TwilioConfig = getTwilioConfig()) {
+    this.accountSid = config.accountSid;
+    this.authToken = config.authToken;
+    this.fromNumber = config.fromNumber;
+    this.baseUrl = config.baseUrl;
+    this.timeoutMs = config.timeoutMs;
+    this.receiptTimeoutMs = config.receiptTimeoutMs;
+    this.receiptPollIntervalMs = config.receiptPollIntervalMs;
+  }
+
+  /**
+   * Sends an SMS and waits for its delivery receipt
+   * @param to - The recipient's E.164 phone number
+   * @param body - The message text
+   * @returns Promise<SmsReceipt> - The latest delivery receipt
+   * @throws NotificationServiceError - When Twilio rejects the message
+   */
+  async sendMessage(to: string, body: string): Promise<SmsReceipt> {
+    let receipt: SmsReceipt;
+    try {
+      const response = await axios.post<TwilioMessageResponse>(
+        this.messagesUrl('.json'),
+        new URLSearchParams({ To: to, From: this.fromNumber, Body: body }).toString(),
+        {
+          auth: { username: this.accountSid, password: this.authToken },
+          headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+          timeout: this.timeoutMs,
+        }
+      );
+      receipt = toReceipt(response.data);
+    } catch (error) {
+      throw toNotificationServiceError(error);
+    }
+
+    return this.waitForReceipt(receipt);
+  }
+
+  /**
+   * Polls the message until its status is final or the receipt timeout passes
+   * Polling failures keep the last known receipt: the message was accepted, so the
+   * send must not be retried
+   * @param receipt - The receipt returned when the message was accepted
+   * @returns Promise<SmsReceipt> - The latest delivery receipt
+   */
+  private async waitForReceipt(receipt: SmsReceipt): Promise<SmsReceipt> {
+    const deadline = Date.now() + this.receiptTimeoutMs;
+    let latest = receipt;
+
+    while (!FINAL_STATUSES.includes(latest.status) && Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, this.receiptPollIntervalMs));
+      try {
+        const response = await axios.get<TwilioMessageResponse>(
+          this.messagesUrl(`/${latest.messageId}.json`),
+          {
+            auth: { username: this.accountSid, password: this.authToken },
+            timeout: this.timeoutMs,
+          }
+        );
+        latest = toReceipt(response.data);
+      } catch {
+        return latest;
+      }
+    }
+
+    return latest;
+  }
+
+  /**
+   * Builds a URL of the account's Messages resource
+   * @param path - Path after the Messages resource, e.g. ".json"
+   * @returns string - The resource URL
+   */
+  private messagesUrl(path: string): string {
+    return `${this.baseUrl}/2010-04-01/Accounts/${this.accountSid}/Messages${path}`;
+  }
+}
+
+/**
+ * Converts a Twilio message resource to a delivery receipt
+ * @param message - The Twilio message resource
+ * @returns SmsReceipt - The delivery receipt
+ */
+function toReceipt(message: TwilioMessageResponse): SmsReceipt {
+  return {
+    messageId: message.sid,
+    status: toDeliveryStatus(message.status),
+    segments: parseInt(message.num_segments || '1'),
+    errorCode: message.error_code ? String(message.error_code) : undefined,
+    errorMessage: message.error_message || undefined,
+  };
+}
+
+/**
+ * Maps Twilio's message status to a delivery status
+ * @param status - The Twilio message status
+ * @returns SmsDeliveryStatus - The delivery status
+ */
+function toDeliveryStatus(status: string): SmsDeliveryStatus {
+  if (status === 'delivered' || status === 'read') {
+    return 'delivered';
+  }
+  if (status === 'failed' || status === 'canceled') {
+    return 'failed';
+  }
+  if (status === 'undelivered' || status === 'sent' || status === 'sending') {
+    return status;
+  }
+  return 'queued'; // accepted, scheduled, queued
+}
+
+/**
+ * Maps a Twilio API failure to a typed error
+ * Timeouts, connection failures, rate limits and server errors are retryable;
+ * invalid recipients, invalid requests and authentication errors are permanent
+ * @param error - The error thrown while sending the message
+ * @returns NotificationServiceError - The typed error
+ */
+function toNotificationServiceError(error: unknown): NotificationServiceError {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    const details = (error.response.data || {}) as TwilioErrorResponse;
+    const message = `Twilio API error (${status}): ${details.message || error.message}`;
+
+    if (status === 429) {
+      return new NotificationServiceError(message, 'RATE_LIMITED', true);
+    }
+    if (status >= 500) {
+      return new NotificationServiceError(message, 'SERVER_ERROR', true);
+    }
+    if (status === 401 || status === 403) {
+      return new NotificationServiceError(message, 'AUTHENTICATION_ERROR', false);
+    }
+    const invalidRecipient = INVALID_RECIPIENT_CODES.includes(details.code || 0);
+    return new NotificationServiceError(
+      message,
+      invalidRecipient ? 'INVALID_RECIPIENT' : 'INVALID_REQUEST',
+      false
+    );
+  }
+
+  const code = (error as { code?: unknown })?.code;
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+    return new NotificationServiceError('Twilio API request timed out', 'TIMEOUT', true);
+  }
+  if (typeof code === 'string') {
+    return new NotificationServiceError(
+      `Twilio API unreachable: ${(error as Error).message}`,
+      'CONNECTION_ERROR',
+      true
+    );
+  }
+
+  const message = error instanceof Error ? error.message : 'SMS service unavailable';
+  return new NotificationServiceError(message, 'UNKNOWN_ERROR', false);
+}
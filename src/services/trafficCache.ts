@@ -0,0 +1,85 @@
+import { DeliveryRoute, TrafficData } from '../types';
+
+/**
+ * In-memory cache of live traffic data
+ * Keyed by tenant and lane (origin, waypoints and destination), so a tenant is only served
+ * answers from its own providers; entries expire after the configured TTL, and a TTL of 0
+ * disables the cache
+ */
+
+interface CacheEntry {
+  trafficData: TrafficData;
+  storedAt: number;
+}
+
+export class TrafficCache {
+  private entries = new Map<string, CacheEntry>();
+  private ttlMs: number;
+
+  constructor(ttlMinutes: number) {
+    this.ttlMs = ttlMinutes * 60 * 1000;
+  }
+
+  /**
+   * Stores live traffic data for a route
+   * @param trafficData - The traffic data to cache
+   * @param tenantId - Optional tenant whose providers answered
+   * @param now - Current time in epoch milliseconds
+   */
+  set(trafficData: TrafficData, tenantId?: string, now: number = Date.now()): void {
+    if (this.ttlMs <= 0) {
+      return;
+    }
+    this.entries.set(getTenantLaneKey(trafficData.route, tenantId), { trafficData, storedAt: now });
+  }
+
+  /**
+   * Returns cached traffic data for a route if it has not expired
+   * Confidence decays with age, down to half of the original value at the TTL
+   * @param route - The delivery route
+   * @param tenantId - Optional tenant the data is for
+   * @param now - Current time in epoch milliseconds
+   * @returns TrafficData | undefined - Cached data marked with source 'cache'
+   */
+  get(route: DeliveryRoute, tenantId?: string, now: number = Date.now()): TrafficData | undefined {
+    const key = getTenantLaneKey(route, tenantId);
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+
+    const ageMs = now - entry.storedAt;
+    if (ageMs > this.ttlMs) {
+      this.entries.delete(key);
+      return undefined;
+    }
+
+    return {
+      ...entry.trafficData,
+      route,
+      source: 'cache',
+      confidence: entry.trafficData.confidence * (1 - 0.5 * (ageMs / this.ttlMs)),
+    };
+  }
+}
+
+/**
+ * Builds the key of a tenant's lane
+ * @param route - The delivery route
+ * @param tenantId - Optional tenant ID; without one, the key is the lane key
+ * @returns string - The key, e.g. "acme/new york, ny > boston, ma"
+ */
+export function getTenantLaneKey(route: DeliveryRoute, tenantId?: string): string {
+  return tenantId ? `${tenantId}/${getLaneKey(route)}` : getLaneKey(route);
+}
+
+/**
+ * Builds a normalized key for a lane (origin, waypoints and destination)
+ * @param route - The delivery route
+ * @returns string - The lane key
+ */
+export function getLaneKey(route: DeliveryRoute): string {
+  return [route.origin, ...(route.waypoints || []), route.destination]
+    .map(stop => stop.trim().toLowerCase())
+    .join(' > ');
+}
@@ -0,0 +1,150 @@
+import axios from 'axios';
+import { DeliveryRoute, TrafficData, TrafficProvider } from '../../types';
+import { getGoogleMapsConfig } from '../../config';
+import { TrafficApiError, TrafficErrorCode } from '../../errors';
+import { LegDurations, buildTrafficData, getRouteStops, mapHttpError } from './providerUtils';
+
+/**
+ * Google Maps Directions API traffic provider
+ * The Directions API leaves out duration_in_traffic for requests with stopover waypoints, so
+ * each leg between consecutive stops is requested on its own. A leg without
+ * duration_in_traffic fails the request, so the next provider in the chain is tried instead of
+ * reporting the traffic-free duration as a live estimate.
+ */
+
+interface GoogleMapsConfig {
+  apiKey: string;
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+interface DirectionsLeg {
+  duration: { value: number };
+  duration_in_traffic?: { value: number };
+}
+
+interface DirectionsResponse {
+  status: string;
+  error_message?: string;
+  routes: { legs: DirectionsLeg[] }[];
+}
+
+const KNOWN_STATUSES: TrafficErrorCode[] = [
+  'NOT_FOUND',
+  'ZERO_RESULTS',
+  'MAX_WAYPOINTS_EXCEEDED',
+  'MAX_ROUTE_LENGTH_EXCEEDED',
+  'INVALID_REQUEST',
+  'OVER_QUERY_LIMIT',
+  'OVER_DAILY_LIMIT',
+  'REQUEST_DENIED',
+];
+
+// Directions API statuses that can succeed when the request is retried later
+const RETRYABLE_STATUSES: TrafficErrorCode[] = ['OVER_QUERY_LIMIT', 'UNKNOWN_ERROR'];
+
+export class GoogleMapsProvider implements TrafficProvider {
+  readonly name = 'google' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(config: GoogleMapsConfig = getGoogleMapsConfig()) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  /**
+   * Fetches live traffic data from the Directions API
+   * @param route - The delivery route
+   * @returns Promise<TrafficData> - Real traffic data
+   */
+  async getTrafficData(route: DeliveryRoute): Promise<TrafficData> {
+    const stops = getRouteStops(route);
+    const legDurations = await Promise.all(
+      stops.slice(1).map((destination, index) => this.getLegDurations(stops[index], destination))
+    );
+
+    return buildTrafficData(route, this.name, legDurations);
+  }
+
+  /**
+   * Fetches the durations of one leg between consecutive stops
+   * @param origin - The leg's starting stop
+   * @param destination - The leg's ending stop
+   * @returns Promise<LegDurations> - The leg's durations without and with current traffic
+   * @throws TrafficApiError - When the API fails or reports no traffic for the leg
+   */
+  private async getLegDurations(origin: string, destination: string): Promise<LegDurations> {
+    const data = await this.requestDirections(origin, destination);
+
+    if (data.status !== 'OK') {
+      throw this.mapStatusToError(data.status, data.error_message);
+    }
+
+    const legs = data.routes[0]?.legs || [];
+    if (legs.length === 0) {
+      throw new TrafficApiError('Google Maps API returned no route legs', 'ZERO_RESULTS', false);
+    }
+    if (legs.some(leg => !leg.duration_in_traffic)) {
+      throw new TrafficApiError(
+        `Google Maps API returned no traffic data from ${origin} to ${destination}`,
+        'UNKNOWN_ERROR',
+        false
+      );
+    }
+
+    return {
+      normalSeconds: legs.reduce((total, leg) => total + leg.duration.value, 0),
+      currentSeconds: legs.reduce((total, leg) => total + (leg.duration_in_traffic?.value ?? 0), 0),
+    };
+  }
+
+  /**
+   * Calls the Directions API for one leg, mapping transport failures to TrafficApiError
+   * @param origin - The leg's starting stop
+   * @param destination - The leg's ending stop
+   * @returns Promise<DirectionsResponse> - The raw Directions API response
+   */
+  private async requestDirections(
+    origin: string,
+    destination: string
+  ): Promise<DirectionsResponse> {
+    const params: Record<string, string> = {
+      origin,
+      destination,
+      departure_time: 'now',
+      traffic_model: 'best_guess',
+      key: this.apiKey,
+    };
+
+    try {
+      const response = await axios.get<DirectionsResponse>(
+        `${this.baseUrl}/maps/api/directions/json`,
+        { params, timeout: this.timeoutMs }
+      );
+      return response.data;
+    } catch (error) {
+      throw mapHttpError('Google Maps API', error);
+    }
+  }
+
+  /**
+   * Maps a Directions API status code to a typed error
+   * @param status - The status returned by the API
+   * @param errorMessage - Optional error message returned by the API
+   * @returns TrafficApiError - The typed error
+   */
+  private mapStatusToError(status: string, errorMessage?: string): TrafficApiError {
+    const code = KNOWN_STATUSES.includes(status as TrafficErrorCode)
+      ? (status as TrafficErrorCode)
+      : 'UNKNOWN_ERROR';
+
+    return new TrafficApiError(
+      `Google Maps API error: ${status}${errorMessage ? ` - ${errorMessage}` : ''}`,
+      code,
+      RETRYABLE_STATUSES.includes(code)
+    );
+  }
+}
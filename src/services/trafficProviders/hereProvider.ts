@@ -0,0 +1,119 @@
+import axios from 'axios';
+import { DeliveryRoute, TrafficData, TrafficProvider } from '../../types';
+import { getHereConfig } from '../../config';
+import { TrafficApiError } from '../../errors';
+import {
+  Coordinates,
+  buildTrafficData,
+  getRouteStops,
+  mapHttpError,
+  parseCoordinates,
+} from './providerUtils';
+
+/**
+ * HERE Routing API v8 traffic provider
+ * Address stops are geocoded with the HERE Geocoding API, "lat,lng" stops are used as-is
+ */
+
+interface HereConfig {
+  apiKey: string;
+  routingBaseUrl: string;
+  geocodeBaseUrl: string;
+  timeoutMs: number;
+}
+
+interface HereGeocodeResponse {
+  items: { position: Coordinates }[];
+}
+
+interface HereRoutesResponse {
+  routes: { sections: { summary: { duration: number; baseDuration: number } }[] }[];
+}
+
+export class HereProvider implements TrafficProvider {
+  readonly name = 'here' as const;
+  private apiKey: string;
+  private routingBaseUrl: string;
+  private geocodeBaseUrl: string;
+  private timeoutMs: number;
+
+  constructor(config: HereConfig = getHereConfig()) {
+    this.apiKey = config.apiKey;
+    this.routingBaseUrl = config.routingBaseUrl;
+    this.geocodeBaseUrl = config.geocodeBaseUrl;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  /**
+   * Fetches live traffic data from the HERE Routing API
+   * Each via stop starts a new section, reported as one leg
+   * @param route - The delivery route
+   * @returns Promise<TrafficData> - Real traffic data
+   */
+  async getTrafficData(route: DeliveryRoute): Promise<TrafficData> {
+    try {
+      const stops = await Promise.all(getRouteStops(route).map(stop => this.resolveStop(stop)));
+      const origin = stops[0];
+      const destination = stops[stops.length - 1];
+
+      const params = new URLSearchParams({
+        transportMode: 'truck',
+        origin: this.formatPosition(origin),
+        destination: this.formatPosition(destination),
+        return: 'summary',
+        apiKey: this.apiKey,
+      });
+      for (const via of stops.slice(1, -1)) {
+        params.append('via', this.formatPosition(via));
+      }
+
+      const response = await axios.get<HereRoutesResponse>(`${this.routingBaseUrl}/v8/routes`, {
+        params,
+        timeout: this.timeoutMs,
+      });
+
+      const sections = response.data.routes?.[0]?.sections || [];
+      if (sections.length === 0) {
+        throw new TrafficApiError('HERE Routing API returned no route', 'ZERO_RESULTS', false);
+      }
+
+      return buildTrafficData(
+        route,
+        this.name,
+        sections.map(section => ({
+          normalSeconds: section.summary.baseDuration,
+          currentSeconds: section.summary.duration,
+        }))
+      );
+    } catch (error) {
+      throw mapHttpError('HERE API', error);
+    }
+  }
+
+  /**
+   * Resolves a stop to coordinates, geocoding addresses
+   * @param stop - The stop as entered on the route
+   * @returns Promise<Coordinates> - The stop position
+   */
+  private async resolveStop(stop: string): Promise<Coordinates> {
+    const coordinates = parseCoordinates(stop);
+    if (coordinates) {
+      return coordinates;
+    }
+
+    const response = await axios.get<HereGeocodeResponse>(`${this.geocodeBaseUrl}/v1/geocode`, {
+      params: { q: stop, limit: 1, apiKey: this.apiKey },
+      timeout: this.timeoutMs,
+    });
+
+    const position = response.data.items?.[0]?.position;
+    if (!position) {
+      throw new TrafficApiError(`HERE Geocoding API could not find "${stop}"`, 'NOT_FOUND', false);
+    }
+    return position;
+  }
+
+  private formatPosition(position: Coordinates): string {
+    return `${position.lat},${position.lng}`;
+  }
+}
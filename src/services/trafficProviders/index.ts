@@ -0,0 +1,30 @@
+import { TrafficProvider, TrafficProviderName } from '../../types';
+import { getGoogleMapsConfig, getHereConfig, getTomTomConfig } from '../../config';
+import { GoogleMapsProvider } from './googleMapsProvider';
+import { HereProvider } from './hereProvider';
+import { TomTomProvider } from './tomTomProvider';
+import { OsrmProvider } from './osrmProvider';
+import { MockTrafficProvider } from './mockProvider';
+
+export { GoogleMapsProvider, HereProvider, TomTomProvider, OsrmProvider, MockTrafficProvider };
+
+const providerFactories: Record<TrafficProviderName, (tenantId?: string) => TrafficProvider> = {
+  google: tenantId => new GoogleMapsProvider(getGoogleMapsConfig(tenantId)),
+  here: tenantId => new HereProvider(getHereConfig(tenantId)),
+  tomtom: tenantId => new TomTomProvider(getTomTomConfig(tenantId)),
+  osrm: () => new OsrmProvider(),
+  mock: () => new MockTrafficProvider(),
+};
+
+/**
+ * Creates a traffic provider from the application configuration
+ * @param name - The provider name
+ * @param tenantId - Optional tenant whose API keys the provider should use
+ * @returns TrafficProvider - The configured provider
+ */
+export function createTrafficProvider(
+  name: TrafficProviderName,
+  tenantId?: string
+): TrafficProvider {
+  return providerFactories[name](tenantId);
+}
@@ -0,0 +1,93 @@
+import axios from 'axios';
+import { DeliveryRoute, TrafficData, TrafficProvider } from '../../types';
+import { getOsrmConfig } from '../../config';
+import { TrafficApiError } from '../../errors';
+import { buildTrafficData, getRouteStops, mapHttpError, parseCoordinates } from './providerUtils';
+
+/**
+ * Self-hosted OSRM traffic provider
+ * OSRM has no geocoder, so every stop must be given as "lat,lng". It returns a single
+ * duration per leg, which reflects live traffic only when the instance is fed traffic
+ * updates; the delay is therefore reported as zero and OSRM is best used as a failover.
+ * Its estimates carry a reduced confidence for the same reason.
+ */
+
+const OSRM_CONFIDENCE = 0.5;
+
+interface OsrmConfig {
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+interface OsrmRouteResponse {
+  code: string;
+  message?: string;
+  routes: { legs: { duration: number }[] }[];
+}
+
+export class OsrmProvider implements TrafficProvider {
+  readonly name = 'osrm' as const;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(config: OsrmConfig = getOsrmConfig()) {
+    this.baseUrl = config.baseUrl;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  /**
+   * Fetches route durations from the OSRM route service
+   * @param route - The delivery route with coordinate stops
+   * @returns Promise<TrafficData> - Traffic data based on OSRM durations
+   */
+  async getTrafficData(route: DeliveryRoute): Promise<TrafficData> {
+    const coordinates = getRouteStops(route).map(stop => {
+      const position = parseCoordinates(stop);
+      if (!position) {
+        throw new TrafficApiError(
+          `OSRM requires "lat,lng" coordinates, got "${stop}"`,
+          'INVALID_REQUEST',
+          false
+        );
+      }
+      // OSRM expects longitude first
+      return `${position.lng},${position.lat}`;
+    });
+
+    let data: OsrmRouteResponse;
+    try {
+      const response = await axios.get<OsrmRouteResponse>(
+        `${this.baseUrl}/route/v1/driving/${coordinates.join(';')}`,
+        { params: { overview: 'false' }, timeout: this.timeoutMs }
+      );
+      data = response.data;
+    } catch (error) {
+      // OSRM reports routing errors with HTTP 400 and a code in the body
+      if (axios.isAxiosError(error) && error.response?.data?.code) {
+        data = error.response.data as OsrmRouteResponse;
+      } else {
+        throw mapHttpError('OSRM', error);
+      }
+    }
+
+    if (data.code !== 'Ok') {
+      throw new TrafficApiError(
+        `OSRM error: ${data.code}${data.message ? ` - ${data.message}` : ''}`,
+        data.code === 'NoRoute' ? 'ZERO_RESULTS' : 'INVALID_REQUEST',
+        false
+      );
+    }
+
+    const legs = data.routes[0]?.legs || [];
+    if (legs.length === 0) {
+      throw new TrafficApiError('OSRM returned no route legs', 'ZERO_RESULTS', false);
+    }
+
+    return buildTrafficData(
+      route,
+      this.name,
+      legs.map(leg => ({ normalSeconds: leg.duration, currentSeconds: leg.duration })),
+      OSRM_CONFIDENCE
+    );
+  }
+}
@@ -0,0 +1,148 @@
+import axios from 'axios';
+import { DeliveryRoute, TrafficCondition, TrafficData, TrafficLeg } from '../../types';
+import { TrafficApiError } from '../../errors';
+
+/**
+ * Helpers shared by the traffic provider implementations
+ */
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
+}
+
+// Confidence of live estimates from providers with real-time traffic
+export const LIVE_TRAFFIC_CONFIDENCE = 0.9;
+
+const COORDINATES_PATTERN = /^\s*(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)\s*$/;
+
+/**
+ * Returns all stops of a route in travel order
+ * @param route - The delivery route
+ * @returns string[] - Origin, waypoints and destination
+ */
+export function getRouteStops(route: DeliveryRoute): string[] {
+  return [route.origin, ...(route.waypoints || []), route.destination];
+}
+
+/**
+ * Parses a "lat,lng" stop into coordinates
+ * @param stop - The stop as entered on the route
+ * @returns Coordinates | undefined - Coordinates, or undefined when the stop is an address
+ */
+export function parseCoordinates(stop: string): Coordinates | undefined {
+  const match = COORDINATES_PATTERN.exec(stop);
+  if (!match) {
+    return undefined;
+  }
+  return { lat: parseFloat(match[1]), lng: parseFloat(match[2]) };
+}
+
+export interface LegDurations {
+  normalSeconds: number; // Travel time without traffic
+  currentSeconds: number; // Travel time with current traffic
+}
+
+/**
+ * Builds traffic data from per-leg durations, with totals summed over all legs
+ * Legs are labelled with the route's stops in travel order
+ * @param route - The delivery route
+ * @param provider - The provider that produced the durations
+ * @param legDurations - Durations of each leg between consecutive stops
+ * @param confidence - How much the provider's traffic estimate can be trusted (0-1)
+ * @returns TrafficData - Live traffic data with delay, condition and per-leg breakdown
+ */
+export function buildTrafficData(
+  route: DeliveryRoute,
+  provider: TrafficData['provider'],
+  legDurations: LegDurations[],
+  confidence: number = LIVE_TRAFFIC_CONFIDENCE
+): TrafficData {
+  const stops = getRouteStops(route);
+  const legs: TrafficLeg[] = legDurations.map((leg, index) => {
+    const normalDurationMinutes = Math.round(leg.normalSeconds / 60);
+    const currentDurationMinutes = Math.round(leg.currentSeconds / 60);
+    const delayMinutes = Math.max(0, currentDurationMinutes - normalDurationMinutes);
+
+    return {
+      from: stops[index] ?? `Stop ${index + 1}`,
+      to: stops[index + 1] ?? `Stop ${index + 2}`,
+      normalDurationMinutes,
+      currentDurationMinutes,
+      delayMinutes,
+      trafficCondition: calculateTrafficCondition(delayMinutes, normalDurationMinutes),
+    };
+  });
+
+  const normalDurationSeconds = legDurations.reduce((total, leg) => total + leg.normalSeconds, 0);
+  const currentDurationSeconds = legDurations.reduce((total, leg) => total + leg.currentSeconds, 0);
+  const normalDurationMinutes = Math.round(normalDurationSeconds / 60);
+  const currentDurationMinutes = Math.round(currentDurationSeconds / 60);
+  const estimatedDelayMinutes = Math.max(0, currentDurationMinutes - normalDurationMinutes);
+
+  return {
+    estimatedDelayMinutes,
+    normalDurationMinutes,
+    currentDurationMinutes,
+    trafficCondition: calculateTrafficCondition(estimatedDelayMinutes, normalDurationMinutes),
+    legs,
+    route,
+    provider,
+    source: 'live',
+    confidence,
+  };
+}
+
+/**
+ * Classifies traffic by the delay relative to the normal travel time
+ * @param delayMinutes - The estimated delay in minutes
+ * @param normalDurationMinutes - The travel time without traffic in minutes
+ * @returns TrafficCondition - The traffic condition
+ */
+export function calculateTrafficCondition(
+  delayMinutes: number,
+  normalDurationMinutes: number
+): TrafficCondition {
+  const ratio = normalDurationMinutes > 0 ? delayMinutes / normalDurationMinutes : 0;
+
+  if (ratio < 0.1) {
+    return 'light';
+  } else if (ratio < 0.25) {
+    return 'moderate';
+  } else if (ratio < 0.5) {
+    return 'heavy';
+  }
+  return 'severe';
+}
+
+/**
+ * Maps an HTTP client failure to a typed traffic error
+ * @param providerLabel - Human readable provider name for error messages
+ * @param error - The error thrown by the HTTP client
+ * @returns TrafficApiError - The typed error
+ */
+export function mapHttpError(providerLabel: string, error: unknown): TrafficApiError {
+  if (error instanceof TrafficApiError) {
+    return error;
+  }
+
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    if (status === 429) {
+      return new TrafficApiError(`${providerLabel} rate limit exceeded`, 'OVER_QUERY_LIMIT', true);
+    }
+    if (status >= 500) {
+      return new TrafficApiError(`${providerLabel} HTTP ${status}`, 'UNKNOWN_ERROR', true);
+    }
+    if (status === 401 || status === 403) {
+      return new TrafficApiError(`${providerLabel} HTTP ${status}`, 'REQUEST_DENIED', false);
+    }
+    if (status === 404) {
+      return new TrafficApiError(`${providerLabel} HTTP ${status}`, 'NOT_FOUND', false);
+    }
+    return new TrafficApiError(`${providerLabel} HTTP ${status}`, 'INVALID_REQUEST', false);
+  }
+
+  const message = error instanceof Error ? error.message : 'Unknown network error';
+  return new TrafficApiError(`${providerLabel} unreachable: ${message}`, 'NETWORK_ERROR', true);
+}
@@ -0,0 +1,111 @@
+import axios from 'axios';
+import { DeliveryRoute, TrafficData, TrafficProvider } from '../../types';
+import { getTomTomConfig } from '../../config';
+import { TrafficApiError } from '../../errors';
+import {
+  Coordinates,
+  buildTrafficData,
+  getRouteStops,
+  mapHttpError,
+  parseCoordinates,
+} from './providerUtils';
+
+/**
+ * TomTom Routing API traffic provider
+ * Address stops are geocoded with the TomTom Search API, "lat,lng" stops are used as-is
+ */
+
+interface TomTomConfig {
+  apiKey: string;
+  baseUrl: string;
+  timeoutMs: number;
+}
+
+interface TomTomGeocodeResponse {
+  results: { position: { lat: number; lon: number } }[];
+}
+
+interface TomTomRouteResponse {
+  routes: {
+    legs: { summary: { travelTimeInSeconds: number; noTrafficTravelTimeInSeconds?: number } }[];
+  }[];
+}
+
+export class TomTomProvider implements TrafficProvider {
+  readonly name = 'tomtom' as const;
+  private apiKey: string;
+  private baseUrl: string;
+  private timeoutMs: number;
+
+  constructor(config: TomTomConfig = getTomTomConfig()) {
+    this.apiKey = config.apiKey;
+    this.baseUrl = config.baseUrl;
+    this.timeoutMs = config.timeoutMs;
+  }
+
+  /**
+   * Fetches live traffic data from the TomTom Calculate Route API
+   * Each leg of the route is reported separately
+   * @param route - The delivery route
+   * @returns Promise<TrafficData> - Real traffic data
+   */
+  async getTrafficData(route: DeliveryRoute): Promise<TrafficData> {
+    try {
+      const stops = await Promise.all(getRouteStops(route).map(stop => this.resolveStop(stop)));
+      const locations = stops.map(stop => `${stop.lat},${stop.lng}`).join(':');
+
+      const response = await axios.get<TomTomRouteResponse>(
+        `${this.baseUrl}/routing/1/calculateRoute/${locations}/json`,
+        {
+          params: {
+            key: this.apiKey,
+            traffic: true,
+            travelMode: 'truck',
+            computeTravelTimeFor: 'all',
+          },
+          timeout: this.timeoutMs,
+        }
+      );
+
+      const legs = response.data.routes?.[0]?.legs || [];
+      if (legs.length === 0) {
+        throw new TrafficApiError('TomTom Routing API returned no route', 'ZERO_RESULTS', false);
+      }
+
+      return buildTrafficData(
+        route,
+        this.name,
+        legs.map(leg => ({
+          normalSeconds:
+            leg.summary.noTrafficTravelTimeInSeconds ?? leg.summary.travelTimeInSeconds,
+          currentSeconds: leg.summary.travelTimeInSeconds,
+        }))
+      );
+    } catch (error) {
+      throw mapHttpError('TomTom API', error);
+    }
+  }
+
+  /**
+   * Resolves a stop to coordinates, geocoding addresses
+   * @param stop - The stop as entered on the route
+   * @returns Promise<Coordinates> - The stop position
+   */
+  private async resolveStop(stop: string): Promise<Coordinates> {
+    const coordinates = parseCoordinates(stop);
+    if (coordinates) {
+      return coordinates;
+    }
+
+    const response = await axios.get<TomTomGeocodeResponse>(
+      `${this.baseUrl}/search/2/geocode/${encodeURIComponent(stop)}.json`,
+      { params: { key: this.apiKey, limit: 1 }, timeout: this.timeoutMs }
+    );
+
+    const position = response.data.results?.[0]?.position;
+    if (!position) {
+      throw new TrafficApiError(`TomTom Search API could not find "${stop}"`, 'NOT_FOUND', false);
+    }
+    return { lat: position.lat, lng: position.lon };
+  }
+}
@@ -1,76 +1,176 @@
-import { DeliveryRoute, TrafficData } from '../types';
-import { getGoogleMapsConfig } from '../config';
+import { DeliveryRoute, TrafficData, TrafficProvider, TrafficProviderName } from '../types';
+import { getTrafficConfig, parseTrafficProviderChain } from '../config';
+import { TrafficApiError } from '../errors';
+import { createTrafficProvider } from './trafficProviders';
+import { calculateTrafficCondition } from './trafficProviders/providerUtils';
+import { TrafficCache } from './trafficCache';
+import { HistoricalTrafficStore } from './historicalTrafficStore';
 
 // Type declarations for Node.js environment
 declare const console: any;
 
 /**
- * Traffic Service for Google Maps API integration
- * Fetches traffic data and calculates potential delays for delivery routes
+ * Traffic Service
+ * Fetches traffic data for delivery routes through a chain of pluggable providers
+ * (Google Maps, HERE, TomTom, self-hosted OSRM or mock data).
  *
- * Note: This implementation uses mock data by default. In a production environment,
- * you would integrate with Google Maps Directions API using a proper HTTP client.
+ * The provider chain is resolved per request, in order of precedence:
+ * 1. The route's own `trafficProviders` list
+ * 2. The tenant's chain (its profile's trafficProviders, then TRAFFIC_PROVIDER_TENANT_CHAINS)
+ * 3. The default chain (TRAFFIC_PROVIDERS)
+ *
+ * Providers are tried in order; the first successful response wins. A tenant's providers use
+ * the tenant's own API keys when its profile has them.
+ *
+ * Live responses are cached per tenant and lane, and folded into historical baselines per lane
+ * and hour of the week. When the whole chain fails, the tenant's fresh cached data is returned,
+ * then the historical baseline; both carry a lower confidence than live data.
  */
 
+interface TrafficConfig {
+  defaultChain: TrafficProviderName[];
+  tenantChains: Record<string, TrafficProviderName[]>;
+  cacheTtlMinutes: number;
+  historyFile?: string;
+}
+
 export class TrafficService {
-  private apiKey: string;
+  private defaultChain: TrafficProviderName[];
+  private tenantChains: Record<string, TrafficProviderName[]>;
+  private providers = new Map<TrafficProviderName, TrafficProvider>();
+  private createdProviders = new Map<string, TrafficProvider>(); // By "tenantId/provider"
+  private cache: TrafficCache;
+  private history: HistoricalTrafficStore;
 
-  constructor() {
-    this.apiKey = getGoogleMapsConfig().apiKey;
+  constructor(
+    config: TrafficConfig = getTrafficConfig(),
+    providers: TrafficProvider[] = [],
+    history: HistoricalTrafficStore = new HistoricalTrafficStore(config.historyFile)
+  ) {
+    this.defaultChain = config.defaultChain;
+    this.tenantChains = config.tenantChains;
+    this.cache = new TrafficCache(config.cacheTtlMinutes);
+    this.history = history;
+    for (const provider of providers) {
+      this.providers.set(provider.name, provider);
+    }
   }
 
   /**
-   * Fetches traffic data for a delivery route and calculates delay
+   * Fetches traffic data for a delivery route, failing over along the provider chain
+   * and then to cached and historical data
    * @param route - The delivery route to check
-   * @returns Promise<TrafficData> - Traffic data with delay information
+   * @param tenantId - Optional tenant whose provider chain should be used
+   * @returns Promise<TrafficData> - Traffic data, including its provider, source and confidence
+   * @throws TrafficApiError - When every provider fails and no cached or historical data exists
    */
-  async getTrafficData(route: DeliveryRoute): Promise<TrafficData> {
-    try {
-      return await this.getRealTrafficData(route);
-    } catch (error) {
-      console.error('Error fetching traffic data:', error);
-      console.log('Falling back to mock traffic data');
-      return this.getMockTrafficData(route);
+  async getTrafficData(route: DeliveryRoute, tenantId?: string): Promise<TrafficData> {
+    const chain = this.resolveProviderChain(route, tenantId);
+    const errors: TrafficApiError[] = [];
+
+    for (const name of chain) {
+      try {
+        const trafficData = await this.getProvider(name, tenantId).getTrafficData(route);
+        console.log(`Traffic data provided by ${name}`);
+        if (trafficData.source === 'live') {
+          this.cache.set(trafficData, tenantId);
+          this.history.record(trafficData, tenantId);
+        }
+        return trafficData;
+      } catch (error) {
+        const apiError = this.toTrafficApiError(error);
+        console.error(`Traffic provider ${name} failed:`, apiError.message);
+        errors.push(apiError);
+      }
+    }
+
+    const fallback = this.cache.get(route, tenantId) || this.history.getBaseline(route, tenantId);
+    if (fallback) {
+      console.log(
+        `Live traffic unavailable, using ${fallback.source} data (confidence ${fallback.confidence.toFixed(2)})`
+      );
+      return fallback;
     }
+
+    if (errors.length === 1) {
+      throw errors[0];
+    }
+
+    const lastError = errors[errors.length - 1];
+    throw new TrafficApiError(
+      `All traffic providers failed (${chain.join(', ')}): ${errors.map(e => e.message).join('; ')}`,
+      lastError.code,
+      errors.some(e => e.retryable)
+    );
   }
 
   /**
-   * Generates mock traffic data for testing purposes
+   * Resolves the ordered provider chain for a route
+   * A route's providers can only reorder or narrow the tenant's configured chain, so requests
+   * cannot switch to providers the deployment does not allow, such as mock data in production;
+   * the configured chain is used when none of the route's providers are configured
    * @param route - The delivery route
-   * @returns TrafficData - Mock traffic data
+   * @param tenantId - Optional tenant ID
+   * @returns TrafficProviderName[] - Providers to try, in order
+   */
+  resolveProviderChain(route: DeliveryRoute, tenantId?: string): TrafficProviderName[] {
+    const configuredChain =
+      tenantId && this.tenantChains[tenantId] ? this.tenantChains[tenantId] : this.defaultChain;
+    if (!route.trafficProviders || route.trafficProviders.length === 0) {
+      return configuredChain;
+    }
+
+    const routeChain = parseTrafficProviderChain(
+      route.trafficProviders,
+      'route.trafficProviders'
+    ).filter(name => configuredChain.includes(name));
+    if (routeChain.length === 0) {
+      console.warn(
+        `None of the route's traffic providers (${route.trafficProviders.join(', ')}) are ` +
+          `configured, using ${configuredChain.join(', ')}`
+      );
+      return configuredChain;
+    }
+    return routeChain;
+  }
+
+  /**
+   * Narrows traffic data to the part of the route that ends at an intermediate stop
+   * Used to tell customers at a waypoint about the delay on their own part of the trip. As for
+   * the whole route, the delay is the current minus the normal duration up to the stop, so time
+   * made up on one leg offsets a delay on another
+   * @param trafficData - Traffic data for the whole route, including its legs
+   * @param stop - The waypoint, as listed on the route
+   * @returns TrafficData | undefined - Traffic data up to the stop, or undefined when the stop
+   * is not on the route
    */
-  private getMockTrafficData(route: DeliveryRoute): TrafficData {
-    const baseDelayMinutes = Math.floor(Math.random() * 60);
-    const normalDurationMinutes = 120;
-    const currentDurationMinutes = normalDurationMinutes + baseDelayMinutes;
-
-    let trafficCondition: 'light' | 'moderate' | 'heavy' | 'severe';
-    if (baseDelayMinutes < 15) {
-      trafficCondition = 'light';
-    } else if (baseDelayMinutes < 30) {
-      trafficCondition = 'moderate';
-    } else if (baseDelayMinutes < 45) {
-      trafficCondition = 'heavy';
-    } else {
-      trafficCondition = 'severe';
+  getTrafficDataToStop(trafficData: TrafficData, stop: string): TrafficData | undefined {
+    const lastLegIndex = trafficData.legs.findIndex(leg => leg.to === stop);
+    if (lastLegIndex < 0) {
+      return undefined;
     }
 
-    const mockData: TrafficData = {
-      estimatedDelayMinutes: baseDelayMinutes,
+    const legs = trafficData.legs.slice(0, lastLegIndex + 1);
+    const normalDurationMinutes = legs.reduce((total, leg) => total + leg.normalDurationMinutes, 0);
+    const currentDurationMinutes = legs.reduce(
+      (total, leg) => total + leg.currentDurationMinutes,
+      0
+    );
+    const estimatedDelayMinutes = Math.max(0, currentDurationMinutes - normalDurationMinutes);
+
+    return {
+      ...trafficData,
+      estimatedDelayMinutes,
       normalDurationMinutes,
       currentDurationMinutes,
-      trafficCondition,
-      route,
+      trafficCondition: calculateTrafficCondition(estimatedDelayMinutes, normalDurationMinutes),
+      legs,
+      route: {
+        ...trafficData.route,
+        destination: stop,
+        waypoints: (trafficData.route.waypoints || []).slice(0, lastLegIndex),
+      },
     };
-
-    console.log('Mock traffic data generated:', {
-      delay: `${baseDelayMinutes} minutes`,
-      condition: trafficCondition,
-      normalDuration: `${normalDurationMinutes} minutes`,
-      currentDuration: `${currentDurationMinutes} minutes`,
-    });
-
-    return mockData;
   }
 
   /**
@@ -88,46 +188,32 @@ export class TrafficService {
   }
 
   /**
-   * Simulates actual Google Maps API integration
-   * This method shows how you would integrate with the real API
-   * @param route - The delivery route
-   * @returns Promise<TrafficData> - Would return real traffic data
+   * Wraps unexpected provider errors so every failure carries a code and retryability
+   * @param error - The error thrown by a provider
+   * @returns TrafficApiError - The typed error
    */
-  private async getRealTrafficData(route: DeliveryRoute): Promise<TrafficData> {
-    // Example of how to integrate with Google Maps API:
-    //
-    // const response = await fetch(`https://maps.googleapis.com/maps/api/directions/json?` +
-    //   `origin=${encodeURIComponent(route.origin)}&` +
-    //   `destination=${encodeURIComponent(route.destination)}&` +
-    //   `departure_time=now&` +
-    //   `traffic_model=best_guess&` +
-    //   `key=${this.apiKey}`);
-    //
-    // const data = await response.json();
-    //
-    // if (data.status !== 'OK' || !data.routes.length) {
-    //   throw new Error(`Google Maps API error: ${data.status}`);
-    // }
-    //
-    // const routeData = data.routes[0];
-    // const leg = routeData.legs[0];
-    //
-    // const normalDurationMinutes = Math.round(leg.duration.value / 60);
-    // const trafficDurationMinutes = leg.duration_in_traffic?.value
-    //   ? Math.round(leg.duration_in_traffic.value / 60)
-    //   : normalDurationMinutes;
-    //
-    // const estimatedDelayMinutes = Math.max(0, trafficDurationMinutes - normalDurationMinutes);
-    //
-    // return {
-    //   estimatedDelayMinutes,
-    //   normalDurationMinutes,
-    //   currentDurationMinutes: trafficDurationMinutes,
-    //   trafficCondition: this.calculateTrafficCondition(estimatedDelayMinutes, normalDurationMinutes),
-    //   route
-    // };
-
-    // For now, return mock data
-    return this.getMockTrafficData(route);
+  private toTrafficApiError(error: unknown): TrafficApiError {
+    if (error instanceof TrafficApiError) {
+      return error;
+    }
+    const message = error instanceof Error ? error.message : 'Unknown provider error';
+    return new TrafficApiError(message, 'UNKNOWN_ERROR', true);
+  }
+
+  /**
+   * Returns the provider instance for a name, creating it from configuration on first use
+   * Providers passed to the constructor serve every tenant
+   * @param name - The provider name
+   * @param tenantId - Optional tenant whose credentials the provider should use
+   * @returns TrafficProvider - The provider
+   */
+  private getProvider(name: TrafficProviderName, tenantId?: string): TrafficProvider {
+    const key = `${tenantId ?? ''}/${name}`;
+    let provider = this.providers.get(name) ?? this.createdProviders.get(key);
+    if (!provider) {
+      provider = createTrafficProvider(name, tenantId);
+      this.createdProviders.set(key, provider);
+    }
+    return provider;
   }
 }
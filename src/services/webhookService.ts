@@ -0,0 +1,337 @@
+import axios from 'axios';
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import { NotificationRequest, NotificationResponse, WebhookDelayEvent } from '../types';
+import { getWebhookConfig } from '../config';
+import { NotificationServiceError } from '../errors';
+
+// Type declarations for Node.js environment
+declare const console: any;
+
+/**
+ * Webhook Service for shipper systems
+ * POSTs a versioned JSON delay event to the customer's endpoint (e.g. their TMS), signed with
+ * HMAC-SHA256 so the receiver can verify it came from us. Retryable failures are thrown so
+ * Temporal retries the activity with backoff; rejected events are returned as permanent failures.
+ *
+ * Signature header: X-Freight-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+ *
+ * Webhook URLs come from API requests, so events are only POSTed over HTTPS to public hosts;
+ * loopback, private and link-local addresses (and host names resolving to them) are refused
+ * unless private URLs are allowed for local development.
+ */
+
+interface WebhookConfig {
+  signingSecret: string;
+  customerSecrets: Record<string, string>;
+  timeoutMs: number;
+  allowPrivateUrls: boolean; // Allows HTTP and private hosts, e.g. a receiver on localhost
+}
+
+// Loopback, private, link-local and unspecified networks, as [network, prefix length]
+const PRIVATE_IPV4_SUBNETS: [string, number][] = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+];
+const PRIVATE_IPV6_SUBNETS: [string, number][] = [
+  ['::', 128],
+  ['::1', 128],
+  ['::ffff:0:0', 96], // IPv4-mapped addresses
+  ['fc00::', 7],
+  ['fe80::', 10],
+];
+
+const PRIVATE_ADDRESSES = new BlockList();
+PRIVATE_IPV4_SUBNETS.forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network, prefix));
+PRIVATE_IPV6_SUBNETS.forEach(([network, prefix]) =>
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6')
+);
+
+const PRIVATE_HOST_SUFFIXES = ['localhost', '.localhost', '.local', '.internal'];
+
+export const WEBHOOK_EVENT_VERSION = '1';
+
+export const SIGNATURE_HEADER = 'X-Freight-Signature';
+
+export class WebhookService {
+  private signingSecret: string;
+  private customerSecrets: Record<string, string>;
+  private timeoutMs: number;
+  private allowPrivateUrls: boolean;
+
+  constructor(config: WebhookConfig = getWebhookConfig()) {
+    this.signingSecret = config.signingSecret;
+    this.customerSecrets = config.customerSecrets;
+    this.timeoutMs = config.timeoutMs;
+    this.allowPrivateUrls = config.allowPrivateUrls;
+  }
+
+  /**
+   * Sends the delay event to the customer's webhook endpoint
+   * @param request - The notification request with the customer's webhook URL
+   * @param payload - Optional JSON event to send, so the caller can record exactly what was sent
+   * @returns Promise<NotificationResponse> - The response, with the event ID as message ID
+   * @throws NotificationServiceError - When the failure is retryable
+   */
+  async sendWebhookNotification(
+    request: NotificationRequest,
+    payload: string = this.createPayload(request)
+  ): Promise<NotificationResponse> {
+    const url = request.webhookUrl?.trim();
+    const urlError = url
+      ? await this.getUrlError(url)
+      : 'Customer has no webhook URL for webhook notifications';
+    if (!url || urlError) {
+      return { success: false, error: urlError, errorCode: 'INVALID_RECIPIENT' };
+    }
+
+    const event: WebhookDelayEvent = JSON.parse(payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    const secret = this.getSigningSecret(request.customerEmail);
+
+    try {
+      await axios.post(url, payload, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Freight-Event-Id': event.id,
+          'X-Freight-Event-Type': event.type,
+          [SIGNATURE_HEADER]: signWebhookPayload(payload, secret, timestamp),
+          ...(request.correlationId ? { 'X-Correlation-ID': request.correlationId } : {}),
+        },
+        timeout: this.timeoutMs,
+        maxRedirects: 0,
+      });
+
+      console.log(`Webhook event ${event.id} delivered to ${url}`);
+      return { success: true, messageId: event.id };
+    } catch (error) {
+      const notificationError = toNotificationServiceError(error, url);
+      console.error('Error sending webhook notification:', notificationError.message);
+      if (notificationError.retryable) {
+        throw notificationError;
+      }
+
+      return {
+        success: false,
+        messageId: event.id,
+        error: notificationError.message,
+        errorCode: notificationError.code,
+      };
+    }
+  }
+
+  /**
+   * Builds the versioned delay event for a notification
+   * @param request - The notification request
+   * @returns WebhookDelayEvent - The event POSTed to the webhook endpoint
+   */
+  createEvent(request: NotificationRequest): WebhookDelayEvent {
+    const route = request.trafficData?.route;
+
+    return {
+      version: WEBHOOK_EVENT_VERSION,
+      id: createEventId(request),
+      type: request.kind === 'back_on_schedule' ? 'shipment.back_on_schedule' : 'shipment.delayed',
+      createdAt: request.createdAt || new Date().toISOString(),
+      shipment: {
+        id: request.shipmentId || request.correlationId || 'unknown',
+        origin: route?.origin || '',
+        destination: route?.destination || '',
+        waypoints: route?.waypoints || [],
+        proNumber: request.shipment?.proNumber,
+        bolNumber: request.shipment?.bolNumber,
+        carrier: request.shipment?.carrier,
+        customerReference: request.shipment?.customerReference,
+      },
+      delay: {
+        minutes: request.delayMinutes,
+        trafficCondition: request.trafficData?.trafficCondition,
+      },
+      eta: request.eta,
+      message: request.message,
+    };
+  }
+
+  /**
+   * Serializes the delay event for a notification
+   * @param request - The notification request
+   * @returns string - The JSON body POSTed to the webhook endpoint
+   */
+  createPayload(request: NotificationRequest): string {
+    return JSON.stringify(this.createEvent(request));
+  }
+
+  /**
+   * Checks that events may be POSTed to a webhook URL
+   * @param url - The webhook URL
+   * @returns Promise<string | undefined> - Why the URL is refused, undefined when it is allowed
+   */
+  private async getUrlError(url: string): Promise<string | undefined> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return `Webhook URL ${url} is not an HTTP(S) URL`;
+    }
+    if (this.allowPrivateUrls) {
+      return parsed.protocol === 'https:' || parsed.protocol === 'http:'
+        ? undefined
+        : `Webhook URL ${url} is not an HTTP(S) URL`;
+    }
+    if (parsed.protocol !== 'https:') {
+      return `Webhook URL ${url} is not an HTTPS URL`;
+    }
+
+    const host = parsed.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+    if (PRIVATE_HOST_SUFFIXES.some(suffix => host === suffix || host.endsWith(suffix))) {
+      return `Webhook URL ${url} points to a private host`;
+    }
+    const addresses = isIP(host) ? [host] : await resolveHost(host);
+    if (addresses.some(isPrivateAddress)) {
+      return `Webhook URL ${url} points to a private host`;
+    }
+    return undefined;
+  }
+
+  /**
+   * Picks the signing secret for a customer, falling back to the shared secret
+   * @param customerEmail - The customer's email address
+   * @returns string - The signing secret
+   */
+  private getSigningSecret(customerEmail: string): string {
+    return this.customerSecrets[customerEmail.toLowerCase()] || this.signingSecret;
+  }
+}
+
+/**
+ * Signs a webhook payload
+ * @param payload - The JSON body
+ * @param secret - The signing secret
+ * @param timestamp - Unix time in seconds, included in the signature against replays
+ * @returns string - The signature header value, e.g. "t=1700000000,v1=5257a869..."
+ */
+export function signWebhookPayload(payload: string, secret: string, timestamp: number): string {
+  const signature = createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Verifies a webhook signature, as receivers should before trusting an event
+ * @param payload - The raw JSON body as received
+ * @param header - The X-Freight-Signature header value
+ * @param secret - The signing secret
+ * @param toleranceSeconds - Maximum age of the signature
+ * @param now - Current time in epoch milliseconds
+ * @returns boolean - Whether the signature is valid and recent
+ */
+export function verifyWebhookSignature(
+  payload: string,
+  header: string,
+  secret: string,
+  toleranceSeconds = 300,
+  now: number = Date.now()
+): boolean {
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=', 2)));
+  const timestamp = Number(parts.t);
+  if (!parts.v1 || isNaN(timestamp) || Math.abs(now / 1000 - timestamp) > toleranceSeconds) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(payload, secret, timestamp));
+  const actual = Buffer.from(`t=${parts.t},v1=${parts.v1}`);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Derives the event ID from the notification, so retries of the same event share it
+ * @param request - The notification request
+ * @returns string - The event ID, e.g. "evt_3f2a..."
+ */
+function createEventId(request: NotificationRequest): string {
+  const key = [
+    request.shipmentId || request.correlationId,
+    request.kind || 'delay',
+    request.customerEmail.toLowerCase(),
+    request.delayMinutes,
+    request.eta?.arrivalTime,
+  ].join('|');
+  return `evt_${createHash('sha256').update(key).digest('hex').slice(0, 32)}`;
+}
+
+/**
+ * Resolves a webhook host's addresses
+ * A host that cannot be resolved yields no addresses; POSTing to it then fails as unreachable
+ * @param host - The host name
+ * @returns Promise<string[]> - The host's IPv4 and IPv6 addresses
+ */
+async function resolveHost(host: string): Promise<string[]> {
+  try {
+    const results = await dns.lookup(host, { all: true });
+    return results.map(result => result.address);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Checks whether an address is a loopback, private, link-local or unspecified address
+ * @param address - The IPv4 or IPv6 address
+ * @returns boolean - Whether the address is not publicly routable
+ */
+function isPrivateAddress(address: string): boolean {
+  return PRIVATE_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Maps a webhook delivery failure to a typed error
+ * Timeouts, connection failures, rate limits and server errors are retryable; a missing
+ * endpoint, rejected signatures and other client errors are permanent
+ * @param error - The error thrown while POSTing the event
+ * @param url - The webhook URL
+ * @returns NotificationServiceError - The typed error
+ */
+function toNotificationServiceError(error: unknown, url: string): NotificationServiceError {
+  if (axios.isAxiosError(error) && error.response) {
+    const status = error.response.status;
+    const message = `Webhook ${url} responded with ${status}`;
+
+    if (status === 429) {
+      return new NotificationServiceError(message, 'RATE_LIMITED', true);
+    }
+    if (status === 408) {
+      return new NotificationServiceError(message, 'TIMEOUT', true);
+    }
+    if (status >= 500) {
+      return new NotificationServiceError(message, 'SERVER_ERROR', true);
+    }
+    if (status === 401 || status === 403) {
+      return new NotificationServiceError(message, 'AUTHENTICATION_ERROR', false);
+    }
+    return new NotificationServiceError(
+      message,
+      status === 404 || status === 410 ? 'INVALID_RECIPIENT' : 'INVALID_REQUEST',
+      false
+    );
+  }
+
+  const code = (error as { code?: unknown })?.code;
+  if (code === 'ECONNABORTED' || code === 'ETIMEDOUT') {
+    return new NotificationServiceError(`Webhook ${url} timed out`, 'TIMEOUT', true);
+  }
+  if (typeof code === 'string') {
+    return new NotificationServiceError(
+      `Webhook ${url} unreachable: ${(error as Error).message}`,
+      'CONNECTION_ERROR',
+      true
+    );
+  }
+
+  const message = error instanceof Error ? error.message : 'Webhook delivery failed';
+  return new NotificationServiceError(message, 'UNKNOWN_ERROR', false);
+}
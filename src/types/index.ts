@@ -6,62 +6,689 @@ export interface DeliveryRoute {
   origin: string;
   destination: string;
   waypoints?: string[];
+  trafficProviders?: TrafficProviderName[]; // Overrides the configured provider chain
+}
+
+export type TrafficProviderName = 'google' | 'here' | 'tomtom' | 'osrm' | 'mock';
+
+export type TrafficDataSource = 'live' | 'cache' | 'historical' | 'mock' | 'manual';
+
+export type TrafficCondition = 'light' | 'moderate' | 'heavy' | 'severe';
+
+export interface TrafficLeg {
+  from: string;
+  to: string;
+  normalDurationMinutes: number;
+  currentDurationMinutes: number;
+  delayMinutes: number;
+  trafficCondition: TrafficCondition;
 }
 
 export interface TrafficData {
   estimatedDelayMinutes: number;
   normalDurationMinutes: number;
   currentDurationMinutes: number;
-  trafficCondition: 'light' | 'moderate' | 'heavy' | 'severe';
+  trafficCondition: TrafficCondition;
+  legs: TrafficLeg[]; // One per segment between consecutive stops; empty for manual reports
   route: DeliveryRoute;
+  provider: TrafficProviderName | 'manual'; // 'manual' for delays reported by a dispatcher
+  source: TrafficDataSource;
+  confidence: number; // 0 (no confidence) to 1 (fully trusted)
+}
+
+export interface TrafficProvider {
+  readonly name: TrafficProviderName;
+  getTrafficData(route: DeliveryRoute): Promise<TrafficData>;
+}
+
+// Identifies a shipment across systems; the shipment ID makes workflow IDs deterministic
+export interface ShipmentReference {
+  shipmentId: string; // Unique per shipment, e.g. the TMS load ID
+  proNumber?: string; // Carrier's progressive (PRO) tracking number
+  bolNumber?: string; // Bill of lading number
+  carrier?: string; // Carrier name or SCAC
+  customerReference?: string; // Customer's own reference, e.g. their PO number
 }
 
 export interface DelayNotificationInput {
   route: DeliveryRoute;
+  shipment?: ShipmentReference;
   customerEmail: string;
-  delayThresholdMinutes: number;
+  customerPhone?: string; // E.164, e.g. "+15551234567"; required for the SMS fallback
+  delayThresholdMinutes?: number; // Defaults to the tenant's threshold, then the global one
+  tenantId?: string; // Shipper the notifications are sent for, see TenantProfile
+  customerTier?: string; // Customer tier or SLA, e.g. "gold"; matched by notification rules
+  deliveryAppointment?: DeliveryAppointment;
+  locale?: string; // BCP 47 tag of the customer's language, e.g. "de" or "fr-CA"
+  expectedArrivalTime?: string; // ISO 8601 timestamp of the planned arrival
+  destinationTimeZone?: string; // IANA time zone; inferred from the destination when omitted
+  quietHours?: QuietHours;
+  minTrafficConfidence?: number; // Notifications are withheld below this confidence
+  smsApproval?: SmsApprovalPolicy;
+  stopContacts?: StopContact[];
+  // Everyone notified at the destination; defaults to the customer above on email, then SMS
+  recipients?: NotificationRecipient[];
+  notificationPolicy?: NotificationPolicy;
+  // Waits this long after an email is sent for a bounce before treating it as delivered
+  emailFeedbackMinutes?: number;
+}
+
+export interface NotificationPolicy {
+  repeatChangeMinutes?: number; // A notified delay is repeated once it changed by this much
+  escalationTiers?: EscalationTier[]; // Replaces the configured tiers
+}
+
+export interface EscalationTier {
+  delayMinutes: number; // The tier is reached at this delay
+  channels?: NotificationChannel[]; // Channels used for all recipients from this tier on
+  recipients?: NotificationRecipient[]; // Recipients added from this tier on
+}
+
+export type NotificationAction = 'notify' | 'escalate' | 'suppress' | 'back_on_schedule' | 'none';
+
+export interface NotificationDecision {
+  shipmentKey: string;
+  action: NotificationAction;
+  reason: string;
+  tierIndex: number; // Highest escalation tier the delay reached, -1 below the first tier
+  previousDelayMinutes?: number; // Delay of the last notification
+  escalationChannels?: NotificationChannel[];
+  escalationRecipients?: NotificationRecipient[];
+  notifiedRecipients?: NotificationRecipient[]; // Recipients told about the delay so far
+}
+
+export interface ShipmentNotificationState {
+  lastNotifiedDelayMinutes: number;
+  tierIndex: number;
+  notifiedRecipients: NotificationRecipient[];
+  updatedAt: string;
+}
+
+export type NotificationStateStoreName = 'sqlite' | 'memory';
+
+export interface NotificationStateStore {
+  readonly name: NotificationStateStoreName;
+  get(shipmentKey: string): ShipmentNotificationState | undefined;
+  // Reads and writes a shipment's state atomically, so concurrent workers do not lose updates
+  update(
+    shipmentKey: string,
+    change: (state: ShipmentNotificationState | undefined) => ShipmentNotificationState
+  ): void;
+  delete(shipmentKey: string): void;
+}
+
+export type NotificationChannel = 'email' | 'sms' | 'webhook';
+
+export type DelaySeverity = 'low' | 'medium' | 'high' | 'critical';
+
+export interface NotificationRecipient {
+  name?: string; // e.g. "Receiving dock" or "Account manager"
+  customerEmail: string;
+  customerPhone?: string; // E.164
+  webhookUrl?: string; // Endpoint of the customer's system (e.g. TMS) for the webhook channel
+  channels?: NotificationChannel[]; // Preferred channels, tried in order; defaults to email, SMS
+  minSeverity?: DelaySeverity; // Less severe delays are not notified; defaults to low
+  locale?: string;
+  expectedArrivalTime?: string; // ISO 8601 planned arrival at the recipient's location
+  timeZone?: string; // IANA time zone of the recipient's location
+  quietHours?: QuietHours;
+}
+
+export interface StopContact extends NotificationRecipient {
+  stop: string; // Must match one of the route's waypoints
+  // locale defaults to the shipment's locale, timeZone is inferred from the stop
+}
+
+export interface QuietHours {
+  start: string; // Local time of day, "HH:mm"
+  end: string; // Local time of day, "HH:mm"; before start for windows spanning midnight
+  timeZone?: string; // Defaults to the time zone of the recipient's location
+  urgentDelayMinutes?: number; // Delays at or above this are sent during quiet hours
+}
+
+export interface DeliveryAppointment {
+  start: string; // ISO 8601 timestamp
+  end: string; // ISO 8601 timestamp; an estimated arrival after this misses the appointment
+}
+
+// Conditions of a notification rule; all set conditions must hold for the rule to match
+export interface NotificationRuleConditions {
+  minDelayMinutes?: number;
+  minDelayPercent?: number; // Delay as a percentage of the normal duration of the route
+  missesAppointment?: boolean; // Whether the estimated arrival misses the delivery appointment
+  trafficConditions?: TrafficCondition[];
+  customerTiers?: string[];
+  timeOfDay?: TimeOfDayWindow; // Local time at the destination
+}
+
+export interface TimeOfDayWindow {
+  start: string; // Local time of day, "HH:mm"
+  end: string; // Local time of day, "HH:mm"; before start for windows spanning midnight
+}
+
+export interface NotificationRule {
+  name: string;
+  when: NotificationRuleConditions;
+  notify: boolean; // Whether a matching delay is notified or suppressed
+}
+
+export type NotificationRuleSource = 'customer' | 'tenant' | 'threshold';
+
+// What notification rules are evaluated against besides the traffic data
+export interface NotificationRuleContext {
+  thresholdMinutes: number; // Decides when no rule matches
+  customerEmail: string;
+  tenantId?: string;
+  customerTier?: string;
+  expectedArrivalTime?: string;
+  timeZone?: string; // Defaults to the time zone of the destination
+  deliveryAppointment?: DeliveryAppointment;
+}
+
+export interface NotificationRuleDecision {
+  notify: boolean;
+  rule: string; // Name of the matched rule, or "delay-threshold" when none matched
+  source: NotificationRuleSource;
+  explanation: string;
+  // Whether the delay is within the threshold and below every notifying rule's minimum delay
+  delayCleared: boolean;
+}
+
+export interface DeliveryEta {
+  arrivalTime: string; // ISO 8601 timestamp of the new estimated arrival
+  timeZone: string; // IANA time zone of the destination, used to display the arrival time
+}
+
+export interface SmsApprovalPolicy {
+  required: boolean;
+  timeoutMinutes: number;
+  defaultAction: 'approve' | 'reject';
+}
+
+export interface SmsApprovalDecision {
+  approved: boolean;
+  decidedBy: string;
+}
+
+export interface SmsApprovalRecord {
+  decision: 'approved' | 'rejected';
+  decidedBy: string;
+  decidedAt: string;
+  timedOut: boolean;
+}
+
+export interface DeliveryMonitoringInput extends DelayNotificationInput {
+  expectedArrivalTime: string; // Required for monitoring, which ends once it has passed
+  pollIntervalMinutes: number;
+}
+
+export interface MonitoringState {
+  checksPerformed: number;
+  notificationsSent: number;
+  lastTrafficData?: TrafficData;
+  notifications: SentNotification[];
+  lastSmsApproval?: SmsApprovalRecord;
+  notifiedStops: string[]; // Intermediate stops notified since the delay crossed the threshold
+  lastNotificationRule?: NotificationRuleDecision;
+}
+
+export interface ManualDelayReport {
+  delayMinutes: number;
+  reason: string;
+  reportedBy?: string;
+}
+
+export interface CustomerContactUpdate {
+  customerEmail: string;
+  customerPhone?: string; // E.164; the current phone number is kept when omitted
+}
+
+export interface SentNotification {
+  channel: NotificationChannel;
+  kind?: NotificationKind;
+  recipient: string;
+  messageId?: string;
+  delayMinutes: number;
+  sentAt: string;
 }
 
 export interface AIMessageRequest {
   delayMinutes: number;
   route: DeliveryRoute;
   trafficCondition: string;
+  delayReason?: string;
+  legs?: TrafficLeg[];
+  locale?: string;
+  eta?: DeliveryEta;
+  rejectionReasons?: string[]; // Why the previous draft was rejected by the guardrails
+  sender?: SenderIdentity; // The shipper the message is written for
+}
+
+export interface MessageValidationResult {
+  valid: boolean;
+  reasons: string[];
 }
 
 export interface AIMessageResponse {
   message: string;
   success: boolean;
   error?: string;
+  usage?: AITokenUsage;
+}
+
+export interface AITokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 export interface NotificationRequest {
   customerEmail: string;
+  customerPhone?: string; // E.164
+  webhookUrl?: string;
   subject: string;
   message: string;
   delayMinutes: number;
+  locale?: string;
+  eta?: DeliveryEta;
+  correlationId?: string; // Sent as the X-Correlation-ID header, e.g. the workflow ID
+  kind?: NotificationKind; // Defaults to delay
+  shipmentId?: string; // Shipment the notification is about, recorded in the audit log
+  shipment?: ShipmentReference; // References quoted in the subject, message and webhook event
+  trafficData?: TrafficData; // Snapshot the notification was based on, recorded in the audit log
+  tenantId?: string; // Selects the tenant's sender and credentials
+  sender?: SenderIdentity;
+  createdAt?: string; // ISO 8601; webhook events carry it on every attempt and in the audit log
 }
 
+export type NotificationKind = 'delay' | 'back_on_schedule';
+
 export interface NotificationResponse {
   success: boolean;
   messageId?: string;
   error?: string;
+  errorCode?: string; // Why a permanent failure happened, e.g. INVALID_RECIPIENT
+  deliveryStatus?: SmsDeliveryStatus; // Latest SMS delivery receipt
+  segments?: number; // Number of SMS segments billed
+}
+
+export type WebhookEventType = 'shipment.delayed' | 'shipment.back_on_schedule';
+
+// Versioned JSON event POSTed to webhook endpoints
+export interface WebhookDelayEvent {
+  version: '1';
+  id: string; // Stable across retries, so receivers can discard duplicates
+  type: WebhookEventType;
+  createdAt: string;
+  shipment: {
+    id: string;
+    origin: string;
+    destination: string;
+    waypoints: string[];
+    proNumber?: string;
+    bolNumber?: string;
+    carrier?: string;
+    customerReference?: string;
+  };
+  delay: {
+    minutes: number;
+    trafficCondition?: TrafficCondition;
+  };
+  eta?: DeliveryEta;
+  message: string;
+}
+
+export interface WebhookDeadLetter {
+  id?: number; // Assigned by the store
+  shipmentId: string;
+  customerEmail: string;
+  url: string;
+  eventId: string;
+  payload: string; // The JSON event that could not be delivered
+  error: string;
+  failedAt: string;
+}
+
+export type SmsProviderName = 'twilio' | 'mock';
+
+export type SmsDeliveryStatus =
+  'queued' | 'sending' | 'sent' | 'delivered' | 'undelivered' | 'failed';
+
+export interface SmsReceipt {
+  messageId: string;
+  status: SmsDeliveryStatus;
+  segments: number;
+  errorCode?: string; // Provider error code, e.g. Twilio's 30003 (unreachable handset)
+  errorMessage?: string;
+}
+
+export interface SmsProvider {
+  readonly name: SmsProviderName;
+  sendMessage(to: string, body: string): Promise<SmsReceipt>;
+}
+
+export type AuditStoreName = 'sqlite' | 'memory';
+
+export interface NotificationAuditRecord {
+  id?: number; // Assigned by the store
+  shipmentId: string;
+  workflowId?: string; // Workflow that sent the notification; receives its delivery events
+  customerEmail: string; // Email of the recipient, also for SMS notifications
+  recipient: string; // Address the notification was sent to: email, phone number or webhook URL
+  channel: NotificationChannel;
+  kind: NotificationKind;
+  subject: string;
+  body: string; // Rendered text of the email, the SMS text or the webhook's JSON event
+  messageId?: string; // Provider message ID, e.g. SendGrid's X-Message-Id or Twilio's SID
+  trafficData?: TrafficData;
+  sentAt: string;
+}
+
+export interface NotificationAuditQuery {
+  shipmentId?: string;
+  customerEmail?: string; // Matched case-insensitively
+  messageId?: string; // Not applicable to dead letters
+  limit?: number; // Most recent records first
+}
+
+export interface NotificationAuditStore {
+  readonly name: AuditStoreName;
+  append(record: NotificationAuditRecord): Promise<NotificationAuditRecord>;
+  find(query: NotificationAuditQuery): Promise<NotificationAuditRecord[]>;
+  appendDeadLetter(deadLetter: WebhookDeadLetter): Promise<WebhookDeadLetter>;
+  findDeadLetters(query: NotificationAuditQuery): Promise<WebhookDeadLetter[]>;
+  appendDeliveryEvent(record: EmailDeliveryEventRecord): Promise<EmailDeliveryEventRecord>;
+  findDeliveryEvents(query: NotificationAuditQuery): Promise<EmailDeliveryEventRecord[]>;
+}
+
+// Delivery events that drive the channel fallback; other SendGrid events are ignored
+export type EmailEventType = 'delivered' | 'bounce' | 'blocked' | 'dropped' | 'spamreport';
+
+// An event of a SendGrid event webhook batch; custom args are top-level fields
+export interface SendGridEvent {
+  email: string;
+  event: string; // e.g. "delivered", "bounce", "open"
+  timestamp: number; // Unix seconds
+  sg_message_id?: string; // "<X-Message-Id>.<filter>..."
+  sg_event_id?: string; // Unique per event, repeated when SendGrid retries a batch
+  type?: string; // For bounces: "bounce" (hard) or "blocked" (soft)
+  reason?: string;
+  correlationId?: string; // Custom arg set when the email was sent (the workflow ID)
+}
+
+// Delivery event signaled to the workflow that sent the email
+export interface EmailDeliveryEvent {
+  messageId: string; // SendGrid's X-Message-Id, as returned when the email was sent
+  email: string;
+  event: EmailEventType;
+  reason?: string;
+  occurredAt: string;
+}
+
+export interface EmailDeliveryEventRecord extends EmailDeliveryEvent {
+  id?: number; // Assigned by the store
+  shipmentId: string;
+  customerEmail: string; // Same as email, so records can be looked up by customer
+  eventId?: string; // SendGrid's sg_event_id
+  receivedAt: string;
+}
+
+export interface EmailSuppression {
+  email: string;
+  reason: string;
+  since: string; // When the event that suppressed the address occurred
+}
+
+export interface DeliveryEventBatchResult {
+  received: number;
+  signaled: number; // Events signaled to a running workflow
+  unmatched: number; // Events without a running workflow to signal
+  ignored: number; // Events that do not affect delivery, e.g. opens and clicks
+  duplicates: number; // Events already received in an earlier batch
+  suppressed: string[]; // Addresses suppressed by this batch
 }
 
 export interface WorkflowResult {
+  shipment?: ShipmentReference;
   delayDetected: boolean;
   delayMinutes: number;
   notificationSent: boolean;
   message?: string;
   error?: string;
+  smsApproval?: SmsApprovalRecord;
+  eta?: DeliveryEta; // New estimated arrival that was notified
+  severity?: DelaySeverity;
+  channel?: NotificationChannel; // Channel the notification was delivered on
+  notificationAction?: NotificationAction; // Why the recipients were or were not notified
+  notificationRule?: NotificationRuleDecision; // Why the delay was or was not notified
+  recipients?: RecipientNotificationResult[];
+  stops?: StopNotificationResult[];
+}
+
+export interface RecipientNotificationResult {
+  name?: string;
+  customerEmail: string;
+  notificationSent: boolean;
+  channel?: NotificationChannel;
+  message?: string;
+  error?: string;
+  eta?: DeliveryEta;
+}
+
+export interface StopNotificationResult {
+  stop: string;
+  customerEmail: string;
+  delayMinutes: number;
+  notificationSent: boolean;
+  error?: string;
+  eta?: DeliveryEta;
+  notificationRule?: NotificationRuleDecision;
+  notificationAction?: NotificationAction; // Whether the stop's customer was notified
+}
+
+export interface MonitoringResult extends WorkflowResult {
+  checksPerformed: number;
+  notificationsSent: number;
+  completionReason: 'eta_passed' | 'delivered' | 'invalid_input';
+}
+
+export interface ManifestWorkflowInput {
+  shipments: DelayNotificationInput[];
+  maxConcurrency?: number; // Child workflows running at once
+  // How long failed shipments stay retryable once every shipment has run; 0 completes right away
+  retryWindowMinutes?: number;
+}
+
+export type ManifestShipmentStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export interface ManifestShipmentResult {
+  // The shipment ID, or the position in the manifest (e.g. "shipment-3", or "shipment-3-2" when
+  // a shipment has that ID) for shipments without one; identifies the shipment for retries
+  key: string;
+  status: ManifestShipmentStatus;
+  attempts: number;
+  workflowId?: string; // Child workflow of the latest attempt
+  result?: WorkflowResult;
+  error?: string; // Why the latest attempt failed
+}
+
+export interface ManifestSummary {
+  total: number;
+  pending: number;
+  running: number;
+  completed: number;
+  delayed: number; // Completed shipments with a delay above their threshold
+  notified: number; // Completed shipments whose recipients were notified
+  failed: number;
+  shipments: ManifestShipmentResult[];
+}
+
+export interface ManifestRetryRequest {
+  keys?: string[]; // Failed shipments to retry; all failed shipments when omitted
+  requestedBy?: string;
+}
+
+export type ShipmentWorkflowType =
+  'freightDelayNotificationWorkflow' | 'freightDelayMonitoringWorkflow' | 'freightManifestWorkflow';
+
+// What to do when a workflow for the same shipment is already running
+export type DuplicateShipmentPolicy = 'reject' | 'return-existing';
+
+export interface StartedShipmentWorkflow {
+  workflowId: string;
+  runId: string;
+  type: ShipmentWorkflowType;
+  existing?: boolean; // The shipment's running workflow was returned instead of starting one
+}
+
+export interface ShipmentWorkflowSummary {
+  workflowId: string;
+  runId: string;
+  type: string;
+  status: string; // Temporal execution status, e.g. RUNNING, COMPLETED, FAILED or CANCELLED
+  startTime: string;
+  closeTime?: string;
+}
+
+export interface ShipmentWorkflowListQuery {
+  includeClosed?: boolean; // Running workflows only by default
+  limit?: number;
+}
+
+export interface ShipmentWorkflowStatus extends ShipmentWorkflowSummary {
+  currentStep?: string; // Queried from running workflows only
+  trafficData?: TrafficData;
+  notifications?: SentNotification[];
+  manifest?: ManifestSummary; // Progress of running manifest workflows
+  result?: WorkflowResult | MonitoringResult | ManifestSummary; // Completed workflows only
+  error?: string; // Why a failed, cancelled, terminated or timed out workflow ended
+}
+
+// Settings of a shipper that notifications are sent on behalf of; unset fields use the global
+// configuration
+export interface TenantProfile {
+  name: string; // Company name used in messages, e.g. "Acme Logistics"
+  fromEmail?: string;
+  fromName?: string; // Display name of the sender; defaults to the company name
+  replyTo?: string;
+  signature?: string; // Sign-off of fallback and AI written messages, e.g. "Acme Dispatch"
+  sendgridTemplateId?: string;
+  delayThresholdMinutes?: number;
+  minTrafficConfidence?: number;
+  delaySeverityMinutes?: number[];
+  channels?: NotificationChannel[]; // Channels the tenant notifies on; defaults to all
+  trafficProviders?: TrafficProviderName[];
+  credentials?: TenantCredentials;
+  notificationRules?: NotificationRule[]; // Evaluated after the customer's own rules
+}
+
+// The tenant's own provider accounts; missing ones fall back to the global credentials
+export interface TenantCredentials {
+  sendgridApiKey?: string;
+  twilioAccountSid?: string;
+  twilioAuthToken?: string;
+  twilioFromNumber?: string;
+  googleMapsApiKey?: string;
+  hereApiKey?: string;
+  tomTomApiKey?: string;
+  webhookSigningSecret?: string;
+}
+
+// Who a message is from, as written in its text
+export interface SenderIdentity {
+  name: string;
+  signature: string;
+}
+
+// A tenant's settings for the workflows, resolved once when a workflow starts
+export interface TenantSettings {
+  tenantId?: string;
+  delayThresholdMinutes: number;
+  minTrafficConfidence: number;
+  channels: NotificationChannel[];
+}
+
+export type ConfigProfileName = 'dev' | 'staging' | 'prod';
+
+// Where a setting's value came from: an environment variable, the config file, the profile's
+// defaults or the built-in defaults
+export type ConfigSource = 'env' | 'file' | 'profile' | 'default';
+
+export interface ConfigSetting {
+  key: string; // The environment variable, e.g. "TRAFFIC_PROVIDERS"
+  value?: string; // Unset settings have none; secrets that are set read "[redacted]"
+  source: ConfigSource;
+  secret: boolean;
+}
+
+export interface EffectiveConfig {
+  profile: ConfigProfileName;
+  configFile?: string;
+  settings: ConfigSetting[];
 }
 
 export interface APIConfig {
-  openaiApiKey: string;
+  profile: ConfigProfileName;
+  openaiApiKey: string; // Empty to use mock AI responses
+  openaiBaseUrl: string;
+  openaiModel: string;
+  openaiTemperature: number;
+  openaiMaxTokens: number;
+  openaiTimeoutMs: number;
+  messageMinLength: number;
+  messageMaxLength: number;
   googleMapsApiKey: string;
-  sendgridApiKey: string;
+  googleMapsBaseUrl: string;
+  hereApiKey: string;
+  hereRoutingBaseUrl: string;
+  hereGeocodeBaseUrl: string;
+  tomTomApiKey: string;
+  tomTomBaseUrl: string;
+  osrmBaseUrl: string;
+  trafficProviderTimeoutMs: number;
+  trafficProviderChain: TrafficProviderName[];
+  trafficProviderTenantChains: Record<string, TrafficProviderName[]>;
+  tenantProfiles: Record<string, TenantProfile>; // By tenant ID
+  customerNotificationRules: Record<string, NotificationRule[]>; // By lowercased email
+  trafficCacheTtlMinutes: number;
+  trafficHistoryFile?: string;
+  minTrafficConfidence: number;
+  sendgridApiKey: string; // Empty to simulate email sending
+  sendgridBaseUrl: string;
+  sendgridTemplateId?: string; // Dynamic template; the built-in HTML layout is used without one
+  sendgridCategories: string[];
+  sendgridTimeoutMs: number;
+  smsProvider: SmsProviderName;
+  smsMaxSegments: number;
+  smsReceiptTimeoutMs: number; // How long to wait for a final delivery receipt
+  smsReceiptPollIntervalMs: number;
+  twilioAccountSid: string;
+  twilioAuthToken: string;
+  twilioFromNumber: string;
+  twilioBaseUrl: string;
+  twilioTimeoutMs: number;
   temporalAddress: string;
   temporalNamespace: string;
+  temporalTaskQueue: string;
   delayThresholdMinutes: number;
   fromEmail: string;
   customerEmail: string;
+  customerPhone: string;
+  delaySeverityMinutes: number[]; // Delays reaching these are medium, high and critical
+  notificationRepeatChangeMinutes: number;
+  escalationTierMinutes: number[];
+  notificationStateStore: NotificationStateStoreName;
+  notificationStateDatabaseFile: string;
+  auditStore: AuditStoreName;
+  auditDatabaseFile: string;
+  webhookSigningSecret: string;
+  webhookCustomerSecrets: Record<string, string>; // Signing secrets by customer email
+  webhookTimeoutMs: number;
+  webhookAllowPrivateUrls: boolean; // Allows HTTP and private webhook hosts, for local receivers
+  apiPort: number;
+  eventServerPort: number;
+  sendgridEventPublicKey: string; // Empty to accept unsigned event webhook batches
+  emailSuppressionBounces: number; // Hard bounces after which an address is suppressed
+  manifestMaxConcurrency: number;
+  manifestRetryWindowMinutes: number;
 }
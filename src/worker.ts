@@ -1,6 +1,6 @@
 import { Worker } from '@temporalio/worker';
-import { activities } from './activities';
-import { getTemporalConfig } from './config';
+import { getConfig, getTemporalConfig } from './config';
+import { ConfigError } from './errors';
 
 /**
  * Temporal Worker for Freight Delay Notification System
@@ -8,20 +8,23 @@ import { getTemporalConfig } from './config';
  * It handles the business logic for traffic monitoring and delay notifications.
  */
 
-const TASK_QUEUE = 'freight-delay-notifications';
-
 async function startWorker() {
   try {
     console.log('Starting Temporal Worker for Freight Delay Notification System');
 
+    console.log(`Using configuration profile: ${getConfig().profile}`);
     const config = getTemporalConfig();
+    // The activities' services read the configuration when loaded, so they are only loaded once
+    // it is known to be valid
+    const { activities } = await import('./activities');
     console.log(`Connecting to Temporal server at: ${config.address}`);
     console.log(`Using namespace: ${config.namespace}`);
+    console.log(`Using task queue: ${config.taskQueue}`);
 
     const worker = await Worker.create({
-      workflowsPath: require.resolve('./workflows/freightDelayWorkflow'),
+      workflowsPath: require.resolve('./workflows'),
       activities,
-      taskQueue: TASK_QUEUE,
+      taskQueue: config.taskQueue,
       namespace: config.namespace,
       maxConcurrentActivityTaskExecutions: 10,
       maxConcurrentWorkflowTaskExecutions: 10,
@@ -29,6 +32,10 @@ async function startWorker() {
 
     await worker.run();
   } catch (error) {
+    if (error instanceof ConfigError) {
+      console.error(`Failed to start Temporal Worker: ${error.message}`);
+      process.exit(1);
+    }
     console.error('Failed to start Temporal Worker:', error);
 
     if (error instanceof Error) {
@@ -0,0 +1,53 @@
+import { proxyActivities } from '@temporalio/workflow';
+import type { activities } from '../activities';
+
+/**
+ * Activity proxies shared by all workflows
+ * Configured with the default retry policy for the notification pipeline
+ */
+export const {
+  fetchTrafficData,
+  generateAIMessage,
+  createFallbackAIMessage,
+  validateAIMessage,
+  sendDelayNotification,
+  sendSMSNotification,
+  recordWebhookDeadLetter,
+  shouldSendNotification,
+  evaluateNotificationRules,
+  getTenantSettings,
+  getDelaySeverity,
+  createNotificationRequest,
+  logWorkflowStep,
+  createAIMessageRequest,
+  getTrafficDataToStop,
+  calculateDeliveryEta,
+  getQuietHoursHoldMinutes,
+  createBackOnScheduleRequest,
+  evaluateNotificationState,
+  recordNotificationState,
+  clearNotificationState,
+} = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '1 second',
+    maximumInterval: '10 seconds',
+    maximumAttempts: 3,
+    backoffCoefficient: 2,
+  },
+}) as any;
+
+/**
+ * Webhook activity proxy
+ * Shipper endpoints can be down for a while, so delivery is retried for longer with
+ * exponential backoff before the event is dead-lettered
+ */
+export const { sendWebhookNotification } = proxyActivities<typeof activities>({
+  startToCloseTimeout: '1 minute',
+  retry: {
+    initialInterval: '5 seconds',
+    maximumInterval: '5 minutes',
+    maximumAttempts: 8,
+    backoffCoefficient: 2,
+  },
+}) as any;
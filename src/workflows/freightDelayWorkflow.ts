@@ -1,47 +1,44 @@
-import { proxyActivities } from '@temporalio/workflow';
+import { isCancellation } from '@temporalio/workflow';
 import {
   DelayNotificationInput,
+  NotificationRuleDecision,
   WorkflowResult,
   TrafficData,
-  AIMessageRequest,
-  AIMessageResponse,
-  NotificationRequest,
-  NotificationResponse,
 } from '../types';
-import type { activities } from '../activities';
+import { fetchTrafficData } from './activityProxies';
+import {
+  decideNotification,
+  getUntrustedTrafficReason,
+  notifyBackOnSchedule,
+  notifyDelay,
+  notifyStopCustomers,
+} from './notificationSteps';
+import { ShipmentTracker, applyManualDelay } from './shipmentTracker';
 
 /**
  * Main Freight Delay Notification Workflow
  *
  * This workflow implements the complete freight delay notification process:
  * 1. Fetch traffic data for the delivery route
- * 2. Check if delay exceeds threshold
+ * 2. Check if the customer's or tenant's notification rules (or, without a matching rule, the
+ *    threshold) call for a notification and the traffic data can be trusted
  * 3. Generate AI message if delay is significant
- * 4. Send notification to customer
+ * 4. Send notification to each recipient on their preferred channels, and to customers at
+ *    intermediate stops whose own delay the rules call for
+ *
+ * Re-runs for the same shipment do not repeat a delay the recipients already know about,
+ * escalate when the delay reaches a higher tier, and send a single "back on schedule"
+ * follow-up once a notified delay has cleared.
+ *
+ * Dispatchers can report a manual delay, mark the shipment delivered or update the
+ * customer contact through signals, and query the traffic data, notifications and current step.
+ *
+ * Notifications are sent for the input's tenant: its sender, signature, thresholds, enabled
+ * channels and provider credentials apply unless the input overrides the thresholds.
  *
  * The workflow follows Temporal best practices for error handling and retry logic
  */
 
-// Configure activity options with retry policies
-const {
-  fetchTrafficData,
-  generateAIMessage,
-  sendDelayNotification,
-  sendSMSNotification,
-  shouldSendNotification,
-  createNotificationRequest,
-  logWorkflowStep,
-  createAIMessageRequest,
-} = proxyActivities<typeof activities>({
-  startToCloseTimeout: '1 minute',
-  retry: {
-    initialInterval: '1 second',
-    maximumInterval: '10 seconds',
-    maximumAttempts: 3,
-    backoffCoefficient: 2,
-  },
-}) as any;
-
 /**
  * Freight Delay Notification Workflow
  * @param input - The workflow input containing route and notification parameters
@@ -50,111 +47,124 @@ const {
 export async function freightDelayNotificationWorkflow(
   input: DelayNotificationInput
 ): Promise<WorkflowResult> {
-  await logWorkflowStep('Workflow Started', {
+  const tracker = new ShipmentTracker(input);
+  await tracker.loadTenantSettings();
+
+  await tracker.logStep('Workflow Started', {
+    shipmentId: input.shipment?.shipmentId,
+    tenantId: input.tenantId,
     route: input.route,
     customerEmail: input.customerEmail,
-    threshold: input.delayThresholdMinutes,
+    threshold: tracker.delayThresholdMinutes,
   });
 
+  // The result quotes the shipment's references, so callers can match it to their load
+  return { shipment: input.shipment, ...(await checkShipment(input, tracker)) };
+}
+
+/**
+ * Checks the shipment's traffic and notifies the recipients of a delay
+ * @param input - The workflow input containing route and notification parameters
+ * @param tracker - The shipment tracker
+ * @returns Promise<WorkflowResult> - The workflow result with notification status
+ */
+async function checkShipment(
+  input: DelayNotificationInput,
+  tracker: ShipmentTracker
+): Promise<WorkflowResult> {
   try {
-    await logWorkflowStep('Step 1: Fetching Traffic Data');
-    const trafficData: TrafficData = await fetchTrafficData(input.route);
+    await tracker.logStep('Step 1: Fetching Traffic Data');
+    let trafficData: TrafficData = await fetchTrafficData(input.route, input.tenantId);
+    tracker.trafficData = trafficData;
 
-    await logWorkflowStep('Step 1 Complete: Traffic Data Retrieved', {
+    await tracker.logStep('Step 1 Complete: Traffic Data Retrieved', {
       delay: trafficData.estimatedDelayMinutes,
       condition: trafficData.trafficCondition,
+      provider: trafficData.provider,
+      source: trafficData.source,
+      confidence: trafficData.confidence,
     });
 
-    await logWorkflowStep('Step 2: Checking Delay Threshold');
-    const shouldNotify = await shouldSendNotification(
-      trafficData.estimatedDelayMinutes,
-      input.delayThresholdMinutes
-    );
-
-    if (!shouldNotify) {
-      await logWorkflowStep('Step 2 Complete: No Notification Required', {
-        delay: trafficData.estimatedDelayMinutes,
-        threshold: input.delayThresholdMinutes,
-      });
+    if (tracker.delivered) {
+      await tracker.logStep('Workflow Complete: Shipment Already Delivered');
 
       return {
         delayDetected: false,
-        delayMinutes: trafficData.estimatedDelayMinutes,
+        delayMinutes: 0,
         notificationSent: false,
-        message: `No notification required. Delay of ${trafficData.estimatedDelayMinutes} minutes is below threshold of ${input.delayThresholdMinutes} minutes.`,
+        message: 'Shipment marked as delivered. No notification required.',
       };
     }
 
-    await logWorkflowStep('Step 3: Generating AI Message');
-    const aiRequest: AIMessageRequest = await createAIMessageRequest(trafficData);
-    const aiResponse: AIMessageResponse = await generateAIMessage(aiRequest);
+    // A delay reported by a dispatcher overrides the traffic estimate and is always notified
+    const manualDelay = tracker.takeManualDelay();
+    if (manualDelay) {
+      trafficData = applyManualDelay(input, manualDelay, trafficData);
+      tracker.trafficData = trafficData;
 
-    if (!aiResponse.success) {
-      await logWorkflowStep('Step 3 Warning: AI Message Generation Failed', {
-        error: aiResponse.error,
-        usingFallback: true,
-      });
-    } else {
-      await logWorkflowStep('Step 3 Complete: AI Message Generated');
+      await tracker.logStep('Step 2: Manual Delay Reported', manualDelay);
+      return await notifyDelay(trafficData, input, tracker, manualDelay.reason, true);
     }
 
-    await logWorkflowStep('Step 4: Sending Notification');
-    const notificationRequest: NotificationRequest = await createNotificationRequest(
-      input.customerEmail,
-      aiResponse.message,
-      trafficData.estimatedDelayMinutes
+    await tracker.logStep('Step 2: Evaluating Notification Rules');
+    const notificationRule: NotificationRuleDecision = await decideNotification(
+      trafficData,
+      tracker
     );
+    const aboveThreshold = trafficData.estimatedDelayMinutes > tracker.delayThresholdMinutes;
+
+    if (!notificationRule.notify) {
+      // A suppressed delay has not necessarily cleared, e.g. one a rule notified below the
+      // threshold whose time of day window has ended
+      const followUp =
+        !notificationRule.delayCleared || getUntrustedTrafficReason(trafficData, tracker)
+          ? undefined
+          : await notifyBackOnSchedule(trafficData, input, tracker);
+      if (followUp) {
+        return { ...followUp, notificationRule };
+      }
 
-    const notificationResponse: NotificationResponse = await sendDelayNotification(notificationRequest);
-
-    if (notificationResponse.success) {
-      await logWorkflowStep('Step 4 Complete: Notification Sent Successfully', {
-        messageId: notificationResponse.messageId,
-        customer: input.customerEmail,
+      await tracker.logStep('Step 2 Complete: No Notification Required', {
+        delay: trafficData.estimatedDelayMinutes,
+        threshold: tracker.delayThresholdMinutes,
+        rule: notificationRule.rule,
+        explanation: notificationRule.explanation,
       });
 
       return {
-        delayDetected: true,
+        delayDetected: aboveThreshold,
         delayMinutes: trafficData.estimatedDelayMinutes,
-        notificationSent: true,
-        message: `Delay notification sent successfully. Customer ${input.customerEmail} has been notified of ${trafficData.estimatedDelayMinutes} minute delay.`,
+        notificationSent: false,
+        message: `No notification required. ${notificationRule.explanation}.`,
+        notificationRule,
       };
-    } else {
-      await logWorkflowStep('Step 4 Warning: Notification Failed', {
-        error: notificationResponse.error,
-        tryingSMS: true,
-      });
+    }
 
+    // Customers are never notified based on mock or low-confidence traffic data
+    const untrustedReason = getUntrustedTrafficReason(trafficData, tracker);
+    if (untrustedReason) {
+      await tracker.logStep('Step 2 Complete: Notification Withheld', { reason: untrustedReason });
 
-      // POSSIBLE IMPROVEMENT: Require a temporal signal before sending the SMS notification
-      const smsResponse: NotificationResponse = await sendSMSNotification(notificationRequest);
-      if (smsResponse.success) {
-        await logWorkflowStep('Step 4 Complete: SMS Notification Sent', {
-          messageId: smsResponse.messageId,
-        });
-
-        return {
-          delayDetected: true,
-          delayMinutes: trafficData.estimatedDelayMinutes,
-          notificationSent: true,
-          message: `Delay notification sent via SMS after email failed. Customer notified of ${trafficData.estimatedDelayMinutes} minute delay.`,
-        };
-      } else {
-        await logWorkflowStep('Step 4 Failed: Both Email and SMS Failed', {
-          emailError: notificationResponse.error,
-          smsError: smsResponse.error,
-        });
-
-        return {
-          delayDetected: true,
-          delayMinutes: trafficData.estimatedDelayMinutes,
-          notificationSent: false,
-          error: `Failed to send notification: Email failed (${notificationResponse.error}), SMS failed (${smsResponse.error})`,
-        };
-      }
+      return {
+        delayDetected: true,
+        delayMinutes: trafficData.estimatedDelayMinutes,
+        notificationSent: false,
+        message: `Notification withheld: ${untrustedReason}.`,
+        notificationRule,
+      };
+    }
+
+    const result = await notifyDelay(trafficData, input, tracker);
+    if (input.stopContacts && input.stopContacts.length > 0) {
+      result.stops = await notifyStopCustomers(trafficData, input, tracker);
     }
+    return { ...result, notificationRule };
   } catch (error) {
-    await logWorkflowStep('Workflow Error', {
+    // A cancelled workflow, e.g. the child of a cancelled manifest, ends as cancelled
+    if (isCancellation(error)) {
+      throw error;
+    }
+    await tracker.logStep('Workflow Error', {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
 
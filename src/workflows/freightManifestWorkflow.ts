@@ -0,0 +1,213 @@
+import {
+  ChildWorkflowFailure,
+  condition,
+  executeChild,
+  isCancellation,
+  setHandler,
+  workflowInfo,
+} from '@temporalio/workflow';
+import {
+  DelayNotificationInput,
+  ManifestShipmentResult,
+  ManifestSummary,
+  ManifestWorkflowInput,
+} from '../types';
+import { logWorkflowStep } from './activityProxies';
+import { freightDelayNotificationWorkflow } from './freightDelayWorkflow';
+import { getManifestSummaryQuery, retryManifestShipmentsSignal } from './signals';
+
+/**
+ * Freight Manifest Workflow
+ *
+ * Checks a whole dispatch manifest in one workflow:
+ * 1. Start a freightDelayNotificationWorkflow child per shipment, at most maxConcurrency at a
+ *    time. Child workflow IDs derive from the manifest's ID and the shipment's key (its shipment
+ *    ID, or its position for shipments without one), so they can be found from the manifest.
+ *    Position keys never collide with shipment IDs.
+ * 2. Record each shipment's WorkflowResult; a child that fails, or returns an error, marks the
+ *    shipment failed without affecting the others
+ * 3. Once every shipment has run, keep failed shipments retryable for retryWindowMinutes, then
+ *    return the summary
+ *
+ * Failed shipments are retried with the retryManifestShipments signal, while the manifest is
+ * running or during the retry window; each retry is a new child workflow. The summary (counts
+ * of delayed, notified and failed shipments) can be queried at any time.
+ *
+ * Each child adds a handful of events to the manifest's history, so manifests of more than a
+ * few thousand shipments should be split.
+ */
+
+const DEFAULT_MAX_CONCURRENCY = 10;
+
+const DEFAULT_RETRY_WINDOW_MINUTES = 0;
+
+/**
+ * Freight Manifest Workflow
+ * @param input - The shipments and how many of them to check at once
+ * @returns Promise<ManifestSummary> - The result of every shipment and the totals
+ */
+export async function freightManifestWorkflow(
+  input: ManifestWorkflowInput
+): Promise<ManifestSummary> {
+  const manifestId = workflowInfo().workflowId;
+  const maxConcurrency = Math.max(1, Math.floor(input.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY));
+  const retryWindowMinutes = input.retryWindowMinutes ?? DEFAULT_RETRY_WINDOW_MINUTES;
+
+  const shipments: ManifestShipmentResult[] = getShipmentKeys(input.shipments).map(key => ({
+    key,
+    status: 'pending',
+    attempts: 0,
+  }));
+  // Indexes of the shipments waiting for a child workflow, in manifest order, then retries
+  const queue = shipments.map((_, index) => index);
+
+  setHandler(getManifestSummaryQuery, () => summarize(shipments));
+  setHandler(retryManifestShipmentsSignal, request => {
+    shipments.forEach((shipment, index) => {
+      if (shipment.status === 'failed' && (!request.keys || request.keys.includes(shipment.key))) {
+        shipment.status = 'pending';
+        queue.push(index);
+      }
+    });
+  });
+
+  await logWorkflowStep('Manifest Started', {
+    shipments: shipments.length,
+    maxConcurrency,
+    retryWindowMinutes,
+  });
+
+  // Each lane runs one child at a time until the queue is empty; retries signaled meanwhile
+  // are picked up by the running lanes
+  const runLane = async () => {
+    for (let index = queue.shift(); index !== undefined; index = queue.shift()) {
+      await runShipment(manifestId, input.shipments[index], shipments[index]);
+    }
+  };
+
+  for (;;) {
+    const lanes = Math.min(maxConcurrency, queue.length);
+    await Promise.all(Array.from({ length: lanes }, runLane));
+
+    const failed = shipments.filter(shipment => shipment.status === 'failed').length;
+    if (failed === 0 || retryWindowMinutes <= 0) {
+      break;
+    }
+
+    await logWorkflowStep('Manifest Waiting For Retries', { failed, retryWindowMinutes });
+    const retried = await condition(() => queue.length > 0, `${retryWindowMinutes} minutes`);
+    if (!retried) {
+      break;
+    }
+  }
+
+  const summary = summarize(shipments);
+  await logWorkflowStep('Manifest Complete', {
+    total: summary.total,
+    delayed: summary.delayed,
+    notified: summary.notified,
+    failed: summary.failed,
+  });
+  return summary;
+}
+
+/**
+ * Checks one shipment in a child workflow and records the outcome
+ * @param manifestId - The manifest's workflow ID
+ * @param input - The shipment's workflow input
+ * @param shipment - The shipment's entry in the summary, updated in place
+ */
+async function runShipment(
+  manifestId: string,
+  input: DelayNotificationInput,
+  shipment: ManifestShipmentResult
+) {
+  shipment.attempts++;
+  shipment.status = 'running';
+  shipment.result = undefined;
+  shipment.error = undefined;
+  shipment.workflowId =
+    shipment.attempts === 1
+      ? `${manifestId}-${shipment.key}`
+      : `${manifestId}-${shipment.key}-attempt-${shipment.attempts}`;
+
+  try {
+    const result = await executeChild(freightDelayNotificationWorkflow, {
+      args: [input],
+      workflowId: shipment.workflowId,
+    });
+    shipment.result = result;
+    shipment.status = result.error ? 'failed' : 'completed';
+    shipment.error = result.error;
+  } catch (error) {
+    // Cancelling the manifest cancels the children; the manifest ends as cancelled too
+    if (isCancellation(error)) {
+      throw error;
+    }
+    shipment.status = 'failed';
+    shipment.error = getFailureMessage(error);
+  }
+}
+
+/**
+ * Keys the shipments of a manifest by their shipment IDs
+ * Shipments without a shipment ID, or repeating one, are keyed by their position instead. A
+ * position key that is also a shipment ID in the manifest gets a numbered suffix, so keys and
+ * child workflow IDs stay unique
+ * @param shipments - The manifest's shipments
+ * @returns string[] - One key per shipment, e.g. "4471", "shipment-3" or "shipment-3-2"
+ */
+function getShipmentKeys(shipments: DelayNotificationInput[]): string[] {
+  const shipmentIds = shipments.map(shipment => shipment.shipment?.shipmentId);
+  const isKeyedById = (shipmentId: string | undefined, index: number): shipmentId is string =>
+    !!shipmentId && shipmentIds.indexOf(shipmentId) === index;
+  const usedKeys = new Set(shipmentIds.filter(isKeyedById));
+
+  return shipmentIds.map((shipmentId, index) => {
+    if (isKeyedById(shipmentId, index)) {
+      return shipmentId;
+    }
+    let key = `shipment-${index + 1}`;
+    for (let suffix = 2; usedKeys.has(key); suffix++) {
+      key = `shipment-${index + 1}-${suffix}`;
+    }
+    usedKeys.add(key);
+    return key;
+  });
+}
+
+/**
+ * Extracts why a child workflow failed
+ * @param error - The error thrown by the child workflow
+ * @returns string - The failure's cause, e.g. the error the child threw
+ */
+function getFailureMessage(error: unknown): string {
+  if (error instanceof ChildWorkflowFailure && error.cause) {
+    return error.cause.message;
+  }
+  return error instanceof Error ? error.message : 'Unknown child workflow error';
+}
+
+/**
+ * Totals the shipments of a manifest
+ * Delayed and notified count the latest attempt of completed shipments
+ * @param shipments - The shipments' entries
+ * @returns ManifestSummary - The counts and a copy of the entries
+ */
+function summarize(shipments: ManifestShipmentResult[]): ManifestSummary {
+  const count = (matches: (shipment: ManifestShipmentResult) => boolean) =>
+    shipments.filter(matches).length;
+
+  return {
+    total: shipments.length,
+    pending: count(shipment => shipment.status === 'pending'),
+    running: count(shipment => shipment.status === 'running'),
+    completed: count(shipment => shipment.status === 'completed'),
+    delayed: count(shipment => shipment.status === 'completed' && !!shipment.result?.delayDetected),
+    notified: count(
+      shipment => shipment.status === 'completed' && !!shipment.result?.notificationSent
+    ),
+    failed: count(shipment => shipment.status === 'failed'),
+    shipments: shipments.map(shipment => ({ ...shipment })),
+  };
+}
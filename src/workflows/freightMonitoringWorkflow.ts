@@ -0,0 +1,284 @@
+import { condition, continueAsNew, workflowInfo } from '@temporalio/workflow';
+import {
+  DeliveryMonitoringInput,
+  ManualDelayReport,
+  MonitoringResult,
+  MonitoringState,
+  NotificationRuleDecision,
+  TrafficData,
+  WorkflowResult,
+} from '../types';
+import { fetchTrafficData } from './activityProxies';
+import {
+  decideNotification,
+  getUntrustedTrafficReason,
+  notifyBackOnSchedule,
+  notifyDelay,
+  notifyStopCustomers,
+} from './notificationSteps';
+import { ShipmentTracker, applyManualDelay } from './shipmentTracker';
+
+/**
+ * Freight Delay Monitoring Workflow
+ *
+ * Long-running variant of the delay notification workflow for a single shipment:
+ * 1. Re-fetch traffic data on a fixed interval using durable timers
+ * 2. Notify the recipients only when the notification rules (or, without a matching rule, the
+ *    threshold) call for it, based on trusted (non-mock, sufficiently confident) traffic data;
+ *    customers at intermediate stops are checked against the delay up to their own stop. A
+ *    notified delay is repeated only once it changed enough or reached a higher escalation
+ *    tier, and a single "back on schedule" follow-up is sent once it clears
+ * 3. Stop once the shipment is marked delivered or the expected arrival time
+ *    (plus the current delay) has passed
+ *
+ * While waiting for the next check the workflow reacts to dispatcher signals: a manual
+ * delay report is notified immediately, and marking the shipment delivered ends monitoring.
+ *
+ * The workflow continues as new every MAX_CHECKS_PER_RUN checks so the event
+ * history stays small on multi-day lanes.
+ */
+
+const MAX_CHECKS_PER_RUN = 50;
+
+const createInitialState = (): MonitoringState => ({
+  checksPerformed: 0,
+  notificationsSent: 0,
+  notifications: [],
+  notifiedStops: [],
+});
+
+/**
+ * Freight Delay Monitoring Workflow
+ * @param input - The monitoring input containing route, ETA and poll interval
+ * @param state - State carried over from the previous run (continue-as-new)
+ * @returns Promise<MonitoringResult> - The monitoring summary once the shipment has arrived
+ */
+export async function freightDelayMonitoringWorkflow(
+  input: DeliveryMonitoringInput,
+  state: MonitoringState = createInitialState()
+): Promise<MonitoringResult> {
+  const expectedArrival = Date.parse(input.expectedArrivalTime);
+  if (isNaN(expectedArrival) || input.pollIntervalMinutes <= 0) {
+    return {
+      shipment: input.shipment,
+      delayDetected: false,
+      delayMinutes: 0,
+      notificationSent: false,
+      error: 'Invalid monitoring input: expectedArrivalTime and pollIntervalMinutes are required',
+      checksPerformed: state.checksPerformed,
+      notificationsSent: state.notificationsSent,
+      completionReason: 'invalid_input',
+    };
+  }
+
+  const tracker = new ShipmentTracker(input, state.notifications);
+  tracker.trafficData = state.lastTrafficData;
+  await tracker.loadTenantSettings();
+
+  await tracker.logStep('Monitoring Started', {
+    shipmentId: input.shipment?.shipmentId,
+    tenantId: input.tenantId,
+    route: input.route,
+    customerEmail: input.customerEmail,
+    threshold: tracker.delayThresholdMinutes,
+    expectedArrivalTime: input.expectedArrivalTime,
+    checksPerformed: state.checksPerformed,
+  });
+
+  let checksThisRun = 0;
+
+  while (!tracker.delivered && getRemainingMs(expectedArrival, state) > 0) {
+    if (checksThisRun >= MAX_CHECKS_PER_RUN || workflowInfo().continueAsNewSuggested) {
+      await tracker.logStep('Monitoring Continuing As New', {
+        checksPerformed: state.checksPerformed,
+        notificationsSent: state.notificationsSent,
+      });
+      await continueAsNew<typeof freightDelayMonitoringWorkflow>(
+        {
+          ...input,
+          customerEmail: tracker.customerEmail,
+          customerPhone: tracker.customerPhone,
+          recipients: tracker.recipients,
+        },
+        state
+      );
+    }
+
+    await checkTraffic(input, state, tracker);
+    checksThisRun++;
+
+    // Wait for the next poll, waking up early for manual delay reports and deliveries
+    let nextCheckAt = Date.now() + input.pollIntervalMinutes * 60 * 1000;
+    while (!tracker.delivered) {
+      const wakeAt = Math.min(nextCheckAt, Date.now() + getRemainingMs(expectedArrival, state));
+      if (wakeAt <= Date.now()) {
+        break;
+      }
+
+      await condition(() => tracker.delivered || !!tracker.pendingManualDelay, wakeAt - Date.now());
+
+      const manualDelay = tracker.takeManualDelay();
+      if (!manualDelay) {
+        break;
+      }
+      await handleManualDelay(input, state, tracker, manualDelay);
+      nextCheckAt = Math.max(nextCheckAt, Date.now());
+    }
+  }
+
+  const delayMinutes = state.lastTrafficData?.estimatedDelayMinutes ?? 0;
+  const completionReason = tracker.delivered ? 'delivered' : 'eta_passed';
+
+  await tracker.logStep(
+    tracker.delivered
+      ? 'Monitoring Complete: Shipment Delivered'
+      : 'Monitoring Complete: ETA Passed',
+    {
+      checksPerformed: state.checksPerformed,
+      notificationsSent: state.notificationsSent,
+      delay: delayMinutes,
+    }
+  );
+
+  return {
+    shipment: input.shipment,
+    delayDetected: state.notificationsSent > 0 || delayMinutes > tracker.delayThresholdMinutes,
+    delayMinutes,
+    notificationSent: state.notificationsSent > 0,
+    message: `Monitoring finished after ${state.checksPerformed} checks. ${state.notificationsSent} notification(s) sent to ${tracker
+      .getRecipients()
+      .map(recipient => recipient.customerEmail)
+      .join(', ')}.`,
+    checksPerformed: state.checksPerformed,
+    notificationsSent: state.notificationsSent,
+    completionReason,
+    smsApproval: state.lastSmsApproval,
+    notificationRule: state.lastNotificationRule,
+  };
+}
+
+/**
+ * Runs a single traffic check and notifies the customer when the delay crosses the threshold
+ * A failed check is logged and skipped, the next poll will try again
+ * @param input - The monitoring input
+ * @param state - The mutable monitoring state
+ * @param tracker - The shipment tracker
+ */
+async function checkTraffic(
+  input: DeliveryMonitoringInput,
+  state: MonitoringState,
+  tracker: ShipmentTracker
+): Promise<void> {
+  state.checksPerformed++;
+
+  let trafficData: TrafficData;
+  try {
+    trafficData = await fetchTrafficData(input.route, input.tenantId);
+  } catch (error) {
+    await tracker.logStep('Monitoring Warning: Traffic Check Failed', {
+      check: state.checksPerformed,
+      error: error instanceof Error ? error.message : 'Unknown error',
+    });
+    return;
+  }
+
+  state.lastTrafficData = trafficData;
+  tracker.trafficData = trafficData;
+
+  const notificationRule: NotificationRuleDecision = await decideNotification(trafficData, tracker);
+  state.lastNotificationRule = notificationRule;
+
+  const untrustedReason = getUntrustedTrafficReason(trafficData, tracker);
+
+  if (!notificationRule.notify) {
+    state.notifiedStops = [];
+    // A suppressed delay has not necessarily cleared, e.g. one a rule notified below the
+    // threshold whose time of day window has ended
+    if (untrustedReason || !notificationRule.delayCleared) {
+      return;
+    }
+
+    const followUp = await notifyBackOnSchedule(trafficData, input, tracker);
+    if (followUp) {
+      await tracker.logStep('Monitoring: Delay Back Below Threshold', {
+        delay: trafficData.estimatedDelayMinutes,
+        followUpSent: followUp.notificationSent,
+      });
+      recordNotificationResult(state, followUp);
+    }
+    return;
+  }
+
+  // Withheld notifications are retried on the next check, which may have better data
+  if (untrustedReason) {
+    await tracker.logStep('Monitoring: Notification Withheld', {
+      check: state.checksPerformed,
+      reason: untrustedReason,
+    });
+    return;
+  }
+
+  // Repeats of a delay the recipients already know about are suppressed
+  const result = await notifyDelay(trafficData, input, tracker);
+  recordNotificationResult(state, result);
+
+  // Intermediate stops cross the threshold on their own, possibly after the destination did
+  const stopResults = await notifyStopCustomers(trafficData, input, tracker, state.notifiedStops);
+  for (const stopResult of stopResults) {
+    if (stopResult.notificationSent) {
+      state.notifiedStops.push(stopResult.stop);
+      state.notificationsSent++;
+    }
+  }
+}
+
+/**
+ * Notifies the customer about a delay reported by a dispatcher
+ * Manual reports are always notified and replace the latest traffic estimate
+ * @param input - The monitoring input
+ * @param state - The mutable monitoring state
+ * @param tracker - The shipment tracker
+ * @param report - The manual delay report
+ */
+async function handleManualDelay(
+  input: DeliveryMonitoringInput,
+  state: MonitoringState,
+  tracker: ShipmentTracker,
+  report: ManualDelayReport
+): Promise<void> {
+  await tracker.logStep('Monitoring: Manual Delay Reported', report);
+
+  const trafficData = applyManualDelay(input, report, state.lastTrafficData);
+  state.lastTrafficData = trafficData;
+  tracker.trafficData = trafficData;
+
+  const result = await notifyDelay(trafficData, input, tracker, report.reason, true);
+  recordNotificationResult(state, result);
+}
+
+/**
+ * Updates the monitoring state with the outcome of a notification attempt
+ * @param state - The mutable monitoring state
+ * @param result - The result of the notification attempt
+ */
+function recordNotificationResult(state: MonitoringState, result: WorkflowResult): void {
+  if (result.smsApproval) {
+    state.lastSmsApproval = result.smsApproval;
+  }
+  if (result.notificationSent) {
+    state.notificationsSent += (result.recipients || [result]).filter(
+      recipient => recipient.notificationSent
+    ).length;
+  }
+}
+
+/**
+ * Time left until the shipment is expected to arrive, including the latest known delay
+ * @param expectedArrival - Planned arrival time in epoch milliseconds
+ * @param state - The monitoring state
+ * @returns number - Remaining milliseconds (zero or negative once the ETA has passed)
+ */
+function getRemainingMs(expectedArrival: number, state: MonitoringState): number {
+  const delayMs = (state.lastTrafficData?.estimatedDelayMinutes ?? 0) * 60 * 1000;
+  return expectedArrival + delayMs - Date.now();
+}
@@ -0,0 +1,7 @@
+/**
+ * Workflow registry loaded by the Temporal worker
+ * Only workflow functions may be exported from this module
+ */
+export { freightDelayNotificationWorkflow } from './freightDelayWorkflow';
+export { freightDelayMonitoringWorkflow } from './freightMonitoringWorkflow';
+export { freightManifestWorkflow } from './freightManifestWorkflow';
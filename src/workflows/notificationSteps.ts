@@ -0,0 +1,888 @@
+import { ActivityFailure, condition, workflowInfo } from '@temporalio/workflow';
+import {
+  DelayNotificationInput,
+  DelaySeverity,
+  DeliveryEta,
+  NotificationChannel,
+  NotificationDecision,
+  NotificationRecipient,
+  NotificationRuleDecision,
+  RecipientNotificationResult,
+  WorkflowResult,
+  TrafficData,
+  AIMessageRequest,
+  AIMessageResponse,
+  NotificationRequest,
+  NotificationResponse,
+  MessageValidationResult,
+  SmsApprovalRecord,
+  StopContact,
+  StopNotificationResult,
+} from '../types';
+import {
+  generateAIMessage,
+  createFallbackAIMessage,
+  validateAIMessage,
+  sendDelayNotification,
+  sendSMSNotification,
+  sendWebhookNotification,
+  recordWebhookDeadLetter,
+  createNotificationRequest,
+  createAIMessageRequest,
+  getTrafficDataToStop,
+  evaluateNotificationRules,
+  getDelaySeverity,
+  calculateDeliveryEta,
+  getQuietHoursHoldMinutes,
+  createBackOnScheduleRequest,
+  evaluateNotificationState,
+  recordNotificationState,
+  clearNotificationState,
+} from './activityProxies';
+import { ShipmentTracker } from './shipmentTracker';
+
+// Used when neither the input nor the tenant's settings set minTrafficConfidence
+const DEFAULT_MIN_TRAFFIC_CONFIDENCE = 0.6;
+
+// A message rejected by the guardrails is regenerated once before using the fallback
+const MAX_MESSAGE_ATTEMPTS = 2;
+
+// Recipients without channel preferences get email, with SMS as the fallback
+const DEFAULT_CHANNELS: NotificationChannel[] = ['email', 'sms'];
+
+const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  email: 'Email',
+  sms: 'SMS',
+  webhook: 'Webhook',
+};
+
+const SENDERS: Record<
+  NotificationChannel,
+  (request: NotificationRequest) => Promise<NotificationResponse>
+> = {
+  email: request => sendDelayNotification(request),
+  sms: request => sendSMSNotification(request),
+  webhook: request => sendWebhookNotification(request),
+};
+
+const SEVERITY_ORDER: DelaySeverity[] = ['low', 'medium', 'high', 'critical'];
+
+interface ChannelFailure {
+  channel: NotificationChannel;
+  error?: string;
+}
+
+// Outcome of delivering a notification on a recipient's channels
+interface ChannelDelivery {
+  channel?: NotificationChannel; // Channel the notification was delivered on, if any
+  failures: ChannelFailure[];
+  smsApproval?: SmsApprovalRecord;
+}
+
+/**
+ * Checks whether traffic data is trustworthy enough to notify a customer
+ * Mock data is never trusted; other data must meet the input's or tenant's minimum confidence
+ * @param trafficData - The traffic data behind the delay
+ * @param tracker - The shipment tracker holding the minimum confidence
+ * @returns string | undefined - Why the data cannot be used, or undefined when it can
+ */
+export function getUntrustedTrafficReason(
+  trafficData: TrafficData,
+  tracker: ShipmentTracker
+): string | undefined {
+  if (trafficData.source === 'mock') {
+    return 'traffic data is mock data';
+  }
+
+  const minConfidence = tracker.minTrafficConfidence ?? DEFAULT_MIN_TRAFFIC_CONFIDENCE;
+  if (trafficData.confidence < minConfidence) {
+    return `${trafficData.source} traffic data confidence ${trafficData.confidence.toFixed(2)} is below ${minConfidence}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Decides whether a delay should be notified from the customer's and tenant's notification
+ * rules, falling back to the delay threshold
+ * @param trafficData - The traffic data behind the delay
+ * @param tracker - The shipment tracker holding the tenant, customer tier and threshold
+ * @param stopContact - Optional customer at an intermediate stop; the shipment's customer tier
+ * and delivery appointment only apply at the destination
+ * @returns Promise<NotificationRuleDecision> - Whether to notify, the deciding rule and why
+ */
+export async function decideNotification(
+  trafficData: TrafficData,
+  tracker: ShipmentTracker,
+  stopContact?: StopContact
+): Promise<NotificationRuleDecision> {
+  const recipient = stopContact ?? tracker.getRecipient();
+  return evaluateNotificationRules(trafficData, {
+    thresholdMinutes: tracker.delayThresholdMinutes,
+    customerEmail: recipient.customerEmail,
+    tenantId: tracker.tenantId,
+    customerTier: stopContact ? undefined : tracker.customerTier,
+    expectedArrivalTime: recipient.expectedArrivalTime,
+    timeZone: recipient.timeZone,
+    deliveryAppointment: stopContact ? undefined : tracker.deliveryAppointment,
+  });
+}
+
+/**
+ * Notification steps shared by the freight workflows
+ * Skips delays below the recipient's minimum severity, calculates the new ETA in the
+ * destination's time zone, holds non-urgent notifications during the recipient's quiet hours,
+ * generates the AI message, validates it with the guardrails and delivers it on the
+ * recipient's preferred channels, trying the next channel when one fails
+ * When the input requires SMS approval, an SMS fallback waits for an operator decision
+ * @param trafficData - The traffic data that exceeded the delay threshold
+ * @param tracker - The shipment tracker holding the current customer contact
+ * @param delayReason - Optional reason for the delay (e.g. from a manual report)
+ * @param recipient - The recipient, defaults to the shipment's customer at the destination
+ * @returns Promise<WorkflowResult> - The result of the notification attempt
+ */
+export async function notifyCustomer(
+  trafficData: TrafficData,
+  tracker: ShipmentTracker,
+  delayReason?: string,
+  recipient: NotificationRecipient = tracker.getRecipient()
+): Promise<WorkflowResult> {
+  const { customerEmail, locale } = recipient;
+  const severity: DelaySeverity = await getDelaySeverity(
+    trafficData.estimatedDelayMinutes,
+    tracker.tenantId
+  );
+  if (recipient.minSeverity && !meetsMinSeverity(severity, recipient.minSeverity)) {
+    await tracker.logStep('Notification Skipped: Below Minimum Severity', {
+      customer: customerEmail,
+      severity,
+      minSeverity: recipient.minSeverity,
+    });
+    return {
+      delayDetected: true,
+      delayMinutes: trafficData.estimatedDelayMinutes,
+      notificationSent: false,
+      message: `Notification skipped: ${severity} severity delay is below the minimum severity (${recipient.minSeverity}) of ${customerEmail}.`,
+      severity,
+    };
+  }
+
+  const eta: DeliveryEta = await calculateDeliveryEta(
+    trafficData,
+    recipient.expectedArrivalTime,
+    recipient.timeZone
+  );
+
+  const delivered = await holdForQuietHours(trafficData, tracker, recipient, eta);
+  if (delivered) {
+    return {
+      delayDetected: true,
+      delayMinutes: trafficData.estimatedDelayMinutes,
+      notificationSent: false,
+      error: `Shipment was delivered while the notification to ${customerEmail} was held for quiet hours`,
+      eta,
+      severity,
+    };
+  }
+
+  await tracker.logStep('Step 3: Generating AI Message');
+  const aiRequest: AIMessageRequest = await createAIMessageRequest(
+    trafficData,
+    delayReason,
+    locale,
+    eta,
+    tracker.tenantId
+  );
+  const aiResponse = await generateValidatedMessage(aiRequest, tracker);
+
+  await tracker.logStep('Step 4: Sending Notification');
+  const notificationRequest: NotificationRequest = {
+    ...(await createNotificationRequest(
+      customerEmail,
+      aiResponse.message,
+      trafficData.estimatedDelayMinutes,
+      locale,
+      eta,
+      tracker.shipment,
+      tracker.tenantId
+    )),
+    customerPhone: recipient.customerPhone,
+    webhookUrl: recipient.webhookUrl,
+    correlationId: workflowInfo().workflowId,
+    shipmentId: getShipmentId(tracker),
+    trafficData,
+  };
+
+  const { channel, failures, smsApproval } = await deliverOnChannels(
+    notificationRequest,
+    recipient,
+    tracker
+  );
+  if (channel) {
+    return {
+      delayDetected: true,
+      delayMinutes: trafficData.estimatedDelayMinutes,
+      notificationSent: true,
+      message:
+        failures.length === 0
+          ? `Delay notification sent successfully. Customer ${customerEmail} has been notified of ${trafficData.estimatedDelayMinutes} minute delay.`
+          : `Delay notification sent via ${CHANNEL_LABELS[channel]} after ${failures.map(failure => failure.channel).join(' and ')} failed. Customer notified of ${trafficData.estimatedDelayMinutes} minute delay.`,
+      smsApproval,
+      eta,
+      severity,
+      channel,
+    };
+  }
+
+  return {
+    delayDetected: true,
+    delayMinutes: trafficData.estimatedDelayMinutes,
+    notificationSent: false,
+    error: describeFailures(failures),
+    smsApproval,
+    eta,
+    severity,
+  };
+}
+
+/**
+ * Notifies everyone at the destination about the delay, each on their preferred channels
+ * Recipients are notified concurrently, so one recipient's quiet hours or SMS approval do not
+ * hold back the others
+ * @param trafficData - The traffic data that exceeded the delay threshold
+ * @param tracker - The shipment tracker holding the recipients
+ * @param delayReason - Optional reason for the delay (e.g. from a manual report)
+ * @param recipients - The recipients, defaults to the shipment's recipients
+ * @returns Promise<WorkflowResult> - The combined result with one entry per recipient
+ */
+export async function notifyRecipients(
+  trafficData: TrafficData,
+  tracker: ShipmentTracker,
+  delayReason?: string,
+  recipients: NotificationRecipient[] = tracker.getRecipients()
+): Promise<WorkflowResult> {
+  const results = await Promise.all(
+    recipients.map(recipient => notifyCustomer(trafficData, tracker, delayReason, recipient))
+  );
+  const recipientResults: RecipientNotificationResult[] = results.map((result, i) => ({
+    name: recipients[i].name,
+    customerEmail: recipients[i].customerEmail,
+    notificationSent: result.notificationSent,
+    channel: result.channel,
+    message: result.message,
+    error: result.error,
+    eta: result.eta,
+  }));
+
+  if (results.length === 1) {
+    return { ...results[0], recipients: recipientResults };
+  }
+
+  const sentCount = results.filter(result => result.notificationSent).length;
+  const errors = recipientResults
+    .filter(result => result.error)
+    .map(result => `${result.name || result.customerEmail}: ${result.error}`);
+
+  return {
+    delayDetected: true,
+    delayMinutes: trafficData.estimatedDelayMinutes,
+    notificationSent: sentCount > 0,
+    message: `Delay notification sent to ${sentCount} of ${results.length} recipients.`,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+    smsApproval: results.find(result => result.smsApproval)?.smsApproval,
+    eta: results[0].eta,
+    severity: results[0].severity,
+    recipients: recipientResults,
+  };
+}
+
+/**
+ * Notifies the recipients about a delay over the threshold, unless they already know about it
+ * A delay the recipients were notified about is repeated only once it changed by the repeat
+ * change minutes; reaching a higher escalation tier switches the recipients to the tier's
+ * channels and adds the tier's recipients. Delays reported by a dispatcher are always notified
+ * @param trafficData - The traffic data that exceeded the delay threshold
+ * @param input - The workflow input with the notification policy
+ * @param tracker - The shipment tracker holding the recipients
+ * @param delayReason - Optional reason for the delay (e.g. from a manual report)
+ * @param force - Whether to notify even when the delay would be suppressed
+ * @returns Promise<WorkflowResult> - The combined result, with the notification action taken
+ */
+export async function notifyDelay(
+  trafficData: TrafficData,
+  input: DelayNotificationInput,
+  tracker: ShipmentTracker,
+  delayReason?: string,
+  force = false
+): Promise<WorkflowResult> {
+  const delayMinutes = trafficData.estimatedDelayMinutes;
+  const decision: NotificationDecision = await evaluateNotificationState(
+    input.route,
+    tracker.customerEmail,
+    delayMinutes,
+    false, // A delay being notified has not cleared
+    input.notificationPolicy,
+    input.shipment?.shipmentId
+  );
+
+  if (decision.action === 'suppress' && !force) {
+    await tracker.logStep('Notification Suppressed: Delay Already Notified', {
+      delay: delayMinutes,
+      previousDelay: decision.previousDelayMinutes,
+      reason: decision.reason,
+    });
+    return {
+      delayDetected: true,
+      delayMinutes,
+      notificationSent: false,
+      message: `Notification suppressed: ${decision.reason}.`,
+      notificationAction: 'suppress',
+    };
+  }
+
+  if (decision.action === 'escalate') {
+    await tracker.logStep('Notification Escalated', {
+      delay: delayMinutes,
+      reason: decision.reason,
+      channels: decision.escalationChannels,
+      addedRecipients: decision.escalationRecipients?.map(recipient => recipient.customerEmail),
+    });
+  }
+
+  const recipients = tracker.getEscalatedRecipients(
+    decision.escalationChannels,
+    decision.escalationRecipients
+  );
+  const result = await notifyRecipients(trafficData, tracker, delayReason, recipients);
+
+  const notifiedRecipients = recipients.filter(
+    (_recipient, i) => result.recipients?.[i]?.notificationSent
+  );
+  if (notifiedRecipients.length > 0) {
+    await recordNotificationState(
+      decision.shipmentKey,
+      delayMinutes,
+      decision.tierIndex,
+      notifiedRecipients
+    );
+  }
+
+  return {
+    ...result,
+    notificationAction: decision.action === 'suppress' ? 'notify' : decision.action,
+  };
+}
+
+/**
+ * Sends a single "back on schedule" follow-up once a notified delay has cleared
+ * Call it only for a delay the notification rules report as cleared; the follow-up is sent
+ * when the delay also dropped below the one that was notified. Everyone who was told about the delay gets the follow-up on their channels, respecting
+ * their quiet hours; the shipment's notification state is cleared afterwards
+ * @param trafficData - The traffic data, with the cleared delay
+ * @param input - The workflow input
+ * @param tracker - The shipment tracker
+ * @returns Promise<WorkflowResult | undefined> - The follow-up result, undefined when no delay was notified
+ */
+export async function notifyBackOnSchedule(
+  trafficData: TrafficData,
+  input: DelayNotificationInput,
+  tracker: ShipmentTracker
+): Promise<WorkflowResult | undefined> {
+  const delayMinutes = trafficData.estimatedDelayMinutes;
+  const decision: NotificationDecision = await evaluateNotificationState(
+    input.route,
+    tracker.customerEmail,
+    delayMinutes,
+    true,
+    input.notificationPolicy,
+    input.shipment?.shipmentId
+  );
+  if (decision.action !== 'back_on_schedule') {
+    return undefined;
+  }
+
+  const recipients = decision.notifiedRecipients || [];
+  await tracker.logStep('Sending Back On Schedule Follow-up', {
+    delay: delayMinutes,
+    previousDelay: decision.previousDelayMinutes,
+    recipients: recipients.map(recipient => recipient.customerEmail),
+  });
+
+  const recipientResults = await Promise.all(
+    recipients.map(recipient => sendBackOnSchedule(trafficData, tracker, recipient))
+  );
+  await clearNotificationState(decision.shipmentKey);
+
+  const sentCount = recipientResults.filter(result => result.notificationSent).length;
+  const errors = recipientResults
+    .filter(result => result.error)
+    .map(result => `${result.name || result.customerEmail}: ${result.error}`);
+
+  return {
+    delayDetected: false,
+    delayMinutes,
+    notificationSent: sentCount > 0,
+    message: `Back on schedule follow-up sent to ${sentCount} of ${recipients.length} recipients after a ${decision.previousDelayMinutes} minute delay was notified.`,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+    notificationAction: 'back_on_schedule',
+    recipients: recipientResults,
+  };
+}
+
+/**
+ * Sends the "back on schedule" follow-up to a recipient who was notified about the delay
+ * @param trafficData - The traffic data, with the delay below the threshold
+ * @param tracker - The shipment tracker
+ * @param recipient - The recipient who was notified about the delay
+ * @returns Promise<RecipientNotificationResult> - The result of the follow-up
+ */
+async function sendBackOnSchedule(
+  trafficData: TrafficData,
+  tracker: ShipmentTracker,
+  recipient: NotificationRecipient
+): Promise<RecipientNotificationResult> {
+  const { name, customerEmail } = recipient;
+  const eta: DeliveryEta = await calculateDeliveryEta(
+    trafficData,
+    recipient.expectedArrivalTime,
+    recipient.timeZone
+  );
+
+  const delivered = await holdForQuietHours(trafficData, tracker, recipient, eta);
+  if (delivered) {
+    return { name, customerEmail, notificationSent: false, eta };
+  }
+
+  const request: NotificationRequest = {
+    ...(await createBackOnScheduleRequest(
+      customerEmail,
+      trafficData.route,
+      trafficData.estimatedDelayMinutes,
+      recipient.locale,
+      eta,
+      tracker.shipment,
+      tracker.tenantId
+    )),
+    customerPhone: recipient.customerPhone,
+    webhookUrl: recipient.webhookUrl,
+    correlationId: workflowInfo().workflowId,
+    shipmentId: getShipmentId(tracker),
+    trafficData,
+  };
+
+  const { channel, failures } = await deliverOnChannels(request, recipient, tracker);
+  return {
+    name,
+    customerEmail,
+    notificationSent: !!channel,
+    channel,
+    error: channel ? undefined : describeFailures(failures),
+    eta,
+  };
+}
+
+/**
+ * Delivers a notification on the recipient's preferred channels, trying the next channel
+ * when one fails or an email bounces
+ * SMS the recipient prefers is sent directly; SMS as a fallback waits for an operator decision
+ * when the input requires SMS approval. Channels the tenant has not enabled are skipped
+ * @param request - The notification request
+ * @param recipient - The recipient and their channel preferences
+ * @param tracker - The shipment tracker
+ * @returns Promise<ChannelDelivery> - The channel that delivered and the failed attempts
+ */
+async function deliverOnChannels(
+  request: NotificationRequest,
+  recipient: NotificationRecipient,
+  tracker: ShipmentTracker
+): Promise<ChannelDelivery> {
+  const { customerEmail } = recipient;
+  const preferred = recipient.channels?.length ? recipient.channels : DEFAULT_CHANNELS;
+  const enabled = tracker.enabledChannels;
+  const channels = enabled ? preferred.filter(channel => enabled.includes(channel)) : preferred;
+  const failures: ChannelFailure[] = [];
+  let smsApproval: SmsApprovalRecord | undefined;
+
+  for (const channel of channels) {
+    if (channel === 'sms' && failures.length > 0 && tracker.smsApprovalPolicy?.required) {
+      await tracker.logStep('Step 4: Awaiting SMS Approval', {
+        customer: customerEmail,
+        timeoutMinutes: tracker.smsApprovalPolicy.timeoutMinutes,
+        defaultAction: tracker.smsApprovalPolicy.defaultAction,
+      });
+      smsApproval = await tracker.awaitSmsApproval(tracker.smsApprovalPolicy);
+      await tracker.logStep('Step 4: SMS Approval Decision Received', smsApproval);
+
+      if (smsApproval.decision === 'rejected') {
+        failures.push({ channel, error: `fallback rejected by ${smsApproval.decidedBy}` });
+        continue;
+      }
+    }
+
+    const response = await send(channel, request);
+    if (response.success) {
+      await tracker.logStep('Step 4 Complete: Notification Sent', {
+        channel,
+        kind: request.kind,
+        messageId: response.messageId,
+        customer: customerEmail,
+        deliveryStatus: response.deliveryStatus,
+        segments: response.segments,
+      });
+      tracker.recordNotification({
+        channel,
+        kind: request.kind,
+        recipient: getRecipientAddress(channel, request),
+        messageId: response.messageId,
+        delayMinutes: request.delayMinutes,
+      });
+
+      const bounce =
+        channel === 'email' ? await awaitEmailBounce(response, recipient, tracker) : undefined;
+      if (bounce) {
+        failures.push({ channel, error: bounce });
+        continue;
+      }
+      return { channel, failures, smsApproval };
+    }
+
+    await tracker.logStep('Step 4 Warning: Notification Failed', {
+      channel,
+      customer: customerEmail,
+      error: response.error,
+    });
+    failures.push({ channel, error: response.error });
+  }
+
+  // Disabled channels only count as failures when no enabled channel delivered
+  preferred
+    .filter(channel => !channels.includes(channel))
+    .forEach(channel => failures.push({ channel, error: 'not enabled for the tenant' }));
+
+  await tracker.logStep('Step 4 Failed: All Channels Failed', {
+    customer: customerEmail,
+    failures,
+  });
+
+  return { failures, smsApproval };
+}
+
+/**
+ * Waits for SendGrid to report the email as delivered or undeliverable
+ * Only waits when the input sets emailFeedbackMinutes; an email without a delivery event in
+ * that time is treated as delivered
+ * @param response - The email response with its message ID
+ * @param recipient - The recipient
+ * @param tracker - The shipment tracker receiving the delivery events
+ * @returns Promise<string | undefined> - Why the email was not delivered, undefined when it was
+ */
+async function awaitEmailBounce(
+  response: NotificationResponse,
+  recipient: NotificationRecipient,
+  tracker: ShipmentTracker
+): Promise<string | undefined> {
+  if (!response.messageId || tracker.emailFeedbackMinutes <= 0) {
+    return undefined;
+  }
+
+  const event = await tracker.awaitEmailDeliveryEvent(
+    response.messageId,
+    tracker.emailFeedbackMinutes
+  );
+  if (!event || event.event === 'delivered') {
+    return undefined;
+  }
+
+  await tracker.logStep('Step 4 Warning: Email Not Delivered', {
+    customer: recipient.customerEmail,
+    messageId: response.messageId,
+    event: event.event,
+    reason: event.reason,
+  });
+  return event.reason ? `email ${event.event}: ${event.reason}` : `email ${event.event}`;
+}
+
+/**
+ * Holds a notification while the recipient's quiet hours last, using a durable timer
+ * Urgent delays (see QuietHours.urgentDelayMinutes) are not held; a held notification is
+ * dropped when the shipment is marked delivered in the meantime
+ * @param trafficData - The traffic data behind the delay
+ * @param tracker - The shipment tracker
+ * @param recipient - The recipient and their quiet hours
+ * @param eta - The new estimated arrival, whose time zone the quiet hours default to
+ * @returns Promise<boolean> - Whether the shipment was delivered while the notification was held
+ */
+async function holdForQuietHours(
+  trafficData: TrafficData,
+  tracker: ShipmentTracker,
+  recipient: NotificationRecipient,
+  eta: DeliveryEta
+): Promise<boolean> {
+  if (!recipient.quietHours) {
+    return false;
+  }
+
+  const holdMinutes: number = await getQuietHoursHoldMinutes(
+    recipient.quietHours,
+    eta.timeZone,
+    trafficData.estimatedDelayMinutes
+  );
+  if (holdMinutes <= 0) {
+    return false;
+  }
+
+  await tracker.logStep('Notification Held: Quiet Hours', {
+    customer: recipient.customerEmail,
+    quietHours: recipient.quietHours,
+    holdMinutes: Math.ceil(holdMinutes),
+  });
+  await condition(() => tracker.delivered, holdMinutes * 60 * 1000);
+  await tracker.logStep('Notification Released: Quiet Hours Ended', {
+    customer: recipient.customerEmail,
+    delivered: tracker.delivered,
+  });
+
+  return tracker.delivered;
+}
+
+/**
+ * Notifies the customers at intermediate stops about the delay up to their own stop
+ * Each stop is checked against the notification rules on its own, using the route's legs.
+ * Stops keep their own notification state, so a delay a stop's customer already knows about
+ * is not repeated on re-runs and polls; the state is cleared once the stop's delay clears
+ * @param trafficData - Traffic data for the whole route, including its legs
+ * @param input - The workflow input with the stop contacts
+ * @param tracker - The shipment tracker
+ * @param skipStops - Stops that were already notified about the current delay
+ * @returns Promise<StopNotificationResult[]> - One result per checked stop
+ */
+export async function notifyStopCustomers(
+  trafficData: TrafficData,
+  input: DelayNotificationInput,
+  tracker: ShipmentTracker,
+  skipStops: string[] = []
+): Promise<StopNotificationResult[]> {
+  const results: StopNotificationResult[] = [];
+
+  for (const contact of input.stopContacts || []) {
+    if (skipStops.includes(contact.stop)) {
+      continue;
+    }
+
+    const stopTrafficData: TrafficData | undefined = await getTrafficDataToStop(
+      trafficData,
+      contact.stop
+    );
+    if (!stopTrafficData) {
+      await tracker.logStep('Stop Notification Skipped: Stop Not On Route', contact);
+      results.push({
+        stop: contact.stop,
+        customerEmail: contact.customerEmail,
+        delayMinutes: 0,
+        notificationSent: false,
+        error: `Stop ${contact.stop} is not a waypoint of the route`,
+      });
+      continue;
+    }
+
+    const delayMinutes = stopTrafficData.estimatedDelayMinutes;
+    const notificationRule = await decideNotification(stopTrafficData, tracker, contact);
+    const decision: NotificationDecision = await evaluateNotificationState(
+      input.route,
+      tracker.customerEmail,
+      delayMinutes,
+      !notificationRule.notify,
+      input.notificationPolicy,
+      input.shipment?.shipmentId,
+      contact.stop
+    );
+    if (decision.action === 'back_on_schedule') {
+      await clearNotificationState(decision.shipmentKey);
+    }
+
+    if (!notificationRule.notify || decision.action === 'suppress') {
+      results.push({
+        stop: contact.stop,
+        customerEmail: contact.customerEmail,
+        delayMinutes,
+        notificationSent: false,
+        notificationRule,
+        notificationAction: notificationRule.notify ? 'suppress' : 'none',
+      });
+      continue;
+    }
+
+    await tracker.logStep('Notifying Stop Customer', {
+      stop: contact.stop,
+      customer: contact.customerEmail,
+      delay: delayMinutes,
+      reason: decision.reason,
+    });
+    const result = await notifyCustomer(stopTrafficData, tracker, undefined, {
+      ...contact,
+      locale: contact.locale ?? tracker.locale,
+    });
+    if (result.notificationSent) {
+      await recordNotificationState(decision.shipmentKey, delayMinutes, decision.tierIndex, [
+        contact,
+      ]);
+    }
+    results.push({
+      stop: contact.stop,
+      customerEmail: contact.customerEmail,
+      delayMinutes,
+      notificationSent: result.notificationSent,
+      error: result.error,
+      eta: result.eta,
+      notificationRule,
+      notificationAction: decision.action,
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Generates the AI message and validates it with the guardrails
+ * A rejected message is regenerated once, with the rejection reasons added to the prompt;
+ * a second rejection replaces it with the deterministic fallback message
+ * @param aiRequest - The AI message request
+ * @param tracker - The shipment tracker
+ * @returns Promise<AIMessageResponse> - A message that is safe to send
+ */
+async function generateValidatedMessage(
+  aiRequest: AIMessageRequest,
+  tracker: ShipmentTracker
+): Promise<AIMessageResponse> {
+  let request = aiRequest;
+  let rejectionReasons: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_MESSAGE_ATTEMPTS; attempt++) {
+    const aiResponse = await generateMessage(request);
+    if (!aiResponse.success) {
+      await tracker.logStep('Step 3 Warning: AI Message Generation Failed', {
+        error: aiResponse.error,
+        usingFallback: true,
+      });
+      return aiResponse;
+    }
+
+    const validation: MessageValidationResult = await validateAIMessage(
+      aiResponse.message,
+      aiRequest
+    );
+    if (validation.valid) {
+      await tracker.logStep('Step 3 Complete: AI Message Generated', { usage: aiResponse.usage });
+      return aiResponse;
+    }
+
+    rejectionReasons = validation.reasons;
+    await tracker.logStep('Step 3 Warning: AI Message Rejected', {
+      attempt,
+      reasons: rejectionReasons,
+    });
+    request = { ...aiRequest, rejectionReasons };
+  }
+
+  await tracker.logStep('Step 3 Warning: Using Fallback Message', { reasons: rejectionReasons });
+  return createFallbackAIMessage(
+    aiRequest,
+    `AI message rejected by guardrails: ${rejectionReasons.join('; ')}`
+  );
+}
+
+/**
+ * Sends the notification on a channel, reporting a failure once retries are exhausted
+ * The caller falls back to the recipient's next channel; webhook events that could not be
+ * delivered are dead-lettered
+ * @param channel - The channel to send on
+ * @param request - The notification request
+ * @returns Promise<NotificationResponse> - The email, SMS or webhook response
+ */
+async function send(
+  channel: NotificationChannel,
+  request: NotificationRequest
+): Promise<NotificationResponse> {
+  // A webhook event keeps its creation time across retries and in the dead letter
+  const channelRequest =
+    channel === 'webhook' ? { ...request, createdAt: new Date().toISOString() } : request;
+  let response: NotificationResponse;
+  try {
+    response = await SENDERS[channel](channelRequest);
+  } catch (error) {
+    const cause = error instanceof ActivityFailure ? error.cause : error;
+    response = {
+      success: false,
+      error: cause instanceof Error ? cause.message : `${channel} service unavailable`,
+    };
+  }
+
+  if (channel === 'webhook' && !response.success && request.webhookUrl) {
+    await recordWebhookDeadLetter(channelRequest, response.error || 'Webhook delivery failed');
+  }
+  return response;
+}
+
+/**
+ * The address a notification is sent to on a channel
+ * @param channel - The channel
+ * @param request - The notification request
+ * @returns string - The email address, phone number or webhook URL
+ */
+function getRecipientAddress(channel: NotificationChannel, request: NotificationRequest): string {
+  if (channel === 'sms') {
+    return request.customerPhone || '';
+  }
+  if (channel === 'webhook') {
+    return request.webhookUrl || '';
+  }
+  return request.customerEmail;
+}
+
+/**
+ * Generates the AI message, falling back to the template once retries are exhausted
+ * @param aiRequest - The AI message request
+ * @returns Promise<AIMessageResponse> - The generated or fallback message
+ */
+async function generateMessage(aiRequest: AIMessageRequest): Promise<AIMessageResponse> {
+  try {
+    return await generateAIMessage(aiRequest);
+  } catch (error) {
+    // Retries are exhausted (or the failure is not retryable); notify with a template instead
+    const cause = error instanceof ActivityFailure ? error.cause : error;
+    return createFallbackAIMessage(
+      aiRequest,
+      cause instanceof Error ? cause.message : 'AI service unavailable'
+    );
+  }
+}
+
+/**
+ * Describes why a notification could not be delivered on any channel
+ * @param failures - The failed attempts, one per channel
+ * @returns string - The error message
+ */
+function describeFailures(failures: ChannelFailure[]): string {
+  return `Failed to send notification: ${failures
+    .map(failure => `${CHANNEL_LABELS[failure.channel]} failed (${failure.error})`)
+    .join(', ')}`;
+}
+
+/**
+ * Checks whether a delay is severe enough for a recipient
+ * @param severity - The delay's severity
+ * @param minSeverity - The recipient's minimum severity
+ * @returns boolean - Whether the recipient should be notified
+ */
+function meetsMinSeverity(severity: DelaySeverity, minSeverity: DelaySeverity): boolean {
+  return SEVERITY_ORDER.indexOf(severity) >= SEVERITY_ORDER.indexOf(minSeverity);
+}
+
+/**
+ * The shipment notifications are recorded under in the audit log
+ * @param tracker - The shipment tracker
+ * @returns string - The shipment ID, falling back to the workflow ID for shipments without one
+ */
+function getShipmentId(tracker: ShipmentTracker): string {
+  return tracker.shipment?.shipmentId ?? workflowInfo().workflowId;
+}
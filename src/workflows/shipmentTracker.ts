@@ -0,0 +1,311 @@
+import { condition, setHandler } from '@temporalio/workflow';
+import {
+  CustomerContactUpdate,
+  DelayNotificationInput,
+  DeliveryAppointment,
+  EmailDeliveryEvent,
+  ManualDelayReport,
+  NotificationChannel,
+  NotificationRecipient,
+  SentNotification,
+  ShipmentReference,
+  SmsApprovalDecision,
+  SmsApprovalPolicy,
+  SmsApprovalRecord,
+  TenantSettings,
+  TrafficData,
+} from '../types';
+import { getTenantSettings, logWorkflowStep } from './activityProxies';
+import {
+  reportManualDelaySignal,
+  markDeliveredSignal,
+  updateCustomerContactSignal,
+  smsApprovalDecisionSignal,
+  emailDeliveryEventSignal,
+  getTrafficDataQuery,
+  getNotificationsQuery,
+  getCurrentStepQuery,
+} from './signals';
+
+/**
+ * Live state of a shipment workflow
+ * Registers the signal and query handlers so dispatchers can act on a running shipment, and
+ * holds the settings of the tenant the shipment is notified for
+ */
+export class ShipmentTracker {
+  currentStep = 'Workflow Started';
+  shipment?: ShipmentReference;
+  tenantId?: string;
+  customerTier?: string;
+  deliveryAppointment?: DeliveryAppointment;
+  customerEmail: string;
+  customerPhone?: string;
+  recipients?: NotificationRecipient[]; // Recipients at the destination, with contact updates
+  locale?: string;
+  trafficData?: TrafficData;
+  notifications: SentNotification[];
+  pendingManualDelay?: ManualDelayReport;
+  delivered = false;
+  smsApprovalPolicy?: SmsApprovalPolicy;
+  emailFeedbackMinutes: number;
+  delayThresholdMinutes: number;
+  minTrafficConfidence?: number;
+  enabledChannels?: NotificationChannel[]; // Channels the tenant notifies on; all until loaded
+  private input: DelayNotificationInput;
+  private pendingSmsApprovals = 0;
+  private smsApprovalDecisions: SmsApprovalDecision[] = []; // Oldest first
+  private emailDeliveryEvents: Record<string, EmailDeliveryEvent> = {};
+
+  constructor(input: DelayNotificationInput, notifications: SentNotification[] = []) {
+    this.input = input;
+    this.shipment = input.shipment;
+    this.tenantId = input.tenantId;
+    this.customerTier = input.customerTier;
+    this.deliveryAppointment = input.deliveryAppointment;
+    this.customerEmail = input.customerEmail;
+    this.customerPhone = input.customerPhone;
+    this.recipients = input.recipients;
+    this.locale = input.locale;
+    this.notifications = notifications;
+    this.smsApprovalPolicy = input.smsApproval;
+    this.emailFeedbackMinutes = input.emailFeedbackMinutes ?? 0;
+    this.delayThresholdMinutes = input.delayThresholdMinutes ?? 0;
+    this.minTrafficConfidence = input.minTrafficConfidence;
+
+    setHandler(reportManualDelaySignal, report => {
+      this.pendingManualDelay = report;
+    });
+    setHandler(markDeliveredSignal, () => {
+      this.delivered = true;
+    });
+    setHandler(updateCustomerContactSignal, update => this.updateContact(update));
+    setHandler(smsApprovalDecisionSignal, decision => {
+      // Decisions are only meaningful while an approval is pending without one
+      if (this.smsApprovalDecisions.length < this.pendingSmsApprovals) {
+        this.smsApprovalDecisions.push(decision);
+      }
+    });
+    setHandler(emailDeliveryEventSignal, event => {
+      this.emailDeliveryEvents[event.messageId] = event;
+    });
+
+    setHandler(getTrafficDataQuery, () => this.trafficData);
+    setHandler(getNotificationsQuery, () => this.notifications);
+    setHandler(getCurrentStepQuery, () => this.currentStep);
+  }
+
+  /**
+   * Resolves the tenant's threshold, traffic confidence and enabled channels
+   * Thresholds set on the input take precedence over the tenant's
+   * @returns Promise<TenantSettings> - The tenant's settings
+   */
+  async loadTenantSettings(): Promise<TenantSettings> {
+    const settings: TenantSettings = await getTenantSettings(this.tenantId);
+    this.delayThresholdMinutes = this.input.delayThresholdMinutes ?? settings.delayThresholdMinutes;
+    this.minTrafficConfidence = this.input.minTrafficConfidence ?? settings.minTrafficConfidence;
+    this.enabledChannels = settings.channels;
+    return settings;
+  }
+
+  /**
+   * Replaces the customer's contact for future notifications
+   * With a recipients list, the update applies to the primary recipient: the one with the
+   * customer's email, or the first one when none has it
+   * @param update - The new email, and phone when given
+   */
+  updateContact(update: CustomerContactUpdate): void {
+    if (this.recipients && this.recipients.length > 0) {
+      const customerEmail = this.customerEmail.toLowerCase();
+      const primaryIndex = Math.max(
+        this.recipients.findIndex(
+          recipient => recipient.customerEmail.toLowerCase() === customerEmail
+        ),
+        0
+      );
+      const primary = this.recipients[primaryIndex];
+      this.recipients = [...this.recipients];
+      this.recipients[primaryIndex] = {
+        ...primary,
+        customerEmail: update.customerEmail,
+        customerPhone: update.customerPhone ?? primary.customerPhone,
+      };
+    }
+    this.customerEmail = update.customerEmail;
+    this.customerPhone = update.customerPhone ?? this.customerPhone;
+  }
+
+  /**
+   * Records the current step and logs it through the logging activity
+   * @param stepName - The name of the workflow step
+   * @param data - Optional data to log
+   */
+  async logStep(stepName: string, data?: unknown): Promise<void> {
+    this.currentStep = stepName;
+    await logWorkflowStep(stepName, data);
+  }
+
+  /**
+   * The shipment's customer as a notification recipient at the destination
+   * @returns NotificationRecipient - Current contact, locale, planned arrival and quiet hours
+   */
+  getRecipient(): NotificationRecipient {
+    return {
+      customerEmail: this.customerEmail,
+      customerPhone: this.customerPhone,
+      locale: this.locale,
+      expectedArrivalTime: this.input.expectedArrivalTime,
+      timeZone: this.input.destinationTimeZone,
+      quietHours: this.input.quietHours,
+    };
+  }
+
+  /**
+   * Everyone notified at the destination
+   * Recipients inherit the shipment's locale, planned arrival and destination time zone;
+   * without a recipients list, the shipment's customer is the only recipient
+   * @returns NotificationRecipient[] - The recipients with their channel preferences
+   */
+  getRecipients(): NotificationRecipient[] {
+    if (!this.recipients || this.recipients.length === 0) {
+      return [this.getRecipient()];
+    }
+
+    return this.recipients.map(recipient => this.withShipmentDefaults(recipient));
+  }
+
+  /**
+   * The recipients for a delay that reached escalation tiers
+   * @param channels - Optional channels replacing every recipient's preferences
+   * @param additionalRecipients - Recipients the tiers add, with the shipment's defaults
+   * @returns NotificationRecipient[] - The shipment's recipients followed by the added ones
+   */
+  getEscalatedRecipients(
+    channels?: NotificationChannel[],
+    additionalRecipients: NotificationRecipient[] = []
+  ): NotificationRecipient[] {
+    const recipients = [
+      ...this.getRecipients(),
+      ...additionalRecipients.map(recipient => this.withShipmentDefaults(recipient)),
+    ];
+    return channels ? recipients.map(recipient => ({ ...recipient, channels })) : recipients;
+  }
+
+  /**
+   * Takes the pending manual delay report, if any, so it is handled only once
+   * @returns ManualDelayReport | undefined - The pending report
+   */
+  takeManualDelay(): ManualDelayReport | undefined {
+    const report = this.pendingManualDelay;
+    this.pendingManualDelay = undefined;
+    return report;
+  }
+
+  /**
+   * Waits for an operator to approve or reject the SMS fallback
+   * Decisions are queued and each settles one pending approval, in the order they arrived, so
+   * recipients notified concurrently get one decision each. Applies the policy's default action
+   * when no decision arrives before the timeout
+   * @param policy - The SMS approval policy
+   * @returns Promise<SmsApprovalRecord> - The decision, who made it and when
+   */
+  async awaitSmsApproval(policy: SmsApprovalPolicy): Promise<SmsApprovalRecord> {
+    this.pendingSmsApprovals++;
+    const deadline = Date.now() + policy.timeoutMinutes * 60 * 1000;
+    let decision: SmsApprovalDecision | undefined;
+    // A decision wakes every waiting approval at once; those finding the queue already taken
+    // keep waiting for the rest of their timeout
+    while (!decision && Date.now() < deadline) {
+      const decided = await condition(
+        () => this.smsApprovalDecisions.length > 0,
+        deadline - Date.now()
+      );
+      if (!decided) {
+        break;
+      }
+      decision = this.smsApprovalDecisions.shift();
+    }
+    this.pendingSmsApprovals--;
+
+    const decidedAt = new Date().toISOString();
+    if (decision) {
+      return {
+        decision: decision.approved ? 'approved' : 'rejected',
+        decidedBy: decision.decidedBy,
+        decidedAt,
+        timedOut: false,
+      };
+    }
+
+    return {
+      decision: policy.defaultAction === 'approve' ? 'approved' : 'rejected',
+      decidedBy: 'system (approval timeout)',
+      decidedAt,
+      timedOut: true,
+    };
+  }
+
+  /**
+   * Waits for SendGrid to report whether an email was delivered
+   * @param messageId - The email's message ID
+   * @param timeoutMinutes - How long to wait for a delivery event
+   * @returns Promise<EmailDeliveryEvent | undefined> - The delivery event, undefined when none arrived in time
+   */
+  async awaitEmailDeliveryEvent(
+    messageId: string,
+    timeoutMinutes: number
+  ): Promise<EmailDeliveryEvent | undefined> {
+    await condition(() => !!this.emailDeliveryEvents[messageId], timeoutMinutes * 60 * 1000);
+    return this.emailDeliveryEvents[messageId];
+  }
+
+  /**
+   * Records a notification that was delivered to the customer
+   * @param notification - The notification details
+   */
+  recordNotification(notification: Omit<SentNotification, 'sentAt'>): void {
+    this.notifications.push({ ...notification, sentAt: new Date().toISOString() });
+  }
+
+  /**
+   * Fills in the shipment's locale, planned arrival and destination time zone
+   * @param recipient - The recipient
+   * @returns NotificationRecipient - The recipient with the shipment's defaults
+   */
+  private withShipmentDefaults(recipient: NotificationRecipient): NotificationRecipient {
+    return {
+      locale: this.locale,
+      expectedArrivalTime: this.input.expectedArrivalTime,
+      timeZone: this.input.destinationTimeZone,
+      ...recipient,
+    };
+  }
+}
+
+/**
+ * Builds traffic data from a manual delay report
+ * Durations are taken from the latest traffic check when one is available
+ * A manual report has no per-leg breakdown, so only the shipment's customer is notified
+ * @param input - The workflow input
+ * @param report - The manual delay report
+ * @param latest - The latest traffic data, if any
+ * @returns TrafficData - Traffic data reflecting the reported delay
+ */
+export function applyManualDelay(
+  input: DelayNotificationInput,
+  report: ManualDelayReport,
+  latest?: TrafficData
+): TrafficData {
+  const normalDurationMinutes = latest?.normalDurationMinutes ?? 0;
+
+  return {
+    estimatedDelayMinutes: report.delayMinutes,
+    normalDurationMinutes,
+    currentDurationMinutes: normalDurationMinutes + report.delayMinutes,
+    trafficCondition: latest?.trafficCondition ?? 'moderate',
+    legs: [],
+    route: input.route,
+    provider: 'manual',
+    source: 'manual',
+    confidence: 1,
+  };
+}
@@ -0,0 +1,32 @@
+import { defineQuery, defineSignal } from '@temporalio/workflow';
+import {
+  CustomerContactUpdate,
+  EmailDeliveryEvent,
+  ManifestRetryRequest,
+  ManifestSummary,
+  ManualDelayReport,
+  SentNotification,
+  SmsApprovalDecision,
+  TrafficData,
+} from '../types';
+
+/**
+ * Signal and query definitions for live shipment and manifest workflows
+ * Shared by the workflows (handlers) and clients (senders)
+ */
+
+// Signals
+export const reportManualDelaySignal = defineSignal<[ManualDelayReport]>('reportManualDelay');
+export const markDeliveredSignal = defineSignal('markDelivered');
+export const updateCustomerContactSignal =
+  defineSignal<[CustomerContactUpdate]>('updateCustomerContact');
+export const smsApprovalDecisionSignal = defineSignal<[SmsApprovalDecision]>('smsApprovalDecision');
+export const emailDeliveryEventSignal = defineSignal<[EmailDeliveryEvent]>('emailDeliveryEvent');
+export const retryManifestShipmentsSignal =
+  defineSignal<[ManifestRetryRequest]>('retryManifestShipments');
+
+// Queries
+export const getTrafficDataQuery = defineQuery<TrafficData | undefined>('getTrafficData');
+export const getNotificationsQuery = defineQuery<SentNotification[]>('getNotifications');
+export const getCurrentStepQuery = defineQuery<string>('getCurrentStep');
+export const getManifestSummaryQuery = defineQuery<ManifestSummary>('getManifestSummary');